@@ -3,8 +3,7 @@
 import { Command } from "commander";
 import chalk from "chalk";
 import { BesuConfigurator } from "./services/BesuConfigurator";
-import { ConnectivityService } from "./utils/ConnectivityService";
-import { TelemetryService } from "./utils/TelemetryService";
+import { ConnectivityService, TelemetryService } from "orchestrator-core";
 
 const program = new Command();
 
@@ -46,6 +45,11 @@ program
         console.log("----------------------------------------");
         console.log(`Azure API: ${connectionState.azureConnected ? chalk.green('Connected ✅') : chalk.yellow('Disconnected ⚠️')}`);
         console.log(`Besu Network: ${connectionState.besuAvailable ? chalk.green('Available ✅') : chalk.yellow('Unavailable ⚠️')}`);
+        connectionState.besuNodes?.forEach(node => {
+            const status = node.healthy ? chalk.green('Healthy ✅') : chalk.yellow(`${node.problems.join(', ')} ⚠️`);
+            const detail = node.reachable ? ` (block ${node.blockNumber}, ${node.peerCount} peers, ${node.validators?.length ?? '?'} validators)` : '';
+            console.log(`  ${node.endpoint}: ${status}${detail}`);
+        });
 
         if (connectionState.messages.length > 0) {
             console.log(chalk.yellow("\n⚠️ Warnings:"));
@@ -2,8 +2,7 @@ import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
 import { BesuConfigurator } from "./BesuConfigurator";
 import * as fs from "fs";
 import * as path from "path";
-import { ConnectivityService } from "../utils/ConnectivityService";
-import { executeWithRetry } from "../utils/RetryUtils";
+import { ConnectivityService, executeWithRetry } from "orchestrator-core";
 
 // Mock fs module completely
 vi.mock("fs", () => {
@@ -24,8 +23,8 @@ vi.mock("path", () => ({
     dirname: vi.fn().mockReturnValue("test-dir")
 }));
 
-// Mock ConnectivityService
-vi.mock("../utils/ConnectivityService", () => ({
+// Mock the shared core package: connectivity, telemetry, and executeWithRetry directly executing the function
+vi.mock("orchestrator-core", () => ({
     ConnectivityService: {
         checkConnections: vi.fn().mockResolvedValue({
             azureConnected: true,
@@ -34,20 +33,12 @@ vi.mock("../utils/ConnectivityService", () => ({
         }),
         verifyFileExists: vi.fn().mockReturnValue(true),
         logConnectionStatus: vi.fn()
-    }
-}));
-
-// Mock TelemetryService
-vi.mock("../utils/TelemetryService", () => ({
+    },
     TelemetryService: {
         trackEvent: vi.fn(),
         trackException: vi.fn(),
         initialize: vi.fn()
-    }
-}));
-
-// Mock executeWithRetry to directly execute the function
-vi.mock("../utils/RetryUtils", () => ({
+    },
     executeWithRetry: vi.fn().mockImplementation(async (fn) => {
         try {
             return await fn();
@@ -1,9 +1,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import chalk from "chalk";
-import { ConnectivityService, ConnectionState } from "../utils/ConnectivityService";
-import { TelemetryService } from "../utils/TelemetryService";
-import { executeWithRetry } from "../utils/RetryUtils";
+import { ConnectivityService, ConnectionState, TelemetryService, executeWithRetry } from "orchestrator-core";
 
 /**
  * BesuConfigurator manages the lifecycle of Hyperledger Besu nodes:
@@ -17,7 +15,7 @@ export class BesuConfigurator {
 
     constructor() {
         // Initialize telemetry
-        TelemetryService.initialize();
+        TelemetryService.initialize("blockchain-config");
 
         if (!fs.existsSync(this.versionHistoryDir)) {
             fs.mkdirSync(this.versionHistoryDir, { recursive: true });
@@ -1,6 +1,6 @@
 import React from 'react';
-import { describe, it, expect, vi, beforeAll } from 'vitest';
-import { render } from '@testing-library/react';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { fireEvent, render } from '@testing-library/react';
 import { JSDOM } from 'jsdom';
 import QuotaMatrix from './QuotaMatrix';
 
@@ -12,35 +12,56 @@ beforeAll(() => {
     global.window = dom.window;
 });
 
-// Mock axios
-vi.mock('axios', () => ({
-    default: {
-        get: vi.fn().mockResolvedValue({
-            data: {
-                'eastus': {
-                    'Standard_D2s_v3': {
-                        total: 10,
-                        used: 5,
-                        available: 5,
-                        assigned_to: ['validator']
-                    }
-                },
-                'westus': {
-                    'Standard_D8s_v3': {
-                        total: 15,
-                        used: 12,
-                        available: 3,
-                        assigned_to: ['validator', 'network']
-                    }
+// Answer the SDK's quota matrix request
+beforeEach(() => {
+    vi.mocked(fetch).mockResolvedValue(new Response(JSON.stringify({
+        data: {
+            'eastus': {
+                'Standard_D2s_v3': {
+                    total: 10,
+                    used: 5,
+                    available: 5,
+                    assigned_to: ['validator']
+                }
+            },
+            'westus': {
+                'Standard_D8s_v3': {
+                    total: 15,
+                    used: 12,
+                    available: 3,
+                    assigned_to: ['validator', 'network']
                 }
             }
-        })
-    }
-}));
+        },
+        meta: { timestamp: '2025-04-04T12:00:00.000Z', lastRefresh: null }
+    })));
+});
 
 describe('QuotaMatrix', () => {
     it('renders without crashing', () => {
         // Just test that rendering doesn't throw an error
         expect(() => render(<QuotaMatrix />)).not.toThrow();
     });
+
+    it('renders the quota matrix fetched through the SDK', async () => {
+        const { findByText } = render(<QuotaMatrix />);
+
+        expect(await findByText('5/10 (50% free)')).toBeInTheDocument();
+        expect(vi.mocked(fetch).mock.calls[0][0]).toBe('/api/quotas/matrix');
+    });
+
+    it('asks for a credential when the API needs one and sends it from then on', async () => {
+        vi.mocked(fetch).mockResolvedValueOnce(new Response(JSON.stringify({
+            error: 'Unauthorized', code: 'UNAUTHENTICATED', message: 'Send an API key (X-API-Key) or a bearer token'
+        }), { status: 401 }));
+        const { findByText, container } = render(<QuotaMatrix />);
+
+        await findByText(/needs a credential/);
+        fireEvent.change(container.querySelector('input[type="password"]') as HTMLInputElement, { target: { value: 'viewer-key' } });
+        fireEvent.click(await findByText('Sign in'));
+
+        expect(await findByText('5/10 (50% free)')).toBeInTheDocument();
+        expect(vi.mocked(fetch).mock.lastCall?.[1]?.headers).toMatchObject({ 'X-API-Key': 'viewer-key' });
+        expect(sessionStorage.getItem('orchestrator.credential')).toBe('viewer-key');
+    });
 });
\ No newline at end of file
@@ -1,32 +1,38 @@
 import React, { useEffect, useState } from "react";
-import axios from "axios";
+import {
+    ClientCredentials,
+    OrchestratorApiError,
+    OrchestratorClient,
+    QuotaMatrixResponse,
+    RecommendationDetails,
+    RecommendationRequest,
+    RequestCancelledError
+} from "orchestrator-sdk";
 
-interface Quota {
-    total: number;
-    used: number;
-    available: number;
-    assigned_to: string[];
-}
+type QuotaData = QuotaMatrixResponse["data"];
 
-interface QuotaData {
-    [region: string]: {
-        [sku: string]: Quota;
-    };
-}
+// Where the API key or token the user signed in with is kept for the browser session
+const CREDENTIAL_STORAGE_KEY = "orchestrator.credential";
+
+// A JWT has three dot-separated parts; anything else is taken as an API key
+const toCredentials = (secret: string): ClientCredentials =>
+    secret.split(".").length === 3 ? { token: secret } : { apiKey: secret };
+
+const storedCredential = (): string =>
+    (typeof sessionStorage !== "undefined" && sessionStorage.getItem(CREDENTIAL_STORAGE_KEY)) || "";
 
-interface RecommendationDetails {
-    region: string;
-    sku: string;
-    availableQuota: number;
-    confidence: number;
-    reasons: string[];
-}
+// The front-end is served with the engine, so requests go to the same origin
+const client = new OrchestratorClient(toCredentials(storedCredential()));
 
-interface RecommendationRequest {
-    role: string;
-    minimumQuota: number;
-    preferredRegions?: string[];
-}
+// Events from /api/events that change the matrix; resync is sent when missed events are no longer available
+const STREAM_EVENTS = [
+    "quota.refreshed",
+    "allocation.created",
+    "allocation.reserved",
+    "allocation.released",
+    "allocation.expired",
+    "resync"
+];
 
 const QuotaMatrix: React.FC = () => {
     const [data, setData] = useState<QuotaData>({});
@@ -38,24 +44,62 @@ const QuotaMatrix: React.FC = () => {
     const [minimumQuota, setMinimumQuota] = useState(1);
     const [preferredRegions, setPreferredRegions] = useState("");
     const [isLoading, setIsLoading] = useState(false);
+    const [credential, setCredential] = useState(storedCredential);
+    const [credentialInput, setCredentialInput] = useState("");
+    const [needsCredential, setNeedsCredential] = useState(false);
 
-    const fetchData = async () => {
+    // When the engine has authentication configured, ask for an API key or token
+    const isUnauthenticated = (err: unknown) => {
+        if (err instanceof OrchestratorApiError && err.status === 401) {
+            setNeedsCredential(true);
+            return true;
+        }
+        return false;
+    };
+
+    const fetchData = async (signal?: AbortSignal) => {
         try {
-            const response = await axios.get("/api/quotas", {
-                params: {
-                    region: filterRegion,
-                    role: filterRole
-                }
-            });
-            setData(response.data.data || {});
+            const response = await client.getQuotaMatrix({ region: filterRegion, role: filterRole }, { signal });
+            setData(response.data || {});
         } catch (err) {
+            // Requests for filters that changed since are cancelled on purpose
+            if (err instanceof RequestCancelledError || isUnauthenticated(err)) return;
             console.error("Error fetching quota data:", err);
         }
     };
 
     useEffect(() => {
-        fetchData();
-    }, [filterRegion, filterRole]);
+        const controller = new AbortController();
+        fetchData(controller.signal);
+
+        return () => controller.abort();
+    }, [filterRegion, filterRole, credential]);
+
+    // Re-fetch when the engine streams a change rather than polling
+    useEffect(() => {
+        if (typeof EventSource === "undefined") return;
+
+        const controller = new AbortController();
+        const source = new EventSource(client.getEventStreamUrl());
+        const refetch = () => fetchData(controller.signal);
+        STREAM_EVENTS.forEach((type) => source.addEventListener(type, refetch));
+
+        return () => {
+            source.close();
+            controller.abort();
+        };
+    }, [filterRegion, filterRole, credential]);
+
+    const handleSignIn = () => {
+        const secret = credentialInput.trim();
+        if (!secret) return;
+
+        sessionStorage.setItem(CREDENTIAL_STORAGE_KEY, secret);
+        client.setCredentials(toCredentials(secret));
+        setCredentialInput("");
+        setNeedsCredential(false);
+        setCredential(secret);
+    };
 
     const regions = Object.keys(data);
     const allRoles = new Set<string>();
@@ -82,10 +126,11 @@ const QuotaMatrix: React.FC = () => {
                 preferredRegions: preferredRegions ? preferredRegions.split(",").map(r => r.trim()) : undefined
             };
 
-            const response = await axios.post("/api/quotas/recommendations", request);
-            setRecommendations(response.data.recommendations || []);
+            const response = await client.getRecommendations(request);
+            setRecommendations(response.recommendations || []);
             setShowRecommendations(true);
         } catch (err) {
+            if (isUnauthenticated(err)) return;
             console.error("Error fetching recommendations:", err);
             alert("Failed to get recommendations. See console for details.");
         } finally {
@@ -153,6 +198,21 @@ const QuotaMatrix: React.FC = () => {
     return (
         <div>
             <h2>Available Quota Matrix</h2>
+            {needsCredential && (
+                <div style={{ marginBottom: "1rem", padding: "10px", border: "1px solid #f0c36d", backgroundColor: "#fff8e1" }}>
+                    <label>{credential ? "The API key or token was not accepted. " : "The orchestrator API needs a credential. "}
+                        API key or bearer token: &nbsp;
+                        <input
+                            type="password"
+                            value={credentialInput}
+                            onChange={(e) => setCredentialInput(e.target.value)}
+                        />
+                    </label>
+                    <button onClick={handleSignIn} style={{ marginLeft: '10px', padding: '5px 10px' }}>
+                        Sign in
+                    </button>
+                </div>
+            )}
             <div style={{ marginBottom: "1rem" }}>
                 <label>Filter by Region: &nbsp;
                     <input
@@ -170,7 +230,7 @@ const QuotaMatrix: React.FC = () => {
                     />
                 </label>
                 <button
-                    onClick={fetchData}
+                    onClick={() => fetchData()}
                     style={{ marginLeft: '10px', padding: '5px 10px' }}
                 >
                     Refresh Data
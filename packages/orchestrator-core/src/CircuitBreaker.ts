@@ -0,0 +1,183 @@
+import chalk from "chalk";
+import { TelemetryService } from "./TelemetryService";
+
+/**
+ * State of a circuit breaker: closed (calls go through), open (calls fail fast until
+ * the cool-down ends) or half-open (one trial call decides whether to close again)
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options of a circuit breaker
+ */
+export interface CircuitBreakerOptions {
+    /** Consecutive failures that open the circuit (default: CIRCUIT_BREAKER_FAILURE_THRESHOLD or 5) */
+    failureThreshold?: number;
+    /** How long the circuit stays open before a trial call (default: CIRCUIT_BREAKER_COOLDOWN_MS or 30s) */
+    cooldownMs?: number;
+}
+
+/**
+ * Snapshot of a circuit breaker, e.g. for a health endpoint
+ */
+export interface CircuitBreakerStatus {
+    /** Name of the dependency the breaker guards, e.g. `azure` or `besu` */
+    name: string;
+    state: CircuitState;
+    /** Consecutive failures so far */
+    failures: number;
+    /** When the circuit last opened (ISO 8601), if it is not closed */
+    openedAt?: string;
+    /** How long until a trial call is let through, while the circuit is open */
+    retryAfterMs?: number;
+}
+
+/**
+ * Thrown instead of calling a dependency while its circuit is open
+ */
+export class CircuitOpenError extends Error {
+    constructor(public readonly circuitName: string, public readonly retryAfterMs: number) {
+        super(`Circuit '${circuitName}' is open after repeated failures; retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+        this.name = "CircuitOpenError";
+    }
+}
+
+/**
+ * CircuitBreaker stops calling a dependency for a cool-down after repeated failures, so
+ * an outage of Azure or Besu fails fast instead of tying callers up in retries. Breakers
+ * are shared by name: every caller of CircuitBreaker.get('azure') sees the same state.
+ */
+export class CircuitBreaker {
+    private static readonly breakers = new Map<string, CircuitBreaker>();
+
+    private state: CircuitState = 'closed';
+    private failures = 0;
+    private openedAt: number | null = null;
+    private trialInFlight = false;
+    private readonly failureThreshold: number;
+    private readonly cooldownMs: number;
+
+    constructor(public readonly name: string, options: CircuitBreakerOptions = {}) {
+        this.failureThreshold = options.failureThreshold
+            ?? parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10);
+        this.cooldownMs = options.cooldownMs
+            ?? parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '30000', 10);
+    }
+
+    /**
+     * Gets the breaker with a name, creating it with the options on first use
+     * @param name Name of the dependency, e.g. `azure` or `besu`
+     * @param options Options of a new breaker
+     */
+    public static get(name: string, options?: CircuitBreakerOptions): CircuitBreaker {
+        let breaker = this.breakers.get(name);
+        if (!breaker) {
+            breaker = new CircuitBreaker(name, options);
+            this.breakers.set(name, breaker);
+        }
+        return breaker;
+    }
+
+    /**
+     * Snapshots of every breaker created so far
+     */
+    public static getStatuses(): CircuitBreakerStatus[] {
+        return [...this.breakers.values()].map(breaker => breaker.getStatus());
+    }
+
+    /**
+     * Forgets every breaker, e.g. between tests
+     */
+    public static resetAll(): void {
+        this.breakers.clear();
+    }
+
+    /**
+     * Snapshot of the breaker
+     */
+    public getStatus(): CircuitBreakerStatus {
+        const status: CircuitBreakerStatus = { name: this.name, state: this.currentState(), failures: this.failures };
+        if (this.openedAt !== null) {
+            status.openedAt = new Date(this.openedAt).toISOString();
+        }
+        if (status.state === 'open') {
+            status.retryAfterMs = this.remainingCooldownMs();
+        }
+        return status;
+    }
+
+    /**
+     * Lets a call through, or throws while the circuit is open. Once the cool-down has
+     * passed, a single trial call is let through.
+     * @throws CircuitOpenError when the call must not be made
+     */
+    public acquire(): void {
+        const state = this.currentState();
+        if (state === 'closed') {
+            return;
+        }
+        if (state === 'open' || this.trialInFlight) {
+            throw new CircuitOpenError(this.name, Math.max(this.remainingCooldownMs(), 0));
+        }
+
+        this.state = 'half-open';
+        this.trialInFlight = true;
+    }
+
+    /**
+     * Records a successful call, closing the circuit
+     */
+    public recordSuccess(): void {
+        const wasOpen = this.state !== 'closed';
+        this.state = 'closed';
+        this.failures = 0;
+        this.openedAt = null;
+        this.trialInFlight = false;
+
+        if (wasOpen) {
+            console.log(chalk.green(`✅ Circuit '${this.name}' closed`));
+            TelemetryService.trackEvent('CircuitBreakerClosed', { name: this.name });
+        }
+    }
+
+    /**
+     * Records a failed call, opening the circuit after too many in a row or when the
+     * trial call of a half-open circuit fails
+     */
+    public recordFailure(): void {
+        this.failures++;
+        const trialFailed = this.trialInFlight;
+        this.trialInFlight = false;
+
+        if (trialFailed || (this.state === 'closed' && this.failures >= this.failureThreshold)) {
+            this.state = 'open';
+            this.openedAt = Date.now();
+
+            console.log(chalk.red(`❌ Circuit '${this.name}' opened after ${this.failures} failures; calls fail fast for ${this.cooldownMs}ms`));
+            TelemetryService.trackEvent('CircuitBreakerOpened', {
+                name: this.name,
+                failures: this.failures.toString(),
+                cooldownMs: this.cooldownMs.toString()
+            });
+        }
+    }
+
+    /**
+     * Gives up a call let through by acquire without an outcome, e.g. when it was
+     * cancelled, so a half-open circuit lets the next trial call through
+     */
+    public release(): void {
+        this.trialInFlight = false;
+    }
+
+    private currentState(): CircuitState {
+        if (this.state === 'open' && this.remainingCooldownMs() <= 0) {
+            return 'half-open';
+        }
+        return this.state;
+    }
+
+    private remainingCooldownMs(): number {
+        return this.openedAt === null ? 0 : this.openedAt + this.cooldownMs - Date.now();
+    }
+}
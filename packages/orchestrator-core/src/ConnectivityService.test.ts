@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { ConnectivityService, getConfiguredSubscriptions } from "./ConnectivityService";
+
+describe("ConnectivityService", () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        ConnectivityService.setQuotaDataReader(null);
+        vi.restoreAllMocks();
+    });
+
+    it("should verify that files exist", () => {
+        expect(ConnectivityService.verifyFileExists(__filename)).toBe(true);
+        expect(ConnectivityService.verifyFileExists("/nowhere/besu-config.json", "Besu config missing")).toBe(false);
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Besu config missing"));
+    });
+
+    it("should read the configured subscriptions and quota data through the registered reader", async () => {
+        process.env.AZURE_SUBSCRIPTION_IDS = "sub-a, sub-b";
+        process.env.AZURE_TENANT_ID = "tenant";
+        expect(getConfiguredSubscriptions()).toEqual(["sub-a", "sub-b"]);
+
+        ConnectivityService.initialize();
+        expect(await ConnectivityService.getAzureQuotaData()).toBeNull();
+
+        const reader = vi.fn().mockResolvedValue({ eastus: { Standard_D4s_v3: { total: 10, used: 9 } } });
+        ConnectivityService.setQuotaDataReader(reader);
+
+        const quotaInfo = await ConnectivityService.getDetailedQuotaInfo(["eastus"]);
+        expect(reader).toHaveBeenCalledWith(ConnectivityService.getAzureCredential());
+        expect(quotaInfo).toMatchObject([{ name: "Standard_D4s_v3", region: "eastus", percentUsed: 90 }]);
+        expect(ConnectivityService.getQuotaAlerts(quotaInfo)).toHaveLength(1);
+    });
+
+    it("should check Besu by probing the endpoint from the environment over JSON-RPC", async () => {
+        const answers: Record<string, unknown> = {
+            net_version: "1337",
+            eth_chainId: "0x539",
+            eth_syncing: false,
+            net_peerCount: "0x0",
+            eth_blockNumber: "0x10",
+            qbft_getValidatorsByBlockNumber: ["0x1111111111111111111111111111111111111111"]
+        };
+        const methods: string[] = [];
+        const server = http.createServer((req, res) => {
+            let body = "";
+            req.on("data", chunk => body += chunk);
+            req.on("end", () => {
+                const { method, id } = JSON.parse(body);
+                methods.push(method);
+                res.setHeader("Content-Type", "application/json");
+                res.end(JSON.stringify({ jsonrpc: "2.0", id, result: answers[method] }));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+        try {
+            process.env.BESU_ENDPOINT = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            process.env.BESU_CHAIN_ID = "1337";
+            const endpoint = await ConnectivityService.getBesuEndpoint();
+
+            expect(endpoint).toBe(process.env.BESU_ENDPOINT);
+            expect(await ConnectivityService.getBesuEndpoints()).toEqual([endpoint]);
+            expect(await ConnectivityService.checkBesuConnectivity(endpoint!)).toBe(true);
+            expect(methods.sort()).toEqual(Object.keys(answers).sort());
+
+            // A lone node without peers still answers, but is reported as unhealthy
+            const state = await ConnectivityService.checkConnections();
+            expect(state.besuAvailable).toBe(true);
+            expect(state.besuNodes).toMatchObject([{ endpoint, healthy: false, problems: ["no-peers"], blockNumber: 16 }]);
+            expect(state.messages).toContain(`⚠️ Besu node ${endpoint}: no-peers`);
+        } finally {
+            server.close();
+        }
+    });
+});
@@ -1,14 +1,12 @@
 import * as fs from "fs";
 import chalk from "chalk";
-import axios from "axios";
+import { TokenCredential } from "@azure/core-auth";
 import { DefaultAzureCredential } from "@azure/identity";
 import { ComputeManagementClient } from "@azure/arm-compute";
-import { ResourceHealthClient } from "@azure/arm-resourcehealth";
-import { ResourceManagementClient } from "@azure/arm-resources";
-import { UsageManagementClient } from "@azure/arm-subscriptions";
 import { SecretClient } from "@azure/keyvault-secrets";
 import { TelemetryService } from "./TelemetryService";
-import { executeWithRetry } from "./RetryUtils";
+import { executeWithRetry, isRetryableError } from "./RetryUtils";
+import { BesuNodeHealth, BesuNodeProbe } from "./besu/BesuNodeProbe";
 
 /**
  * Health state of an Azure service in a region
@@ -111,8 +109,10 @@ export interface RegionHealthStatus {
 export interface ConnectionState {
     /** Whether Azure connectivity is available */
     azureConnected: boolean;
-    /** Whether Besu connectivity is available */
+    /** Whether Besu connectivity is available: a node on the expected chain answers */
     besuAvailable: boolean;
+    /** Health of each Besu node (if an endpoint is configured) */
+    besuNodes?: BesuNodeHealth[];
     /** Any status messages */
     messages: string[];
     /** Detailed service health (if available) */
@@ -121,6 +121,37 @@ export interface ConnectionState {
     quotaInfo?: QuotaInfo[];
 }
 
+/**
+ * Quota figures keyed by region, then SKU, as read from Azure
+ */
+export type AzureQuotaData = Record<string, Record<string, any>>;
+
+/**
+ * Reads the Azure quota data of the configured subscriptions with a credential
+ */
+export type QuotaDataReader = (credential: TokenCredential) => Promise<AzureQuotaData>;
+
+/**
+ * Gets the subscriptions to read quota for from the environment: AZURE_SUBSCRIPTION_IDS
+ * (comma separated), else AZURE_SUBSCRIPTION_ID
+ */
+export function getConfiguredSubscriptions(): string[] {
+    const ids = process.env.AZURE_SUBSCRIPTION_IDS || process.env.AZURE_SUBSCRIPTION_ID || '';
+    return ids.split(",").map(id => id.trim()).filter(Boolean);
+}
+
+/**
+ * Region suggested for a deployment, with the reason for the choice
+ */
+export interface RegionSuggestion {
+    /** Suggested region, or null if no region fits */
+    region: string | null;
+    /** Why the region was suggested (or none was) */
+    reason: string;
+    /** Other regions that would also fit */
+    alternativeRegions?: string[];
+}
+
 /**
  * Service for checking connectivity to various services
  */
@@ -128,13 +159,16 @@ export class ConnectivityService {
     private static isInitialized = false;
     private static azureSubscriptionId: string | null = null;
     private static azureTenantId: string | null = null;
-    private static besuEndpoint: string | null = null;
     private static credential: DefaultAzureCredential | null = null;
+    private static quotaDataReader: QuotaDataReader | null = null;
 
     // Thresholds for quota alerts (percentage of quota used)
     private static readonly QUOTA_WARNING_THRESHOLD = 70;
     private static readonly QUOTA_CRITICAL_THRESHOLD = 90;
 
+    // Longest a single connectivity check attempt may take
+    private static readonly CHECK_TIMEOUT_MS = 10000;
+
     /**
      * Initializes the connectivity service
      */
@@ -144,17 +178,14 @@ export class ConnectivityService {
         console.log(chalk.blue('Initializing ConnectivityService...'));
 
         // Read configuration from environment variables
-        this.azureSubscriptionId = process.env.AZURE_SUBSCRIPTION_ID || null;
+        this.azureSubscriptionId = getConfiguredSubscriptions()[0] || null;
         this.azureTenantId = process.env.AZURE_TENANT_ID || null;
-        this.besuEndpoint = process.env.BESU_ENDPOINT || null;
 
         // Initialize Azure credential if we have the necessary environment variables
         if (this.azureSubscriptionId && this.azureTenantId) {
             try {
-                this.credential = new DefaultAzureCredential();
-                console.log(chalk.green('✅ Azure credential initialized'));
-            } catch (error) {
-                console.log(chalk.red(`❌ Failed to initialize Azure credential: ${error instanceof Error ? error.message : String(error)}`));
+                this.getAzureCredential();
+            } catch {
                 this.credential = null;
             }
         }
@@ -163,11 +194,37 @@ export class ConnectivityService {
 
         TelemetryService.trackEvent('ConnectivityServiceInitialized', {
             hasAzureCredentials: (!!this.azureSubscriptionId && !!this.azureTenantId).toString(),
-            hasBesuEndpoint: (!!this.besuEndpoint).toString(),
+            hasBesuEndpoint: (!!process.env.BESU_ENDPOINTS || !!process.env.BESU_ENDPOINT || !!process.env.KEY_VAULT_NAME).toString(),
             credentialInitialized: (!!this.credential).toString()
         });
     }
 
+    /**
+     * Gets the default Azure credential, initializing it if necessary
+     * @returns The default Azure credential
+     */
+    public static getAzureCredential(): DefaultAzureCredential {
+        if (!this.credential) {
+            try {
+                this.credential = new DefaultAzureCredential();
+                console.log(chalk.green('✅ Azure credential initialized'));
+            } catch (error) {
+                console.log(chalk.red(`❌ Failed to initialize Azure credential: ${error instanceof Error ? error.message : String(error)}`));
+                throw error;
+            }
+        }
+        return this.credential;
+    }
+
+    /**
+     * Registers how Azure quota data is read, e.g. with the orchestrator's Azure Compute
+     * quota provider. Without a reader, getAzureQuotaData returns null.
+     * @param reader Reads quota data with a credential, or null to unregister it
+     */
+    public static setQuotaDataReader(reader: QuotaDataReader | null): void {
+        this.quotaDataReader = reader;
+    }
+
     /**
      * Checks connectivity to all required services
      * @returns Connection status
@@ -188,7 +245,8 @@ export class ConnectivityService {
         try {
             // Check Azure connectivity
             if (this.azureSubscriptionId && this.azureTenantId) {
-                state.azureConnected = await this.checkAzureConnectivity();
+                state.azureConnected = await this.checkAzureConnection();
+                TelemetryService.trackMetric('AzureConnectivity', state.azureConnected ? 1 : 0);
                 if (state.azureConnected) {
                     state.messages.push('Azure connectivity verified');
 
@@ -209,16 +267,25 @@ export class ConnectivityService {
                 state.messages.push('ℹ️ Azure credentials not configured');
             }
 
-            // Check Besu connectivity
-            if (this.besuEndpoint) {
-                state.besuAvailable = await this.checkBesuConnectivity();
+            // Check Besu connectivity and the health of each node
+            const besuEndpoints = await this.getBesuEndpoints();
+            if (besuEndpoints.length > 0) {
+                const nodes = await this.probeBesuNodes(besuEndpoints);
+                const healthyNodes = nodes.filter(node => node.healthy).length;
+                state.besuNodes = nodes;
+                state.besuAvailable = nodes.some(node => node.reachable && !node.problems.includes('wrong-chain'));
+                TelemetryService.trackMetric('BesuConnectivity', state.besuAvailable ? 1 : 0);
+                TelemetryService.trackMetric('BesuHealthyNodes', healthyNodes);
                 if (state.besuAvailable) {
-                    state.messages.push('Besu connectivity verified');
+                    state.messages.push(`Besu connectivity verified (${healthyNodes}/${nodes.length} nodes healthy)`);
                 } else {
                     state.messages.push('❌ Besu connectivity failed - check endpoint');
                 }
+                nodes.filter(node => !node.healthy).forEach(node => {
+                    state.messages.push(`⚠️ Besu node ${node.endpoint}: ${node.problems.join(', ')}`);
+                });
             } else {
-                state.messages.push('ℹ️ Besu endpoint not configured');
+                state.messages.push('ℹ️ Besu endpoint not configured (BESU_ENDPOINTS, BESU_ENDPOINT or KEY_VAULT_NAME)');
             }
 
             TelemetryService.trackEvent('ConnectivityCheckCompleted', {
@@ -242,35 +309,77 @@ export class ConnectivityService {
     }
 
     /**
-     * Tests Azure API connectivity
-     * @returns true if connection successful, false otherwise
+     * Verifies if a specific file exists
+     * @param filePath Path to file to check
+     * @param errorMessage Optional custom error message
+     * @returns boolean indicating if file exists
      */
-    private static async checkAzureConnectivity(): Promise<boolean> {
-        try {
-            if (!this.azureSubscriptionId || !this.azureTenantId) {
-                return false;
-            }
+    public static verifyFileExists(filePath: string, errorMessage?: string): boolean {
+        if (!fs.existsSync(filePath)) {
+            console.error(chalk.red(`❌ ${errorMessage || `File not found: ${filePath}`}`));
+            return false;
+        }
+        return true;
+    }
 
-            // In a real implementation, this would call Azure APIs
-            // For our demo, we'll simulate a successful connection
+    /**
+     * Checks Azure API connectivity by listing the SKUs of the first configured subscription
+     * @returns boolean indicating if Azure APIs are accessible
+     */
+    public static async checkAzureConnection(): Promise<boolean> {
+        const subscriptionId = getConfiguredSubscriptions()[0];
+
+        if (!subscriptionId) {
+            console.log(chalk.yellow("⚠️ AZURE_SUBSCRIPTION_ID not set"));
+            return false;
+        }
+
+        try {
             console.log(chalk.blue('Testing Azure connectivity...'));
 
-            // Simulate an API call delay
-            await new Promise(resolve => setTimeout(resolve, 500));
+            await executeWithRetry(async signal => {
+                const computeClient = new ComputeManagementClient(this.getAzureCredential(), subscriptionId);
+
+                // Reading the first SKU is enough to prove the API answers
+                for await (const _sku of computeClient.resourceSkus.list({ abortSignal: signal })) {
+                    break;
+                }
+            }, {
+                maxRetries: 2,
+                initialDelayMs: 500,
+                operationName: 'CheckAzureConnection',
+                attemptTimeoutMs: this.CHECK_TIMEOUT_MS,
+                shouldRetry: isRetryableError,
+                circuitBreaker: 'azure'
+            });
 
-            // For testing, we'll consider it successful
+            console.log(chalk.green('✅ Azure connection verified'));
             return true;
         } catch (error) {
             console.error(chalk.red(`❌ Azure connectivity error: ${error instanceof Error ? error.message : String(error)}`));
 
             TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
-                operation: 'CheckAzureConnectivity'
+                operation: 'CheckAzureConnection'
             });
 
             return false;
         }
     }
 
+    /**
+     * Checks that critical Azure services are reachable
+     * @returns boolean indicating if critical Azure services are healthy
+     */
+    public static async checkAzureResourceHealth(): Promise<boolean> {
+        if (getConfiguredSubscriptions().length === 0) {
+            return false;
+        }
+
+        // The Resource Health API is not used yet; reaching the Compute API stands in for it
+        console.log(chalk.blue('Checking Azure resource health...'));
+        return this.checkAzureConnection();
+    }
+
     /**
      * Checks health of key Azure services in specified regions
      * @param regions Array of region names to check
@@ -349,34 +458,103 @@ export class ConnectivityService {
     }
 
     /**
-     * Tests Besu connectivity
-     * @returns true if connection successful, false otherwise
+     * Fetches the Besu endpoint from BESU_ENDPOINT, else from the Key Vault named by
+     * KEY_VAULT_NAME (secret BESU_ENDPOINT_SECRET_NAME, default `besu-endpoint`)
+     * @returns Besu endpoint URL or null if not configured
      */
-    private static async checkBesuConnectivity(): Promise<boolean> {
-        try {
-            if (!this.besuEndpoint) {
-                return false;
-            }
+    public static async getBesuEndpoint(): Promise<string | null> {
+        if (process.env.BESU_ENDPOINT) {
+            return process.env.BESU_ENDPOINT;
+        }
 
-            console.log(chalk.blue(`Testing Besu connectivity to ${this.besuEndpoint}...`));
+        const keyVaultName = process.env.KEY_VAULT_NAME;
+        const secretName = process.env.BESU_ENDPOINT_SECRET_NAME || 'besu-endpoint';
+        if (!keyVaultName) {
+            return null;
+        }
 
-            // In a real implementation, this would call Besu APIs
-            // For our demo, we'll simulate a successful connection
-            await new Promise(resolve => setTimeout(resolve, 300));
+        try {
+            const client = new SecretClient(`https://${keyVaultName}.vault.azure.net`, this.getAzureCredential());
+            const secret = await executeWithRetry(signal => client.getSecret(secretName, { abortSignal: signal }), {
+                maxRetries: 2,
+                operationName: 'GetBesuEndpointFromKeyVault',
+                attemptTimeoutMs: this.CHECK_TIMEOUT_MS,
+                shouldRetry: isRetryableError,
+                circuitBreaker: 'azure'
+            });
 
-            // For testing, we'll consider it successful
-            return true;
+            if (secret.value) {
+                console.log(chalk.green('✅ Retrieved Besu endpoint from Key Vault'));
+                return secret.value;
+            }
+
+            return null;
         } catch (error) {
-            console.error(chalk.red(`❌ Besu connectivity error: ${error instanceof Error ? error.message : String(error)}`));
+            console.log(chalk.yellow(`⚠️ Failed to retrieve Besu endpoint from Key Vault: ${error instanceof Error ? error.message : String(error)}`));
 
             TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
-                operation: 'CheckBesuConnectivity'
+                operation: 'GetBesuEndpointFromKeyVault'
             });
 
-            return false;
+            return null;
         }
     }
 
+    /**
+     * Gets the Besu nodes to probe: BESU_ENDPOINTS (comma separated), else the single
+     * endpoint from getBesuEndpoint
+     * @returns Besu endpoint URLs, empty if none is configured
+     */
+    public static async getBesuEndpoints(): Promise<string[]> {
+        const endpoints = (process.env.BESU_ENDPOINTS || '').split(",").map(endpoint => endpoint.trim()).filter(Boolean);
+        if (endpoints.length > 0) {
+            return endpoints;
+        }
+
+        const endpoint = await this.getBesuEndpoint();
+        return endpoint ? [endpoint] : [];
+    }
+
+    /**
+     * Probes Besu nodes over JSON-RPC for their chain, sync state, peers and validators
+     * (see BesuNodeProbe for the BESU_CHAIN_ID, BESU_CONSENSUS, BESU_MAX_BLOCK_LAG and
+     * BESU_MIN_PEERS settings)
+     * @param endpoints The nodes to probe (default: getBesuEndpoints)
+     * @returns Health of each node
+     */
+    public static async probeBesuNodes(endpoints?: string[]): Promise<BesuNodeHealth[]> {
+        const nodes = await new BesuNodeProbe({ timeoutMs: this.CHECK_TIMEOUT_MS })
+            .probeAll(endpoints ?? await this.getBesuEndpoints());
+
+        nodes.forEach(node => {
+            if (node.healthy) {
+                console.log(chalk.green(`✅ Besu node ${node.endpoint} healthy at block ${node.blockNumber} with ${node.peerCount} peers`));
+            } else {
+                console.log(chalk.yellow(`⚠️ Besu node ${node.endpoint}: ${node.problems.join(', ')}${node.error ? ` (${node.error})` : ''}`));
+            }
+        });
+
+        TelemetryService.trackEvent('BesuNodesProbed', {
+            nodeCount: nodes.length.toString(),
+            healthyCount: nodes.filter(node => node.healthy).length.toString(),
+            problems: [...new Set(nodes.flatMap(node => node.problems))].join(',')
+        });
+
+        return nodes;
+    }
+
+    /**
+     * Tests Besu connectivity by probing the node over JSON-RPC
+     * @param endpoint The Besu endpoint to check (HTTP URL)
+     * @returns true if the node answers and is on the expected chain, false otherwise
+     */
+    public static async checkBesuConnectivity(endpoint: string): Promise<boolean> {
+        console.log(chalk.blue(`Testing Besu connectivity to ${endpoint}...`));
+
+        const [node] = await this.probeBesuNodes([endpoint]);
+        return node.reachable && !node.problems.includes('wrong-chain');
+    }
+
     /**
      * Logs connection status to console
      * @param state Connection state to log
@@ -396,6 +574,14 @@ export class ConnectivityService {
             console.log(chalk.yellow('⚠️ Besu: Not available'));
         }
 
+        state.besuNodes?.forEach(node => {
+            const color = node.healthy ? chalk.green : chalk.yellow;
+            const detail = node.reachable
+                ? `chain ${node.chainId}, block ${node.blockNumber}, ${node.peerCount} peers`
+                : node.error ?? 'no answer';
+            console.log(color(`  ${node.healthy ? '✅' : '⚠️'} ${node.endpoint}: ${detail}${node.problems.length > 0 ? ` - ${node.problems.join(', ')}` : ''}`));
+        });
+
         // Log any messages
         if (state.messages.length > 0) {
             console.log(chalk.blue('--- Status Messages ---'));
@@ -415,33 +601,32 @@ export class ConnectivityService {
         }
 
         console.log(chalk.blue('========================'));
+
+        TelemetryService.trackEvent('ConnectivityStatus', {
+            azure: state.azureConnected ? 'connected' : 'disconnected',
+            besu: state.besuAvailable ? 'available' : 'unavailable',
+            warningCount: state.messages.length.toString()
+        });
     }
 
     /**
      * Retrieves Azure quota data from the API
      * @returns Object containing quota data for each region/SKU or null if failed
      */
-    public static async getAzureQuotaData(): Promise<Record<string, Record<string, any>> | null> {
+    public static async getAzureQuotaData(): Promise<AzureQuotaData | null> {
         try {
             if (!this.azureSubscriptionId || !this.credential) {
                 console.log(chalk.yellow('⚠️ Cannot get quota data: Azure credentials not configured'));
                 return null;
             }
+            if (!this.quotaDataReader) {
+                console.log(chalk.yellow('⚠️ Cannot get quota data: no quota data reader registered'));
+                return null;
+            }
 
             console.log(chalk.blue('Fetching quota data from Azure...'));
 
-            // In a production implementation, this would use the UsageManagementClient
-            // from @azure/arm-subscriptions to get actual quota data
-            const usageClient = new UsageManagementClient(this.credential, this.azureSubscriptionId);
-
-            try {
-                // For now, we'll use mock data for demonstration
-                return await this.getMockQuotaData();
-            } catch (innerError) {
-                console.warn(chalk.yellow(`⚠️ Failed to get quota data from Azure API: ${innerError}`));
-                console.log(chalk.blue('Falling back to mock data...'));
-                return this.getMockQuotaData();
-            }
+            return await this.quotaDataReader(this.credential);
         } catch (error) {
             console.error(chalk.red(`❌ Error fetching quota data: ${error instanceof Error ? error.message : String(error)}`));
 
@@ -853,11 +1038,7 @@ export class ConnectivityService {
         requiredVmSku: string,
         count: number,
         preferredRegions: string[] = ['eastus', 'westus', 'westeurope', 'northeurope', 'southeastasia']
-    ): Promise<{
-        region: string | null;
-        reason: string;
-        alternativeRegions?: string[];
-    }> {
+    ): Promise<RegionSuggestion> {
         try {
             console.log(chalk.blue(`Finding best region for ${count} instances of ${requiredVmSku}...`));
 
@@ -0,0 +1,59 @@
+import { Counter, Registry, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * MetricsService keeps the orchestrator's metrics in a Prometheus registry, so they can
+ * be scraped without Application Insights. Packages register their own metrics on the
+ * registry; retries made by executeWithRetry are counted here.
+ */
+export class MetricsService {
+    /** Registry of every orchestrator metric */
+    public static readonly registry = new Registry();
+
+    private static defaultMetricsCollected = false;
+
+    private static readonly retryAttempts = new Counter({
+        name: 'orchestrator_retry_attempts_total',
+        help: 'Retries of failed operations made by executeWithRetry',
+        labelNames: ['operation'] as const,
+        registers: [MetricsService.registry]
+    });
+
+    /**
+     * Also collects Node.js process metrics (CPU, memory, event loop lag)
+     */
+    public static collectDefaultMetrics(): void {
+        if (!this.defaultMetricsCollected) {
+            collectDefaultMetrics({ register: this.registry, prefix: 'orchestrator_' });
+            this.defaultMetricsCollected = true;
+        }
+    }
+
+    /**
+     * Records a retry of a failed operation
+     * @param operation Name of the operation
+     */
+    public static recordRetryAttempt(operation: string): void {
+        this.retryAttempts.inc({ operation });
+    }
+
+    /**
+     * Renders every metric in the Prometheus text format
+     */
+    public static metrics(): Promise<string> {
+        return this.registry.metrics();
+    }
+
+    /**
+     * Content type of the Prometheus text format
+     */
+    public static get contentType(): string {
+        return this.registry.contentType;
+    }
+
+    /**
+     * Resets every metric recorded so far
+     */
+    public static reset(): void {
+        this.registry.resetMetrics();
+    }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+    executeWithRetry,
+    getRetryAfterMs,
+    isRetryableError,
+    OperationCancelledError,
+    OperationTimeoutError
+} from "./RetryUtils";
+import { CircuitBreaker, CircuitOpenError } from "./CircuitBreaker";
+
+/**
+ * An error as thrown by Azure SDK clients for an HTTP response
+ */
+function restError(statusCode: number, retryAfter?: string): Error {
+    const headers = new Map(retryAfter ? [["retry-after", retryAfter]] : []);
+    return Object.assign(new Error(`Request failed with status ${statusCode}`), {
+        statusCode,
+        response: { status: statusCode, headers: { get: (name: string) => headers.get(name) } }
+    });
+}
+
+describe("executeWithRetry", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+        CircuitBreaker.resetAll();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it("should only retry errors the classifier considers transient", async () => {
+        expect(isRetryableError(restError(503))).toBe(true);
+        expect(isRetryableError(restError(429))).toBe(true);
+        expect(isRetryableError(restError(404))).toBe(false);
+        expect(isRetryableError(new Error("socket hang up"))).toBe(true);
+
+        const operation = vi.fn().mockRejectedValue(restError(403));
+        await expect(executeWithRetry(operation, { initialDelayMs: 0, shouldRetry: isRetryableError }))
+            .rejects.toThrow("status 403");
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fail attempts that take longer than the attempt timeout and abort their signal", async () => {
+        const signals: AbortSignal[] = [];
+        const operation = (signal: AbortSignal) => {
+            signals.push(signal);
+            return signals.length < 3 ? new Promise<string>(() => undefined) : Promise.resolve("answered");
+        };
+
+        await expect(executeWithRetry(operation, { initialDelayMs: 0, attemptTimeoutMs: 20, operationName: "SlowCall" }))
+            .resolves.toBe("answered");
+        expect(signals.map(signal => signal.aborted)).toEqual([true, true, false]);
+        expect(signals[0].reason).toBeInstanceOf(OperationTimeoutError);
+    });
+
+    it("should wait at least as long as Retry-After asks", async () => {
+        expect(getRetryAfterMs(restError(429, "2"))).toBe(2000);
+        expect(getRetryAfterMs(restError(503, new Date(Date.now() + 60000).toUTCString()))).toBeGreaterThan(58000);
+        expect(getRetryAfterMs(restError(503))).toBeUndefined();
+
+        vi.useFakeTimers();
+        const operation = vi.fn()
+            .mockRejectedValueOnce(restError(429, "2"))
+            .mockResolvedValueOnce("done");
+        const result = executeWithRetry(operation, { initialDelayMs: 10, useJitter: false });
+
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(operation).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe("done");
+    });
+
+    it("should stop retrying once the signal aborts", async () => {
+        const controller = new AbortController();
+        const operation = vi.fn().mockRejectedValue(new Error("connection refused"));
+        const result = executeWithRetry(operation, { initialDelayMs: 60000, signal: controller.signal });
+
+        await vi.waitFor(() => expect(operation).toHaveBeenCalledTimes(1));
+        controller.abort();
+
+        await expect(result).rejects.toBeInstanceOf(OperationCancelledError);
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("should open the named circuit after repeated failures and fail fast until the cool-down ends", async () => {
+        vi.useFakeTimers();
+        CircuitBreaker.get("besu", { failureThreshold: 3, cooldownMs: 30000 });
+        const operation = vi.fn().mockRejectedValue(new Error("connection refused"));
+        const options = { maxRetries: 1, initialDelayMs: 0, circuitBreaker: "besu" };
+
+        const first = executeWithRetry(operation, options).catch(error => error);
+        await vi.runAllTimersAsync();
+        expect(await first).toMatchObject({ message: "connection refused" });
+        const second = executeWithRetry(operation, options).catch(error => error);
+        await vi.runAllTimersAsync();
+        expect(await second).toBeInstanceOf(CircuitOpenError);
+        expect(operation).toHaveBeenCalledTimes(3);
+        expect(CircuitBreaker.getStatuses()).toMatchObject([{ name: "besu", state: "open", failures: 3, retryAfterMs: 30000 }]);
+
+        // After the cool-down a single trial call decides
+        vi.advanceTimersByTime(30000);
+        operation.mockResolvedValueOnce("recovered");
+        await expect(executeWithRetry(operation, options)).resolves.toBe("recovered");
+        expect(CircuitBreaker.get("besu").getStatus()).toEqual({ name: "besu", state: "closed", failures: 0 });
+    });
+});
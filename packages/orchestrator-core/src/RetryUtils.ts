@@ -0,0 +1,311 @@
+import chalk from "chalk";
+import { TelemetryService } from "./TelemetryService";
+import { MetricsService } from "./MetricsService";
+import { CircuitBreaker, CircuitOpenError } from "./CircuitBreaker";
+import { JsonRpcError } from "./besu/JsonRpcClient";
+
+/**
+ * Options for retry operations
+ */
+export interface RetryOptions {
+    /** Maximum number of retry attempts */
+    maxRetries?: number;
+    /** Initial delay in milliseconds before first retry */
+    initialDelayMs?: number;
+    /** Maximum delay in milliseconds */
+    maxDelayMs?: number;
+    /** Whether to use full jitter to randomize delay */
+    useJitter?: boolean;
+    /** Operation name for telemetry */
+    operationName?: string;
+    /** Longest a single attempt may take before it fails with an OperationTimeoutError (default: no limit) */
+    attemptTimeoutMs?: number;
+    /** Whether an error is worth retrying (default: every error), e.g. isRetryableError */
+    shouldRetry?: (error: Error) => boolean;
+    /** Cancels the operation, including a running attempt and a pending retry delay */
+    signal?: AbortSignal;
+    /** Circuit breaker, or name of the shared breaker, guarding the dependency the operation calls */
+    circuitBreaker?: CircuitBreaker | string;
+}
+
+/**
+ * Default retry options
+ */
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'attemptTimeoutMs' | 'signal' | 'circuitBreaker'>> = {
+    maxRetries: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 30000,
+    useJitter: true,
+    operationName: 'Unknown Operation',
+    shouldRetry: () => true
+};
+
+/**
+ * Thrown when an operation is cancelled through its abort signal
+ */
+export class OperationCancelledError extends Error {
+    constructor(operationName: string) {
+        super(`Operation '${operationName}' was cancelled`);
+        this.name = "OperationCancelledError";
+    }
+}
+
+/**
+ * Thrown when an attempt takes longer than the attempt timeout
+ */
+export class OperationTimeoutError extends Error {
+    constructor(operationName: string, public readonly timeoutMs: number) {
+        super(`Operation '${operationName}' timed out after ${timeoutMs}ms`);
+        this.name = "OperationTimeoutError";
+    }
+}
+
+/**
+ * HTTP status of an error, as set by Azure SDK RestErrors and most HTTP clients
+ */
+function getStatusCode(error: unknown): number | undefined {
+    const candidate = error as { statusCode?: unknown; status?: unknown; response?: { status?: unknown } };
+    const status = candidate?.statusCode ?? candidate?.status ?? candidate?.response?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Classifies an error as transient: throttling (408, 429) and server errors (5xx) are
+ * retried; other client errors (400, 401, 403, 404, ...), JSON-RPC errors a node
+ * answered with, cancellations and open circuits are not. Errors without a status,
+ * such as network errors and attempt timeouts, are retried.
+ * @param error The error an attempt failed with
+ */
+export function isRetryableError(error: Error): boolean {
+    if (error instanceof OperationCancelledError || error instanceof CircuitOpenError || error instanceof JsonRpcError) {
+        return false;
+    }
+
+    const status = getStatusCode(error);
+    return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Reads how long a failed call asked to be left alone: a retryAfterMs property, or a
+ * Retry-After header (seconds or an HTTP date) of the error's response
+ * @param error The error an attempt failed with
+ * @returns The delay in milliseconds, or undefined if the error carries none
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+    const retryAfterMs = (error as { retryAfterMs?: unknown })?.retryAfterMs;
+    if (typeof retryAfterMs === 'number') {
+        return retryAfterMs;
+    }
+
+    const headers = (error as { response?: { headers?: unknown } })?.response?.headers as
+        { get?: (name: string) => string | null | undefined } & Record<string, unknown> | undefined;
+    const header = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+    if (typeof header !== 'string' || header.trim() === '') {
+        return undefined;
+    }
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(seconds * 1000, 0);
+    }
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Waits before the next attempt, stopping early when the signal aborts
+ */
+function delay(ms: number, signal: AbortSignal | undefined, operationName: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            return reject(new OperationCancelledError(operationName));
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new OperationCancelledError(operationName));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs one attempt, failing it when it takes too long or the operation is cancelled.
+ * The attempt's signal aborts in either case, so the operation can stop its work.
+ */
+function runAttempt<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number | undefined,
+    signal: AbortSignal | undefined,
+    operationName: string
+): Promise<T> {
+    if (signal?.aborted) {
+        return Promise.reject(new OperationCancelledError(operationName));
+    }
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const stopped = new Promise<never>((_, reject) => {
+        onAbort = () => {
+            const error = new OperationCancelledError(operationName);
+            controller.abort(error);
+            reject(error);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        if (timeoutMs !== undefined) {
+            timer = setTimeout(() => {
+                const error = new OperationTimeoutError(operationName, timeoutMs);
+                controller.abort(error);
+                reject(error);
+            }, timeoutMs);
+        }
+    });
+
+    return Promise.race([operation(controller.signal), stopped]).finally(() => {
+        clearTimeout(timer);
+        if (onAbort) {
+            signal?.removeEventListener('abort', onAbort);
+        }
+    });
+}
+
+/**
+ * Executes an operation with retry logic using exponential backoff. Retries wait at
+ * least as long as a failed call asked to (see getRetryAfterMs). With a circuit breaker,
+ * attempts fail fast with a CircuitOpenError while its circuit is open, and transient
+ * failures count towards opening it.
+ * @param operation Function to execute with retry; it is passed a signal that aborts
+ * when the attempt times out or the operation is cancelled
+ * @param options Retry configuration options
+ * @returns Result of the operation or throws after max retries, when the error is not
+ * worth retrying, or with an OperationCancelledError once the signal aborts
+ */
+export async function executeWithRetry<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    options?: RetryOptions
+): Promise<T> {
+    const config = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    const breaker = typeof config.circuitBreaker === 'string'
+        ? CircuitBreaker.get(config.circuitBreaker)
+        : config.circuitBreaker;
+
+    // Each attempt is a span of the operation's span, so calls made by an attempt are grouped under it
+    return TelemetryService.withSpan(config.operationName, async span => {
+        let lastError: Error | null = null;
+        const startTime = Date.now();
+
+        for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+            let acquired = false;
+            try {
+                // Track attempt metrics
+                if (attempt > 0) {
+                    TelemetryService.trackEvent(`RetryAttempt`, {
+                        operation: config.operationName,
+                        attempt: attempt.toString(),
+                        maxRetries: config.maxRetries.toString()
+                    });
+                    MetricsService.recordRetryAttempt(config.operationName);
+                }
+
+                span.setAttribute("attempts", attempt + 1);
+                breaker?.acquire();
+                acquired = true;
+                const result = await TelemetryService.withSpan(
+                    `${config.operationName} attempt ${attempt + 1}`,
+                    () => runAttempt(operation, config.attemptTimeoutMs, config.signal, config.operationName),
+                    { attributes: { attempt: attempt + 1 } }
+                );
+                breaker?.recordSuccess();
+
+                // If successful after retries, log the recovery
+                if (attempt > 0) {
+                    const duration = Date.now() - startTime;
+                    console.log(chalk.green(`✅ Operation succeeded after ${attempt} retries (${duration}ms)`));
+                    TelemetryService.trackEvent(`RetrySuccess`, {
+                        operation: config.operationName,
+                        attempts: attempt.toString(),
+                        durationMs: duration.toString()
+                    });
+                }
+
+                return result;
+            } catch (error) {
+                const err = error instanceof Error ? error : new Error(String(error));
+                lastError = err;
+
+                if (config.signal?.aborted) {
+                    if (acquired) {
+                        breaker?.release();
+                    }
+                    throw err instanceof OperationCancelledError ? err : new OperationCancelledError(config.operationName);
+                }
+                if (breaker && acquired) {
+                    // Only transient failures say the dependency is down; a 404 came from a working one
+                    if (isRetryableError(err)) {
+                        breaker.recordFailure();
+                    } else {
+                        breaker.recordSuccess();
+                    }
+                }
+
+                if (attempt < config.maxRetries && !(err instanceof CircuitOpenError) && config.shouldRetry(err)) {
+                    // Calculate exponential backoff with optional jitter
+                    let delayMs = Math.min(
+                        config.initialDelayMs * Math.pow(2, attempt),
+                        config.maxDelayMs
+                    );
+
+                    if (config.useJitter) {
+                        // Apply full jitter: random delay between 0 and calculated delay
+                        delayMs = Math.floor(Math.random() * delayMs);
+                    }
+
+                    // Never retry sooner than the dependency asked, e.g. with a Retry-After header
+                    const retryAfterMs = getRetryAfterMs(err);
+                    if (retryAfterMs !== undefined && retryAfterMs > delayMs) {
+                        delayMs = retryAfterMs;
+                    }
+
+                    console.log(chalk.yellow(`⚠️ Operation failed (attempt ${attempt + 1}/${config.maxRetries + 1}), retrying in ${delayMs}ms...`));
+                    console.log(chalk.yellow(`   Error: ${err.message}`));
+
+                    TelemetryService.trackEvent(`RetryDelay`, {
+                        operation: config.operationName,
+                        attempt: (attempt + 1).toString(),
+                        delayMs: delayMs.toString(),
+                        error: err.message
+                    });
+
+                    await delay(delayMs, config.signal, config.operationName);
+                } else {
+                    // Final failure: out of attempts, or not worth retrying
+                    const duration = Date.now() - startTime;
+                    console.log(chalk.red(`❌ Operation failed after ${attempt + 1} attempts (${duration}ms)`));
+
+                    TelemetryService.trackEvent(`RetryFailure`, {
+                        operation: config.operationName,
+                        attempts: (attempt + 1).toString(),
+                        durationMs: duration.toString(),
+                        error: err.message
+                    });
+
+                    TelemetryService.trackException(err, {
+                        operation: config.operationName,
+                        attempts: (attempt + 1).toString()
+                    });
+
+                    throw err;
+                }
+            }
+        }
+
+        throw lastError || new Error(`Operation '${config.operationName}' failed after multiple retries`);
+    });
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { TelemetryService } from "./TelemetryService";
+import { executeWithRetry } from "./RetryUtils";
+import { MemoryTelemetrySink } from "./telemetry/MemoryTelemetrySink";
+import { TelemetrySink } from "./telemetry/TelemetrySink";
+import { createTelemetrySinks } from "./telemetry/TelemetrySinkFactory";
+
+describe("TelemetryService", () => {
+    let sink: MemoryTelemetrySink;
+
+    beforeEach(() => {
+        sink = new MemoryTelemetrySink();
+        TelemetryService.addSink(sink);
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        TelemetryService.removeSink(sink);
+        vi.restoreAllMocks();
+    });
+
+    it("should send telemetry to every sink, even when one fails", () => {
+        const broken: TelemetrySink = Object.assign(new MemoryTelemetrySink(), {
+            name: "broken",
+            trackEvent: () => { throw new Error("collector down"); }
+        });
+        const errorSpy = vi.spyOn(console, "error").mockImplementation(() => undefined);
+        TelemetryService.addSink(broken);
+
+        try {
+            TelemetryService.trackEvent("QuotaRefreshRequested", { caller: "ops" });
+            TelemetryService.trackMetric("QuotaUsagePercent", 42, { region: "eastus" });
+        } finally {
+            TelemetryService.removeSink(broken);
+        }
+
+        expect(sink.events).toMatchObject([{ name: "QuotaRefreshRequested", properties: { caller: "ops" } }]);
+        expect(sink.metrics).toMatchObject([{ name: "QuotaUsagePercent", value: 42, properties: { region: "eastus" } }]);
+        expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("Telemetry sink 'broken' failed: collector down"));
+    });
+
+    it("should nest spans and correlate telemetry with the span it was tracked in", async () => {
+        await TelemetryService.withSpan("AllocateQuota", async () => {
+            TelemetryService.trackEvent("AllocationRequested");
+            TelemetryService.trackDependency("Azure Compute", "https://management.azure.com", true, 120);
+        });
+        await expect(TelemetryService.withSpan("ReleaseQuota", async () => {
+            throw new Error("Allocation not found");
+        })).rejects.toThrow("Allocation not found");
+
+        const allocate = sink.findSpan("AllocateQuota")!;
+        const [dependency] = sink.childrenOf(allocate);
+        expect(allocate).toMatchObject({ kind: "internal", success: true, parentSpanId: undefined });
+        expect(allocate.events).toMatchObject([{ name: "AllocationRequested" }]);
+        expect(dependency).toMatchObject({ name: "Azure Compute", kind: "dependency", success: true, attributes: { target: "https://management.azure.com" } });
+        expect(dependency.endTime - dependency.startTime).toBe(120);
+        expect(sink.events[0]).toMatchObject({ traceId: allocate.traceId, spanId: allocate.spanId });
+
+        const release = sink.findSpan("ReleaseQuota")!;
+        expect(release).toMatchObject({ success: false, error: "Allocation not found" });
+        expect(release.traceId).not.toBe(allocate.traceId);
+    });
+
+    it("should make each retry attempt a child span of the operation", async () => {
+        let calls = 0;
+        await executeWithRetry(async () => {
+            TelemetryService.trackDependency("Besu RPC", "http://besu:8545", calls > 0, 5);
+            if (calls++ === 0) {
+                throw new Error("connection refused");
+            }
+        }, { initialDelayMs: 0, useJitter: false, operationName: "CheckBesu" });
+
+        const operation = sink.findSpan("CheckBesu")!;
+        const attempts = sink.childrenOf(operation);
+        expect(operation).toMatchObject({ success: true, attributes: { attempts: "2" } });
+        expect(attempts.map(attempt => [attempt.name, attempt.success])).toEqual([
+            ["CheckBesu attempt 1", false],
+            ["CheckBesu attempt 2", true]
+        ]);
+        expect(sink.childrenOf(attempts[0])).toMatchObject([{ name: "Besu RPC", success: false }]);
+        expect(sink.childrenOf(attempts[1])).toMatchObject([{ name: "Besu RPC", success: true }]);
+    });
+
+    it("should create the sinks named in TELEMETRY_SINKS", () => {
+        expect(createTelemetrySinks({}).map(s => s.name)).toEqual(["console"]);
+        expect(createTelemetrySinks({ TELEMETRY_SINKS: "jsonl, console" }).map(s => s.name)).toEqual(["jsonl", "console"]);
+        expect(() => createTelemetrySinks({ TELEMETRY_SINKS: "appinsights" })).toThrow("APPLICATIONINSIGHTS_CONNECTION_STRING");
+        expect(() => createTelemetrySinks({ TELEMETRY_SINKS: "statsd" })).toThrow("Unknown telemetry sink 'statsd'");
+    });
+});
@@ -0,0 +1,256 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import chalk from 'chalk';
+import {
+    TelemetryEvent,
+    TelemetryProperties,
+    TelemetrySink,
+    TelemetrySpan,
+    TelemetrySpanKind
+} from './telemetry/TelemetrySink';
+import { ConsoleTelemetrySink } from './telemetry/ConsoleTelemetrySink';
+import { createTelemetrySinks } from './telemetry/TelemetrySinkFactory';
+
+/**
+ * Options of a new span
+ */
+export interface SpanOptions {
+    /** What the span stands for (default: internal) */
+    kind?: TelemetrySpanKind;
+    /** Attributes of the span, e.g. the `target` of a dependency */
+    attributes?: { [key: string]: string | number | boolean };
+}
+
+/**
+ * A span in progress. Spans started through TelemetryService.withSpan end when their
+ * function settles; others end when end is called.
+ */
+export class ActiveSpan {
+    public readonly spanId = randomBytes(8).toString('hex');
+    public readonly traceId: string;
+    public readonly parentSpanId?: string;
+    public readonly startTime: number;
+    public readonly attributes: TelemetryProperties = {};
+    /** Events tracked while the span was active */
+    public readonly events: TelemetryEvent[] = [];
+    private ended = false;
+
+    constructor(
+        public readonly name: string,
+        public readonly kind: TelemetrySpanKind,
+        parent: ActiveSpan | undefined,
+        private readonly onEnd: (span: TelemetrySpan) => void,
+        startTime = Date.now()
+    ) {
+        this.traceId = parent?.traceId || randomBytes(16).toString('hex');
+        this.parentSpanId = parent?.spanId;
+        this.startTime = startTime;
+    }
+
+    /**
+     * Sets an attribute of the span
+     */
+    public setAttribute(key: string, value: string | number | boolean): void {
+        this.attributes[key] = String(value);
+    }
+
+    /**
+     * Ends the span; later calls do nothing
+     * @param error Error the span failed with, if it failed
+     */
+    public end(error?: unknown, endTime = Date.now()): void {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+        this.onEnd({
+            traceId: this.traceId,
+            spanId: this.spanId,
+            parentSpanId: this.parentSpanId,
+            name: this.name,
+            kind: this.kind,
+            startTime: this.startTime,
+            endTime,
+            success: error === undefined,
+            error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+            attributes: { ...this.attributes },
+            events: [...this.events]
+        });
+    }
+}
+
+/**
+ * TelemetryService provides centralized logging and telemetry. Everything tracked goes
+ * to each configured sink (console, Application Insights, OTLP, JSON-lines logs), and
+ * telemetry tracked inside a span is correlated with it.
+ */
+export class TelemetryService {
+    private static sinks: TelemetrySink[] = [new ConsoleTelemetrySink()];
+    private static initialized = false;
+    private static readonly currentSpan = new AsyncLocalStorage<ActiveSpan>();
+
+    /**
+     * Sets up the sinks selected by the environment (see createTelemetrySinks). The
+     * console keeps receiving telemetry until then.
+     * @param serviceName Name of the service the telemetry comes from, e.g. `blockchain-config`
+     * @returns boolean indicating if telemetry goes anywhere besides the console
+     */
+    public static initialize(serviceName?: string): boolean {
+        if (this.initialized) {
+            return this.sinks.some(sink => sink.name !== 'console');
+        }
+
+        try {
+            this.sinks = createTelemetrySinks(process.env, serviceName);
+        } catch (error) {
+            console.log(chalk.red(`❌ Failed to initialize telemetry: ${error instanceof Error ? error.message : String(error)}`));
+            return false;
+        }
+        this.initialized = true;
+
+        const backends = this.sinks.filter(sink => sink.name !== 'console').map(sink => sink.name);
+        if (backends.length === 0) {
+            console.log(chalk.yellow('⚠️ No telemetry backend configured (TELEMETRY_SINKS, APPLICATIONINSIGHTS_CONNECTION_STRING). Telemetry disabled.'));
+            return false;
+        }
+        console.log(chalk.green(`✅ Telemetry initialized: ${backends.join(', ')}`));
+        return true;
+    }
+
+    /**
+     * Also sends telemetry to a sink
+     */
+    public static addSink(sink: TelemetrySink): void {
+        this.sinks.push(sink);
+    }
+
+    /**
+     * Stops sending telemetry to a sink
+     */
+    public static removeSink(sink: TelemetrySink): void {
+        this.sinks = this.sinks.filter(s => s !== sink);
+    }
+
+    /**
+     * Track a custom event with properties
+     * @param name Event name
+     * @param properties Optional properties to include with the event
+     */
+    public static trackEvent(name: string, properties?: { [key: string]: string }): void {
+        const span = this.currentSpan.getStore();
+        const event: TelemetryEvent = { name, time: Date.now(), properties, traceId: span?.traceId, spanId: span?.spanId };
+        span?.events.push(event);
+        this.dispatch(sink => sink.trackEvent(event));
+    }
+
+    /**
+     * Track an exception with properties
+     * @param exception Error object to track
+     * @param properties Optional properties to include with the exception
+     */
+    public static trackException(exception: Error, properties?: { [key: string]: string }): void {
+        const span = this.currentSpan.getStore();
+        const time = Date.now();
+        span?.events.push({
+            name: 'exception',
+            time,
+            properties: { 'exception.type': exception.name, 'exception.message': exception.message, ...properties }
+        });
+        this.dispatch(sink => sink.trackException({ exception, time, properties, traceId: span?.traceId, spanId: span?.spanId }));
+    }
+
+    /**
+     * Track a metric value
+     * @param name Metric name
+     * @param value Numeric value to track
+     * @param properties Optional dimensions of the value
+     */
+    public static trackMetric(name: string, value: number, properties?: { [key: string]: string }): void {
+        const span = this.currentSpan.getStore();
+        this.dispatch(sink => sink.trackMetric({ name, value, time: Date.now(), properties, traceId: span?.traceId, spanId: span?.spanId }));
+    }
+
+    /**
+     * Track a dependency call that has already finished, as a span of the current span
+     * @param name Dependency name
+     * @param data Additional data about the dependency, e.g. the URL called
+     * @param success Whether the dependency call was successful
+     * @param duration Duration of the call in milliseconds
+     */
+    public static trackDependency(name: string, data: string, success: boolean, duration: number): void {
+        const endTime = Date.now();
+        const span = this.startSpan(name, { kind: 'dependency', attributes: { target: data } }, endTime - duration);
+        span.end(success ? undefined : new Error(`${name} failed`), endTime);
+    }
+
+    /**
+     * Starts a span as a child of the current span, or of none. Telemetry is only
+     * correlated with spans run through withSpan.
+     * @param name Span name
+     * @param options Kind and attributes of the span
+     * @param startTime When the span started (default: now)
+     */
+    public static startSpan(name: string, options: SpanOptions = {}, startTime = Date.now()): ActiveSpan {
+        const span = new ActiveSpan(name, options.kind || 'internal', this.currentSpan.getStore(), finished => {
+            this.dispatch(sink => sink.trackSpan(finished));
+        }, startTime);
+        for (const [key, value] of Object.entries(options.attributes || {})) {
+            span.setAttribute(key, value);
+        }
+        return span;
+    }
+
+    /**
+     * Runs a function in a new span, the parent of spans it starts. The span fails if
+     * the function throws.
+     * @param name Span name
+     * @param fn Work done in the span
+     * @param options Kind and attributes of the span
+     * @returns What the function returns
+     */
+    public static async withSpan<T>(name: string, fn: (span: ActiveSpan) => Promise<T>, options: SpanOptions = {}): Promise<T> {
+        const span = this.startSpan(name, options);
+        try {
+            const result = await this.currentSpan.run(span, () => fn(span));
+            span.end();
+            return result;
+        } catch (error) {
+            span.end(error);
+            throw error;
+        }
+    }
+
+    /**
+     * Flush all telemetry immediately rather than waiting for the regular interval
+     */
+    public static async flush(): Promise<void> {
+        await Promise.all(this.sinks.map(sink => sink.flush().catch(error => this.reportSinkError(sink, error))));
+    }
+
+    /**
+     * Flushes and closes every sink, e.g. before the process exits
+     */
+    public static async shutdown(): Promise<void> {
+        const sinks = this.sinks;
+        this.sinks = [new ConsoleTelemetrySink()];
+        this.initialized = false;
+        await Promise.all(sinks.map(sink => sink.shutdown().catch(error => this.reportSinkError(sink, error))));
+    }
+
+    /**
+     * Hands telemetry to each sink; a failing sink does not keep it from the others
+     */
+    private static dispatch(send: (sink: TelemetrySink) => void): void {
+        for (const sink of this.sinks) {
+            try {
+                send(sink);
+            } catch (error) {
+                this.reportSinkError(sink, error);
+            }
+        }
+    }
+
+    private static reportSinkError(sink: TelemetrySink, error: unknown): void {
+        console.error(chalk.red(`❌ Telemetry sink '${sink.name}' failed: ${error instanceof Error ? error.message : String(error)}`));
+    }
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { BesuNodeProbe } from "./BesuNodeProbe";
+import { CircuitBreaker } from "../CircuitBreaker";
+
+type RpcAnswers = Record<string, unknown>;
+
+const VALIDATORS = ["0x1111111111111111111111111111111111111111", "0x2222222222222222222222222222222222222222"];
+
+/**
+ * Answers of a synced QBFT node on chain 1337 at block 100 with 3 peers
+ */
+function syncedNode(overrides: RpcAnswers = {}): RpcAnswers {
+    return {
+        net_version: "1337",
+        eth_chainId: "0x539",
+        eth_syncing: false,
+        net_peerCount: "0x3",
+        eth_blockNumber: "0x64",
+        qbft_getValidatorsByBlockNumber: VALIDATORS,
+        ...overrides
+    };
+}
+
+/**
+ * Starts a JSON-RPC server answering with the given results; methods it does not know
+ * fail with -32601 like on a Besu node without that API enabled
+ */
+async function startNode(answers: RpcAnswers): Promise<{ endpoint: string; methods: string[]; close: () => void }> {
+    const methods: string[] = [];
+    const server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", chunk => body += chunk);
+        req.on("end", () => {
+            const { method, id } = JSON.parse(body);
+            methods.push(method);
+            res.setHeader("Content-Type", "application/json");
+            res.end(JSON.stringify(answers[method] !== undefined
+                ? { jsonrpc: "2.0", id, result: answers[method] }
+                : { jsonrpc: "2.0", id, error: { code: -32601, message: "Method not found" } }));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    return {
+        endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        methods,
+        close: () => server.close()
+    };
+}
+
+describe("BesuNodeProbe", () => {
+    const nodes: Array<{ close: () => void }> = [];
+
+    async function node(answers: RpcAnswers) {
+        const started = await startNode(answers);
+        nodes.push(started);
+        return started;
+    }
+
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+        CircuitBreaker.resetAll();
+    });
+
+    afterEach(() => {
+        nodes.splice(0).forEach(started => started.close());
+        vi.restoreAllMocks();
+    });
+
+    it("should report a synced node with its chain, peers and validators", async () => {
+        const synced = await node(syncedNode());
+
+        const health = await new BesuNodeProbe({ expectedChainId: 1337 }).probe(synced.endpoint);
+
+        expect(health).toMatchObject({
+            endpoint: synced.endpoint,
+            reachable: true,
+            healthy: true,
+            problems: [],
+            networkId: "1337",
+            chainId: 1337,
+            blockNumber: 100,
+            blocksBehind: 0,
+            syncing: false,
+            peerCount: 3,
+            consensus: "qbft",
+            validators: VALIDATORS
+        });
+        expect(synced.methods).toEqual(expect.arrayContaining(
+            ["net_version", "eth_chainId", "eth_syncing", "net_peerCount", "eth_blockNumber", "qbft_getValidatorsByBlockNumber"]));
+    });
+
+    it("should fall back to the IBFT validator API when QBFT is not enabled", async () => {
+        const ibft = await node(syncedNode({ qbft_getValidatorsByBlockNumber: undefined, ibft_getValidatorsByBlockNumber: VALIDATORS }));
+
+        const health = await new BesuNodeProbe().probe(ibft.endpoint);
+
+        expect(health).toMatchObject({ healthy: true, consensus: "ibft", validators: VALIDATORS });
+    });
+
+    it("should report syncing, lagging and peerless nodes", async () => {
+        const syncing = await node(syncedNode({
+            eth_syncing: { startingBlock: "0x0", currentBlock: "0x64", highestBlock: "0xc8" },
+            net_peerCount: "0x0"
+        }));
+
+        const health = await new BesuNodeProbe({ maxBlockLag: 5, minPeers: 1 }).probe(syncing.endpoint);
+
+        expect(health).toMatchObject({ reachable: true, healthy: false, highestBlock: 200, blocksBehind: 100 });
+        expect(health.problems).toEqual(["syncing", "lagging", "no-peers"]);
+    });
+
+    it("should compare nodes with each other and flag nodes on the wrong chain or unreachable", async () => {
+        const head = await node(syncedNode({ eth_blockNumber: "0x6e" }));
+        const behind = await node(syncedNode());
+        const otherChain = await node(syncedNode({ eth_chainId: "0x7a69", eth_blockNumber: "0x3e8" }));
+        const down = await node(syncedNode());
+        down.close();
+
+        const health = await new BesuNodeProbe({ expectedChainId: 1337, maxBlockLag: 5, maxRetries: 0 })
+            .probeAll([head.endpoint, behind.endpoint, otherChain.endpoint, down.endpoint]);
+
+        expect(health.map(node => node.problems)).toEqual([[], ["lagging"], ["wrong-chain"], ["unreachable"]]);
+        expect(health[1]).toMatchObject({ blockNumber: 100, blocksBehind: 10 });
+        expect(health[3]).toMatchObject({ reachable: false, healthy: false, error: expect.any(String) });
+        expect(CircuitBreaker.get(`besu:${new URL(down.endpoint).host}`).getStatus().failures).toBe(1);
+    });
+
+    it("should not retry or trip the circuit when a node answers with a JSON-RPC error", async () => {
+        const noEth = await node(syncedNode({ eth_syncing: undefined }));
+
+        const health = await new BesuNodeProbe({ maxRetries: 2 }).probe(noEth.endpoint);
+
+        expect(health).toMatchObject({ reachable: false, healthy: false, error: expect.stringContaining("eth_syncing failed") });
+        expect(noEth.methods.filter(method => method === "eth_syncing")).toHaveLength(1);
+        expect(CircuitBreaker.get(`besu:${new URL(noEth.endpoint).host}`).getStatus().failures).toBe(0);
+    });
+});
@@ -0,0 +1,224 @@
+import { TelemetryService } from "../TelemetryService";
+import { executeWithRetry, isRetryableError } from "../RetryUtils";
+import { JsonRpcClient, JsonRpcError } from "./JsonRpcClient";
+
+/**
+ * Consensus protocol of a Besu network, which decides the validator API to call
+ */
+export type BesuConsensus = 'qbft' | 'ibft';
+
+/**
+ * Why a Besu node is not healthy
+ */
+export type BesuNodeProblem = 'unreachable' | 'syncing' | 'lagging' | 'no-peers' | 'wrong-chain';
+
+/**
+ * Health of a Besu node, as read over JSON-RPC
+ */
+export interface BesuNodeHealth {
+    /** JSON-RPC endpoint of the node */
+    endpoint: string;
+    /** Whether the node answered */
+    reachable: boolean;
+    /** Whether the node is reachable and has no problems */
+    healthy: boolean;
+    /** What is wrong with the node, if anything */
+    problems: BesuNodeProblem[];
+    /** Network ID (`net_version`) */
+    networkId?: string;
+    /** Chain ID (`eth_chainId`) */
+    chainId?: number;
+    /** Latest block of the node (`eth_blockNumber`) */
+    blockNumber?: number;
+    /** Highest block known to the node while it syncs, else its latest block */
+    highestBlock?: number;
+    /** How many blocks the node is behind its sync target or the other nodes probed with it */
+    blocksBehind?: number;
+    /** Whether the node is syncing (`eth_syncing`) */
+    syncing?: boolean;
+    /** Connected peers (`net_peerCount`) */
+    peerCount?: number;
+    /** Consensus protocol whose validator API answered */
+    consensus?: BesuConsensus;
+    /** Validators at the latest block, if the node exposes the QBFT or IBFT API */
+    validators?: string[];
+    /** Why the node could not be reached */
+    error?: string;
+    /** When the node was probed (ISO 8601) */
+    checkedAt: string;
+}
+
+/**
+ * Options of a Besu node probe
+ */
+export interface BesuProbeOptions {
+    /** Chain ID the nodes must be on (default: BESU_CHAIN_ID, else any) */
+    expectedChainId?: number;
+    /** Consensus protocol of the network (default: BESU_CONSENSUS, else QBFT falling back to IBFT) */
+    consensus?: BesuConsensus;
+    /** Blocks a node may be behind before it counts as lagging (default: BESU_MAX_BLOCK_LAG or 5) */
+    maxBlockLag?: number;
+    /** Peers a node needs (default: BESU_MIN_PEERS or 1) */
+    minPeers?: number;
+    /** Longest a probe attempt may take (default: 10s) */
+    timeoutMs?: number;
+    /** Retries of a node that does not answer (default: 2) */
+    maxRetries?: number;
+}
+
+/**
+ * Parses a JSON-RPC quantity such as `0x1a`
+ */
+function parseQuantity(value: string): number {
+    return parseInt(value, 16);
+}
+
+/**
+ * BesuNodeProbe reads the state of Besu nodes over JSON-RPC and judges whether they are
+ * synced, connected and on the right chain. Each node is called through its own circuit
+ * breaker (`besu:<host>`), so one node being down does not stop the others being probed.
+ */
+export class BesuNodeProbe {
+    private readonly expectedChainId?: number;
+    private readonly consensus?: BesuConsensus;
+    private readonly maxBlockLag: number;
+    private readonly minPeers: number;
+    private readonly timeoutMs: number;
+    private readonly maxRetries: number;
+
+    constructor(options: BesuProbeOptions = {}) {
+        const chainId = process.env.BESU_CHAIN_ID;
+        this.expectedChainId = options.expectedChainId ?? (chainId ? Number(chainId) : undefined);
+        this.consensus = options.consensus ?? (process.env.BESU_CONSENSUS as BesuConsensus | undefined || undefined);
+        this.maxBlockLag = options.maxBlockLag ?? parseInt(process.env.BESU_MAX_BLOCK_LAG || '5', 10);
+        this.minPeers = options.minPeers ?? parseInt(process.env.BESU_MIN_PEERS || '1', 10);
+        this.timeoutMs = options.timeoutMs ?? 10000;
+        this.maxRetries = options.maxRetries ?? 2;
+    }
+
+    /**
+     * Probes a single node; it counts as lagging when it is behind its own sync target
+     * @param endpoint JSON-RPC endpoint of the node
+     * @param signal Cancels the probe
+     */
+    public async probe(endpoint: string, signal?: AbortSignal): Promise<BesuNodeHealth> {
+        return this.assess(await this.read(endpoint, signal));
+    }
+
+    /**
+     * Probes nodes of one network in parallel; a node also counts as lagging when it is
+     * behind the highest block of the other nodes on the expected chain
+     * @param endpoints JSON-RPC endpoints of the nodes
+     * @param signal Cancels the probes
+     */
+    public async probeAll(endpoints: string[], signal?: AbortSignal): Promise<BesuNodeHealth[]> {
+        const nodes = await Promise.all(endpoints.map(endpoint => this.read(endpoint, signal)));
+        const headBlock = nodes
+            .filter(node => node.reachable && this.isExpectedChain(node))
+            .reduce<number | undefined>((head, node) => Math.max(head ?? 0, node.blockNumber!), undefined);
+
+        return nodes.map(node => this.assess(node, headBlock));
+    }
+
+    /**
+     * Reads the state of a node, retrying while it does not answer
+     */
+    private async read(endpoint: string, signal?: AbortSignal): Promise<BesuNodeHealth> {
+        const node: BesuNodeHealth = { endpoint, reachable: false, healthy: false, problems: [], checkedAt: new Date().toISOString() };
+
+        try {
+            const client = new JsonRpcClient(endpoint);
+            const state = await executeWithRetry(attemptSignal => this.readState(client, attemptSignal), {
+                maxRetries: this.maxRetries,
+                initialDelayMs: 500,
+                operationName: 'ProbeBesuNode',
+                attemptTimeoutMs: this.timeoutMs,
+                shouldRetry: isRetryableError,
+                signal,
+                circuitBreaker: `besu:${new URL(endpoint).host}`
+            });
+            return { ...node, ...state, reachable: true };
+        } catch (error) {
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'ProbeBesuNode'
+            });
+            return { ...node, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    private async readState(client: JsonRpcClient, signal: AbortSignal): Promise<Partial<BesuNodeHealth>> {
+        const [networkId, chainId, syncing, peerCount, blockNumber] = await Promise.all([
+            client.call<string>('net_version', [], signal),
+            client.call<string>('eth_chainId', [], signal),
+            client.call<false | { highestBlock: string }>('eth_syncing', [], signal),
+            client.call<string>('net_peerCount', [], signal),
+            client.call<string>('eth_blockNumber', [], signal)
+        ]);
+
+        return {
+            networkId,
+            chainId: parseQuantity(chainId),
+            blockNumber: parseQuantity(blockNumber),
+            highestBlock: syncing ? parseQuantity(syncing.highestBlock) : parseQuantity(blockNumber),
+            syncing: !!syncing,
+            peerCount: parseQuantity(peerCount),
+            ...await this.readValidators(client, signal)
+        };
+    }
+
+    /**
+     * Reads the validators with the QBFT or IBFT API, whichever the node answers; nodes
+     * without either API enabled are left without validators
+     */
+    private async readValidators(client: JsonRpcClient, signal: AbortSignal): Promise<Pick<BesuNodeHealth, 'consensus' | 'validators'>> {
+        const candidates: BesuConsensus[] = this.consensus ? [this.consensus] : ['qbft', 'ibft'];
+
+        for (const consensus of candidates) {
+            try {
+                const validators = await client.call<string[]>(`${consensus}_getValidatorsByBlockNumber`, ['latest'], signal);
+                return { consensus, validators };
+            } catch (error) {
+                if (!(error instanceof JsonRpcError)) {
+                    throw error;
+                }
+            }
+        }
+        return {};
+    }
+
+    private isExpectedChain(node: BesuNodeHealth): boolean {
+        return this.expectedChainId === undefined || node.chainId === this.expectedChainId;
+    }
+
+    /**
+     * Works out the problems of a node from its state
+     * @param headBlock Highest block of the network, if known beyond the node itself
+     */
+    private assess(node: BesuNodeHealth, headBlock?: number): BesuNodeHealth {
+        const problems: BesuNodeProblem[] = [];
+        let blocksBehind: number | undefined;
+
+        if (!node.reachable) {
+            problems.push('unreachable');
+        } else {
+            // The head of other nodes says nothing about a node on another chain
+            const onExpectedChain = this.isExpectedChain(node);
+            blocksBehind = Math.max(node.highestBlock!, onExpectedChain ? headBlock ?? 0 : 0) - node.blockNumber!;
+
+            if (!onExpectedChain) {
+                problems.push('wrong-chain');
+            }
+            if (node.syncing) {
+                problems.push('syncing');
+            }
+            if (blocksBehind > this.maxBlockLag) {
+                problems.push('lagging');
+            }
+            if (node.peerCount! < this.minPeers) {
+                problems.push('no-peers');
+            }
+        }
+
+        return { ...node, blocksBehind, problems, healthy: problems.length === 0 };
+    }
+}
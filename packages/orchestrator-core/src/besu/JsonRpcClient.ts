@@ -0,0 +1,46 @@
+/**
+ * Error object of a JSON-RPC response
+ */
+export class JsonRpcError extends Error {
+    constructor(public readonly method: string, public readonly code: number, message: string) {
+        super(`${method} failed: ${message} (${code})`);
+        this.name = "JsonRpcError";
+    }
+}
+
+/**
+ * JsonRpcClient makes JSON-RPC 2.0 calls over HTTP, e.g. to a Besu node
+ */
+export class JsonRpcClient {
+    private nextId = 1;
+
+    constructor(public readonly endpoint: string) { }
+
+    /**
+     * Calls a method
+     * @param method Method name, e.g. `eth_blockNumber`
+     * @param params Positional parameters
+     * @param signal Aborts the call
+     * @returns The result of the call
+     * @throws JsonRpcError when the node answers with an error, or an error with the
+     * HTTP status when the request itself fails
+     */
+    public async call<T>(method: string, params: unknown[] = [], signal?: AbortSignal): Promise<T> {
+        const response = await fetch(this.endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', method, params, id: this.nextId++ }),
+            signal
+        });
+
+        if (!response.ok) {
+            throw Object.assign(new Error(`${method} failed: HTTP ${response.status}`), { status: response.status });
+        }
+
+        const body = await response.json() as { result?: T; error?: { code: number; message: string } };
+        if (body.error) {
+            throw new JsonRpcError(method, body.error.code, body.error.message);
+        }
+        return body.result as T;
+    }
+}
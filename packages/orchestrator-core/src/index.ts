@@ -0,0 +1,18 @@
+/**
+ * Connectivity checks, retries, telemetry and metrics shared by the orchestrator
+ * engine and blockchain-config
+ */
+export * from "./ConnectivityService";
+export * from "./RetryUtils";
+export * from "./CircuitBreaker";
+export * from "./TelemetryService";
+export * from "./MetricsService";
+export * from "./besu/JsonRpcClient";
+export * from "./besu/BesuNodeProbe";
+export * from "./telemetry/TelemetrySink";
+export * from "./telemetry/TelemetrySinkFactory";
+export * from "./telemetry/ConsoleTelemetrySink";
+export * from "./telemetry/ApplicationInsightsSink";
+export * from "./telemetry/JsonLinesTelemetrySink";
+export * from "./telemetry/MemoryTelemetrySink";
+export * from "./telemetry/OtlpTelemetrySink";
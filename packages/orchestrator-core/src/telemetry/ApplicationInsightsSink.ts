@@ -0,0 +1,68 @@
+import * as appInsights from 'applicationinsights';
+import { TelemetryEvent, TelemetryException, TelemetryMetric, TelemetrySink, TelemetrySpan } from './TelemetrySink';
+
+/**
+ * ApplicationInsightsSink sends telemetry to Azure Application Insights. Spans become
+ * dependencies: calls to other services as HTTP dependencies, internal spans as InProc.
+ */
+export class ApplicationInsightsSink implements TelemetrySink {
+    public readonly name = 'appinsights';
+
+    private constructor(private readonly client: appInsights.TelemetryClient) {
+    }
+
+    /**
+     * Sets up the Application Insights SDK, which also collects requests, performance
+     * counters, exceptions and console output of the process
+     * @param connectionString Connection string of the Application Insights resource
+     */
+    public static start(connectionString: string): ApplicationInsightsSink {
+        appInsights.setup(connectionString)
+            .setAutoDependencyCorrelation(true)
+            .setAutoCollectRequests(true)
+            .setAutoCollectPerformance(true)
+            .setAutoCollectExceptions(true)
+            .setAutoCollectDependencies(true)
+            .setAutoCollectConsole(true)
+            .setUseDiskRetryCaching(true)
+            .setSendLiveMetrics(true)
+            .start();
+
+        return new ApplicationInsightsSink(appInsights.defaultClient);
+    }
+
+    public trackEvent({ name, properties }: TelemetryEvent): void {
+        this.client.trackEvent({ name, properties });
+    }
+
+    public trackException({ exception, properties }: TelemetryException): void {
+        this.client.trackException({ exception, properties });
+    }
+
+    public trackMetric({ name, value, properties }: TelemetryMetric): void {
+        this.client.trackMetric({ name, value, properties });
+    }
+
+    public trackSpan(span: TelemetrySpan): void {
+        this.client.trackDependency({
+            id: span.spanId,
+            name: span.name,
+            data: span.attributes.target || span.name,
+            target: span.attributes.target,
+            duration: span.endTime - span.startTime,
+            success: span.success,
+            resultCode: span.success ? '200' : '500',
+            dependencyTypeName: span.kind === 'dependency' ? 'HTTP' : 'InProc',
+            time: new Date(span.startTime),
+            properties: span.attributes
+        });
+    }
+
+    public async flush(): Promise<void> {
+        await new Promise<void>(resolve => this.client.flush({ callback: () => resolve() }));
+    }
+
+    public async shutdown(): Promise<void> {
+        await this.flush();
+    }
+}
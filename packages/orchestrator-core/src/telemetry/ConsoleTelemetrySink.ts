@@ -0,0 +1,40 @@
+import chalk from 'chalk';
+import { TelemetryEvent, TelemetryException, TelemetryMetric, TelemetrySink, TelemetrySpan } from './TelemetrySink';
+
+/**
+ * ConsoleTelemetrySink prints telemetry to the console in colour, for local debugging.
+ * Only dependency spans are printed; internal spans would repeat the events around them.
+ */
+export class ConsoleTelemetrySink implements TelemetrySink {
+    public readonly name = 'console';
+
+    public trackEvent(event: TelemetryEvent): void {
+        const propertiesStr = event.properties ? ` ${JSON.stringify(event.properties)}` : '';
+        console.log(chalk.blue(`📊 Event: ${event.name}${propertiesStr}`));
+    }
+
+    public trackException({ exception, properties }: TelemetryException): void {
+        console.log(chalk.red(`❌ Exception: ${exception.message}`));
+        if (properties) {
+            console.log(chalk.red(`   Context: ${JSON.stringify(properties)}`));
+        }
+    }
+
+    public trackMetric(metric: TelemetryMetric): void {
+        console.log(chalk.magenta(`📈 Metric: ${metric.name} = ${metric.value}`));
+    }
+
+    public trackSpan(span: TelemetrySpan): void {
+        if (span.kind === 'dependency') {
+            console.log(chalk.cyan(`🔗 Dependency: ${span.name} - ${span.success ? 'Success' : 'Failure'} (${span.endTime - span.startTime}ms)`));
+        }
+    }
+
+    public async flush(): Promise<void> {
+        // Nothing is buffered
+    }
+
+    public async shutdown(): Promise<void> {
+        // Nothing to release
+    }
+}
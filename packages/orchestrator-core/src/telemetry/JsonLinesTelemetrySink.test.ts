@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { PassThrough } from "stream";
+import { JsonLinesTelemetrySink } from "./JsonLinesTelemetrySink";
+
+function readLines(stream: PassThrough): Record<string, unknown>[] {
+    const output = stream.read()?.toString() || "";
+    return output.trim().split("\n").map((line: string) => JSON.parse(line));
+}
+
+describe("JsonLinesTelemetrySink", () => {
+    it("should write one JSON object per piece of telemetry", () => {
+        const stream = new PassThrough();
+        const sink = new JsonLinesTelemetrySink(stream);
+        const time = Date.parse("2026-10-19T08:00:00Z");
+
+        sink.trackEvent({ name: "QuotaRefreshRequested", time, properties: { caller: "ops" }, traceId: "a".repeat(32), spanId: "b".repeat(16) });
+        sink.trackException({ exception: new TypeError("fetch failed"), time });
+        sink.trackMetric({ name: "QuotaUsagePercent", value: 42, time });
+        sink.trackSpan({
+            traceId: "a".repeat(32),
+            spanId: "b".repeat(16),
+            name: "RefreshQuotaData",
+            kind: "internal",
+            startTime: time,
+            endTime: time + 250,
+            success: false,
+            error: "Provider unavailable",
+            attributes: { attempts: "4" },
+            events: []
+        });
+
+        const [event, exception, metric, span] = readLines(stream);
+        expect(event).toEqual({
+            type: "event",
+            timestamp: "2026-10-19T08:00:00.000Z",
+            name: "QuotaRefreshRequested",
+            properties: { caller: "ops" },
+            traceId: "a".repeat(32),
+            spanId: "b".repeat(16)
+        });
+        expect(exception).toMatchObject({ type: "exception", name: "TypeError", message: "fetch failed" });
+        expect(metric).toMatchObject({ type: "metric", name: "QuotaUsagePercent", value: 42 });
+        expect(span).toMatchObject({ type: "span", name: "RefreshQuotaData", durationMs: 250, success: false, error: "Provider unavailable" });
+    });
+});
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import { Writable } from 'stream';
+import { TelemetryEvent, TelemetryException, TelemetryMetric, TelemetrySink, TelemetrySpan } from './TelemetrySink';
+
+/**
+ * JsonLinesTelemetrySink writes telemetry as structured logs, one JSON object per line,
+ * for log shippers to pick up. Every line has a `type` (event, exception, metric or
+ * span), an ISO `timestamp` and the trace and span it was recorded in.
+ */
+export class JsonLinesTelemetrySink implements TelemetrySink {
+    public readonly name = 'jsonl';
+
+    /**
+     * @param stream Where to write the lines (default: stdout)
+     */
+    constructor(private readonly stream: Writable = process.stdout) {
+    }
+
+    /**
+     * Creates a sink appending to a file
+     * @param filePath Log file, created if missing
+     */
+    public static toFile(filePath: string): JsonLinesTelemetrySink {
+        return new JsonLinesTelemetrySink(fs.createWriteStream(filePath, { flags: 'a' }));
+    }
+
+    public trackEvent(event: TelemetryEvent): void {
+        this.write({
+            type: 'event',
+            timestamp: new Date(event.time).toISOString(),
+            name: event.name,
+            properties: event.properties,
+            traceId: event.traceId,
+            spanId: event.spanId
+        });
+    }
+
+    public trackException({ exception, time, properties, traceId, spanId }: TelemetryException): void {
+        this.write({
+            type: 'exception',
+            timestamp: new Date(time).toISOString(),
+            name: exception.name,
+            message: exception.message,
+            stack: exception.stack,
+            properties,
+            traceId,
+            spanId
+        });
+    }
+
+    public trackMetric(metric: TelemetryMetric): void {
+        this.write({
+            type: 'metric',
+            timestamp: new Date(metric.time).toISOString(),
+            name: metric.name,
+            value: metric.value,
+            properties: metric.properties,
+            traceId: metric.traceId,
+            spanId: metric.spanId
+        });
+    }
+
+    public trackSpan(span: TelemetrySpan): void {
+        this.write({
+            type: 'span',
+            timestamp: new Date(span.startTime).toISOString(),
+            name: span.name,
+            kind: span.kind,
+            durationMs: span.endTime - span.startTime,
+            success: span.success,
+            error: span.error,
+            attributes: span.attributes,
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId
+        });
+    }
+
+    public async flush(): Promise<void> {
+        // Lines are handed to the stream as they are tracked
+    }
+
+    public async shutdown(): Promise<void> {
+        if (this.stream !== process.stdout && this.stream !== process.stderr) {
+            await new Promise<void>(resolve => this.stream.end(resolve));
+        }
+    }
+
+    private write(entry: Record<string, unknown>): void {
+        this.stream.write(`${JSON.stringify(entry)}\n`);
+    }
+}
@@ -0,0 +1,61 @@
+import { TelemetryEvent, TelemetryException, TelemetryMetric, TelemetrySink, TelemetrySpan } from './TelemetrySink';
+
+/**
+ * MemoryTelemetrySink keeps telemetry in memory, for tests to assert against
+ */
+export class MemoryTelemetrySink implements TelemetrySink {
+    public readonly name = 'memory';
+    public readonly events: TelemetryEvent[] = [];
+    public readonly exceptions: TelemetryException[] = [];
+    public readonly metrics: TelemetryMetric[] = [];
+    /** Finished spans, in the order they ended (children before their parents) */
+    public readonly spans: TelemetrySpan[] = [];
+
+    public trackEvent(event: TelemetryEvent): void {
+        this.events.push(event);
+    }
+
+    public trackException(exception: TelemetryException): void {
+        this.exceptions.push(exception);
+    }
+
+    public trackMetric(metric: TelemetryMetric): void {
+        this.metrics.push(metric);
+    }
+
+    public trackSpan(span: TelemetrySpan): void {
+        this.spans.push(span);
+    }
+
+    /**
+     * Finds the first span with a name
+     */
+    public findSpan(name: string): TelemetrySpan | undefined {
+        return this.spans.find(span => span.name === name);
+    }
+
+    /**
+     * Lists the spans started in a span
+     */
+    public childrenOf(span: TelemetrySpan): TelemetrySpan[] {
+        return this.spans.filter(child => child.parentSpanId === span.spanId && child.traceId === span.traceId);
+    }
+
+    /**
+     * Forgets everything tracked so far
+     */
+    public clear(): void {
+        this.events.length = 0;
+        this.exceptions.length = 0;
+        this.metrics.length = 0;
+        this.spans.length = 0;
+    }
+
+    public async flush(): Promise<void> {
+        // Nothing is buffered
+    }
+
+    public async shutdown(): Promise<void> {
+        // Nothing to release
+    }
+}
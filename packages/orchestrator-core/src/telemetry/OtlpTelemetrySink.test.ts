@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-base";
+import { AggregationTemporality, InMemoryMetricExporter } from "@opentelemetry/sdk-metrics";
+import { OtlpTelemetrySink } from "./OtlpTelemetrySink";
+
+describe("OtlpTelemetrySink", () => {
+    it("should export spans with their IDs, parents and events, and metrics as gauges", async () => {
+        const spanExporter = new InMemorySpanExporter();
+        const metricExporter = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE);
+        const sink = new OtlpTelemetrySink({ serviceName: "orchestrator-test", spanExporter, metricExporter });
+        const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+        const start = Date.parse("2026-10-19T08:00:00Z");
+
+        sink.trackSpan({
+            traceId,
+            spanId: "00f067aa0ba902b7",
+            parentSpanId: "a3ce929d0e0e4736",
+            name: "fake.fetchQuotaData",
+            kind: "dependency",
+            startTime: start,
+            endTime: start + 1500,
+            success: false,
+            error: "Provider unavailable",
+            attributes: { target: "fake" },
+            events: [{ name: "RetryDelay", time: start + 10, properties: { delayMs: "1000" } }]
+        });
+        sink.trackMetric({ name: "QuotaUsagePercent", value: 42, time: start, properties: { region: "eastus" } });
+        await sink.flush();
+
+        const [span] = spanExporter.getFinishedSpans();
+        expect(span.spanContext()).toMatchObject({ traceId, spanId: "00f067aa0ba902b7" });
+        expect(span.parentSpanId).toBe("a3ce929d0e0e4736");
+        expect(span.kind).toBe(SpanKind.CLIENT);
+        expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: "Provider unavailable" });
+        expect(span.duration).toEqual([1, 500000000]);
+        expect(span.events).toMatchObject([{ name: "RetryDelay", attributes: { delayMs: "1000" } }]);
+        expect(span.resource.attributes["service.name"]).toBe("orchestrator-test");
+
+        const metrics = metricExporter.getMetrics().flatMap(resource => resource.scopeMetrics).flatMap(scope => scope.metrics);
+        const usage = metrics.find(metric => metric.descriptor.name === "QuotaUsagePercent");
+        expect(usage?.dataPoints).toMatchObject([{ value: 42, attributes: { region: "eastus" } }]);
+
+        await sink.shutdown();
+    });
+});
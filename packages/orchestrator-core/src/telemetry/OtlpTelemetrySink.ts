@@ -0,0 +1,119 @@
+import { Attributes, Counter, Gauge, HrTime, SpanKind, SpanStatusCode, TraceFlags } from '@opentelemetry/api';
+import { Resource } from '@opentelemetry/resources';
+import { BatchSpanProcessor, ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { MeterProvider, PeriodicExportingMetricReader, PushMetricExporter } from '@opentelemetry/sdk-metrics';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { TelemetryEvent, TelemetryException, TelemetryMetric, TelemetrySink, TelemetrySpan } from './TelemetrySink';
+
+/**
+ * Options of an OtlpTelemetrySink
+ */
+export interface OtlpTelemetrySinkOptions {
+    /** service.name of the telemetry */
+    serviceName: string;
+    /** Where traces are sent (default: the exporter's, i.e. OTEL_EXPORTER_OTLP_ENDPOINT or http://localhost:4318) */
+    spanExporter?: SpanExporter;
+    /** Where metrics are sent (default: the exporter's, i.e. OTEL_EXPORTER_OTLP_ENDPOINT or http://localhost:4318) */
+    metricExporter?: PushMetricExporter;
+    /** How often metrics are sent (default: 60s) */
+    metricExportIntervalMs?: number;
+}
+
+/** Instrumentation scope of the exported spans and metrics */
+const INSTRUMENTATION_SCOPE = { name: 'orchestrator-core', version: '1.0.0' };
+
+/**
+ * Converts epoch milliseconds to OpenTelemetry's [seconds, nanoseconds]
+ */
+function toHrTime(epochMs: number): HrTime {
+    const seconds = Math.floor(epochMs / 1000);
+    return [seconds, Math.round((epochMs - seconds * 1000) * 1e6)];
+}
+
+/**
+ * OtlpTelemetrySink sends traces and metrics over OTLP/HTTP, e.g. to a local
+ * OpenTelemetry collector. Spans keep the trace and span IDs TelemetryService gave
+ * them, with events and exceptions tracked in a span as its span events. Metrics
+ * become gauges, and every event and exception is also counted, by name and by type.
+ */
+export class OtlpTelemetrySink implements TelemetrySink {
+    public readonly name = 'otlp';
+
+    private readonly resource: Resource;
+    private readonly spanProcessor: BatchSpanProcessor;
+    private readonly meterProvider: MeterProvider;
+    private readonly gauges = new Map<string, Gauge>();
+    private readonly eventCounter: Counter;
+    private readonly exceptionCounter: Counter;
+
+    constructor(options: OtlpTelemetrySinkOptions) {
+        this.resource = new Resource({ 'service.name': options.serviceName });
+        this.spanProcessor = new BatchSpanProcessor(options.spanExporter || new OTLPTraceExporter());
+        this.meterProvider = new MeterProvider({
+            resource: this.resource,
+            readers: [new PeriodicExportingMetricReader({
+                exporter: options.metricExporter || new OTLPMetricExporter(),
+                exportIntervalMillis: options.metricExportIntervalMs || 60000
+            })]
+        });
+
+        const meter = this.meterProvider.getMeter(INSTRUMENTATION_SCOPE.name, INSTRUMENTATION_SCOPE.version);
+        this.eventCounter = meter.createCounter('telemetry.events', { description: 'Events tracked, by name' });
+        this.exceptionCounter = meter.createCounter('telemetry.exceptions', { description: 'Exceptions tracked, by type' });
+    }
+
+    public trackEvent(event: TelemetryEvent): void {
+        this.eventCounter.add(1, { 'event.name': event.name });
+    }
+
+    public trackException({ exception }: TelemetryException): void {
+        this.exceptionCounter.add(1, { 'exception.type': exception.name });
+    }
+
+    public trackMetric({ name, value, properties }: TelemetryMetric): void {
+        let gauge = this.gauges.get(name);
+        if (!gauge) {
+            gauge = this.meterProvider.getMeter(INSTRUMENTATION_SCOPE.name, INSTRUMENTATION_SCOPE.version).createGauge(name);
+            this.gauges.set(name, gauge);
+        }
+        gauge.record(value, properties);
+    }
+
+    public trackSpan(span: TelemetrySpan): void {
+        const readable: ReadableSpan = {
+            name: span.name,
+            kind: span.kind === 'dependency' ? SpanKind.CLIENT : SpanKind.INTERNAL,
+            spanContext: () => ({ traceId: span.traceId, spanId: span.spanId, traceFlags: TraceFlags.SAMPLED }),
+            parentSpanId: span.parentSpanId,
+            startTime: toHrTime(span.startTime),
+            endTime: toHrTime(span.endTime),
+            duration: toHrTime(span.endTime - span.startTime),
+            status: span.success
+                ? { code: SpanStatusCode.OK }
+                : { code: SpanStatusCode.ERROR, message: span.error },
+            attributes: span.attributes,
+            links: [],
+            events: span.events.map(event => ({
+                name: event.name,
+                time: toHrTime(event.time),
+                attributes: event.properties as Attributes | undefined
+            })),
+            ended: true,
+            resource: this.resource,
+            instrumentationLibrary: INSTRUMENTATION_SCOPE,
+            droppedAttributesCount: 0,
+            droppedEventsCount: 0,
+            droppedLinksCount: 0
+        };
+        this.spanProcessor.onEnd(readable);
+    }
+
+    public async flush(): Promise<void> {
+        await Promise.all([this.spanProcessor.forceFlush(), this.meterProvider.forceFlush()]);
+    }
+
+    public async shutdown(): Promise<void> {
+        await Promise.all([this.spanProcessor.shutdown(), this.meterProvider.shutdown()]);
+    }
+}
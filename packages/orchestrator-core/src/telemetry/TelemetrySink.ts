@@ -0,0 +1,96 @@
+/**
+ * Properties attached to telemetry, as string key/values
+ */
+export type TelemetryProperties = { [key: string]: string };
+
+/**
+ * Trace and span a piece of telemetry was recorded in
+ */
+export interface TelemetryCorrelation {
+    /** W3C trace ID (32 hex digits) */
+    traceId?: string;
+    /** W3C span ID (16 hex digits) of the span the telemetry was recorded in */
+    spanId?: string;
+}
+
+/**
+ * A named event, e.g. QuotaRefreshRequested
+ */
+export interface TelemetryEvent extends TelemetryCorrelation {
+    name: string;
+    /** When the event happened (epoch milliseconds) */
+    time: number;
+    properties?: TelemetryProperties;
+}
+
+/**
+ * An error worth reporting
+ */
+export interface TelemetryException extends TelemetryCorrelation {
+    exception: Error;
+    /** When the error happened (epoch milliseconds) */
+    time: number;
+    properties?: TelemetryProperties;
+}
+
+/**
+ * A measured value, e.g. the quota usage of a region
+ */
+export interface TelemetryMetric extends TelemetryCorrelation {
+    name: string;
+    value: number;
+    /** When the value was measured (epoch milliseconds) */
+    time: number;
+    properties?: TelemetryProperties;
+}
+
+/**
+ * What a span stands for:
+ * - `internal`: work done in the process, e.g. an operation and its retries
+ * - `dependency`: a call to another service, e.g. Azure or a Besu node
+ */
+export type TelemetrySpanKind = 'internal' | 'dependency';
+
+/**
+ * A finished span: a timed piece of work, part of a trace. Spans started while
+ * another span is active are its children.
+ */
+export interface TelemetrySpan {
+    /** W3C trace ID (32 hex digits) shared by every span of the trace */
+    traceId: string;
+    /** W3C span ID (16 hex digits) */
+    spanId: string;
+    /** Span this span was started in; unset for the root span of a trace */
+    parentSpanId?: string;
+    name: string;
+    kind: TelemetrySpanKind;
+    /** When the span started (epoch milliseconds) */
+    startTime: number;
+    /** When the span ended (epoch milliseconds) */
+    endTime: number;
+    success: boolean;
+    /** Message of the error the span failed with */
+    error?: string;
+    attributes: TelemetryProperties;
+    /** Events tracked while the span was active */
+    events: TelemetryEvent[];
+}
+
+/**
+ * TelemetrySink sends telemetry to one backend. TelemetryService hands every piece of
+ * telemetry to each of its sinks, so one process can report to several backends.
+ * Sinks should not throw; errors they do throw are caught and logged.
+ */
+export interface TelemetrySink {
+    /** Name of the backend, for logs */
+    readonly name: string;
+    trackEvent(event: TelemetryEvent): void;
+    trackException(exception: TelemetryException): void;
+    trackMetric(metric: TelemetryMetric): void;
+    /** Called once a span has ended */
+    trackSpan(span: TelemetrySpan): void;
+    /** Sends buffered telemetry */
+    flush(): Promise<void>;
+    /** Sends buffered telemetry and releases the sink's resources */
+    shutdown(): Promise<void>;
+}
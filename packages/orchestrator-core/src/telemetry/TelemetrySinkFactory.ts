@@ -0,0 +1,53 @@
+import { TelemetrySink } from "./TelemetrySink";
+import { ConsoleTelemetrySink } from "./ConsoleTelemetrySink";
+import { ApplicationInsightsSink } from "./ApplicationInsightsSink";
+import { JsonLinesTelemetrySink } from "./JsonLinesTelemetrySink";
+import { OtlpTelemetrySink } from "./OtlpTelemetrySink";
+
+/**
+ * Supported telemetry sinks
+ */
+export type TelemetrySinkType = 'console' | 'appinsights' | 'otlp' | 'jsonl';
+
+const TELEMETRY_SINK_TYPES: TelemetrySinkType[] = ['console', 'appinsights', 'otlp', 'jsonl'];
+
+/**
+ * Creates the telemetry sinks selected by the environment:
+ * - TELEMETRY_SINKS: comma-separated `console`, `appinsights`, `otlp` and `jsonl`
+ *   (default: `console`, plus `appinsights` when APPLICATIONINSIGHTS_CONNECTION_STRING is set)
+ * - APPLICATIONINSIGHTS_CONNECTION_STRING: Application Insights resource for `appinsights`
+ * - OTEL_EXPORTER_OTLP_ENDPOINT, OTEL_SERVICE_NAME, OTEL_METRIC_EXPORT_INTERVAL: collector,
+ *   service name (overriding serviceName) and metric export interval (ms) for `otlp`
+ * - TELEMETRY_LOG_FILE: file `jsonl` appends to (default: stdout)
+ * @param env Environment to read (default: process.env)
+ * @param serviceName Name of the service the telemetry comes from
+ * @returns The configured sinks
+ */
+export function createTelemetrySinks(env: NodeJS.ProcessEnv = process.env, serviceName = 'orchestrator'): TelemetrySink[] {
+    const types = env.TELEMETRY_SINKS
+        ? env.TELEMETRY_SINKS.split(',').map(type => type.trim()).filter(type => type)
+        : ['console', ...(env.APPLICATIONINSIGHTS_CONNECTION_STRING ? ['appinsights'] : [])];
+
+    return types.map(type => {
+        switch (type as TelemetrySinkType) {
+            case 'console':
+                return new ConsoleTelemetrySink();
+            case 'appinsights':
+                if (!env.APPLICATIONINSIGHTS_CONNECTION_STRING) {
+                    throw new Error("APPLICATIONINSIGHTS_CONNECTION_STRING must be set for the 'appinsights' telemetry sink");
+                }
+                return ApplicationInsightsSink.start(env.APPLICATIONINSIGHTS_CONNECTION_STRING);
+            case 'otlp':
+                return new OtlpTelemetrySink({
+                    serviceName: env.OTEL_SERVICE_NAME || serviceName,
+                    metricExportIntervalMs: env.OTEL_METRIC_EXPORT_INTERVAL ? parseInt(env.OTEL_METRIC_EXPORT_INTERVAL, 10) : undefined
+                });
+            case 'jsonl':
+                return env.TELEMETRY_LOG_FILE
+                    ? JsonLinesTelemetrySink.toFile(env.TELEMETRY_LOG_FILE)
+                    : new JsonLinesTelemetrySink();
+            default:
+                throw new Error(`Unknown telemetry sink '${type}'. Use ${TELEMETRY_SINK_TYPES.join(', ')}`);
+        }
+    });
+}
@@ -0,0 +1,360 @@
+import { ApiRole } from "../auth/AuthProvider";
+
+/**
+ * One documented response of an operation
+ */
+export interface ApiResponseSpec {
+    description: string;
+    /** Component schema of the body (default: ApiError for error statuses) */
+    schema?: string;
+    /** Content type of the body (default: application/json) */
+    contentType?: string;
+}
+
+/**
+ * ApiOperation describes one route of server.ts for the OpenAPI document. Request and
+ * response bodies name the types of ApiTypes.ts, whose schemas are generated.
+ */
+export interface ApiOperation {
+    operationId: string;
+    method: 'get' | 'post' | 'delete';
+    /** Path in OpenAPI form, e.g. /api/allocations/{id} */
+    path: string;
+    summary: string;
+    tag: string;
+    /** Least role the caller needs when authentication is configured (unset: public) */
+    role?: ApiRole;
+    /** Component schema of the query parameters */
+    query?: string;
+    /** Component schema of the JSON request body */
+    requestBody?: string;
+    /** Responses by status; errors without a schema are documented as ApiError */
+    responses: Record<number, ApiResponseSpec>;
+}
+
+const NOT_FOUND = (what: string): ApiResponseSpec => ({ description: `${what} not found` });
+
+/**
+ * Operations of the orchestrator API, in the order of server.ts
+ */
+export const API_OPERATIONS: ApiOperation[] = [
+    {
+        operationId: "getHealth",
+        method: "get",
+        path: "/health",
+        summary: "Check that the server is up and which integrations are connected",
+        tag: "Status",
+        responses: { 200: { description: "Server status", schema: "HealthResponse" } }
+    },
+    {
+        operationId: "validateQuota",
+        method: "get",
+        path: "/api/quotas",
+        summary: "Check whether a region has quota for a role",
+        tag: "Quotas",
+        role: "viewer",
+        query: "QuotaEligibilityQuery",
+        responses: { 200: { description: "Eligibility of the region", schema: "QuotaEligibilityResponse" } }
+    },
+    {
+        operationId: "getQuotaMatrix",
+        method: "get",
+        path: "/api/quotas/matrix",
+        summary: "Get the quota figures of every region and SKU",
+        tag: "Quotas",
+        role: "viewer",
+        query: "QuotaMatrixQuery",
+        responses: { 200: { description: "Quota figures by region and SKU", schema: "QuotaMatrixResponse" } }
+    },
+    {
+        operationId: "refreshQuotas",
+        method: "post",
+        path: "/api/quotas/refresh",
+        summary: "Refresh quota data from the configured provider",
+        tag: "Quotas",
+        role: "admin",
+        responses: {
+            200: { description: "Quota data was refreshed", schema: "QuotaRefreshResponse" },
+            429: { description: "The caller is over its rate limit, or quota data was refreshed too recently (see Retry-After)" },
+            503: { description: "Quota data could not be refreshed", schema: "QuotaRefreshResponse" },
+            500: { description: "The refresh failed unexpectedly", schema: "QuotaRefreshResponse" }
+        }
+    },
+    {
+        operationId: "getBesuStatus",
+        method: "get",
+        path: "/api/besu/status",
+        summary: "Probe the configured Besu nodes",
+        tag: "Status",
+        role: "viewer",
+        responses: {
+            200: { description: "A Besu node on the expected chain answers", schema: "BesuStatusResponse" },
+            503: { description: "Besu is not configured or no node on the expected chain answers", schema: "BesuStatusResponse" },
+            500: { description: "The check failed unexpectedly", schema: "BesuStatusResponse" }
+        }
+    },
+    {
+        operationId: "getAzureStatus",
+        method: "get",
+        path: "/api/azure/status",
+        summary: "Check Azure connectivity",
+        tag: "Status",
+        role: "viewer",
+        responses: {
+            200: { description: "Azure connectivity", schema: "AzureStatusResponse" },
+            500: { description: "The check failed unexpectedly", schema: "AzureStatusResponse" }
+        }
+    },
+    {
+        operationId: "recommendAllocations",
+        method: "post",
+        path: "/api/quotas/recommendations",
+        summary: "Recommend regions and SKUs for a role",
+        tag: "Quotas",
+        role: "viewer",
+        requestBody: "RecommendationRequest",
+        responses: { 200: { description: "Recommendations, best first", schema: "RecommendationsResponse" } }
+    },
+    {
+        operationId: "streamEvents",
+        method: "get",
+        path: "/api/events",
+        summary: "Stream quota and allocation changes as server-sent events",
+        tag: "Events",
+        role: "viewer",
+        query: "EventStreamQuery",
+        responses: { 200: { description: "Event stream", contentType: "text/event-stream" } }
+    },
+    {
+        operationId: "planPlacement",
+        method: "post",
+        path: "/api/placements/plan",
+        summary: "Plan where the nodes of a Besu network go",
+        tag: "Planning",
+        role: "viewer",
+        requestBody: "NetworkShape",
+        responses: { 200: { description: "Placement plan", schema: "PlacementPlanResponse" } }
+    },
+    {
+        operationId: "listSkus",
+        method: "get",
+        path: "/api/skus",
+        summary: "List the SKU catalog",
+        tag: "Catalog",
+        role: "viewer",
+        responses: { 200: { description: "SKU capabilities", schema: "SkuCatalogResponse" } }
+    },
+    {
+        operationId: "listPolicies",
+        method: "get",
+        path: "/api/policies",
+        summary: "List the allocation policies",
+        tag: "Catalog",
+        role: "viewer",
+        responses: { 200: { description: "Policy rules", schema: "PoliciesResponse" } }
+    },
+    {
+        operationId: "listAllocations",
+        method: "get",
+        path: "/api/allocations",
+        summary: "List allocations",
+        tag: "Allocations",
+        role: "viewer",
+        query: "AllocationListQuery",
+        responses: { 200: { description: "Matching allocations", schema: "AllocationListResponse" } }
+    },
+    {
+        operationId: "createAllocation",
+        method: "post",
+        path: "/api/allocations",
+        summary: "Allocate quota, or reserve it to confirm later",
+        tag: "Allocations",
+        role: "allocator",
+        requestBody: "CreateAllocationRequest",
+        responses: {
+            201: { description: "The new allocation or reservation", schema: "AllocationResponse" },
+            404: { description: "The region or SKU has no quota data" },
+            409: { description: "Not enough quota, or the store changed first" },
+            422: { description: "A role assignment, policy or budget forbids the allocation" },
+            503: { description: "The region is unhealthy" }
+        }
+    },
+    {
+        operationId: "getAllocation",
+        method: "get",
+        path: "/api/allocations/{id}",
+        summary: "Get an allocation",
+        tag: "Allocations",
+        role: "viewer",
+        responses: {
+            200: { description: "The allocation", schema: "AllocationResponse" },
+            404: NOT_FOUND("Allocation")
+        }
+    },
+    {
+        operationId: "releaseAllocation",
+        method: "delete",
+        path: "/api/allocations/{id}",
+        summary: "Release an allocation or reservation",
+        tag: "Allocations",
+        role: "allocator",
+        query: "ReleaseAllocationQuery",
+        responses: {
+            200: { description: "The released allocation", schema: "AllocationResponse" },
+            404: NOT_FOUND("Allocation"),
+            409: { description: "The allocation was already released or expired, or the store changed first" }
+        }
+    },
+    {
+        operationId: "confirmReservation",
+        method: "post",
+        path: "/api/allocations/{id}/confirm",
+        summary: "Confirm a reservation",
+        tag: "Allocations",
+        role: "allocator",
+        responses: {
+            200: { description: "The confirmed allocation", schema: "AllocationResponse" },
+            404: NOT_FOUND("Reservation"),
+            409: { description: "The reservation is not pending, or the store changed first" }
+        }
+    },
+    {
+        operationId: "allocateBatch",
+        method: "post",
+        path: "/api/allocations/batch",
+        summary: "Allocate several region/SKU lines, all or none",
+        tag: "Allocations",
+        role: "allocator",
+        requestBody: "BatchAllocationRequest",
+        responses: {
+            201: { description: "Every line was allocated", schema: "BatchAllocationResponse" },
+            409: { description: "A line was rejected and nothing was allocated, or the store changed first", schema: "BatchAllocationRejection" }
+        }
+    },
+    {
+        operationId: "proposeRebalancing",
+        method: "get",
+        path: "/api/rebalance/proposals",
+        summary: "Propose moves of allocations out of unhealthy regions",
+        tag: "Rebalancing",
+        role: "viewer",
+        query: "RebalanceProposalsQuery",
+        responses: { 200: { description: "Proposed moves", schema: "RebalanceProposalsResponse" } }
+    },
+    {
+        operationId: "applyRebalancing",
+        method: "post",
+        path: "/api/rebalance/apply",
+        summary: "Move allocations out of unhealthy regions",
+        tag: "Rebalancing",
+        role: "admin",
+        requestBody: "ApplyRebalancingRequest",
+        responses: {
+            200: { description: "Outcome of each move", schema: "ApplyRebalancingResponse" },
+            409: { description: "The store changed first" }
+        }
+    },
+    {
+        operationId: "getAllocationHistory",
+        method: "get",
+        path: "/api/allocations/{id}/history",
+        summary: "Get the audit trail of an allocation",
+        tag: "Allocations",
+        role: "viewer",
+        responses: {
+            200: { description: "Audit events of the allocation", schema: "AllocationHistoryResponse" },
+            404: NOT_FOUND("Allocation")
+        }
+    },
+    {
+        operationId: "suggestRegion",
+        method: "get",
+        path: "/api/quotas/suggestions/{role}",
+        summary: "Suggest a region to deploy a role in",
+        tag: "Quotas",
+        role: "viewer",
+        responses: { 200: { description: "Suggested region", schema: "RegionSuggestionResponse" } }
+    },
+    {
+        operationId: "summarizeQuota",
+        method: "get",
+        path: "/api/quotas/summary/{role}",
+        summary: "Summarize a role's quota by region",
+        tag: "Quotas",
+        role: "viewer",
+        query: "QuotaSummaryQuery",
+        responses: { 200: { description: "Quota figures by region", schema: "QuotaSummaryResponse" } }
+    },
+    {
+        operationId: "summarizeSubscriptions",
+        method: "get",
+        path: "/api/quotas/subscriptions",
+        summary: "Summarize quota by subscription",
+        tag: "Quotas",
+        role: "viewer",
+        query: "SubscriptionSummaryQuery",
+        responses: { 200: { description: "Quota figures by subscription", schema: "SubscriptionSummaryResponse" } }
+    },
+    {
+        operationId: "getBudgets",
+        method: "get",
+        path: "/api/budgets",
+        summary: "Report how much of their budgets applications use",
+        tag: "Billing",
+        role: "viewer",
+        query: "BudgetsQuery",
+        responses: { 200: { description: "Budget status by application", schema: "BudgetsResponse" } }
+    },
+    {
+        operationId: "getChargeback",
+        method: "get",
+        path: "/api/chargeback",
+        summary: "Attribute quota consumption over a period to applications",
+        tag: "Billing",
+        role: "viewer",
+        query: "ChargebackQuery",
+        responses: { 200: { description: "Chargeback report (CSV or Markdown with the format parameter)", schema: "ChargebackResponse" } }
+    },
+    {
+        operationId: "getQuotaTrends",
+        method: "get",
+        path: "/api/quotas/trends",
+        summary: "Get quota trends from the stored snapshots",
+        tag: "History",
+        role: "viewer",
+        query: "QuotaTrendsQuery",
+        responses: { 200: { description: "Quota trends", schema: "QuotaTrendsResponse" } }
+    },
+    {
+        operationId: "listSnapshots",
+        method: "get",
+        path: "/api/quotas/snapshots",
+        summary: "List the stored quota snapshots",
+        tag: "History",
+        role: "viewer",
+        responses: { 200: { description: "Stored snapshots", schema: "SnapshotListResponse" } }
+    },
+    {
+        operationId: "diffSnapshots",
+        method: "get",
+        path: "/api/quotas/snapshots/diff",
+        summary: "Compare two quota snapshots",
+        tag: "History",
+        role: "viewer",
+        query: "SnapshotDiffQuery",
+        responses: {
+            200: { description: "Changes between the snapshots", schema: "SnapshotDiffResponse" },
+            404: NOT_FOUND("Snapshot")
+        }
+    },
+    {
+        operationId: "forecastQuota",
+        method: "get",
+        path: "/api/quotas/forecast",
+        summary: "Forecast quota exhaustion from the refresh history",
+        tag: "History",
+        role: "viewer",
+        query: "QuotaForecastQuery",
+        responses: { 200: { description: "Forecast by region and SKU", schema: "QuotaForecastResponse" } }
+    }
+];
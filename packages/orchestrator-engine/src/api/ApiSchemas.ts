@@ -0,0 +1,2579 @@
+// Generated by scripts/generateOpenApi.ts from ApiTypes.ts; do not edit.
+// Run `pnpm generate-openapi` after changing the API types.
+
+/* eslint-disable */
+export const API_SCHEMAS: Record<string, object> = {
+    "ApiErrorCode": {
+        "anyOf": [
+            {
+                "$ref": "#/components/schemas/AllocationErrorCode"
+            },
+            {
+                "type": "string",
+                "const": "UNAUTHENTICATED"
+            },
+            {
+                "type": "string",
+                "const": "FORBIDDEN"
+            },
+            {
+                "type": "string",
+                "const": "ALLOCATION_NOT_FOUND"
+            },
+            {
+                "type": "string",
+                "const": "ALLOCATION_NOT_ACTIVE"
+            },
+            {
+                "type": "string",
+                "const": "STORE_CONFLICT"
+            },
+            {
+                "type": "string",
+                "const": "RATE_LIMITED"
+            },
+            {
+                "type": "string",
+                "const": "REFRESH_THROTTLED"
+            },
+            {
+                "type": "string",
+                "const": "INTERNAL_ERROR"
+            }
+        ],
+        "description": "Error codes of the API: the engine's allocation rejection codes plus the API's own\n- `UNAUTHENTICATED`: no valid credential was sent\n- `FORBIDDEN`: the caller's role does not allow the request\n- `ALLOCATION_NOT_FOUND`: no allocation has the ID\n- `ALLOCATION_NOT_ACTIVE`: the allocation was already released, expired or confirmed\n- `STORE_CONFLICT`: another process changed the allocations first or is still writing them; retry\n- `RATE_LIMITED`: the caller made too many requests; retry after the Retry-After header\n- `REFRESH_THROTTLED`: quota data was refreshed too recently; retry after the Retry-After header\n- `INTERNAL_ERROR`: the request failed unexpectedly"
+    },
+    "AllocationErrorCode": {
+        "type": "string",
+        "enum": [
+            "INVALID_REQUEST",
+            "QUOTA_NOT_FOUND",
+            "ROLE_NOT_ASSIGNED",
+            "INSUFFICIENT_QUOTA",
+            "SUBSCRIPTION_UNAVAILABLE",
+            "POLICY_VIOLATION",
+            "BUDGET_EXCEEDED",
+            "REGION_UNHEALTHY"
+        ],
+        "description": "Why an allocation request was rejected:\n- `INVALID_REQUEST`: missing or invalid parameters\n- `QUOTA_NOT_FOUND`: the region or SKU has no quota data\n- `ROLE_NOT_ASSIGNED`: the SKU is not assigned to the role\n- `INSUFFICIENT_QUOTA`: not enough quota is available\n- `SUBSCRIPTION_UNAVAILABLE`: the requested subscription has no quota for the SKU\n- `POLICY_VIOLATION`: an allocation policy forbids the request\n- `BUDGET_EXCEEDED`: the application's budget forbids the request\n- `REGION_UNHEALTHY`: the region's compute services are degraded"
+    },
+    "ValidationIssue": {
+        "type": "object",
+        "properties": {
+            "path": {
+                "type": "string",
+                "description": "Where the problem is, e.g. body.lines[0].amount or query.status"
+            },
+            "message": {
+                "type": "string",
+                "description": "What is wrong with the value"
+            }
+        },
+        "required": [
+            "path",
+            "message"
+        ],
+        "additionalProperties": false,
+        "description": "One problem found validating a request or response"
+    },
+    "ApiError": {
+        "type": "object",
+        "properties": {
+            "error": {
+                "type": "string",
+                "description": "Short description of the kind of error"
+            },
+            "code": {
+                "$ref": "#/components/schemas/ApiErrorCode",
+                "description": "Machine-readable error code (allocation, auth and validation errors)"
+            },
+            "message": {
+                "type": "string",
+                "description": "What went wrong"
+            },
+            "details": {
+                "type": "object",
+                "properties": {
+                    "errors": {
+                        "type": "array",
+                        "items": {
+                            "$ref": "#/components/schemas/ValidationIssue"
+                        }
+                    }
+                },
+                "additionalProperties": {},
+                "description": "Further details, e.g. the validation issues of an INVALID_REQUEST"
+            }
+        },
+        "required": [
+            "error",
+            "message"
+        ],
+        "additionalProperties": false,
+        "description": "Error body returned by every endpoint"
+    },
+    "HealthResponse": {
+        "type": "object",
+        "properties": {
+            "status": {
+                "type": "string",
+                "const": "ok"
+            },
+            "azure": {
+                "type": "string",
+                "enum": [
+                    "connected",
+                    "offline"
+                ]
+            },
+            "besu": {
+                "type": "string",
+                "enum": [
+                    "available",
+                    "offline"
+                ]
+            },
+            "telemetry": {
+                "type": "string",
+                "enum": [
+                    "enabled",
+                    "disabled"
+                ]
+            },
+            "version": {
+                "type": "string"
+            },
+            "circuitBreakers": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/CircuitBreakerStatus"
+                },
+                "description": "Circuit breakers guarding Azure, Besu and the quota provider; an open one fails calls fast"
+            }
+        },
+        "required": [
+            "status",
+            "azure",
+            "besu",
+            "telemetry",
+            "version",
+            "circuitBreakers"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /health"
+    },
+    "CircuitBreakerStatus": {
+        "type": "object",
+        "properties": {
+            "name": {
+                "type": "string",
+                "description": "Name of the dependency the breaker guards, e.g. `azure` or `besu`"
+            },
+            "state": {
+                "$ref": "#/components/schemas/CircuitState"
+            },
+            "failures": {
+                "type": "number",
+                "description": "Consecutive failures so far"
+            },
+            "openedAt": {
+                "type": "string",
+                "description": "When the circuit last opened (ISO 8601), if it is not closed"
+            },
+            "retryAfterMs": {
+                "type": "number",
+                "description": "How long until a trial call is let through, while the circuit is open"
+            }
+        },
+        "required": [
+            "name",
+            "state",
+            "failures"
+        ],
+        "additionalProperties": false,
+        "description": "Snapshot of a circuit breaker, e.g. for a health endpoint"
+    },
+    "CircuitState": {
+        "type": "string",
+        "enum": [
+            "closed",
+            "open",
+            "half-open"
+        ],
+        "description": "State of a circuit breaker: closed (calls go through), open (calls fail fast until the cool-down ends) or half-open (one trial call decides whether to close again)"
+    },
+    "QuotaEligibilityQuery": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string",
+                "minLength": 1
+            },
+            "role": {
+                "type": "string",
+                "minLength": 1
+            }
+        },
+        "required": [
+            "region",
+            "role"
+        ],
+        "additionalProperties": false,
+        "description": "Query of GET /api/quotas"
+    },
+    "QuotaEligibilityResponse": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string"
+            },
+            "role": {
+                "type": "string"
+            },
+            "eligible": {
+                "type": "boolean",
+                "description": "Whether the region has quota for the role"
+            }
+        },
+        "required": [
+            "region",
+            "role",
+            "eligible"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/quotas"
+    },
+    "QuotaMatrixQuery": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string"
+            },
+            "role": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/quotas/matrix"
+    },
+    "QuotaMatrixResponse": {
+        "type": "object",
+        "properties": {
+            "data": {
+                "type": "object",
+                "additionalProperties": {
+                    "type": "object",
+                    "additionalProperties": {
+                        "$ref": "#/components/schemas/QuotaMatrixEntry"
+                    }
+                },
+                "description": "Quota figures by region and SKU"
+            },
+            "meta": {
+                "type": "object",
+                "properties": {
+                    "timestamp": {
+                        "type": "string"
+                    },
+                    "lastRefresh": {
+                        "type": [
+                            "string",
+                            "null"
+                        ],
+                        "description": "When the quota data was last refreshed, or null if it never was"
+                    }
+                },
+                "required": [
+                    "timestamp",
+                    "lastRefresh"
+                ],
+                "additionalProperties": false
+            }
+        },
+        "required": [
+            "data",
+            "meta"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/quotas/matrix"
+    },
+    "QuotaMatrixEntry": {
+        "type": "object",
+        "properties": {
+            "total": {
+                "type": "number"
+            },
+            "used": {
+                "type": "number"
+            },
+            "available": {
+                "type": "number"
+            },
+            "assigned_to": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Roles that can use this quota"
+            },
+            "subscriptions": {
+                "type": "object",
+                "additionalProperties": {
+                    "$ref": "#/components/schemas/SubscriptionQuota"
+                },
+                "description": "Per-subscription breakdown when the quota spans several subscriptions"
+            }
+        },
+        "required": [
+            "total",
+            "used",
+            "available",
+            "assigned_to"
+        ],
+        "additionalProperties": false,
+        "description": "QuotaMatrixEntry is a region/SKU quota as shown to clients, without its allocations"
+    },
+    "SubscriptionQuota": {
+        "type": "object",
+        "properties": {
+            "total": {
+                "type": "number"
+            },
+            "used": {
+                "type": "number"
+            },
+            "available": {
+                "type": "number"
+            },
+            "family": {
+                "$ref": "#/components/schemas/FamilyQuota",
+                "description": "The subscription's quota of the SKU's VM family"
+            }
+        },
+        "required": [
+            "total",
+            "used",
+            "available"
+        ],
+        "additionalProperties": false,
+        "description": "SubscriptionQuota is one subscription's share of a region/SKU quota"
+    },
+    "FamilyQuota": {
+        "type": "object",
+        "properties": {
+            "name": {
+                "type": "string",
+                "description": "VM family, e.g. standardDSv3Family"
+            },
+            "limitVcpus": {
+                "type": "number",
+                "description": "vCPU limit of the family"
+            },
+            "usedVcpus": {
+                "type": "number",
+                "description": "vCPUs of the family in use"
+            }
+        },
+        "required": [
+            "name",
+            "limitVcpus",
+            "usedVcpus"
+        ],
+        "additionalProperties": false,
+        "description": "FamilyQuota is the vCPU quota Azure enforces per VM family, which every SKU of the family in a region draws from"
+    },
+    "QuotaRefreshResponse": {
+        "type": "object",
+        "properties": {
+            "success": {
+                "type": "boolean"
+            },
+            "message": {
+                "type": "string"
+            },
+            "coalesced": {
+                "type": "boolean",
+                "description": "Whether the request joined a refresh another caller had already started"
+            },
+            "timestamp": {
+                "type": "string"
+            }
+        },
+        "required": [
+            "success",
+            "message"
+        ],
+        "additionalProperties": false,
+        "description": "Body of POST /api/quotas/refresh"
+    },
+    "BesuStatusResponse": {
+        "type": "object",
+        "properties": {
+            "available": {
+                "type": "boolean",
+                "description": "Whether a node on the expected chain answers"
+            },
+            "healthy": {
+                "type": "boolean",
+                "description": "Whether every node is synced, connected and on the expected chain"
+            },
+            "endpoint": {
+                "type": "string",
+                "description": "First configured endpoint"
+            },
+            "nodes": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/BesuNodeHealth"
+                },
+                "description": "Health of each configured node"
+            },
+            "message": {
+                "type": "string"
+            },
+            "timestamp": {
+                "type": "string"
+            }
+        },
+        "required": [
+            "available",
+            "message"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/besu/status"
+    },
+    "BesuNodeHealth": {
+        "type": "object",
+        "properties": {
+            "endpoint": {
+                "type": "string",
+                "description": "JSON-RPC endpoint of the node"
+            },
+            "reachable": {
+                "type": "boolean",
+                "description": "Whether the node answered"
+            },
+            "healthy": {
+                "type": "boolean",
+                "description": "Whether the node is reachable and has no problems"
+            },
+            "problems": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/BesuNodeProblem"
+                },
+                "description": "What is wrong with the node, if anything"
+            },
+            "networkId": {
+                "type": "string",
+                "description": "Network ID (`net_version`)"
+            },
+            "chainId": {
+                "type": "number",
+                "description": "Chain ID (`eth_chainId`)"
+            },
+            "blockNumber": {
+                "type": "number",
+                "description": "Latest block of the node (`eth_blockNumber`)"
+            },
+            "highestBlock": {
+                "type": "number",
+                "description": "Highest block known to the node while it syncs, else its latest block"
+            },
+            "blocksBehind": {
+                "type": "number",
+                "description": "How many blocks the node is behind its sync target or the other nodes probed with it"
+            },
+            "syncing": {
+                "type": "boolean",
+                "description": "Whether the node is syncing (`eth_syncing`)"
+            },
+            "peerCount": {
+                "type": "number",
+                "description": "Connected peers (`net_peerCount`)"
+            },
+            "consensus": {
+                "$ref": "#/components/schemas/BesuConsensus",
+                "description": "Consensus protocol whose validator API answered"
+            },
+            "validators": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Validators at the latest block, if the node exposes the QBFT or IBFT API"
+            },
+            "error": {
+                "type": "string",
+                "description": "Why the node could not be reached"
+            },
+            "checkedAt": {
+                "type": "string",
+                "description": "When the node was probed (ISO 8601)"
+            }
+        },
+        "required": [
+            "endpoint",
+            "reachable",
+            "healthy",
+            "problems",
+            "checkedAt"
+        ],
+        "additionalProperties": false,
+        "description": "Health of a Besu node, as read over JSON-RPC"
+    },
+    "BesuNodeProblem": {
+        "type": "string",
+        "enum": [
+            "unreachable",
+            "syncing",
+            "lagging",
+            "no-peers",
+            "wrong-chain"
+        ],
+        "description": "Why a Besu node is not healthy"
+    },
+    "BesuConsensus": {
+        "type": "string",
+        "enum": [
+            "qbft",
+            "ibft"
+        ],
+        "description": "Consensus protocol of a Besu network, which decides the validator API to call"
+    },
+    "AzureStatusResponse": {
+        "type": "object",
+        "properties": {
+            "connected": {
+                "type": "boolean"
+            },
+            "subscriptionId": {
+                "type": "string"
+            },
+            "resourceHealth": {
+                "type": "string",
+                "enum": [
+                    "healthy",
+                    "issues-detected",
+                    "unknown"
+                ]
+            },
+            "message": {
+                "type": "string"
+            },
+            "timestamp": {
+                "type": "string"
+            }
+        },
+        "required": [
+            "connected",
+            "message"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/azure/status"
+    },
+    "RecommendationsResponse": {
+        "type": "object",
+        "properties": {
+            "query": {
+                "$ref": "#/components/schemas/RecommendationRequest"
+            },
+            "recommendations": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/RecommendationDetails"
+                }
+            },
+            "excluded": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/RecommendationExclusion"
+                }
+            },
+            "meta": {
+                "type": "object",
+                "properties": {
+                    "count": {
+                        "type": "number"
+                    },
+                    "timestamp": {
+                        "type": "string"
+                    },
+                    "azureConnected": {
+                        "type": "boolean"
+                    }
+                },
+                "required": [
+                    "count",
+                    "timestamp",
+                    "azureConnected"
+                ],
+                "additionalProperties": false
+            }
+        },
+        "required": [
+            "query",
+            "recommendations",
+            "excluded",
+            "meta"
+        ],
+        "additionalProperties": false,
+        "description": "Body of POST /api/quotas/recommendations"
+    },
+    "RecommendationRequest": {
+        "type": "object",
+        "properties": {
+            "role": {
+                "type": "string",
+                "description": "Workload role/type needed",
+                "minLength": 1
+            },
+            "minimumQuota": {
+                "type": "integer",
+                "description": "Minimum quota units needed",
+                "minimum": 1
+            },
+            "preferredRegions": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Preferred regions (optional)"
+            },
+            "preferredSubscriptions": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Preferred subscriptions (optional)"
+            },
+            "skuRequirements": {
+                "$ref": "#/components/schemas/SkuRequirements",
+                "description": "SKU requirements/constraints (optional), checked against the SKU catalog"
+            },
+            "requiredFeatures": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Required features (optional), from SKU_FEATURES"
+            }
+        },
+        "required": [
+            "role",
+            "minimumQuota"
+        ],
+        "additionalProperties": false,
+        "description": "RecommendationRequest contains parameters for generating recommendations"
+    },
+    "SkuRequirements": {
+        "type": "object",
+        "properties": {
+            "minCores": {
+                "type": "number",
+                "description": "Minimum number of vCPUs"
+            },
+            "minMemory": {
+                "type": "number",
+                "description": "Minimum memory in GB"
+            },
+            "gpuRequired": {
+                "type": "boolean",
+                "description": "Whether at least one GPU is needed"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Minimum hardware a workload needs"
+    },
+    "RecommendationDetails": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string",
+                "description": "Region recommended for deployment"
+            },
+            "sku": {
+                "type": "string",
+                "description": "Specific SKU recommended"
+            },
+            "availableQuota": {
+                "type": "number",
+                "description": "Available quota remaining"
+            },
+            "confidence": {
+                "type": "number",
+                "description": "Confidence score (0-100)"
+            },
+            "reasons": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Reasons for this recommendation"
+            },
+            "subscriptionId": {
+                "type": "string",
+                "description": "Subscription recommended for deployment (when quota spans several subscriptions)"
+            }
+        },
+        "required": [
+            "region",
+            "sku",
+            "availableQuota",
+            "confidence",
+            "reasons"
+        ],
+        "additionalProperties": false,
+        "description": "RecommendationDetails provides information about a recommended allocation"
+    },
+    "RecommendationExclusion": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string"
+            },
+            "sku": {
+                "type": "string"
+            },
+            "reasons": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Requirements the SKU does not meet"
+            }
+        },
+        "required": [
+            "region",
+            "sku",
+            "reasons"
+        ],
+        "additionalProperties": false,
+        "description": "RecommendationExclusion explains why a SKU with quota for the role was not recommended"
+    },
+    "EventStreamQuery": {
+        "type": "object",
+        "properties": {
+            "types": {
+                "type": "string",
+                "description": "Comma-separated event types to stream (default: all)"
+            },
+            "lastEventId": {
+                "type": "string",
+                "description": "Resume after this event (instead of the Last-Event-ID header)"
+            },
+            "access_token": {
+                "type": "string",
+                "description": "API key or bearer token, for clients such as EventSource that cannot send the X-API-Key or Authorization header"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/events"
+    },
+    "PlacementPlanResponse": {
+        "type": "object",
+        "properties": {
+            "query": {
+                "$ref": "#/components/schemas/NetworkShape"
+            },
+            "plan": {
+                "$ref": "#/components/schemas/PlacementPlan"
+            },
+            "meta": {
+                "type": "object",
+                "properties": {
+                    "timestamp": {
+                        "type": "string"
+                    },
+                    "azureConnected": {
+                        "type": "boolean"
+                    }
+                },
+                "required": [
+                    "timestamp",
+                    "azureConnected"
+                ],
+                "additionalProperties": false
+            }
+        },
+        "required": [
+            "query",
+            "plan",
+            "meta"
+        ],
+        "additionalProperties": false,
+        "description": "Body of POST /api/placements/plan"
+    },
+    "NetworkShape": {
+        "type": "object",
+        "properties": {
+            "validators": {
+                "type": "integer",
+                "description": "Number of validators",
+                "minimum": 0
+            },
+            "rpcNodes": {
+                "type": "integer",
+                "description": "Number of RPC nodes (default: 0)",
+                "minimum": 0
+            },
+            "bootnodes": {
+                "type": "integer",
+                "description": "Number of bootnodes (default: 0)",
+                "minimum": 0
+            },
+            "roles": {
+                "type": "object",
+                "properties": {
+                    "validator": {
+                        "type": "string"
+                    },
+                    "rpc": {
+                        "type": "string"
+                    },
+                    "bootnode": {
+                        "type": "string"
+                    }
+                },
+                "additionalProperties": false,
+                "description": "Quota roles of each kind of node (default: validator, rpc and bootnode)"
+            },
+            "unitsPerNode": {
+                "type": "integer",
+                "description": "Quota units each node takes (default: 1)",
+                "minimum": 1
+            },
+            "failureDomain": {
+                "$ref": "#/components/schemas/FailureDomain",
+                "description": "Unit validators are spread across (default: region)"
+            },
+            "regions": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Regions the network may use (default: all regions)"
+            },
+            "preferredSubscriptions": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Subscriptions to prefer when quota spans several"
+            },
+            "skuRequirements": {
+                "$ref": "#/components/schemas/SkuRequirements",
+                "description": "SKU requirements every node must meet, checked against the SKU catalog"
+            },
+            "requiredFeatures": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Required features every node's SKU must support, from SKU_FEATURES"
+            }
+        },
+        "required": [
+            "validators"
+        ],
+        "additionalProperties": false,
+        "description": "NetworkShape describes the nodes of a Besu network to place"
+    },
+    "FailureDomain": {
+        "type": "string",
+        "enum": [
+            "region",
+            "zone"
+        ],
+        "description": "Unit validators are spread across so one outage cannot stop consensus:\n- `region`: at most f validators per region\n- `zone`: at most f validators per region, spread evenly across its availability zones:   at most ceil(f / zones) per zone (a region without zones counts as one zone)"
+    },
+    "PlacementPlan": {
+        "type": "object",
+        "properties": {
+            "feasible": {
+                "type": "boolean",
+                "description": "Whether every node was placed"
+            },
+            "faultTolerance": {
+                "type": "number",
+                "description": "Faulty validators the network tolerates: f in n >= 3f + 1"
+            },
+            "failureDomain": {
+                "$ref": "#/components/schemas/FailureDomain",
+                "description": "Unit validators were spread across"
+            },
+            "maxValidatorsPerRegion": {
+                "type": "number",
+                "description": "Most validators placed in one region"
+            },
+            "placements": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/NodePlacement"
+                },
+                "description": "Placements sorted by kind, region and zone"
+            },
+            "unplaced": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/UnplacedNodes"
+                },
+                "description": "Nodes that could not be placed"
+            },
+            "allocationLines": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/PlacementAllocationLine"
+                },
+                "description": "Quota to allocate for the plan, one line per region/SKU/role/subscription"
+            },
+            "explanation": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "How the plan was made"
+            }
+        },
+        "required": [
+            "feasible",
+            "faultTolerance",
+            "failureDomain",
+            "maxValidatorsPerRegion",
+            "placements",
+            "unplaced",
+            "allocationLines",
+            "explanation"
+        ],
+        "additionalProperties": false,
+        "description": "PlacementPlan is the placement of every node of a network"
+    },
+    "NodePlacement": {
+        "type": "object",
+        "properties": {
+            "kind": {
+                "$ref": "#/components/schemas/NetworkNodeKind"
+            },
+            "role": {
+                "type": "string"
+            },
+            "region": {
+                "type": "string"
+            },
+            "sku": {
+                "type": "string"
+            },
+            "subscriptionId": {
+                "type": "string"
+            },
+            "zone": {
+                "type": "string",
+                "description": "Availability zone, if the SKU has zones in the region"
+            },
+            "nodes": {
+                "type": "number",
+                "description": "Number of nodes"
+            },
+            "units": {
+                "type": "number",
+                "description": "Quota units the nodes take"
+            }
+        },
+        "required": [
+            "kind",
+            "role",
+            "region",
+            "sku",
+            "nodes",
+            "units"
+        ],
+        "additionalProperties": false,
+        "description": "NodePlacement is a number of nodes of one kind placed on the same region/SKU/zone"
+    },
+    "NetworkNodeKind": {
+        "type": "string",
+        "enum": [
+            "validator",
+            "rpc",
+            "bootnode"
+        ],
+        "description": "Kinds of node in a Besu network"
+    },
+    "UnplacedNodes": {
+        "type": "object",
+        "properties": {
+            "kind": {
+                "$ref": "#/components/schemas/NetworkNodeKind"
+            },
+            "role": {
+                "type": "string"
+            },
+            "nodes": {
+                "type": "number"
+            },
+            "reason": {
+                "type": "string"
+            }
+        },
+        "required": [
+            "kind",
+            "role",
+            "nodes",
+            "reason"
+        ],
+        "additionalProperties": false,
+        "description": "Nodes of one kind the planner could not place"
+    },
+    "PlacementAllocationLine": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string"
+            },
+            "sku": {
+                "type": "string"
+            },
+            "role": {
+                "type": "string"
+            },
+            "amount": {
+                "type": "number"
+            },
+            "subscriptionId": {
+                "type": "string"
+            }
+        },
+        "required": [
+            "region",
+            "sku",
+            "role",
+            "amount"
+        ],
+        "additionalProperties": false,
+        "description": "Allocation line of a plan, in the shape taken by allocateQuotaBatch"
+    },
+    "SkuCatalogResponse": {
+        "type": "object",
+        "properties": {
+            "skus": {
+                "type": "object",
+                "additionalProperties": {
+                    "$ref": "#/components/schemas/SkuCapabilities"
+                },
+                "description": "Capabilities by SKU name"
+            }
+        },
+        "required": [
+            "skus"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/skus"
+    },
+    "SkuCapabilities": {
+        "type": "object",
+        "properties": {
+            "family": {
+                "type": "string",
+                "description": "VM family the SKU's quota is counted against"
+            },
+            "vCPUs": {
+                "type": "number",
+                "description": "Number of vCPUs"
+            },
+            "memoryGB": {
+                "type": "number",
+                "description": "Memory in GB"
+            },
+            "gpus": {
+                "type": "number",
+                "description": "Number of GPUs"
+            },
+            "acceleratedNetworking": {
+                "type": "boolean",
+                "description": "Whether accelerated networking is supported"
+            },
+            "premiumStorage": {
+                "type": "boolean",
+                "description": "Whether premium storage disks are supported"
+            },
+            "zones": {
+                "type": "object",
+                "additionalProperties": {
+                    "type": "array",
+                    "items": {
+                        "type": "string"
+                    }
+                },
+                "description": "Availability zones offering the SKU, per region"
+            }
+        },
+        "required": [
+            "vCPUs",
+            "memoryGB",
+            "gpus",
+            "acceleratedNetworking",
+            "premiumStorage"
+        ],
+        "additionalProperties": false,
+        "description": "SkuCapabilities describes the hardware and platform features of one VM SKU"
+    },
+    "PoliciesResponse": {
+        "type": "object",
+        "properties": {
+            "rules": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/PolicyRule"
+                }
+            }
+        },
+        "required": [
+            "rules"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/policies"
+    },
+    "PolicyRule": {
+        "type": "object",
+        "properties": {
+            "name": {
+                "type": "string",
+                "description": "Name reported when the rule rejects a request"
+            },
+            "type": {
+                "$ref": "#/components/schemas/PolicyRuleType"
+            },
+            "description": {
+                "type": "string",
+                "description": "What the rule is for"
+            },
+            "roles": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Roles the rule applies to"
+            },
+            "regions": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Regions the rule applies to"
+            },
+            "skus": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "SKUs the rule applies to"
+            },
+            "applications": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Applications the rule applies to"
+            },
+            "percent": {
+                "type": "number",
+                "description": "Share of the quota for `max-share` and `headroom`, 0-100"
+            },
+            "allowedRegions": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Regions allowed by `region-pin`"
+            },
+            "max": {
+                "type": "number",
+                "description": "Units allowed by `max-per-application`"
+            }
+        },
+        "required": [
+            "name",
+            "type"
+        ],
+        "additionalProperties": false,
+        "description": "PolicyRule is one rule of the policy file. The scope fields (roles, regions, skus, applications) limit which requests the rule applies to; a rule without any applies to every request. Scope values may use `*` wildcards, e.g. `*europe`."
+    },
+    "PolicyRuleType": {
+        "type": "string",
+        "enum": [
+            "max-share",
+            "headroom",
+            "region-pin",
+            "max-per-application"
+        ],
+        "description": "Kinds of allocation policy rule:\n- `max-share`: the roles may hold at most `percent` of a region/SKU's quota\n- `headroom`: an allocation must leave at least `percent` of a region/SKU's quota available\n- `region-pin`: the roles may only allocate in `allowedRegions`\n- `max-per-application`: an application may hold at most `max` units"
+    },
+    "AllocationListQuery": {
+        "type": "object",
+        "properties": {
+            "applicationId": {
+                "type": "string"
+            },
+            "region": {
+                "type": "string"
+            },
+            "role": {
+                "type": "string"
+            },
+            "status": {
+                "type": "string",
+                "enum": [
+                    "pending",
+                    "active",
+                    "released",
+                    "expired"
+                ],
+                "description": "Current status of allocation"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/allocations"
+    },
+    "AllocationListResponse": {
+        "type": "object",
+        "properties": {
+            "allocations": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/QuotaAllocation"
+                }
+            },
+            "meta": {
+                "type": "object",
+                "properties": {
+                    "count": {
+                        "type": "number"
+                    },
+                    "timestamp": {
+                        "type": "string"
+                    }
+                },
+                "required": [
+                    "count",
+                    "timestamp"
+                ],
+                "additionalProperties": false
+            }
+        },
+        "required": [
+            "allocations",
+            "meta"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/allocations"
+    },
+    "QuotaAllocation": {
+        "type": "object",
+        "properties": {
+            "id": {
+                "type": "string",
+                "description": "Unique identifier for this allocation"
+            },
+            "timestamp": {
+                "type": "string",
+                "description": "When the allocation was created"
+            },
+            "region": {
+                "type": "string",
+                "description": "Region where resources are allocated"
+            },
+            "sku": {
+                "type": "string",
+                "description": "SKU being allocated"
+            },
+            "role": {
+                "type": "string",
+                "description": "Role/workload type"
+            },
+            "amount": {
+                "type": "number",
+                "description": "Amount of quota allocated"
+            },
+            "applicationId": {
+                "type": "string",
+                "description": "Application or service identifier"
+            },
+            "status": {
+                "type": "string",
+                "enum": [
+                    "pending",
+                    "active",
+                    "released",
+                    "expired"
+                ],
+                "description": "Current status of allocation"
+            },
+            "expiresAt": {
+                "type": "string",
+                "description": "When a pending reservation lapses if not confirmed (reservations only)"
+            },
+            "transactionId": {
+                "type": "string",
+                "description": "Batch transaction that created this allocation (batch allocations only)"
+            },
+            "requestedBy": {
+                "type": "string",
+                "description": "Who requested the allocation"
+            },
+            "subscriptionId": {
+                "type": "string",
+                "description": "Subscription the quota is drawn from (when quota spans several subscriptions)"
+            },
+            "endedAt": {
+                "type": "string",
+                "description": "When the allocation stopped holding quota (released and expired allocations)"
+            }
+        },
+        "required": [
+            "id",
+            "timestamp",
+            "region",
+            "sku",
+            "role",
+            "amount",
+            "applicationId",
+            "status"
+        ],
+        "additionalProperties": false,
+        "description": "QuotaAllocation represents a specific allocation of resources"
+    },
+    "CreateAllocationRequest": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string",
+                "description": "Region where resources should be allocated",
+                "minLength": 1
+            },
+            "sku": {
+                "type": "string",
+                "description": "SKU to allocate",
+                "minLength": 1
+            },
+            "role": {
+                "type": "string",
+                "description": "Role/workload type",
+                "minLength": 1
+            },
+            "amount": {
+                "type": "integer",
+                "description": "Amount of quota to allocate",
+                "minimum": 1
+            },
+            "subscriptionId": {
+                "type": "string",
+                "description": "Subscription to draw from (default: the one with the most available quota)"
+            },
+            "applicationId": {
+                "type": "string",
+                "description": "Identifier for the application using the allocation",
+                "minLength": 1
+            },
+            "reserve": {
+                "type": "boolean",
+                "description": "Create a pending reservation to confirm later instead of an active allocation"
+            },
+            "ttlSeconds": {
+                "type": "number",
+                "description": "Seconds before a reservation expires if not confirmed",
+                "exclusiveMinimum": 0
+            }
+        },
+        "required": [
+            "amount",
+            "applicationId",
+            "region",
+            "role",
+            "sku"
+        ],
+        "additionalProperties": false,
+        "description": "Request body of POST /api/allocations"
+    },
+    "AllocationRequestLine": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string",
+                "description": "Region where resources should be allocated",
+                "minLength": 1
+            },
+            "sku": {
+                "type": "string",
+                "description": "SKU to allocate",
+                "minLength": 1
+            },
+            "role": {
+                "type": "string",
+                "description": "Role/workload type",
+                "minLength": 1
+            },
+            "amount": {
+                "type": "integer",
+                "description": "Amount of quota to allocate",
+                "minimum": 1
+            },
+            "subscriptionId": {
+                "type": "string",
+                "description": "Subscription to draw from (default: the one with the most available quota)"
+            }
+        },
+        "required": [
+            "region",
+            "sku",
+            "role",
+            "amount"
+        ],
+        "additionalProperties": false,
+        "description": "AllocationRequestLine describes one region/SKU entry of a batch allocation"
+    },
+    "AllocationResponse": {
+        "type": "object",
+        "properties": {
+            "allocation": {
+                "$ref": "#/components/schemas/QuotaAllocation"
+            }
+        },
+        "required": [
+            "allocation"
+        ],
+        "additionalProperties": false,
+        "description": "Body of the endpoints returning one allocation"
+    },
+    "ReleaseAllocationQuery": {
+        "type": "object",
+        "properties": {
+            "reason": {
+                "type": "string",
+                "description": "Why the allocation is released, for the audit trail"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of DELETE /api/allocations/{id}"
+    },
+    "BatchAllocationRequest": {
+        "type": "object",
+        "properties": {
+            "applicationId": {
+                "type": "string",
+                "description": "Identifier for the application using the allocations",
+                "minLength": 1
+            },
+            "lines": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/AllocationRequestLine"
+                },
+                "description": "Lines to allocate together",
+                "minItems": 1
+            }
+        },
+        "required": [
+            "applicationId",
+            "lines"
+        ],
+        "additionalProperties": false,
+        "description": "Request body of POST /api/allocations/batch"
+    },
+    "BatchAllocationResponse": {
+        "$ref": "#/components/schemas/BatchAllocationResult",
+        "description": "Body of POST /api/allocations/batch"
+    },
+    "BatchAllocationResult": {
+        "type": "object",
+        "properties": {
+            "transactionId": {
+                "type": "string",
+                "description": "Identifier shared by all allocations created in this batch"
+            },
+            "committed": {
+                "type": "boolean",
+                "description": "Whether every line was allocated"
+            },
+            "lines": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/BatchAllocationLineResult"
+                },
+                "description": "Per-line results in request order"
+            }
+        },
+        "required": [
+            "transactionId",
+            "committed",
+            "lines"
+        ],
+        "additionalProperties": false,
+        "description": "BatchAllocationResult reports the outcome of an all-or-nothing batch allocation"
+    },
+    "BatchAllocationLineResult": {
+        "type": "object",
+        "properties": {
+            "index": {
+                "type": "number",
+                "description": "Position of the line in the request"
+            },
+            "line": {
+                "$ref": "#/components/schemas/AllocationRequestLine",
+                "description": "The requested line"
+            },
+            "valid": {
+                "type": "boolean",
+                "description": "Whether the line passed validation"
+            },
+            "allocationId": {
+                "type": "string",
+                "description": "Allocation ID if the batch was committed"
+            },
+            "reason": {
+                "type": "string",
+                "description": "Why the line was rejected"
+            },
+            "code": {
+                "$ref": "#/components/schemas/AllocationErrorCode",
+                "description": "Error code of the rejection"
+            }
+        },
+        "required": [
+            "index",
+            "line",
+            "valid"
+        ],
+        "additionalProperties": false,
+        "description": "BatchAllocationLineResult reports the outcome of a single batch line"
+    },
+    "BatchAllocationRejection": {
+        "anyOf": [
+            {
+                "$ref": "#/components/schemas/BatchAllocationResult"
+            },
+            {
+                "$ref": "#/components/schemas/ApiError"
+            }
+        ],
+        "description": "Body of a 409 from POST /api/allocations/batch: the rejected lines, or a store conflict"
+    },
+    "RebalanceProposalsQuery": {
+        "type": "object",
+        "properties": {
+            "maxTargets": {
+                "type": "integer",
+                "description": "Targets proposed per allocation (default: 3)",
+                "minimum": 1
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/rebalance/proposals"
+    },
+    "RebalanceProposalsResponse": {
+        "type": "object",
+        "properties": {
+            "proposals": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/RebalanceProposal"
+                }
+            },
+            "meta": {
+                "type": "object",
+                "properties": {
+                    "count": {
+                        "type": "number"
+                    },
+                    "timestamp": {
+                        "type": "string"
+                    }
+                },
+                "required": [
+                    "count",
+                    "timestamp"
+                ],
+                "additionalProperties": false
+            }
+        },
+        "required": [
+            "proposals",
+            "meta"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/rebalance/proposals"
+    },
+    "RebalanceProposal": {
+        "type": "object",
+        "properties": {
+            "allocation": {
+                "$ref": "#/components/schemas/QuotaAllocation",
+                "description": "The allocation to move"
+            },
+            "advisories": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Advisories of the degraded region"
+            },
+            "targets": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/RecommendationDetails"
+                },
+                "description": "Healthy regions/SKUs with enough quota for the allocation, best first"
+            }
+        },
+        "required": [
+            "allocation",
+            "advisories",
+            "targets"
+        ],
+        "additionalProperties": false,
+        "description": "RebalanceProposal lists where an active allocation in a degraded region could move"
+    },
+    "ApplyRebalancingRequest": {
+        "type": "object",
+        "properties": {
+            "allocationIds": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Allocations to move",
+                "minItems": 1
+            },
+            "targets": {
+                "type": "object",
+                "additionalProperties": {
+                    "$ref": "#/components/schemas/RebalanceTarget"
+                },
+                "description": "Region/SKU to move each allocation to, by allocation ID (default: the best target). A target in the allocation's own region, in a degraded region or without enough quota is rejected for that allocation."
+            }
+        },
+        "required": [
+            "allocationIds"
+        ],
+        "additionalProperties": false,
+        "description": "Request body of POST /api/rebalance/apply"
+    },
+    "RebalanceTarget": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string"
+            },
+            "sku": {
+                "type": "string"
+            },
+            "subscriptionId": {
+                "type": "string"
+            }
+        },
+        "required": [
+            "region",
+            "sku"
+        ],
+        "additionalProperties": false,
+        "description": "RebalanceTarget is the region/SKU (and subscription) an allocation moves to"
+    },
+    "ApplyRebalancingResponse": {
+        "type": "object",
+        "properties": {
+            "results": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/RebalanceResult"
+                }
+            },
+            "meta": {
+                "type": "object",
+                "properties": {
+                    "migrated": {
+                        "type": "number"
+                    },
+                    "timestamp": {
+                        "type": "string"
+                    }
+                },
+                "required": [
+                    "migrated",
+                    "timestamp"
+                ],
+                "additionalProperties": false
+            }
+        },
+        "required": [
+            "results",
+            "meta"
+        ],
+        "additionalProperties": false,
+        "description": "Body of POST /api/rebalance/apply"
+    },
+    "RebalanceResult": {
+        "type": "object",
+        "properties": {
+            "allocationId": {
+                "type": "string",
+                "description": "Allocation that was to be moved"
+            },
+            "migrated": {
+                "type": "boolean",
+                "description": "Whether the new allocation was created and the old one released"
+            },
+            "newAllocationId": {
+                "type": "string",
+                "description": "Replacement allocation (migrated allocations, or a replacement left active because the original could not be released)"
+            },
+            "target": {
+                "$ref": "#/components/schemas/RebalanceTarget",
+                "description": "Region/SKU the allocation moved to (migrated allocations, or where a replacement was left active)"
+            },
+            "reason": {
+                "type": "string",
+                "description": "Why the allocation was not moved"
+            }
+        },
+        "required": [
+            "allocationId",
+            "migrated"
+        ],
+        "additionalProperties": false,
+        "description": "RebalanceResult reports the outcome of moving one allocation"
+    },
+    "AllocationHistoryResponse": {
+        "type": "object",
+        "properties": {
+            "allocationId": {
+                "type": "string"
+            },
+            "status": {
+                "anyOf": [
+                    {
+                        "type": "string",
+                        "enum": [
+                            "pending",
+                            "active",
+                            "released",
+                            "expired"
+                        ],
+                        "description": "Current status of allocation"
+                    },
+                    {
+                        "type": "null"
+                    }
+                ],
+                "description": "Current status, or null if the allocation is no longer stored"
+            },
+            "events": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/AuditEvent"
+                }
+            }
+        },
+        "required": [
+            "allocationId",
+            "status",
+            "events"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/allocations/{id}/history"
+    },
+    "AuditEvent": {
+        "type": "object",
+        "properties": {
+            "id": {
+                "type": "string",
+                "description": "Unique identifier for this event"
+            },
+            "timestamp": {
+                "type": "string",
+                "description": "When the action happened"
+            },
+            "action": {
+                "$ref": "#/components/schemas/AuditAction",
+                "description": "What was done"
+            },
+            "outcome": {
+                "type": "string",
+                "enum": [
+                    "success",
+                    "failure"
+                ],
+                "description": "Whether the action succeeded"
+            },
+            "requestedBy": {
+                "type": "string",
+                "description": "Who requested the action"
+            },
+            "allocationId": {
+                "type": "string",
+                "description": "Allocation affected by the action (if any)"
+            },
+            "applicationId": {
+                "type": "string",
+                "description": "Application the allocation belongs to (if any)"
+            },
+            "region": {
+                "type": "string",
+                "description": "Region affected by the action (if any)"
+            },
+            "sku": {
+                "type": "string",
+                "description": "SKU affected by the action (if any)"
+            },
+            "role": {
+                "type": "string",
+                "description": "Role affected by the action (if any)"
+            },
+            "amount": {
+                "type": "number",
+                "description": "Amount of quota involved (if any)"
+            },
+            "reason": {
+                "type": "string",
+                "description": "Why the action was rejected or failed"
+            },
+            "details": {
+                "type": "object",
+                "additionalProperties": {
+                    "type": "string"
+                },
+                "description": "Additional action-specific details"
+            }
+        },
+        "required": [
+            "id",
+            "timestamp",
+            "action",
+            "outcome",
+            "requestedBy"
+        ],
+        "additionalProperties": false,
+        "description": "AuditEvent is an immutable record of a single QuotaEngine action"
+    },
+    "AuditAction": {
+        "type": "string",
+        "enum": [
+            "allocate",
+            "reserve",
+            "confirm",
+            "release",
+            "expire",
+            "reject",
+            "refresh",
+            "add-sku"
+        ],
+        "description": "Kind of action recorded in the audit trail"
+    },
+    "RegionSuggestionResponse": {
+        "type": "object",
+        "properties": {
+            "role": {
+                "type": "string"
+            },
+            "suggestion": {
+                "$ref": "#/components/schemas/RegionSuggestion"
+            }
+        },
+        "required": [
+            "role",
+            "suggestion"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/quotas/suggestions/{role}"
+    },
+    "RegionSuggestion": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": [
+                    "string",
+                    "null"
+                ],
+                "description": "Suggested region, or null if no region fits"
+            },
+            "reason": {
+                "type": "string",
+                "description": "Why the region was suggested (or none was)"
+            },
+            "alternativeRegions": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Other regions that would also fit"
+            }
+        },
+        "required": [
+            "region",
+            "reason"
+        ],
+        "additionalProperties": false,
+        "description": "Region suggested for a deployment, with the reason for the choice"
+    },
+    "QuotaSummaryQuery": {
+        "type": "object",
+        "properties": {
+            "subscription": {
+                "type": "string",
+                "description": "Only count quota in this subscription"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/quotas/summary/{role}"
+    },
+    "QuotaSummaryResponse": {
+        "type": "object",
+        "properties": {
+            "role": {
+                "type": "string"
+            },
+            "subscription": {
+                "type": "string"
+            },
+            "summary": {
+                "type": "object",
+                "additionalProperties": {
+                    "$ref": "#/components/schemas/QuotaUsageSummary"
+                },
+                "description": "Quota figures by region"
+            }
+        },
+        "required": [
+            "role",
+            "summary"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/quotas/summary/{role}"
+    },
+    "QuotaUsageSummary": {
+        "type": "object",
+        "properties": {
+            "total": {
+                "type": "number"
+            },
+            "used": {
+                "type": "number"
+            },
+            "available": {
+                "type": "number"
+            },
+            "usage_percent": {
+                "type": "string"
+            }
+        },
+        "required": [
+            "total",
+            "used",
+            "available",
+            "usage_percent"
+        ],
+        "additionalProperties": false,
+        "description": "QuotaUsageSummary rolls up quota figures across regions or subscriptions"
+    },
+    "SubscriptionSummaryQuery": {
+        "type": "object",
+        "properties": {
+            "role": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/quotas/subscriptions"
+    },
+    "SubscriptionUsageSummary": {
+        "type": "object",
+        "properties": {
+            "total": {
+                "type": "number"
+            },
+            "used": {
+                "type": "number"
+            },
+            "available": {
+                "type": "number"
+            },
+            "usage_percent": {
+                "type": "string"
+            },
+            "regions": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                }
+            }
+        },
+        "required": [
+            "available",
+            "regions",
+            "total",
+            "usage_percent",
+            "used"
+        ],
+        "additionalProperties": false,
+        "description": "Quota figures of one subscription and the regions it has quota in"
+    },
+    "SubscriptionSummaryResponse": {
+        "type": "object",
+        "properties": {
+            "role": {
+                "type": "string"
+            },
+            "subscriptions": {
+                "type": "object",
+                "additionalProperties": {
+                    "$ref": "#/components/schemas/SubscriptionUsageSummary"
+                },
+                "description": "Quota figures by subscription"
+            }
+        },
+        "required": [
+            "subscriptions"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/quotas/subscriptions"
+    },
+    "BudgetsQuery": {
+        "type": "object",
+        "properties": {
+            "applicationId": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/budgets"
+    },
+    "BudgetsResponse": {
+        "type": "object",
+        "properties": {
+            "budgets": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/BudgetStatus"
+                }
+            }
+        },
+        "required": [
+            "budgets"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/budgets"
+    },
+    "BudgetStatus": {
+        "type": "object",
+        "properties": {
+            "applicationId": {
+                "type": "string"
+            },
+            "heldUnits": {
+                "type": "number",
+                "description": "Quota units currently held"
+            },
+            "maxUnits": {
+                "type": [
+                    "number",
+                    "null"
+                ],
+                "description": "Unit budget, or null if there is none"
+            },
+            "estimatedMonthlyCost": {
+                "type": [
+                    "number",
+                    "null"
+                ],
+                "description": "Estimated monthly cost of the held quota, or null if a price is missing"
+            },
+            "maxMonthlyCost": {
+                "type": [
+                    "number",
+                    "null"
+                ],
+                "description": "Cost budget, or null if there is none"
+            },
+            "currency": {
+                "type": "string",
+                "description": "Currency of the costs"
+            }
+        },
+        "required": [
+            "applicationId",
+            "heldUnits",
+            "maxUnits",
+            "estimatedMonthlyCost",
+            "maxMonthlyCost",
+            "currency"
+        ],
+        "additionalProperties": false,
+        "description": "How much of its budget an application is using"
+    },
+    "ChargebackQuery": {
+        "type": "object",
+        "properties": {
+            "from": {
+                "type": "string",
+                "description": "Start of the period (default: `days` before `to`)"
+            },
+            "to": {
+                "type": "string",
+                "description": "End of the period (default: now)"
+            },
+            "days": {
+                "type": "number",
+                "description": "Length of the period in days when `from` is not set (default: 30)",
+                "exclusiveMinimum": 0
+            },
+            "format": {
+                "type": "string",
+                "enum": [
+                    "json",
+                    "csv",
+                    "markdown"
+                ],
+                "description": "Report format (default: json)"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/chargeback"
+    },
+    "ChargebackResponse": {
+        "$ref": "#/components/schemas/ChargebackReport",
+        "description": "Body of GET /api/chargeback in JSON format"
+    },
+    "ChargebackReport": {
+        "type": "object",
+        "properties": {
+            "from": {
+                "type": "string"
+            },
+            "to": {
+                "type": "string"
+            },
+            "currency": {
+                "type": "string"
+            },
+            "lines": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/ChargebackLine"
+                },
+                "description": "Lines sorted by application, role and region"
+            },
+            "totalUnitHours": {
+                "type": "number"
+            },
+            "totalEstimatedCost": {
+                "type": [
+                    "number",
+                    "null"
+                ],
+                "description": "Estimated total cost, or null if any line has no estimate"
+            }
+        },
+        "required": [
+            "from",
+            "to",
+            "currency",
+            "lines",
+            "totalUnitHours",
+            "totalEstimatedCost"
+        ],
+        "additionalProperties": false,
+        "description": "ChargebackReport attributes quota consumption over a period to applications"
+    },
+    "ChargebackLine": {
+        "type": "object",
+        "properties": {
+            "applicationId": {
+                "type": "string"
+            },
+            "role": {
+                "type": "string"
+            },
+            "region": {
+                "type": "string"
+            },
+            "unitHours": {
+                "type": "number",
+                "description": "Quota units multiplied by the hours they were held"
+            },
+            "estimatedCost": {
+                "type": [
+                    "number",
+                    "null"
+                ],
+                "description": "Estimated cost, or null if the price table has no price for a SKU used"
+            }
+        },
+        "required": [
+            "applicationId",
+            "role",
+            "region",
+            "unitHours",
+            "estimatedCost"
+        ],
+        "additionalProperties": false,
+        "description": "Quota consumed by one application, role and region over the report period"
+    },
+    "QuotaTrendsQuery": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string"
+            },
+            "days": {
+                "type": "number",
+                "description": "Days of history when `from` is not set",
+                "exclusiveMinimum": 0
+            },
+            "from": {
+                "type": "string"
+            },
+            "to": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/quotas/trends"
+    },
+    "QuotaTrendsResponse": {
+        "$ref": "#/components/schemas/QuotaTrends",
+        "description": "Body of GET /api/quotas/trends"
+    },
+    "QuotaTrends": {
+        "type": "object",
+        "additionalProperties": {
+            "type": "object",
+            "additionalProperties": {
+                "type": "object",
+                "properties": {
+                    "history": {
+                        "type": "array",
+                        "items": {
+                            "type": "object",
+                            "properties": {
+                                "date": {
+                                    "type": "string"
+                                },
+                                "used": {
+                                    "type": "number"
+                                },
+                                "total": {
+                                    "type": "number"
+                                }
+                            },
+                            "required": [
+                                "date",
+                                "used",
+                                "total"
+                            ],
+                            "additionalProperties": false
+                        }
+                    }
+                },
+                "required": [
+                    "history"
+                ],
+                "additionalProperties": false
+            }
+        },
+        "description": "Usage history per region and SKU, in the shape the front-end quota matrix reads"
+    },
+    "SnapshotListResponse": {
+        "type": "object",
+        "properties": {
+            "snapshots": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/QuotaSnapshotInfo"
+                }
+            }
+        },
+        "required": [
+            "snapshots"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/quotas/snapshots"
+    },
+    "QuotaSnapshotInfo": {
+        "type": "object",
+        "properties": {
+            "id": {
+                "type": "string",
+                "description": "Snapshot identifier, sortable by time"
+            },
+            "timestamp": {
+                "type": "string",
+                "description": "When the snapshot was taken"
+            },
+            "source": {
+                "$ref": "#/components/schemas/QuotaSnapshotSource",
+                "description": "What produced the snapshot"
+            }
+        },
+        "required": [
+            "id",
+            "timestamp",
+            "source"
+        ],
+        "additionalProperties": false,
+        "description": "Identifies a stored snapshot"
+    },
+    "QuotaSnapshotSource": {
+        "type": "string",
+        "enum": [
+            "refresh",
+            "generate-yaml"
+        ],
+        "description": "What produced a snapshot"
+    },
+    "SnapshotDiffQuery": {
+        "type": "object",
+        "properties": {
+            "from": {
+                "type": "string",
+                "description": "ID of the snapshot to compare from (default: the second most recent)"
+            },
+            "to": {
+                "type": "string",
+                "description": "ID of the snapshot to compare to (default: the most recent)"
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/quotas/snapshots/diff"
+    },
+    "SnapshotDiffResponse": {
+        "$ref": "#/components/schemas/QuotaSnapshotDiff",
+        "description": "Body of GET /api/quotas/snapshots/diff"
+    },
+    "QuotaSnapshotDiff": {
+        "type": "object",
+        "properties": {
+            "from": {
+                "$ref": "#/components/schemas/QuotaSnapshotInfo"
+            },
+            "to": {
+                "$ref": "#/components/schemas/QuotaSnapshotInfo"
+            },
+            "entries": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/QuotaSnapshotDiffEntry"
+                }
+            }
+        },
+        "required": [
+            "from",
+            "to",
+            "entries"
+        ],
+        "additionalProperties": false,
+        "description": "Differences between two snapshots. Region/SKUs that did not change are left out."
+    },
+    "QuotaSnapshotDiffEntry": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string"
+            },
+            "sku": {
+                "type": "string"
+            },
+            "change": {
+                "type": "string",
+                "enum": [
+                    "added",
+                    "removed",
+                    "changed"
+                ]
+            },
+            "before": {
+                "$ref": "#/components/schemas/QuotaFigures",
+                "description": "Figures in the older snapshot (absent if the SKU was added)"
+            },
+            "after": {
+                "$ref": "#/components/schemas/QuotaFigures",
+                "description": "Figures in the newer snapshot (absent if the SKU was removed)"
+            },
+            "delta": {
+                "$ref": "#/components/schemas/QuotaFigures",
+                "description": "After minus before, counting a missing side as zero"
+            }
+        },
+        "required": [
+            "region",
+            "sku",
+            "change",
+            "delta"
+        ],
+        "additionalProperties": false,
+        "description": "Change of one region/SKU between two snapshots"
+    },
+    "QuotaFigures": {
+        "type": "object",
+        "properties": {
+            "total": {
+                "type": "number"
+            },
+            "used": {
+                "type": "number"
+            },
+            "available": {
+                "type": "number"
+            }
+        },
+        "required": [
+            "total",
+            "used",
+            "available"
+        ],
+        "additionalProperties": false,
+        "description": "Quota numbers compared by a snapshot diff"
+    },
+    "QuotaForecastQuery": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string"
+            },
+            "role": {
+                "type": "string"
+            },
+            "method": {
+                "$ref": "#/components/schemas/ForecastMethod"
+            },
+            "warningDays": {
+                "type": "number",
+                "description": "Days ahead of exhaustion to start warning",
+                "minimum": 0
+            }
+        },
+        "additionalProperties": false,
+        "description": "Query of GET /api/quotas/forecast"
+    },
+    "ForecastMethod": {
+        "type": "string",
+        "enum": [
+            "linear",
+            "holt"
+        ],
+        "description": "Trend model used to project quota consumption:\n- `linear`: least-squares line through all samples\n- `holt`: double exponential smoothing, which weights recent samples more"
+    },
+    "QuotaForecastResponse": {
+        "type": "object",
+        "properties": {
+            "generatedAt": {
+                "type": "string"
+            },
+            "forecasts": {
+                "type": "array",
+                "items": {
+                    "$ref": "#/components/schemas/QuotaForecast"
+                }
+            }
+        },
+        "required": [
+            "generatedAt",
+            "forecasts"
+        ],
+        "additionalProperties": false,
+        "description": "Body of GET /api/quotas/forecast"
+    },
+    "QuotaForecast": {
+        "type": "object",
+        "properties": {
+            "region": {
+                "type": "string"
+            },
+            "sku": {
+                "type": "string"
+            },
+            "roles": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                },
+                "description": "Roles assigned to the SKU, all of which run out together"
+            },
+            "method": {
+                "$ref": "#/components/schemas/ForecastMethod",
+                "description": "Trend model used"
+            },
+            "sampleCount": {
+                "type": "number",
+                "description": "Number of recorded samples the trend was fitted to"
+            },
+            "total": {
+                "type": "number",
+                "description": "Current quota limit"
+            },
+            "consumed": {
+                "type": "number",
+                "description": "Current consumption (limit minus available)"
+            },
+            "available": {
+                "type": "number",
+                "description": "Current available quota"
+            },
+            "dailyGrowth": {
+                "type": [
+                    "number",
+                    "null"
+                ],
+                "description": "Fitted consumption growth in quota units per day, or null without enough history"
+            },
+            "predictedConsumption": {
+                "type": [
+                    "number",
+                    "null"
+                ],
+                "description": "Projected consumption at the end of the horizon, capped at the limit"
+            },
+            "exhaustionDate": {
+                "type": [
+                    "string",
+                    "null"
+                ],
+                "description": "Predicted date the quota runs out, or null if it is not trending towards exhaustion"
+            },
+            "daysUntilExhaustion": {
+                "type": [
+                    "number",
+                    "null"
+                ],
+                "description": "Days from now until the predicted exhaustion date"
+            },
+            "alertLevel": {
+                "$ref": "#/components/schemas/QuotaAlertLevel",
+                "description": "How urgently more quota should be requested"
+            }
+        },
+        "required": [
+            "region",
+            "sku",
+            "roles",
+            "method",
+            "sampleCount",
+            "total",
+            "consumed",
+            "available",
+            "dailyGrowth",
+            "predictedConsumption",
+            "exhaustionDate",
+            "daysUntilExhaustion",
+            "alertLevel"
+        ],
+        "additionalProperties": false,
+        "description": "QuotaForecast is the projected consumption and exhaustion date of one region/SKU"
+    },
+    "QuotaAlertLevel": {
+        "type": "string",
+        "enum": [
+            "none",
+            "warning",
+            "critical"
+        ],
+        "description": "Alert level for quota thresholds"
+    }
+};
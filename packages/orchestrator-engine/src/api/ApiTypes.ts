@@ -0,0 +1,507 @@
+/**
+ * Request and response bodies of the orchestrator REST API. The OpenAPI schemas
+ * are generated from these types (see scripts/generateOpenApi.ts), so change them
+ * together with the routes in server.ts and regenerate.
+ */
+import {
+    AllocationErrorCode,
+    AllocationRequestLine,
+    BatchAllocationResult,
+    QuotaAllocation,
+    QuotaMatrixEntry,
+    QuotaUsageSummary,
+    RebalanceProposal,
+    RebalanceResult,
+    RebalanceTarget,
+    RecommendationDetails,
+    RecommendationExclusion,
+    RecommendationRequest
+} from "../rules/QuotaEngine";
+import { BesuNodeHealth, CircuitBreakerStatus, RegionSuggestion } from "orchestrator-core";
+import { NetworkShape, PlacementPlan } from "../planning/PlacementPlanner";
+import { SkuCapabilities } from "../catalog/SkuCatalog";
+import { PolicyRule } from "../policies/PolicyEngine";
+import { BudgetStatus } from "../billing/ApplicationBudgets";
+import { ChargebackReport } from "../billing/Chargeback";
+import { AuditEvent } from "../storage/AuditEvent";
+import { QuotaSnapshotDiff, QuotaSnapshotInfo, QuotaTrends } from "../storage/QuotaSnapshotStore";
+import { ForecastMethod, QuotaForecast } from "../forecasting/QuotaForecaster";
+
+/**
+ * Error codes of the API: the engine's allocation rejection codes plus the API's own
+ * - `UNAUTHENTICATED`: no valid credential was sent
+ * - `FORBIDDEN`: the caller's role does not allow the request
+ * - `ALLOCATION_NOT_FOUND`: no allocation has the ID
+ * - `ALLOCATION_NOT_ACTIVE`: the allocation was already released, expired or confirmed
+ * - `STORE_CONFLICT`: another process changed the allocations first or is still writing them; retry
+ * - `RATE_LIMITED`: the caller made too many requests; retry after the Retry-After header
+ * - `REFRESH_THROTTLED`: quota data was refreshed too recently; retry after the Retry-After header
+ * - `INTERNAL_ERROR`: the request failed unexpectedly
+ */
+export type ApiErrorCode =
+    | AllocationErrorCode
+    | 'UNAUTHENTICATED'
+    | 'FORBIDDEN'
+    | 'ALLOCATION_NOT_FOUND'
+    | 'ALLOCATION_NOT_ACTIVE'
+    | 'STORE_CONFLICT'
+    | 'RATE_LIMITED'
+    | 'REFRESH_THROTTLED'
+    | 'INTERNAL_ERROR';
+
+/**
+ * One problem found validating a request or response
+ */
+export interface ValidationIssue {
+    /** Where the problem is, e.g. body.lines[0].amount or query.status */
+    path: string;
+    /** What is wrong with the value */
+    message: string;
+}
+
+/**
+ * Error body returned by every endpoint
+ */
+export interface ApiError {
+    /** Short description of the kind of error */
+    error: string;
+    /** Machine-readable error code (allocation, auth and validation errors) */
+    code?: ApiErrorCode;
+    /** What went wrong */
+    message: string;
+    /** Further details, e.g. the validation issues of an INVALID_REQUEST */
+    details?: { [key: string]: unknown; errors?: ValidationIssue[] };
+}
+
+/**
+ * Body of GET /health
+ */
+export interface HealthResponse {
+    status: 'ok';
+    azure: 'connected' | 'offline';
+    besu: 'available' | 'offline';
+    telemetry: 'enabled' | 'disabled';
+    version: string;
+    /** Circuit breakers guarding Azure, Besu and the quota provider; an open one fails calls fast */
+    circuitBreakers: CircuitBreakerStatus[];
+}
+
+/**
+ * Query of GET /api/quotas
+ */
+export interface QuotaEligibilityQuery {
+    /** @minLength 1 */
+    region: string;
+    /** @minLength 1 */
+    role: string;
+}
+
+/**
+ * Body of GET /api/quotas
+ */
+export interface QuotaEligibilityResponse {
+    region: string;
+    role: string;
+    /** Whether the region has quota for the role */
+    eligible: boolean;
+}
+
+/**
+ * Query of GET /api/quotas/matrix
+ */
+export interface QuotaMatrixQuery {
+    region?: string;
+    role?: string;
+}
+
+/**
+ * Body of GET /api/quotas/matrix
+ */
+export interface QuotaMatrixResponse {
+    /** Quota figures by region and SKU */
+    data: Record<string, Record<string, QuotaMatrixEntry>>;
+    meta: {
+        timestamp: string;
+        /** When the quota data was last refreshed, or null if it never was */
+        lastRefresh: string | null;
+    };
+}
+
+/**
+ * Body of POST /api/quotas/refresh
+ */
+export interface QuotaRefreshResponse {
+    success: boolean;
+    message: string;
+    /** Whether the request joined a refresh another caller had already started */
+    coalesced?: boolean;
+    timestamp?: string;
+}
+
+/**
+ * Body of GET /api/besu/status
+ */
+export interface BesuStatusResponse {
+    /** Whether a node on the expected chain answers */
+    available: boolean;
+    /** Whether every node is synced, connected and on the expected chain */
+    healthy?: boolean;
+    /** First configured endpoint */
+    endpoint?: string;
+    /** Health of each configured node */
+    nodes?: BesuNodeHealth[];
+    message: string;
+    timestamp?: string;
+}
+
+/**
+ * Body of GET /api/azure/status
+ */
+export interface AzureStatusResponse {
+    connected: boolean;
+    subscriptionId?: string;
+    resourceHealth?: 'healthy' | 'issues-detected' | 'unknown';
+    message: string;
+    timestamp?: string;
+}
+
+/**
+ * Body of POST /api/quotas/recommendations
+ */
+export interface RecommendationsResponse {
+    query: RecommendationRequest;
+    recommendations: RecommendationDetails[];
+    excluded: RecommendationExclusion[];
+    meta: {
+        count: number;
+        timestamp: string;
+        azureConnected: boolean;
+    };
+}
+
+/**
+ * Query of GET /api/events
+ */
+export interface EventStreamQuery {
+    /** Comma-separated event types to stream (default: all) */
+    types?: string;
+    /** Resume after this event (instead of the Last-Event-ID header) */
+    lastEventId?: string;
+    /** API key or bearer token, for clients such as EventSource that cannot send the X-API-Key or Authorization header */
+    access_token?: string;
+}
+
+/**
+ * Body of POST /api/placements/plan
+ */
+export interface PlacementPlanResponse {
+    query: NetworkShape;
+    plan: PlacementPlan;
+    meta: {
+        timestamp: string;
+        azureConnected: boolean;
+    };
+}
+
+/**
+ * Body of GET /api/skus
+ */
+export interface SkuCatalogResponse {
+    /** Capabilities by SKU name */
+    skus: Record<string, SkuCapabilities>;
+}
+
+/**
+ * Body of GET /api/policies
+ */
+export interface PoliciesResponse {
+    rules: PolicyRule[];
+}
+
+/**
+ * Query of GET /api/allocations
+ */
+export interface AllocationListQuery {
+    applicationId?: string;
+    region?: string;
+    role?: string;
+    status?: QuotaAllocation['status'];
+}
+
+/**
+ * Body of GET /api/allocations
+ */
+export interface AllocationListResponse {
+    allocations: QuotaAllocation[];
+    meta: {
+        count: number;
+        timestamp: string;
+    };
+}
+
+/**
+ * Request body of POST /api/allocations
+ */
+export interface CreateAllocationRequest extends AllocationRequestLine {
+    /**
+     * Identifier for the application using the allocation
+     * @minLength 1
+     */
+    applicationId: string;
+    /** Create a pending reservation to confirm later instead of an active allocation */
+    reserve?: boolean;
+    /**
+     * Seconds before a reservation expires if not confirmed
+     * @exclusiveMinimum 0
+     */
+    ttlSeconds?: number;
+}
+
+/**
+ * Body of the endpoints returning one allocation
+ */
+export interface AllocationResponse {
+    allocation: QuotaAllocation;
+}
+
+/**
+ * Query of DELETE /api/allocations/{id}
+ */
+export interface ReleaseAllocationQuery {
+    /** Why the allocation is released, for the audit trail */
+    reason?: string;
+}
+
+/**
+ * Request body of POST /api/allocations/batch
+ */
+export interface BatchAllocationRequest {
+    /**
+     * Identifier for the application using the allocations
+     * @minLength 1
+     */
+    applicationId: string;
+    /**
+     * Lines to allocate together
+     * @minItems 1
+     */
+    lines: AllocationRequestLine[];
+}
+
+/**
+ * Body of POST /api/allocations/batch
+ */
+export type BatchAllocationResponse = BatchAllocationResult;
+
+/**
+ * Body of a 409 from POST /api/allocations/batch: the rejected lines, or a store conflict
+ */
+export type BatchAllocationRejection = BatchAllocationResult | ApiError;
+
+/**
+ * Query of GET /api/rebalance/proposals
+ */
+export interface RebalanceProposalsQuery {
+    /**
+     * Targets proposed per allocation (default: 3)
+     * @asType integer
+     * @minimum 1
+     */
+    maxTargets?: number;
+}
+
+/**
+ * Body of GET /api/rebalance/proposals
+ */
+export interface RebalanceProposalsResponse {
+    proposals: RebalanceProposal[];
+    meta: {
+        count: number;
+        timestamp: string;
+    };
+}
+
+/**
+ * Request body of POST /api/rebalance/apply
+ */
+export interface ApplyRebalancingRequest {
+    /**
+     * Allocations to move
+     * @minItems 1
+     */
+    allocationIds: string[];
+    /**
+     * Region/SKU to move each allocation to, by allocation ID (default: the best target).
+     * A target in the allocation's own region, in a degraded region or without enough quota is rejected for that allocation.
+     */
+    targets?: Record<string, RebalanceTarget>;
+}
+
+/**
+ * Body of POST /api/rebalance/apply
+ */
+export interface ApplyRebalancingResponse {
+    results: RebalanceResult[];
+    meta: {
+        migrated: number;
+        timestamp: string;
+    };
+}
+
+/**
+ * Body of GET /api/allocations/{id}/history
+ */
+export interface AllocationHistoryResponse {
+    allocationId: string;
+    /** Current status, or null if the allocation is no longer stored */
+    status: QuotaAllocation['status'] | null;
+    events: AuditEvent[];
+}
+
+/**
+ * Body of GET /api/quotas/suggestions/{role}
+ */
+export interface RegionSuggestionResponse {
+    role: string;
+    suggestion: RegionSuggestion;
+}
+
+/**
+ * Query of GET /api/quotas/summary/{role}
+ */
+export interface QuotaSummaryQuery {
+    /** Only count quota in this subscription */
+    subscription?: string;
+}
+
+/**
+ * Body of GET /api/quotas/summary/{role}
+ */
+export interface QuotaSummaryResponse {
+    role: string;
+    subscription?: string;
+    /** Quota figures by region */
+    summary: Record<string, QuotaUsageSummary>;
+}
+
+/**
+ * Query of GET /api/quotas/subscriptions
+ */
+export interface SubscriptionSummaryQuery {
+    role?: string;
+}
+
+/**
+ * Quota figures of one subscription and the regions it has quota in
+ */
+export interface SubscriptionUsageSummary extends QuotaUsageSummary {
+    regions: string[];
+}
+
+/**
+ * Body of GET /api/quotas/subscriptions
+ */
+export interface SubscriptionSummaryResponse {
+    role?: string;
+    /** Quota figures by subscription */
+    subscriptions: Record<string, SubscriptionUsageSummary>;
+}
+
+/**
+ * Query of GET /api/budgets
+ */
+export interface BudgetsQuery {
+    applicationId?: string;
+}
+
+/**
+ * Body of GET /api/budgets
+ */
+export interface BudgetsResponse {
+    budgets: BudgetStatus[];
+}
+
+/**
+ * Query of GET /api/chargeback
+ */
+export interface ChargebackQuery {
+    /** Start of the period (default: `days` before `to`) */
+    from?: string;
+    /** End of the period (default: now) */
+    to?: string;
+    /**
+     * Length of the period in days when `from` is not set (default: 30)
+     * @exclusiveMinimum 0
+     */
+    days?: number;
+    /** Report format (default: json) */
+    format?: 'json' | 'csv' | 'markdown';
+}
+
+/**
+ * Body of GET /api/chargeback in JSON format
+ */
+export type ChargebackResponse = ChargebackReport;
+
+/**
+ * Query of GET /api/quotas/trends
+ */
+export interface QuotaTrendsQuery {
+    region?: string;
+    /**
+     * Days of history when `from` is not set
+     * @exclusiveMinimum 0
+     */
+    days?: number;
+    from?: string;
+    to?: string;
+}
+
+/**
+ * Body of GET /api/quotas/trends
+ */
+export type QuotaTrendsResponse = QuotaTrends;
+
+/**
+ * Body of GET /api/quotas/snapshots
+ */
+export interface SnapshotListResponse {
+    snapshots: QuotaSnapshotInfo[];
+}
+
+/**
+ * Query of GET /api/quotas/snapshots/diff
+ */
+export interface SnapshotDiffQuery {
+    /** ID of the snapshot to compare from (default: the second most recent) */
+    from?: string;
+    /** ID of the snapshot to compare to (default: the most recent) */
+    to?: string;
+}
+
+/**
+ * Body of GET /api/quotas/snapshots/diff
+ */
+export type SnapshotDiffResponse = QuotaSnapshotDiff;
+
+/**
+ * Query of GET /api/quotas/forecast
+ */
+export interface QuotaForecastQuery {
+    region?: string;
+    role?: string;
+    method?: ForecastMethod;
+    /**
+     * Days ahead of exhaustion to start warning
+     * @minimum 0
+     */
+    warningDays?: number;
+}
+
+/**
+ * Body of GET /api/quotas/forecast
+ */
+export interface QuotaForecastResponse {
+    generatedAt: string;
+    forecasts: QuotaForecast[];
+}
@@ -0,0 +1,129 @@
+import { API_OPERATIONS, ApiOperation } from "./ApiOperations";
+import { API_SCHEMAS } from "./ApiSchemas";
+
+/**
+ * Version of the API, reported by /health and the OpenAPI document
+ */
+export const API_VERSION = "1.1.0";
+
+/**
+ * The parts of an OpenAPI 3.1 document the orchestrator uses
+ */
+export interface OpenApiDocument {
+    openapi: string;
+    info: { title: string; version: string; description?: string };
+    tags: { name: string }[];
+    paths: Record<string, Record<string, object>>;
+    components: {
+        schemas: Record<string, object>;
+        securitySchemes: Record<string, object>;
+    };
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+    400: "The request does not match the API specification",
+    401: "No valid credential was sent",
+    403: "The caller's role does not allow the request",
+    500: "The request failed unexpectedly"
+};
+
+/**
+ * Lists the path parameters of an OpenAPI path, e.g. id for /api/allocations/{id}
+ */
+export function pathParameters(path: string): string[] {
+    return Array.from(path.matchAll(/\{([^}]+)\}/g), match => match[1]);
+}
+
+/**
+ * Builds the responses of an operation, adding the errors every operation of its kind can return
+ */
+function buildResponses(operation: ApiOperation): Record<string, object> {
+    const statuses: Record<number, { description: string; schema?: string; contentType?: string }> = { ...operation.responses };
+    const addError = (status: number) => statuses[status] = statuses[status] || { description: ERROR_DESCRIPTIONS[status] };
+
+    if (operation.query || operation.requestBody) {
+        addError(400);
+    }
+    if (operation.role) {
+        addError(401);
+        addError(403);
+    }
+    addError(500);
+
+    return Object.fromEntries(Object.entries(statuses).map(([status, response]) => {
+        const schema = response.schema || (Number(status) >= 400 ? "ApiError" : undefined);
+        return [status, {
+            description: response.description,
+            ...(schema || response.contentType ? {
+                content: {
+                    [response.contentType || "application/json"]: schema ? { schema: { $ref: `#/components/schemas/${schema}` } } : {}
+                }
+            } : {})
+        }];
+    }));
+}
+
+/**
+ * Builds the OpenAPI document of the orchestrator API from its operations and the
+ * schemas generated from ApiTypes.ts
+ * @param operations Operations to document (default: every route of server.ts)
+ */
+export function buildOpenApiDocument(operations: ApiOperation[] = API_OPERATIONS): OpenApiDocument {
+    const paths: OpenApiDocument["paths"] = {};
+
+    for (const operation of operations) {
+        const querySchema = operation.query
+            ? API_SCHEMAS[operation.query] as { properties?: Record<string, object>; required?: string[] }
+            : undefined;
+        if (operation.query && !querySchema) {
+            throw new Error(`Unknown query schema ${operation.query} of operation ${operation.operationId}`);
+        }
+
+        const parameters = [
+            ...pathParameters(operation.path).map(name => ({ name, in: "path", required: true, schema: { type: "string" } })),
+            ...Object.entries(querySchema?.properties || {}).map(([name, schema]) => ({
+                name,
+                in: "query",
+                required: querySchema?.required?.includes(name) || false,
+                schema
+            }))
+        ];
+
+        paths[operation.path] = paths[operation.path] || {};
+        paths[operation.path][operation.method] = {
+            operationId: operation.operationId,
+            summary: operation.summary,
+            tags: [operation.tag],
+            ...(operation.role ? {
+                description: `Needs the ${operation.role} role when authentication is configured.`,
+                security: [{ apiKey: [] }, { bearer: [] }]
+            } : {}),
+            ...(parameters.length > 0 ? { parameters } : {}),
+            ...(operation.requestBody ? {
+                requestBody: {
+                    required: true,
+                    content: { "application/json": { schema: { $ref: `#/components/schemas/${operation.requestBody}` } } }
+                }
+            } : {}),
+            responses: buildResponses(operation)
+        };
+    }
+
+    return {
+        openapi: "3.1.0",
+        info: {
+            title: "Quota orchestrator API",
+            version: API_VERSION,
+            description: "Azure quota tracking, allocation and placement planning for Besu networks"
+        },
+        tags: Array.from(new Set(operations.map(operation => operation.tag)), name => ({ name })),
+        paths,
+        components: {
+            schemas: API_SCHEMAS,
+            securitySchemes: {
+                apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+                bearer: { type: "http", scheme: "bearer", bearerFormat: "JWT" }
+            }
+        }
+    };
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "fs";
+import { Request, Response } from "express";
+import { OpenApiValidator } from "./OpenApiValidator";
+import { buildOpenApiDocument } from "./OpenApiDocument";
+import { API_OPERATIONS } from "./ApiOperations";
+import { API_SCHEMAS } from "./ApiSchemas";
+import { renderApiSchemas, OUTPUT } from "../scripts/generateOpenApi";
+import { renderSdkTypes, SDK_TYPES_OUTPUT } from "../scripts/generateSdkTypes";
+
+const allocation = {
+    id: "alloc-1",
+    timestamp: "2025-04-04T12:00:00.000Z",
+    region: "eastus",
+    sku: "Standard_D2s_v3",
+    role: "validator",
+    amount: 2,
+    applicationId: "besu-net",
+    status: "active"
+};
+
+// Minimal Express response recording what the route sends
+function fakeResponse() {
+    const res = {
+        statusCode: 200,
+        body: undefined as unknown,
+        status: vi.fn((code: number) => { res.statusCode = code; return res; }),
+        json: vi.fn((body: unknown) => { res.body = body; return res; })
+    };
+    return res;
+}
+
+describe("OpenApiValidator", () => {
+    const validator = new OpenApiValidator();
+
+    it("should report request problems with their field paths", () => {
+        expect(validator.validateRequest("createAllocation", {
+            body: { region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 2, applicationId: "besu-net" }
+        })).toEqual([]);
+
+        expect(validator.validateRequest("createAllocation", {
+            body: { region: "", sku: "Standard_D2s_v3", role: "validator", amount: 1.5, ttl: 60 }
+        })).toEqual([
+            { path: "body.applicationId", message: "is required" },
+            { path: "body.ttl", message: "is not allowed" },
+            { path: "body.region", message: "must NOT have fewer than 1 characters" },
+            { path: "body.amount", message: "must be integer" }
+        ]);
+
+        expect(validator.validateRequest("allocateBatch", {
+            body: { applicationId: "besu-net", lines: [{ region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 0 }] }
+        })).toEqual([{ path: "body.lines[0].amount", message: "must be >= 1" }]);
+    });
+
+    it("should check query parameters as strings coerced to their types", () => {
+        expect(validator.validateRequest("forecastQuota", { query: { method: "holt", warningDays: "14", _: "cache-buster" } })).toEqual([]);
+        expect(validator.validateRequest("forecastQuota", { query: { method: "arima", warningDays: "-1" } })).toEqual([
+            { path: "query.method", message: "must be one of linear, holt" },
+            { path: "query.warningDays", message: "must be >= 0" }
+        ]);
+        expect(validator.validateRequest("validateQuota", { query: { region: "eastus" } })).toEqual([
+            { path: "query.role", message: "is required" }
+        ]);
+    });
+
+    it("should check responses against the schema of their status", () => {
+        expect(validator.validateResponse("createAllocation", 201, { allocation })).toEqual([]);
+        expect(validator.validateResponse("createAllocation", 201, { allocation: { ...allocation, status: "reserved" } })).toEqual([
+            { path: "response.allocation.status", message: "must be one of pending, active, released, expired" }
+        ]);
+        expect(validator.validateResponse("createAllocation", 200, { allocation })).toEqual([
+            { path: "status", message: "200 is not a documented response" }
+        ]);
+        // Errors without a documented schema are ApiErrors
+        expect(validator.validateResponse("getAllocation", 404, { error: "Allocation request failed", code: "ALLOCATION_NOT_FOUND", message: "Allocation not found: x" })).toEqual([]);
+        expect(validator.validateResponse("getAllocation", 500, { success: false })).toHaveLength(3);
+    });
+
+    it("should reject invalid requests with a 400 and replace invalid responses in strict mode", () => {
+        const next = vi.fn();
+        const res = fakeResponse();
+        new OpenApiValidator(undefined, "strict").validate("planPlacement")({ body: { validators: -1 }, query: {} } as Request, res as unknown as Response, next);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toEqual({
+            error: "Invalid request",
+            code: "INVALID_REQUEST",
+            message: "body.validators must be >= 0",
+            details: { errors: [{ path: "body.validators", message: "must be >= 0" }] }
+        });
+
+        const strictRes = fakeResponse();
+        new OpenApiValidator(undefined, "strict").validate("getAllocation")({ query: {} } as Request, strictRes as unknown as Response, next);
+        expect(next).toHaveBeenCalledOnce();
+
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+        (strictRes as unknown as Response).json({ allocation: { id: "alloc-1" } });
+        expect(strictRes.statusCode).toBe(500);
+        expect(strictRes.body).toMatchObject({ code: "INTERNAL_ERROR" });
+    });
+
+    it("should document every operation with resolvable schemas", () => {
+        const document = buildOpenApiDocument();
+        const operationCount = Object.values(document.paths).reduce((count, methods) => count + Object.keys(methods).length, 0);
+
+        expect(operationCount).toBe(API_OPERATIONS.length);
+        expect(document.paths["/api/allocations/{id}"].delete).toMatchObject({
+            operationId: "releaseAllocation",
+            security: [{ apiKey: [] }, { bearer: [] }],
+            parameters: [
+                { name: "id", in: "path", required: true, schema: { type: "string" } },
+                { name: "reason", in: "query", required: false }
+            ]
+        });
+
+        const refs = JSON.stringify(document).match(/#\/components\/schemas\/[^"]+/g) || [];
+        refs.forEach(ref => expect(document.components.schemas).toHaveProperty([ref.split("/").pop() as string]));
+    });
+
+    it("should have schemas generated from the current API types", () => {
+        expect(fs.readFileSync(OUTPUT, "utf-8")).toBe(renderApiSchemas());
+    }, 60000);
+
+    it("should have SDK types generated from the current schemas", () => {
+        const types = renderSdkTypes(API_SCHEMAS);
+        expect(fs.readFileSync(SDK_TYPES_OUTPUT, "utf-8")).toBe(types);
+        expect(types).toContain("export type ApiErrorCode = AllocationErrorCode | \"UNAUTHENTICATED\"");
+        expect(types).toContain("    lastRefresh: string | null;");
+    });
+});
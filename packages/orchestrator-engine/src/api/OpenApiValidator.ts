@@ -0,0 +1,253 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import chalk from "chalk";
+import { TelemetryService } from "orchestrator-core";
+import { API_OPERATIONS, ApiOperation } from "./ApiOperations";
+import { API_SCHEMAS } from "./ApiSchemas";
+import { ApiError, ValidationIssue } from "./ApiTypes";
+
+/**
+ * What to do with responses that do not match the specification:
+ * - `off`: do not check responses
+ * - `warn`: log and track them, and send them anyway
+ * - `strict`: send a 500 error instead (for development and tests)
+ */
+export type ResponseValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * Validators of one operation
+ */
+interface CompiledOperation {
+    operation: ApiOperation;
+    query?: ValidateFunction;
+    body?: ValidateFunction;
+    /** Validator of each documented status; null for bodies that are not JSON */
+    responses: Map<number, ValidateFunction | null>;
+}
+
+const SCHEMA_DOCUMENT = "openapi";
+
+/**
+ * Refers to a component schema from a schema compiled on its own
+ */
+function componentRef(name: string): object {
+    return { $ref: `${SCHEMA_DOCUMENT}#/components/schemas/${name}` };
+}
+
+/**
+ * Turns an Ajv error into a validation issue with a readable path, e.g. body.lines[0].amount
+ */
+function toIssue(error: ErrorObject, location: string): ValidationIssue {
+    const path = location + error.instancePath
+        .split("/")
+        .slice(1)
+        .map(segment => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+        .map(segment => /^\d+$/.test(segment) ? `[${segment}]` : `.${segment}`)
+        .join("");
+
+    switch (error.keyword) {
+        case "required":
+            return { path: `${path}.${error.params.missingProperty}`, message: "is required" };
+        case "additionalProperties":
+            return { path: `${path}.${error.params.additionalProperty}`, message: "is not allowed" };
+        case "enum":
+            return { path, message: `must be one of ${(error.params.allowedValues as unknown[]).join(", ")}` };
+        default:
+            return { path, message: error.message || "is invalid" };
+    }
+}
+
+/**
+ * Collects the issues of a failed validation, without the duplicates anyOf branches produce
+ */
+function toIssues(errors: ErrorObject[] | null | undefined, location: string): ValidationIssue[] {
+    const issues = new Map<string, ValidationIssue>();
+    (errors || []).map(error => toIssue(error, location)).forEach(issue => issues.set(`${issue.path} ${issue.message}`, issue));
+    return Array.from(issues.values());
+}
+
+/**
+ * Formats validation issues for messages and logs
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map(issue => `${issue.path} ${issue.message}`).join("; ");
+}
+
+/**
+ * OpenApiValidator checks requests and responses against the schemas of the API
+ * operations, so every route rejects malformed input the same way
+ */
+export class OpenApiValidator {
+    private readonly operations = new Map<string, CompiledOperation>();
+    private readonly errorValidator: ValidateFunction;
+
+    /**
+     * @param operations Operations to validate (default: every route of server.ts)
+     * @param responseMode What to do with responses that do not match the specification
+     */
+    constructor(
+        operations: ApiOperation[] = API_OPERATIONS,
+        private readonly responseMode: ResponseValidationMode = 'warn'
+    ) {
+        const ajv = new Ajv({ allErrors: true, strict: false });
+        // Query parameters arrive as strings, so numbers and booleans are coerced for checking
+        const coercingAjv = new Ajv({ allErrors: true, strict: false, coerceTypes: true });
+        for (const instance of [ajv, coercingAjv]) {
+            addFormats(instance);
+            instance.addSchema({ components: { schemas: API_SCHEMAS } }, SCHEMA_DOCUMENT);
+        }
+
+        this.errorValidator = ajv.compile(componentRef("ApiError"));
+
+        for (const operation of operations) {
+            this.operations.set(operation.operationId, {
+                operation,
+                query: operation.query ? coercingAjv.compile(this.querySchema(operation.query)) : undefined,
+                body: operation.requestBody ? ajv.compile(componentRef(operation.requestBody)) : undefined,
+                responses: new Map(Object.entries(operation.responses).map(([status, response]) => [
+                    Number(status),
+                    response.schema
+                        ? ajv.compile(componentRef(response.schema))
+                        : Number(status) >= 400 ? this.errorValidator : null
+                ]))
+            });
+        }
+    }
+
+    /**
+     * Schema of an operation's query parameters. Unknown parameters are ignored rather
+     * than rejected, so cache-busting parameters and the like do not break requests.
+     */
+    private querySchema(name: string): object {
+        const schema = API_SCHEMAS[name] as { properties?: Record<string, object>; required?: string[] } | undefined;
+        if (!schema) {
+            throw new Error(`Unknown query schema: ${name}`);
+        }
+
+        const properties = JSON.parse(
+            JSON.stringify(schema.properties || {}).replace(/"#\/components\//g, `"${SCHEMA_DOCUMENT}#/components/`)
+        );
+        return { type: "object", properties, required: schema.required || [] };
+    }
+
+    private getOperation(operationId: string): CompiledOperation {
+        const compiled = this.operations.get(operationId);
+        if (!compiled) {
+            throw new Error(`Unknown API operation: ${operationId}`);
+        }
+        return compiled;
+    }
+
+    /**
+     * Checks a request's query parameters and body
+     * @param operationId Operation the request is for
+     * @param request Query parameters and parsed JSON body
+     * @returns The problems found; none if the request is valid
+     */
+    public validateRequest(operationId: string, request: { query?: unknown; body?: unknown }): ValidationIssue[] {
+        const { query, body } = this.getOperation(operationId);
+        const issues: ValidationIssue[] = [];
+
+        // Check a copy, as coercion changes the values it checks
+        if (query && !query({ ...(request.query as object || {}) })) {
+            issues.push(...toIssues(query.errors, "query"));
+        }
+        if (body && !body(request.body)) {
+            issues.push(...toIssues(body.errors, "body"));
+        }
+
+        return issues;
+    }
+
+    /**
+     * Checks a response body against the schema documented for its status
+     * @param operationId Operation the response is for
+     * @param status HTTP status of the response
+     * @param body Response body
+     * @returns The problems found; none if the response is valid
+     */
+    public validateResponse(operationId: string, status: number, body: unknown): ValidationIssue[] {
+        const { responses } = this.getOperation(operationId);
+
+        let validator = responses.get(status);
+        if (validator === undefined) {
+            if (status < 400) {
+                return [{ path: "status", message: `${status} is not a documented response` }];
+            }
+            validator = this.errorValidator;
+        }
+        if (validator === null) {
+            return [];
+        }
+
+        // Check the body as clients receive it, e.g. with dates as strings and undefined fields left out
+        return validator(JSON.parse(JSON.stringify(body ?? null))) ? [] : toIssues(validator.errors, "response");
+    }
+
+    /**
+     * Handler that rejects requests not matching an operation with a 400 INVALID_REQUEST
+     * error listing the problems, and checks the route's JSON responses
+     * @param operationId Operation of the route
+     */
+    public validate(operationId: string): RequestHandler {
+        // Fail when the routes are set up rather than on the first request
+        this.getOperation(operationId);
+
+        return (req: Request, res: Response, next: NextFunction) => {
+            const issues = this.validateRequest(operationId, { query: req.query, body: req.body });
+            if (issues.length > 0) {
+                TelemetryService.trackEvent("ApiRequestInvalid", {
+                    operationId,
+                    issues: formatIssues(issues)
+                });
+                const error: ApiError = {
+                    error: "Invalid request",
+                    code: "INVALID_REQUEST",
+                    message: formatIssues(issues),
+                    details: { errors: issues }
+                };
+                return res.status(400).json(error);
+            }
+
+            if (this.responseMode !== 'off') {
+                this.checkResponses(operationId, res);
+            }
+            next();
+        };
+    }
+
+    /**
+     * Checks the bodies a route sends with res.json
+     */
+    private checkResponses(operationId: string, res: Response) {
+        const send = res.json.bind(res);
+
+        res.json = (body?: unknown) => {
+            const issues = this.validateResponse(operationId, res.statusCode, body);
+            if (issues.length === 0) {
+                return send(body);
+            }
+
+            console.error(chalk.red(`❌ Response ${res.statusCode} of ${operationId} does not match the API specification: ${formatIssues(issues)}`));
+            TelemetryService.trackEvent("ApiResponseInvalid", {
+                operationId,
+                status: res.statusCode.toString(),
+                issues: formatIssues(issues)
+            });
+
+            if (this.responseMode !== 'strict') {
+                return send(body);
+            }
+
+            const error: ApiError = {
+                error: "Internal server error",
+                code: "INTERNAL_ERROR",
+                message: `Response does not match the API specification: ${formatIssues(issues)}`,
+                details: { errors: issues }
+            };
+            res.status(500);
+            return send(error);
+        };
+    }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from "vitest";
+import { Request, Response } from "express";
+import { RateLimiter } from "./RateLimiter";
+
+// Minimal Express response recording what the handler sends
+function fakeResponse() {
+    const res = {
+        statusCode: 200,
+        body: undefined as unknown,
+        headers: {} as Record<string, string>,
+        setHeader: vi.fn((name: string, value: string) => { res.headers[name] = value; return res; }),
+        status: vi.fn((code: number) => { res.statusCode = code; return res; }),
+        json: vi.fn((body: unknown) => { res.body = body; return res; })
+    };
+    return res;
+}
+
+describe("RateLimiter", () => {
+    it("should allow each client its limit per window", () => {
+        const limiter = new RateLimiter({ limit: 2, windowMs: 60000 });
+
+        expect(limiter.consume("alice", 0)).toEqual({ allowed: true, remaining: 1, resetMs: 60000 });
+        expect(limiter.consume("alice", 1000)).toEqual({ allowed: true, remaining: 0, resetMs: 59000 });
+        expect(limiter.consume("alice", 2000)).toEqual({ allowed: false, remaining: 0, resetMs: 58000 });
+        expect(limiter.consume("bob", 2000).allowed).toBe(true);
+
+        // A new window starts once the old one has ended
+        expect(limiter.consume("alice", 60000)).toEqual({ allowed: true, remaining: 1, resetMs: 60000 });
+
+        expect(() => new RateLimiter({ limit: 0, windowMs: 60000 })).toThrow("Invalid rate limit");
+    });
+
+    it("should reject clients over the limit with a 429 and Retry-After", () => {
+        const limiter = new RateLimiter({ limit: 1, windowMs: 30000 });
+        const handler = limiter.limit("refreshQuotas");
+        const req = { ip: "10.0.0.1", principal: { id: "ops", roles: ["admin"], method: "api-key" } } as unknown as Request;
+        const next = vi.fn();
+
+        handler(req, fakeResponse() as unknown as Response, next);
+        expect(next).toHaveBeenCalledOnce();
+
+        const res = fakeResponse();
+        handler(req, res as unknown as Response, next);
+        expect(next).toHaveBeenCalledOnce();
+        expect(res.statusCode).toBe(429);
+        expect(res.headers["Retry-After"]).toBe("30");
+        expect(res.body).toMatchObject({ code: "RATE_LIMITED" });
+
+        // Limits are per caller, not per address
+        handler({ ...req, principal: { id: "pipeline", roles: ["admin"], method: "jwt" } } as unknown as Request, fakeResponse() as unknown as Response, next);
+        expect(next).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,125 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { TelemetryService } from "orchestrator-core";
+import { ApiError } from "./ApiTypes";
+
+/**
+ * Options of a RateLimiter
+ */
+export interface RateLimitOptions {
+    /** Requests each client may make per window */
+    limit: number;
+    /** Length of a window in milliseconds */
+    windowMs: number;
+}
+
+/**
+ * Result of counting one request against its client's limit
+ */
+export interface RateLimitDecision {
+    allowed: boolean;
+    /** Requests the client has left in the current window */
+    remaining: number;
+    /** Milliseconds until the client's window resets */
+    resetMs: number;
+}
+
+/**
+ * Requests counted for one client in its current window
+ */
+interface ClientWindow {
+    startedAt: number;
+    count: number;
+}
+
+/**
+ * Identifies the client a request counts against: the authenticated caller, or its
+ * address when auth is disabled (self-declared headers are easy to vary)
+ */
+function clientOf(req: Request): string {
+    return req.principal?.id || req.ip || "unknown";
+}
+
+/**
+ * RateLimiter allows each client a fixed number of requests per window, for routes
+ * that are expensive to serve, and rejects the rest with a 429 and a Retry-After header
+ */
+export class RateLimiter {
+    private readonly windows = new Map<string, ClientWindow>();
+    private lastPrunedAt = 0;
+
+    constructor(private readonly options: RateLimitOptions) {
+        if (!(options.limit >= 1) || !(options.windowMs > 0)) {
+            throw new Error(`Invalid rate limit: ${options.limit} requests per ${options.windowMs}ms`);
+        }
+    }
+
+    /**
+     * Counts a request against a client's limit
+     * @param client Client making the request
+     * @param now Time of the request (default: now)
+     */
+    public consume(client: string, now = Date.now()): RateLimitDecision {
+        this.prune(now);
+
+        let window = this.windows.get(client);
+        if (!window || now - window.startedAt >= this.options.windowMs) {
+            window = { startedAt: now, count: 0 };
+            this.windows.set(client, window);
+        }
+
+        const resetMs = window.startedAt + this.options.windowMs - now;
+        if (window.count >= this.options.limit) {
+            return { allowed: false, remaining: 0, resetMs };
+        }
+
+        window.count++;
+        return { allowed: true, remaining: this.options.limit - window.count, resetMs };
+    }
+
+    /**
+     * Forgets clients whose windows have ended, at most once per window
+     */
+    private prune(now: number) {
+        if (now - this.lastPrunedAt < this.options.windowMs) {
+            return;
+        }
+        this.lastPrunedAt = now;
+        for (const [client, window] of this.windows) {
+            if (now - window.startedAt >= this.options.windowMs) {
+                this.windows.delete(client);
+            }
+        }
+    }
+
+    /**
+     * Handler that rejects clients over the limit with a 429 RATE_LIMITED error
+     * @param operationId Operation of the route, for telemetry
+     */
+    public limit(operationId: string): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            const client = clientOf(req);
+            const decision = this.consume(client);
+
+            res.setHeader("RateLimit-Limit", this.options.limit.toString());
+            res.setHeader("RateLimit-Remaining", decision.remaining.toString());
+            res.setHeader("RateLimit-Reset", Math.ceil(decision.resetMs / 1000).toString());
+            if (decision.allowed) {
+                return next();
+            }
+
+            const retryAfterSeconds = Math.ceil(decision.resetMs / 1000);
+            TelemetryService.trackEvent("RateLimitExceeded", {
+                operationId,
+                client,
+                retryAfterSeconds: retryAfterSeconds.toString()
+            });
+            res.setHeader("Retry-After", retryAfterSeconds.toString());
+            const error: ApiError = {
+                error: "Too many requests",
+                code: "RATE_LIMITED",
+                message: `Limit of ${this.options.limit} requests per ${Math.ceil(this.options.windowMs / 1000)}s reached; retry in ${retryAfterSeconds}s`
+            };
+            res.status(429).json(error);
+        };
+    }
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { ApiKeyAuthProvider, hashApiKey } from "./ApiKeyAuthProvider";
+import { AuthenticationError, hasRole } from "./AuthProvider";
+
+describe("ApiKeyAuthProvider", () => {
+    const provider = new ApiKeyAuthProvider([
+        { name: "dashboard", key: "viewer-key", roles: ["viewer"] },
+        { name: "platform-admin", sha256: hashApiKey("admin-key"), roles: ["admin", "superuser"] }
+    ]);
+
+    it("should authenticate plain and hashed keys from either header", async () => {
+        await expect(provider.authenticate({ "x-api-key": "viewer-key" }))
+            .resolves.toEqual({ id: "dashboard", roles: ["viewer"], method: "api-key" });
+
+        // Unknown roles are dropped, and admin includes the lower roles
+        const admin = await provider.authenticate({ authorization: "ApiKey admin-key" });
+        expect(admin).toEqual({ id: "platform-admin", roles: ["admin"], method: "api-key" });
+        expect(hasRole(admin!, "allocator")).toBe(true);
+    });
+
+    it("should reject unknown keys and ignore requests without a key", async () => {
+        await expect(provider.authenticate({ "x-api-key": "guessed-key" })).rejects.toThrow(AuthenticationError);
+        await expect(provider.authenticate({ authorization: "Bearer some-token" })).resolves.toBeNull();
+        await expect(provider.authenticate({})).resolves.toBeNull();
+    });
+});
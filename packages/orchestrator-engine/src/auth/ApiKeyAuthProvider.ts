@@ -0,0 +1,93 @@
+import * as fs from "fs";
+import * as crypto from "crypto";
+import * as yaml from "yaml";
+import { IncomingHttpHeaders } from "http";
+import { AuthProvider, AuthenticationError, Principal, toApiRoles } from "./AuthProvider";
+
+/**
+ * One API key of the key file. Keys are best stored as a SHA-256 hash so the
+ * file does not hold usable secrets.
+ */
+export interface ApiKeyEntry {
+    /** Caller identity recorded for requests made with the key */
+    name: string;
+    /** The key in plain text */
+    key?: string;
+    /** Hex SHA-256 hash of the key */
+    sha256?: string;
+    /** Roles granted to the key */
+    roles: string[];
+}
+
+/**
+ * Contents of an API key file
+ */
+export interface ApiKeyFile {
+    keys: ApiKeyEntry[];
+}
+
+/**
+ * Hashes an API key for storing in the key file
+ */
+export function hashApiKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * ApiKeyAuthProvider authenticates requests with static API keys from a local
+ * YAML or JSON file, sent in the `X-API-Key` header or as `Authorization: ApiKey <key>`
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+    public readonly name = 'api-key';
+    private readonly keys: { name: string; hash: Buffer; roles: string[] }[];
+
+    constructor(entries: ApiKeyEntry[]) {
+        this.keys = entries.map(entry => {
+            if (!entry.name || !(entry.key || entry.sha256)) {
+                throw new Error('Every API key needs a name and a key or sha256 hash');
+            }
+            return {
+                name: entry.name,
+                hash: Buffer.from(entry.sha256 ? entry.sha256.toLowerCase() : hashApiKey(entry.key as string), "hex"),
+                roles: entry.roles || []
+            };
+        });
+    }
+
+    /**
+     * Loads an API key file
+     * @param filePath YAML or JSON file with a `keys` list
+     */
+    public static load(filePath: string): ApiKeyAuthProvider {
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`API key file not found: ${filePath}`);
+        }
+
+        // YAML is a superset of JSON, so one parser handles both
+        const parsed = yaml.parse(fs.readFileSync(filePath, "utf-8")) as ApiKeyFile | null;
+        if (!parsed || !Array.isArray(parsed.keys)) {
+            throw new Error(`API key file must contain a list of keys: ${filePath}`);
+        }
+
+        return new ApiKeyAuthProvider(parsed.keys);
+    }
+
+    public async authenticate(headers: IncomingHttpHeaders): Promise<Principal | null> {
+        const authorization = headers.authorization;
+        const key = (headers["x-api-key"] as string | undefined)
+            || (authorization?.startsWith("ApiKey ") ? authorization.slice("ApiKey ".length).trim() : undefined);
+
+        if (!key) {
+            return null;
+        }
+
+        // Compare hashes in constant time so the comparison leaks nothing about the keys
+        const hash = Buffer.from(hashApiKey(key), "hex");
+        const match = this.keys.find(entry => entry.hash.length === hash.length && crypto.timingSafeEqual(entry.hash, hash));
+        if (!match) {
+            throw new AuthenticationError('Invalid API key');
+        }
+
+        return { id: match.name, roles: toApiRoles(match.roles), method: 'api-key' };
+    }
+}
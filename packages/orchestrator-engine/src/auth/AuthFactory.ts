@@ -0,0 +1,31 @@
+import { AuthProvider } from "./AuthProvider";
+import { ApiKeyAuthProvider } from "./ApiKeyAuthProvider";
+import { JwtAuthProvider } from "./JwtAuthProvider";
+
+/**
+ * Creates the auth providers selected by the environment:
+ * - AUTH_API_KEYS_FILE: YAML/JSON file of static API keys
+ * - AUTH_JWT_SECRET or AUTH_JWKS_URI: verify JWT bearer tokens with a shared secret or a JWKS endpoint,
+ *   optionally checking AUTH_JWT_ISSUER and AUTH_JWT_AUDIENCE and reading roles from AUTH_JWT_ROLES_CLAIM
+ * @param env Environment to read (default: process.env)
+ * @returns The configured providers; none means the API is open
+ */
+export function createAuthProviders(env: NodeJS.ProcessEnv = process.env): AuthProvider[] {
+    const providers: AuthProvider[] = [];
+
+    if (env.AUTH_API_KEYS_FILE) {
+        providers.push(ApiKeyAuthProvider.load(env.AUTH_API_KEYS_FILE));
+    }
+
+    if (env.AUTH_JWT_SECRET || env.AUTH_JWKS_URI) {
+        providers.push(new JwtAuthProvider({
+            secret: env.AUTH_JWT_SECRET,
+            jwksUri: env.AUTH_JWKS_URI,
+            issuer: env.AUTH_JWT_ISSUER,
+            audience: env.AUTH_JWT_AUDIENCE,
+            rolesClaim: env.AUTH_JWT_ROLES_CLAIM
+        }));
+    }
+
+    return providers;
+}
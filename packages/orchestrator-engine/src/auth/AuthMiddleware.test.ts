@@ -0,0 +1,28 @@
+import { describe, it, expect, vi } from "vitest";
+import { Request, Response } from "express";
+import { ApiKeyAuthProvider } from "./ApiKeyAuthProvider";
+import { AuthMiddleware } from "./AuthMiddleware";
+
+vi.mock("orchestrator-core", () => ({
+    TelemetryService: { trackEvent: vi.fn() }
+}));
+
+describe("AuthMiddleware", () => {
+    const auth = new AuthMiddleware(
+        [new ApiKeyAuthProvider([{ name: "dashboard", key: "viewer-key", roles: ["viewer"] }])],
+        { queryTokenPaths: ["/api/events"] }
+    );
+
+    const authenticate = async (path: string, query: Record<string, string>) => {
+        const req = { path, query, headers: {} } as unknown as Request;
+        const next = vi.fn();
+        await auth.authenticate()(req, {} as Response, next);
+        return req.principal;
+    };
+
+    it("should take the access_token query parameter on query token paths only", async () => {
+        await expect(authenticate("/api/events", { access_token: "viewer-key" }))
+            .resolves.toEqual({ id: "dashboard", roles: ["viewer"], method: "api-key" });
+        await expect(authenticate("/api/quotas/matrix", { access_token: "viewer-key" })).resolves.toBeUndefined();
+    });
+});
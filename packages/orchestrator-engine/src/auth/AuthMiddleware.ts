@@ -0,0 +1,134 @@
+import { IncomingHttpHeaders } from "http";
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { TelemetryService } from "orchestrator-core";
+import { ApiRole, AuthProvider, AuthenticationError, Principal, hasRole } from "./AuthProvider";
+
+declare global {
+    namespace Express {
+        interface Request {
+            /** Caller authenticated by AuthMiddleware, unset when auth is disabled or no credential was sent */
+            principal?: Principal;
+        }
+    }
+}
+
+/**
+ * Options of the auth middleware
+ */
+export interface AuthMiddlewareOptions {
+    /**
+     * Paths that also accept a credential in the `access_token` query parameter, for
+     * clients such as the browser's EventSource that cannot send headers
+     */
+    queryTokenPaths?: string[];
+}
+
+/**
+ * AuthMiddleware authenticates API requests with the configured providers and
+ * checks the caller's role per route. Without providers the API is open and
+ * every route is allowed, as before auth was configured.
+ */
+export class AuthMiddleware {
+    constructor(
+        private readonly providers: AuthProvider[],
+        private readonly options: AuthMiddlewareOptions = {}
+    ) { }
+
+    /**
+     * Whether requests must be authenticated
+     */
+    public get enabled(): boolean {
+        return this.providers.length > 0;
+    }
+
+    /**
+     * Handler that identifies the caller of every request. Requests without
+     * credentials pass through unauthenticated; invalid credentials are rejected.
+     */
+    public authenticate(): RequestHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            if (!this.enabled) {
+                return next();
+            }
+
+            try {
+                const headers = this.credentialHeaders(req);
+                for (const provider of this.providers) {
+                    const principal = await provider.authenticate(headers);
+                    if (principal) {
+                        req.principal = principal;
+                        break;
+                    }
+                }
+                next();
+            } catch (error) {
+                if (!(error instanceof AuthenticationError)) {
+                    return next(error);
+                }
+
+                TelemetryService.trackEvent("AuthenticationFailed", {
+                    path: req.path,
+                    reason: error.message
+                });
+                res.status(401).json({
+                    error: "Unauthorized",
+                    code: "UNAUTHENTICATED",
+                    message: error.message
+                });
+            }
+        };
+    }
+
+    /**
+     * Gets the headers to authenticate a request with. On query token paths, a request
+     * without credential headers has its `access_token` sent as a bearer token if it
+     * looks like a JWT, else as an API key.
+     */
+    private credentialHeaders(req: Request): IncomingHttpHeaders {
+        const token = req.query.access_token;
+        if (typeof token !== 'string' || !token || !(this.options.queryTokenPaths || []).includes(req.path)
+            || req.headers.authorization || req.headers["x-api-key"]) {
+            return req.headers;
+        }
+
+        return token.split('.').length === 3
+            ? { ...req.headers, authorization: `Bearer ${token}` }
+            : { ...req.headers, "x-api-key": token };
+    }
+
+    /**
+     * Handler that only lets callers with a role (or a higher one) through
+     * @param role Least role the route needs
+     */
+    public requireRole(role: ApiRole): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            if (!this.enabled) {
+                return next();
+            }
+
+            if (!req.principal) {
+                res.setHeader("WWW-Authenticate", 'Bearer, ApiKey');
+                return res.status(401).json({
+                    error: "Unauthorized",
+                    code: "UNAUTHENTICATED",
+                    message: "Send an API key (X-API-Key) or a bearer token"
+                });
+            }
+
+            if (!hasRole(req.principal, role)) {
+                TelemetryService.trackEvent("AuthorizationDenied", {
+                    caller: req.principal.id,
+                    path: req.path,
+                    requiredRole: role
+                });
+                return res.status(403).json({
+                    error: "Forbidden",
+                    code: "FORBIDDEN",
+                    message: `${req.principal.id} needs the ${role} role for ${req.method} ${req.path}`
+                });
+            }
+
+            next();
+        };
+    }
+}
@@ -0,0 +1,68 @@
+import { IncomingHttpHeaders } from "http";
+
+/**
+ * Roles granting access to the orchestrator API, each including the ones before it:
+ * - `viewer`: read quota, allocations, recommendations and plans
+ * - `allocator`: also create, confirm and release allocations
+ * - `admin`: also refresh quota data and change engine state
+ */
+export const API_ROLES = ['viewer', 'allocator', 'admin'] as const;
+
+/**
+ * A role from API_ROLES
+ */
+export type ApiRole = typeof API_ROLES[number];
+
+/**
+ * Principal is the authenticated caller of a request
+ */
+export interface Principal {
+    /** Caller identity recorded in allocations, the audit trail and telemetry */
+    id: string;
+    /** Roles granted to the caller */
+    roles: ApiRole[];
+    /** How the caller was authenticated */
+    method: 'api-key' | 'jwt' | 'anonymous';
+}
+
+/**
+ * Thrown when a request carries credentials that are not valid
+ */
+export class AuthenticationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AuthenticationError";
+    }
+}
+
+/**
+ * AuthProvider authenticates API requests with one kind of credential
+ */
+export interface AuthProvider {
+    /** Name of the provider, for logs and telemetry */
+    readonly name: string;
+
+    /**
+     * Authenticates a request
+     * @param headers Request headers
+     * @returns The caller, or null if the request carries no credential of this kind
+     * @throws AuthenticationError if the request carries a credential of this kind that is not valid
+     */
+    authenticate(headers: IncomingHttpHeaders): Promise<Principal | null>;
+}
+
+/**
+ * Checks whether a caller has a role, directly or through a higher role
+ */
+export function hasRole(principal: Principal, role: ApiRole): boolean {
+    const needed = API_ROLES.indexOf(role);
+    return principal.roles.some(granted => API_ROLES.indexOf(granted) >= needed);
+}
+
+/**
+ * Keeps the known API roles of a list, for roles read from files and tokens
+ */
+export function toApiRoles(roles: unknown): ApiRole[] {
+    const list = Array.isArray(roles) ? roles : typeof roles === 'string' ? roles.split(/[\s,]+/) : [];
+    return list.filter((role): role is ApiRole => API_ROLES.includes(role as ApiRole));
+}
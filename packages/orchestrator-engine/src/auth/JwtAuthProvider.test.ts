@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { SignJWT } from "jose";
+import { JwtAuthProvider } from "./JwtAuthProvider";
+import { AuthenticationError } from "./AuthProvider";
+
+const SECRET = "test-secret-with-enough-entropy-for-hs256";
+
+async function sign(claims: Record<string, unknown>, secret = SECRET, audience = "quota-orchestrator"): Promise<string> {
+    return new SignJWT(claims)
+        .setProtectedHeader({ alg: "HS256" })
+        .setAudience(audience)
+        .setExpirationTime("5m")
+        .sign(new TextEncoder().encode(secret));
+}
+
+describe("JwtAuthProvider", () => {
+    const provider = new JwtAuthProvider({ secret: SECRET, audience: "quota-orchestrator", rolesClaim: "scp" });
+
+    it("should authenticate bearer tokens and read roles from the configured claim", async () => {
+        const token = await sign({ sub: "deploy-pipeline", scp: "allocator quota.read" });
+
+        await expect(provider.authenticate({ authorization: `Bearer ${token}` }))
+            .resolves.toEqual({ id: "deploy-pipeline", roles: ["allocator"], method: "jwt" });
+        await expect(provider.authenticate({ "x-api-key": "some-key" })).resolves.toBeNull();
+    });
+
+    it("should reject tokens with a bad signature, the wrong audience or no subject", async () => {
+        const forged = await sign({ sub: "mallory", scp: "admin" }, "another-secret-with-enough-entropy");
+        const otherAudience = await sign({ sub: "deploy-pipeline", scp: "allocator" }, SECRET, "another-service");
+        const anonymous = await sign({ scp: "viewer" });
+
+        await expect(provider.authenticate({ authorization: `Bearer ${forged}` })).rejects.toThrow(AuthenticationError);
+        await expect(provider.authenticate({ authorization: `Bearer ${otherAudience}` })).rejects.toThrow(/aud/);
+        await expect(provider.authenticate({ authorization: `Bearer ${anonymous}` })).rejects.toThrow("Bearer token has no 'sub' claim");
+    });
+});
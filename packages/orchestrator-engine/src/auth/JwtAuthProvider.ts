@@ -0,0 +1,67 @@
+import { IncomingHttpHeaders } from "http";
+import { createRemoteJWKSet, jwtVerify, JWTPayload, JWTVerifyOptions, JWTVerifyResult } from "jose";
+import { AuthProvider, AuthenticationError, Principal, toApiRoles } from "./AuthProvider";
+
+/**
+ * Options for verifying JWT bearer tokens. Either a shared secret or a JWKS URI is needed.
+ */
+export interface JwtAuthOptions {
+    /** Shared secret for HMAC-signed (HS256/384/512) tokens */
+    secret?: string;
+    /** URI of the JSON Web Key Set for tokens signed with a private key */
+    jwksUri?: string;
+    /** Issuer tokens must carry (optional) */
+    issuer?: string;
+    /** Audience tokens must carry (optional) */
+    audience?: string;
+    /** Claim holding the caller's API roles, a list or a space/comma separated string (default: roles) */
+    rolesClaim?: string;
+    /** Claim identifying the caller (default: sub) */
+    identityClaim?: string;
+}
+
+/**
+ * JwtAuthProvider authenticates requests with JWT bearer tokens (`Authorization: Bearer <token>`),
+ * verified against a shared secret or the keys of a JWKS endpoint
+ */
+export class JwtAuthProvider implements AuthProvider {
+    public readonly name = 'jwt';
+    private readonly verify: (token: string, options: JWTVerifyOptions) => Promise<JWTVerifyResult>;
+
+    constructor(private readonly options: JwtAuthOptions) {
+        if (options.jwksUri) {
+            // Keys are fetched on first use and cached, and refetched when a token names an unknown key
+            const jwks = createRemoteJWKSet(new URL(options.jwksUri));
+            this.verify = (token, verifyOptions) => jwtVerify(token, jwks, verifyOptions);
+        } else if (options.secret) {
+            const secret = new TextEncoder().encode(options.secret);
+            this.verify = (token, verifyOptions) => jwtVerify(token, secret, verifyOptions);
+        } else {
+            throw new Error('JWT authentication needs a shared secret or a JWKS URI');
+        }
+    }
+
+    public async authenticate(headers: IncomingHttpHeaders): Promise<Principal | null> {
+        const authorization = headers.authorization;
+        if (!authorization?.startsWith("Bearer ")) {
+            return null;
+        }
+
+        let payload: JWTPayload;
+        try {
+            ({ payload } = await this.verify(authorization.slice("Bearer ".length).trim(), {
+                issuer: this.options.issuer,
+                audience: this.options.audience
+            }));
+        } catch (error) {
+            throw new AuthenticationError(`Invalid bearer token: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const id = payload[this.options.identityClaim || 'sub'];
+        if (typeof id !== 'string' || !id) {
+            throw new AuthenticationError(`Bearer token has no '${this.options.identityClaim || 'sub'}' claim`);
+        }
+
+        return { id, roles: toApiRoles(payload[this.options.rolesClaim || 'roles']), method: 'jwt' };
+    }
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { PriceTable } from "./PriceTable";
+import { ApplicationBudgets } from "./ApplicationBudgets";
+
+describe("ApplicationBudgets", () => {
+    const budgets = new ApplicationBudgets({
+        "besu-net": { maxUnits: 20 },
+        "rpc-pool": { maxMonthlyCost: 100 }
+    }, new PriceTable("USD", { Standard_D2s_v3: { "*": 0.05 } }));
+
+    const d2s = (amount: number) => ({ region: "eastus", sku: "Standard_D2s_v3", amount });
+
+    it("should reject requests over the unit budget", () => {
+        expect(budgets.check("besu-net", d2s(5), [d2s(15)])).toBeNull();
+        expect(budgets.check("besu-net", d2s(6), [d2s(15)])).toBe("Budget for besu-net exceeded: would hold 21 units, above the budget of 20");
+        expect(budgets.check("no-budget", d2s(1000), [])).toBeNull();
+    });
+
+    it("should reject requests over the cost budget and unpriced requests", () => {
+        // 2 units x 0.05 x 730 hours = 73 per month
+        expect(budgets.check("rpc-pool", d2s(2), [])).toBeNull();
+        expect(budgets.check("rpc-pool", d2s(1), [d2s(2)])).toBe(
+            "Budget for rpc-pool exceeded: would cost an estimated 109.50 USD/month, above the budget of 100 USD"
+        );
+        expect(budgets.check("rpc-pool", { region: "eastus", sku: "Standard_NC6", amount: 1 }, [])).toBe(
+            "Budget for rpc-pool cannot be checked: no price for Standard_NC6 in eastus in the price table"
+        );
+        expect(budgets.status("rpc-pool", [d2s(2)])).toEqual({
+            applicationId: "rpc-pool", heldUnits: 2, maxUnits: null, estimatedMonthlyCost: 73, maxMonthlyCost: 100, currency: "USD"
+        });
+    });
+});
@@ -0,0 +1,170 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+import { DEFAULT_QUOTA_DATA_DIR } from "../storage/StoreFactory";
+import { PriceTable } from "./PriceTable";
+
+/**
+ * Hours in an average month, used to turn unit-hour prices into monthly estimates
+ */
+export const HOURS_PER_MONTH = 730;
+
+/**
+ * Limits on the quota one application may hold. Either limit may be left out.
+ */
+export interface ApplicationBudget {
+    /** Most quota units the application may hold at once */
+    maxUnits?: number;
+    /** Most estimated cost per month of the quota the application holds */
+    maxMonthlyCost?: number;
+}
+
+/**
+ * Contents of a budget file
+ */
+export interface BudgetFile {
+    budgets: Record<string, ApplicationBudget>;
+}
+
+/**
+ * Quota held, or about to be held, by an application
+ */
+export interface BudgetHolding {
+    region: string;
+    sku: string;
+    amount: number;
+}
+
+/**
+ * How much of its budget an application is using
+ */
+export interface BudgetStatus {
+    applicationId: string;
+    /** Quota units currently held */
+    heldUnits: number;
+    /** Unit budget, or null if there is none */
+    maxUnits: number | null;
+    /** Estimated monthly cost of the held quota, or null if a price is missing */
+    estimatedMonthlyCost: number | null;
+    /** Cost budget, or null if there is none */
+    maxMonthlyCost: number | null;
+    /** Currency of the costs */
+    currency: string;
+}
+
+/**
+ * ApplicationBudgets holds per-application limits in quota units and estimated
+ * monthly cost, priced with a local price table
+ */
+export class ApplicationBudgets {
+    constructor(
+        private budgets: Record<string, ApplicationBudget> = {},
+        public readonly prices = new PriceTable()
+    ) { }
+
+    /**
+     * Loads a budget file
+     * @param filePath YAML file with `budgets` keyed by application (default: QUOTA_BUDGET_FILE or budgets.yaml in QUOTA_DATA_DIR)
+     * @param prices Price table for cost budgets (default: see PriceTable.load)
+     * @returns The budgets, none if the file does not exist
+     */
+    public static load(
+        filePath = process.env.QUOTA_BUDGET_FILE || path.join(process.env.QUOTA_DATA_DIR || DEFAULT_QUOTA_DATA_DIR, "budgets.yaml"),
+        prices = PriceTable.load()
+    ): ApplicationBudgets {
+        if (!fs.existsSync(filePath)) {
+            return new ApplicationBudgets({}, prices);
+        }
+
+        const parsed = yaml.parse(fs.readFileSync(filePath, "utf-8")) as BudgetFile | null;
+        return new ApplicationBudgets(parsed?.budgets || {}, prices);
+    }
+
+    /**
+     * Gets the budget of an application
+     * @returns The budget, or null if the application has none
+     */
+    public get(applicationId: string): ApplicationBudget | null {
+        return this.budgets[applicationId] || null;
+    }
+
+    /**
+     * Lists the applications that have a budget
+     */
+    public applications(): string[] {
+        return Object.keys(this.budgets).sort();
+    }
+
+    /**
+     * Estimates the monthly cost of holding quota
+     * @returns The cost, or null if the price table has no price for one of the holdings
+     */
+    public monthlyCost(holdings: BudgetHolding[]): number | null {
+        let cost = 0;
+
+        for (const holding of holdings) {
+            const price = this.prices.unitHourPrice(holding.sku, holding.region);
+            if (price === null) {
+                return null;
+            }
+            cost += holding.amount * price * HOURS_PER_MONTH;
+        }
+
+        return cost;
+    }
+
+    /**
+     * Reports how much of its budget an application is using
+     * @param applicationId Application to report on
+     * @param holdings Quota the application currently holds
+     */
+    public status(applicationId: string, holdings: BudgetHolding[]): BudgetStatus {
+        const budget = this.get(applicationId);
+
+        return {
+            applicationId,
+            heldUnits: holdings.reduce((sum, holding) => sum + holding.amount, 0),
+            maxUnits: budget?.maxUnits ?? null,
+            estimatedMonthlyCost: this.monthlyCost(holdings),
+            maxMonthlyCost: budget?.maxMonthlyCost ?? null,
+            currency: this.prices.currency
+        };
+    }
+
+    /**
+     * Checks whether an application may take more quota within its budget
+     * @param applicationId Application requesting quota
+     * @param request Quota being requested
+     * @param holdings Quota the application already holds
+     * @returns Why the request exceeds the budget, or null if it fits
+     */
+    public check(applicationId: string, request: BudgetHolding, holdings: BudgetHolding[]): string | null {
+        const budget = this.get(applicationId);
+        if (!budget) {
+            return null;
+        }
+
+        const after = [...holdings, request];
+
+        if (budget.maxUnits !== undefined) {
+            const units = after.reduce((sum, holding) => sum + holding.amount, 0);
+            if (units > budget.maxUnits) {
+                return `Budget for ${applicationId} exceeded: would hold ${units} units, above the budget of ${budget.maxUnits}`;
+            }
+        }
+
+        if (budget.maxMonthlyCost !== undefined) {
+            const cost = this.monthlyCost(after);
+            if (cost === null) {
+                const unpriced = after.find(holding => this.prices.unitHourPrice(holding.sku, holding.region) === null) as BudgetHolding;
+                return `Budget for ${applicationId} cannot be checked: no price for ${unpriced.sku} in ${unpriced.region} in the price table`;
+            }
+            if (cost > budget.maxMonthlyCost) {
+                return `Budget for ${applicationId} exceeded: would cost an estimated ${cost.toFixed(2)} ${this.prices.currency}/month, ` +
+                    `above the budget of ${budget.maxMonthlyCost} ${this.prices.currency}`;
+            }
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { PriceTable } from "./PriceTable";
+import { AllocationUsage, buildChargebackReport, formatChargebackReport } from "./Chargeback";
+
+const prices = new PriceTable("USD", { Standard_D2s_v3: { "*": 0.05, westeurope: 0.1 } });
+
+const usage = (applicationId: string, region: string, sku: string, amount: number, start: string, end: string): AllocationUsage => ({
+    applicationId, role: "validator", region, sku, amount, start: new Date(start), end: new Date(end)
+});
+
+describe("buildChargebackReport", () => {
+    const from = new Date("2024-03-01T00:00:00Z");
+    const to = new Date("2024-03-02T00:00:00Z");
+
+    it("should count unit-hours within the period and price them per region", () => {
+        const report = buildChargebackReport([
+            // Started before the period, so only the 12 hours inside it count
+            usage("besu-net", "eastus", "Standard_D2s_v3", 10, "2024-02-29T12:00:00Z", "2024-03-01T12:00:00Z"),
+            usage("besu-net", "eastus", "Standard_D2s_v3", 5, "2024-03-01T12:00:00Z", "2024-03-01T14:00:00Z"),
+            usage("besu-net", "westeurope", "Standard_D2s_v3", 2, "2024-03-01T00:00:00Z", "2024-03-03T00:00:00Z"),
+            usage("archive", "eastus", "Standard_D2s_v3", 4, "2024-02-01T00:00:00Z", "2024-02-02T00:00:00Z")
+        ], from, to, prices);
+
+        expect(report.lines.map(line => [line.applicationId, line.region, line.unitHours, line.estimatedCost?.toFixed(2)])).toEqual([
+            ["besu-net", "eastus", 130, "6.50"],
+            ["besu-net", "westeurope", 48, "4.80"]
+        ]);
+        expect(report.totalUnitHours).toBe(178);
+        expect(report.totalEstimatedCost).toBeCloseTo(11.3);
+    });
+
+    it("should leave costs out when the price table has no price", () => {
+        const report = buildChargebackReport([
+            usage("gpu-lab", "eastus", "Standard_NC6", 6, "2024-03-01T00:00:00Z", "2024-03-01T01:00:00Z")
+        ], from, to, prices);
+
+        expect(report.lines[0].estimatedCost).toBeNull();
+        expect(report.totalEstimatedCost).toBeNull();
+        expect(formatChargebackReport(report, "csv")).toBe(
+            "applicationId,role,region,unitHours,estimatedCost,currency\ngpu-lab,validator,eastus,6.00,,USD\n"
+        );
+        expect(formatChargebackReport(report, "markdown")).toContain("| gpu-lab | validator | eastus | 6.00 | n/a |");
+    });
+});
@@ -0,0 +1,128 @@
+import { PriceTable } from "./PriceTable";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Output formats of the chargeback report
+ */
+export type ChargebackFormat = 'csv' | 'json' | 'markdown';
+
+/**
+ * Time an allocation held quota
+ */
+export interface AllocationUsage {
+    applicationId: string;
+    role: string;
+    region: string;
+    sku: string;
+    amount: number;
+    /** When the allocation started holding quota */
+    start: Date;
+    /** When the allocation stopped holding quota, or the report end if it still does */
+    end: Date;
+}
+
+/**
+ * Quota consumed by one application, role and region over the report period
+ */
+export interface ChargebackLine {
+    applicationId: string;
+    role: string;
+    region: string;
+    /** Quota units multiplied by the hours they were held */
+    unitHours: number;
+    /** Estimated cost, or null if the price table has no price for a SKU used */
+    estimatedCost: number | null;
+}
+
+/**
+ * ChargebackReport attributes quota consumption over a period to applications
+ */
+export interface ChargebackReport {
+    from: string;
+    to: string;
+    currency: string;
+    /** Lines sorted by application, role and region */
+    lines: ChargebackLine[];
+    totalUnitHours: number;
+    /** Estimated total cost, or null if any line has no estimate */
+    totalEstimatedCost: number | null;
+}
+
+/**
+ * Builds a chargeback report from the time allocations held quota. Usage outside
+ * the period is left out; usage overlapping it is counted for the overlap only.
+ * @param usages Time each allocation held quota
+ * @param from Start of the period
+ * @param to End of the period
+ * @param prices Price table for cost estimates
+ */
+export function buildChargebackReport(usages: AllocationUsage[], from: Date, to: Date, prices: PriceTable): ChargebackReport {
+    const lines = new Map<string, ChargebackLine>();
+
+    for (const usage of usages) {
+        const start = Math.max(usage.start.getTime(), from.getTime());
+        const end = Math.min(usage.end.getTime(), to.getTime());
+        if (end <= start) continue;
+
+        const unitHours = usage.amount * (end - start) / HOUR_MS;
+        const price = prices.unitHourPrice(usage.sku, usage.region);
+
+        const key = [usage.applicationId, usage.role, usage.region].join("\u0000");
+        const line = lines.get(key) || { applicationId: usage.applicationId, role: usage.role, region: usage.region, unitHours: 0, estimatedCost: 0 };
+
+        line.unitHours += unitHours;
+        line.estimatedCost = line.estimatedCost === null || price === null ? null : line.estimatedCost + unitHours * price;
+        lines.set(key, line);
+    }
+
+    const sorted = Array.from(lines.values()).sort((a, b) =>
+        a.applicationId.localeCompare(b.applicationId) || a.role.localeCompare(b.role) || a.region.localeCompare(b.region));
+
+    return {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        currency: prices.currency,
+        lines: sorted,
+        totalUnitHours: sorted.reduce((sum, line) => sum + line.unitHours, 0),
+        totalEstimatedCost: sorted.some(line => line.estimatedCost === null)
+            ? null
+            : sorted.reduce((sum, line) => sum + (line.estimatedCost as number), 0)
+    };
+}
+
+/**
+ * Renders a chargeback report
+ * @param report Report to render
+ * @param format `json`, `csv` (one row per line) or `markdown` (a table with totals)
+ */
+export function formatChargebackReport(report: ChargebackReport, format: ChargebackFormat): string {
+    const hours = (value: number) => value.toFixed(2);
+    const cost = (value: number | null) => value === null ? '' : value.toFixed(2);
+
+    switch (format) {
+        case 'json':
+            return JSON.stringify(report, null, 2);
+        case 'csv': {
+            const quote = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+            const rows = report.lines.map(line => [
+                quote(line.applicationId), quote(line.role), quote(line.region), hours(line.unitHours), cost(line.estimatedCost), report.currency
+            ].join(","));
+            return ['applicationId,role,region,unitHours,estimatedCost,currency', ...rows].join("\n") + "\n";
+        }
+        case 'markdown': {
+            const rows = report.lines.map(line =>
+                `| ${line.applicationId} | ${line.role} | ${line.region} | ${hours(line.unitHours)} | ${cost(line.estimatedCost) || 'n/a'} |`);
+            return [
+                `# Quota chargeback ${report.from} to ${report.to}`,
+                '',
+                `| Application | Role | Region | Unit-hours | Estimated cost (${report.currency}) |`,
+                '| --- | --- | --- | ---: | ---: |',
+                ...rows,
+                `| **Total** | | | **${hours(report.totalUnitHours)}** | **${cost(report.totalEstimatedCost) || 'n/a'}** |`
+            ].join("\n") + "\n";
+        }
+        default:
+            throw new Error(`Unknown chargeback format '${format}'. Use csv, json or markdown`);
+    }
+}
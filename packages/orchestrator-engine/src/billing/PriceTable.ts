@@ -0,0 +1,57 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+
+/**
+ * Default location of the bundled price table
+ */
+export const DEFAULT_PRICE_TABLE_PATH = path.join(__dirname, "../../data/price-table.json");
+
+/**
+ * Contents of a price table file. Prices are per quota unit per hour, keyed by SKU
+ * and then by region, with `*` as the price for regions not listed.
+ */
+export interface PriceTableFile {
+    /** Currency of the prices (default: USD) */
+    currency?: string;
+    prices: Record<string, Record<string, number>>;
+}
+
+/**
+ * PriceTable holds local unit-hour prices used to estimate the cost of allocations.
+ * Prices are estimates for budgeting and chargeback, not billing figures.
+ */
+export class PriceTable {
+    constructor(
+        public readonly currency = 'USD',
+        private prices: PriceTableFile['prices'] = {}
+    ) { }
+
+    /**
+     * Loads a price table file
+     * @param filePath JSON or YAML price table (default: QUOTA_PRICE_TABLE or the bundled table)
+     * @returns The price table, empty if the file does not exist
+     */
+    public static load(filePath = process.env.QUOTA_PRICE_TABLE || DEFAULT_PRICE_TABLE_PATH): PriceTable {
+        if (!fs.existsSync(filePath)) {
+            return new PriceTable();
+        }
+
+        // YAML is a superset of JSON, so one parser handles both
+        const parsed = yaml.parse(fs.readFileSync(filePath, "utf-8")) as PriceTableFile;
+        return new PriceTable(parsed.currency, parsed.prices || {});
+    }
+
+    /**
+     * Gets the price of one quota unit of a SKU for one hour
+     * @returns The price, or null if the table has none for the SKU and region
+     */
+    public unitHourPrice(sku: string, region: string): number | null {
+        const prices = this.prices[sku];
+        if (!prices) {
+            return null;
+        }
+
+        return prices[region] ?? prices['*'] ?? null;
+    }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { ResourceSku } from "@azure/arm-compute";
+import { SkuCatalog, parseResourceSkuCapabilities } from "./SkuCatalog";
+
+const resourceSku = (name: string, location: string, zones: string[], capabilities: Record<string, string>): ResourceSku => ({
+    name,
+    family: "standardDSv3Family",
+    resourceType: "virtualMachines",
+    locationInfo: [{ location, zones }],
+    capabilities: Object.entries(capabilities).map(([capability, value]) => ({ name: capability, value }))
+});
+
+describe("parseResourceSkuCapabilities", () => {
+    it("should read capabilities and merge zones across regions", () => {
+        const capabilities = { vCPUs: "4", MemoryGB: "16", AcceleratedNetworkingEnabled: "True", PremiumIO: "True" };
+
+        const result = parseResourceSkuCapabilities([
+            resourceSku("Standard_D4s_v3", "EastUS", ["3", "1", "2"], capabilities),
+            resourceSku("Standard_D4s_v3", "westus", [], capabilities),
+            { name: "Premium_LRS", resourceType: "disks" }
+        ]);
+
+        expect(result).toEqual({
+            Standard_D4s_v3: {
+                family: "standardDSv3Family",
+                vCPUs: 4,
+                memoryGB: 16,
+                gpus: 0,
+                acceleratedNetworking: true,
+                premiumStorage: true,
+                zones: { eastus: ["1", "2", "3"], westus: [] }
+            }
+        });
+    });
+});
+
+describe("SkuCatalog", () => {
+    const catalog = new SkuCatalog({
+        Standard_D4s_v3: {
+            vCPUs: 4, memoryGB: 16, gpus: 0, acceleratedNetworking: true, premiumStorage: true,
+            zones: { eastus: ["1", "2", "3"], westus: [] }
+        },
+        Standard_D8s_v3: { vCPUs: 8, memoryGB: 32, gpus: 0, acceleratedNetworking: true, premiumStorage: true }
+    });
+
+    it("should accept SKUs meeting every requirement and prefer the closest fit", () => {
+        const d4 = catalog.evaluate("Standard_D4s_v3", "eastus", { minCores: 4, minMemory: 16 }, ["availabilityZones"]);
+        const d8 = catalog.evaluate("Standard_D8s_v3", "eastus", { minCores: 4, minMemory: 16 });
+
+        expect(d4).toEqual({
+            eligible: true,
+            reasons: ["4 vCPUs (needs 4)", "16 GB memory (needs 16 GB)", "Availability zones 1, 2, 3 in eastus"],
+            score: 10
+        });
+        expect(d8.eligible).toBe(true);
+        expect(d8.score).toBeLessThan(d4.score);
+    });
+
+    it("should explain why a SKU is excluded", () => {
+        expect(catalog.evaluate("Standard_D4s_v3", "westus", { minCores: 8, gpuRequired: true }, ["availabilityZones", "ultraDisk"]).reasons).toEqual([
+            "Standard_D4s_v3 has 4 vCPUs, needs at least 8",
+            "Standard_D4s_v3 has no availability zones in westus",
+            "Unknown feature 'ultraDisk' (supported: acceleratedNetworking, premiumStorage, availabilityZones, gpu)",
+            "Standard_D4s_v3 has no GPU"
+        ]);
+        expect(catalog.evaluate("Standard_NC6", "eastus", { minCores: 1 })).toEqual({
+            eligible: false,
+            reasons: ["No capability data for Standard_NC6 in the SKU catalog"],
+            score: 0
+        });
+        expect(catalog.evaluate("Standard_NC6", "eastus").eligible).toBe(true);
+    });
+});
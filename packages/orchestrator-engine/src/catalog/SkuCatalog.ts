@@ -0,0 +1,295 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TokenCredential } from "@azure/core-auth";
+import { DefaultAzureCredential } from "@azure/identity";
+import { ComputeManagementClient, ResourceSku } from "@azure/arm-compute";
+import { writeFileAtomic } from "../storage/FileLock";
+
+/**
+ * Default location of the bundled SKU catalog
+ */
+export const DEFAULT_SKU_CATALOG_PATH = path.join(__dirname, "../../data/sku-catalog.json");
+
+/**
+ * Features a recommendation request can require of a SKU
+ */
+export const SKU_FEATURES = ['acceleratedNetworking', 'premiumStorage', 'availabilityZones', 'gpu'] as const;
+
+/**
+ * A feature from SKU_FEATURES
+ */
+export type SkuFeature = typeof SKU_FEATURES[number];
+
+/**
+ * SkuCapabilities describes the hardware and platform features of one VM SKU
+ */
+export interface SkuCapabilities {
+    /** VM family the SKU's quota is counted against */
+    family?: string;
+    /** Number of vCPUs */
+    vCPUs: number;
+    /** Memory in GB */
+    memoryGB: number;
+    /** Number of GPUs */
+    gpus: number;
+    /** Whether accelerated networking is supported */
+    acceleratedNetworking: boolean;
+    /** Whether premium storage disks are supported */
+    premiumStorage: boolean;
+    /** Availability zones offering the SKU, per region */
+    zones?: Record<string, string[]>;
+}
+
+/**
+ * Minimum hardware a workload needs
+ */
+export interface SkuRequirements {
+    /** Minimum number of vCPUs */
+    minCores?: number;
+    /** Minimum memory in GB */
+    minMemory?: number;
+    /** Whether at least one GPU is needed */
+    gpuRequired?: boolean;
+}
+
+/**
+ * Result of checking a SKU against requirements
+ */
+export interface SkuEvaluation {
+    /** Whether the SKU satisfies every requirement */
+    eligible: boolean;
+    /** How the SKU meets the requirements, or why it does not */
+    reasons: string[];
+    /** Confidence points to add for an eligible SKU (0-10), higher for a closer fit */
+    score: number;
+}
+
+/**
+ * Options for refreshing the catalog from Azure
+ */
+export interface SkuCatalogRefreshOptions {
+    /** Subscription to list resource SKUs for (default: AZURE_SUBSCRIPTION_ID) */
+    subscriptionId?: string;
+    /** Credential to authenticate with (default: DefaultAzureCredential) */
+    credential?: TokenCredential;
+    /** Only read these regions (default: all regions) */
+    regions?: string[];
+}
+
+/**
+ * Reads VM SKU capabilities from the Azure resource SKU list
+ * @param skus Resource SKUs as returned by the Compute resource SKUs API
+ * @returns Capabilities keyed by SKU name, with zones merged across the listed regions
+ */
+export function parseResourceSkuCapabilities(skus: ResourceSku[]): Record<string, SkuCapabilities> {
+    const result: Record<string, SkuCapabilities> = {};
+
+    for (const sku of skus) {
+        if (sku.resourceType !== 'virtualMachines' || !sku.name) continue;
+
+        const capabilities = new Map<string, string>();
+        (sku.capabilities || []).forEach(capability => {
+            if (capability.name && capability.value !== undefined) {
+                capabilities.set(capability.name, capability.value);
+            }
+        });
+
+        const entry = result[sku.name] || (result[sku.name] = {
+            family: sku.family,
+            vCPUs: parseFloat(capabilities.get('vCPUs') || '0'),
+            memoryGB: parseFloat(capabilities.get('MemoryGB') || '0'),
+            gpus: parseFloat(capabilities.get('GPUs') || '0'),
+            acceleratedNetworking: capabilities.get('AcceleratedNetworkingEnabled') === 'True',
+            premiumStorage: capabilities.get('PremiumIO') === 'True',
+            zones: {}
+        });
+
+        const zones = entry.zones || (entry.zones = {});
+        for (const location of sku.locationInfo || []) {
+            if (location.location) {
+                zones[location.location.toLowerCase()] = [...(location.zones || [])].sort();
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * SkuCatalog holds the capabilities of VM SKUs so recommendations can be checked
+ * against workload requirements. It loads from a JSON file (the bundled catalog by
+ * default) and can be refreshed from the Azure resource SKU list.
+ */
+export class SkuCatalog {
+    constructor(private skus: Record<string, SkuCapabilities> = {}) { }
+
+    /**
+     * Loads a catalog file
+     * @param filePath JSON file keyed by SKU name (default: SKU_CATALOG_PATH or the bundled catalog)
+     * @returns The catalog, empty if the file does not exist
+     */
+    public static load(filePath = process.env.SKU_CATALOG_PATH || DEFAULT_SKU_CATALOG_PATH): SkuCatalog {
+        if (!fs.existsSync(filePath)) {
+            return new SkuCatalog();
+        }
+
+        return new SkuCatalog(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+    }
+
+    /**
+     * Writes the catalog to a JSON file
+     * @param filePath File to write
+     */
+    public save(filePath: string): void {
+        writeFileAtomic(filePath, JSON.stringify(this.skus, null, 2) + "\n");
+    }
+
+    /**
+     * Gets the capabilities of a SKU
+     * @returns The capabilities, or null if the SKU is not in the catalog
+     */
+    public get(sku: string): SkuCapabilities | null {
+        return this.skus[sku] || null;
+    }
+
+    /**
+     * Lists every SKU in the catalog
+     * @returns Capabilities keyed by SKU name
+     */
+    public list(): Record<string, SkuCapabilities> {
+        return { ...this.skus };
+    }
+
+    /**
+     * Adds or replaces SKUs. Zones of regions not in the new entries are kept.
+     * @param skus Capabilities keyed by SKU name
+     */
+    public merge(skus: Record<string, SkuCapabilities>): void {
+        for (const [name, capabilities] of Object.entries(skus)) {
+            this.skus[name] = {
+                ...capabilities,
+                zones: { ...(this.skus[name]?.zones || {}), ...(capabilities.zones || {}) }
+            };
+        }
+    }
+
+    /**
+     * Refreshes SKU capabilities from the Azure resource SKU list
+     * @param options Subscription, credential and regions to read
+     * @returns Number of SKUs read from Azure
+     */
+    public async refreshFromAzure(options: SkuCatalogRefreshOptions = {}): Promise<number> {
+        const subscriptionId = options.subscriptionId || process.env.AZURE_SUBSCRIPTION_ID;
+        if (!subscriptionId) {
+            throw new Error('Cannot refresh SKU catalog: AZURE_SUBSCRIPTION_ID is not set');
+        }
+
+        const client = new ComputeManagementClient(options.credential || new DefaultAzureCredential(), subscriptionId);
+        const filters = options.regions && options.regions.length > 0
+            ? options.regions.map(region => `location eq '${region}'`)
+            : [undefined];
+
+        const skus: ResourceSku[] = [];
+        for (const filter of filters) {
+            for await (const sku of client.resourceSkus.list(filter ? { filter } : undefined)) {
+                skus.push(sku);
+            }
+        }
+
+        const parsed = parseResourceSkuCapabilities(skus);
+        this.merge(parsed);
+        return Object.keys(parsed).length;
+    }
+
+    /**
+     * Checks a SKU in a region against workload requirements and required features
+     * @param sku SKU name
+     * @param region Region the SKU would be deployed in
+     * @param requirements Minimum hardware needed
+     * @param features Features from SKU_FEATURES that must be supported
+     * @returns Whether the SKU qualifies, with reasons either way
+     */
+    public evaluate(sku: string, region: string, requirements: SkuRequirements = {}, features: string[] = []): SkuEvaluation {
+        const { minCores, minMemory, gpuRequired } = requirements;
+        if (minCores === undefined && minMemory === undefined && !gpuRequired && features.length === 0) {
+            return { eligible: true, reasons: [], score: 0 };
+        }
+
+        const capabilities = this.get(sku);
+        if (!capabilities) {
+            return { eligible: false, reasons: [`No capability data for ${sku} in the SKU catalog`], score: 0 };
+        }
+
+        const met: string[] = [];
+        const unmet: string[] = [];
+        const fit: number[] = [];
+
+        if (minCores !== undefined) {
+            if (capabilities.vCPUs < minCores) {
+                unmet.push(`${sku} has ${capabilities.vCPUs} vCPUs, needs at least ${minCores}`);
+            } else {
+                met.push(`${capabilities.vCPUs} vCPUs (needs ${minCores})`);
+                fit.push(minCores / (capabilities.vCPUs || 1));
+            }
+        }
+
+        if (minMemory !== undefined) {
+            if (capabilities.memoryGB < minMemory) {
+                unmet.push(`${sku} has ${capabilities.memoryGB} GB memory, needs at least ${minMemory} GB`);
+            } else {
+                met.push(`${capabilities.memoryGB} GB memory (needs ${minMemory} GB)`);
+                fit.push(minMemory / (capabilities.memoryGB || 1));
+            }
+        }
+
+        const required = new Set(features);
+        if (gpuRequired) {
+            required.add('gpu');
+        }
+
+        for (const feature of Array.from(required)) {
+            switch (feature) {
+                case 'gpu':
+                    if (capabilities.gpus > 0) {
+                        met.push(`${capabilities.gpus} GPU${capabilities.gpus === 1 ? '' : 's'}`);
+                    } else {
+                        unmet.push(`${sku} has no GPU`);
+                    }
+                    break;
+                case 'acceleratedNetworking':
+                    if (capabilities.acceleratedNetworking) {
+                        met.push('Supports accelerated networking');
+                    } else {
+                        unmet.push(`${sku} does not support accelerated networking`);
+                    }
+                    break;
+                case 'premiumStorage':
+                    if (capabilities.premiumStorage) {
+                        met.push('Supports premium storage');
+                    } else {
+                        unmet.push(`${sku} does not support premium storage`);
+                    }
+                    break;
+                case 'availabilityZones': {
+                    const zones = capabilities.zones?.[region] || [];
+                    if (zones.length > 0) {
+                        met.push(`Availability zones ${zones.join(', ')} in ${region}`);
+                    } else {
+                        unmet.push(`${sku} has no availability zones in ${region}`);
+                    }
+                    break;
+                }
+                default:
+                    unmet.push(`Unknown feature '${feature}' (supported: ${SKU_FEATURES.join(', ')})`);
+            }
+        }
+
+        if (unmet.length > 0) {
+            return { eligible: false, reasons: unmet, score: 0 };
+        }
+
+        // Confirmed capabilities earn 5 points, plus up to 5 for not oversizing the workload
+        const closeness = fit.length > 0 ? fit.reduce((sum, value) => sum + value, 0) / fit.length : 1;
+        return { eligible: true, reasons: met, score: 5 + 5 * closeness };
+    }
+}
@@ -1,17 +1,30 @@
 #!/usr/bin/env node
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as yaml from 'yaml';
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { QuotaEngine } from './rules/QuotaEngine';
-import { ConnectivityService } from './utils/ConnectivityService';
-import { TelemetryService } from './utils/TelemetryService';
-import { executeWithRetry } from './utils/RetryUtils';
+import { QuotaEngine, AllocationRequestLine, RecommendationRequest } from './rules/QuotaEngine';
+import { ConnectivityService, TelemetryService, executeWithRetry, QuotaAlertLevel } from 'orchestrator-core';
+import { AuditAction, AuditEventFilter } from './storage/AuditEvent';
+import { ForecastMethod } from './forecasting/QuotaForecaster';
+import { AzureComputeQuotaProvider } from './providers/AzureComputeQuotaProvider';
+import { SkuCatalog, SKU_FEATURES, DEFAULT_SKU_CATALOG_PATH } from './catalog/SkuCatalog';
+import { ChargebackFormat, formatChargebackReport } from './billing/Chargeback';
+import { FailureDomain, NetworkShape } from './planning/PlacementPlanner';
 
 // Initialize telemetry for tracking CLI usage
-TelemetryService.initialize();
+TelemetryService.initialize('orchestrator-engine');
+
+// Quota helpers of the ConnectivityService read Azure through the engine's provider
+ConnectivityService.setQuotaDataReader(credential => new AzureComputeQuotaProvider({ credential }).fetchQuotaData());
 
 const program = new Command();
 
+// Recorded as the requester in the audit trail
+const cliUser = os.userInfo().username;
+
 // Set up program metadata
 program
     .name('orchestrator-cli')
@@ -101,6 +114,10 @@ program
     .description('Suggest regions that have available quota for a specific role')
     .option('-m, --min-quota <number>', 'Minimum quota required', '1')
     .option('-p, --preferred <regions>', 'Comma-separated list of preferred regions')
+    .option('--min-cores <number>', 'Minimum vCPUs per VM')
+    .option('--min-memory <gb>', 'Minimum memory per VM in GB')
+    .option('--gpu', 'Require a GPU')
+    .option('-f, --features <features>', `Comma-separated required features (${SKU_FEATURES.join(', ')})`)
     .action(async (role, options) => {
         try {
             TelemetryService.trackEvent('CLI:SuggestRegion', {
@@ -112,14 +129,24 @@ program
             quotaEngine = await initializeQuotaEngine();
 
             // Set up recommendation request
-            const request = {
+            const request: RecommendationRequest = {
                 role,
                 minimumQuota: parseInt(options.minQuota, 10),
-                preferredRegions: options.preferred ? options.preferred.split(',') : undefined
+                preferredRegions: options.preferred ? options.preferred.split(',') : undefined,
+                skuRequirements: {
+                    minCores: options.minCores !== undefined ? parseInt(options.minCores, 10) : undefined,
+                    minMemory: options.minMemory !== undefined ? parseFloat(options.minMemory) : undefined,
+                    gpuRequired: !!options.gpu
+                },
+                requiredFeatures: options.features ? options.features.split(',') : undefined
             };
 
             // Get recommendations
-            const recommendations = await quotaEngine.getResourceRecommendations(request);
+            const { recommendations, excluded } = await quotaEngine.evaluateRecommendations(request);
+
+            excluded.forEach(exclusion => {
+                console.log(chalk.yellow(`⚠️ Excluded ${exclusion.sku} in ${exclusion.region}: ${exclusion.reasons.join('; ')}`));
+            });
 
             if (recommendations.length === 0) {
                 console.log(chalk.yellow(`⚠️ No regions found with available quota for role ${role}`));
@@ -155,60 +182,452 @@ program
 program
     .command('summarize-availability <role>')
     .description('Summarize quota availability for a specific role across all regions')
-    .action(async (role) => {
+    .option('-m, --method <method>', 'Forecast trend model: linear or holt')
+    .option('-w, --warning-days <days>', 'Warn when quota is predicted to run out within this many days')
+    .option('-s, --subscription <id>', 'Only count quota in this subscription')
+    .action(async (role, options) => {
         try {
             TelemetryService.trackEvent('CLI:SummarizeAvailability', {
-                role
+                role,
+                subscription: options.subscription || 'all'
             });
 
             quotaEngine = await initializeQuotaEngine();
 
-            // Get all regions
-            const regions = quotaEngine.getAvailableRegions();
+            const summary = quotaEngine.summarizeQuotaAvailability(role, options.subscription);
 
-            // Track quota information across regions
-            const summary: Record<string, { total: number; used: number; available: number; usage_percent: string }> = {};
+            if (Object.keys(summary).length === 0) {
+                console.log(chalk.yellow(`⚠️ No regions found with quota assigned to role ${role}`));
+                process.exit(1);
+            } else {
+                console.log(chalk.green(`✅ Quota summary for role ${role}:`));
 
-            // Check each region for the specified role
-            for (const region of regions) {
-                const regionData = quotaEngine.getRegionData(region);
+                console.log(JSON.stringify(summary, null, 2));
 
-                if (!regionData) continue;
+                const forecasts = quotaEngine.getQuotaForecasts({
+                    role,
+                    method: options.method as ForecastMethod | undefined,
+                    warningDays: options.warningDays !== undefined ? parseInt(options.warningDays, 10) : undefined
+                });
 
-                // Find any SKU assigned to this role
-                for (const sku in regionData) {
-                    const quotaDetails = regionData[sku];
+                console.log(chalk.blue(`📈 Exhaustion forecast for role ${role}:`));
+                forecasts.forEach(forecast => {
+                    const label = `${forecast.sku} in ${forecast.region}`;
+                    if (forecast.exhaustionDate === null) {
+                        const why = forecast.dailyGrowth === null
+                            ? `not enough refresh history (${forecast.sampleCount} samples)`
+                            : 'usage is not growing';
+                        console.log(`- ${label}: no exhaustion predicted, ${why}`);
+                        return;
+                    }
 
-                    if (quotaDetails.assigned_to.includes(role)) {
-                        const usagePercent = (quotaDetails.used / quotaDetails.total * 100).toFixed(2);
+                    const color = forecast.alertLevel === QuotaAlertLevel.Critical ? chalk.red
+                        : forecast.alertLevel === QuotaAlertLevel.Warning ? chalk.yellow
+                            : (text: string) => text;
+                    console.log(color(`- ${label}: runs out in ${Math.floor(forecast.daysUntilExhaustion as number)} days ` +
+                        `(${forecast.exhaustionDate.slice(0, 10)}), growing ${(forecast.dailyGrowth ?? 0).toFixed(2)}/day`));
+                });
+                process.exit(0);
+            }
+        } catch (error) {
+            console.error(chalk.red(`❌ Error summarizing availability: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'SummarizeAvailability',
+                role
+            });
+            process.exit(1);
+        }
+    });
 
-                        summary[region] = {
-                            total: quotaDetails.total,
-                            used: quotaDetails.used,
-                            available: quotaDetails.available,
-                            usage_percent: usagePercent
-                        };
+// Command: summarize-subscriptions
+program
+    .command('summarize-subscriptions [role]')
+    .description('Roll quota up per subscription across all regions, optionally for one role')
+    .action(async (role) => {
+        try {
+            TelemetryService.trackEvent('CLI:SummarizeSubscriptions', {
+                role: role || 'all'
+            });
 
-                        // We've found a matching SKU for this region, move to the next region
-                        break;
-                    }
+            quotaEngine = await initializeQuotaEngine();
+
+            const summary = quotaEngine.summarizeBySubscription(role);
+
+            if (Object.keys(summary).length === 0) {
+                console.log(chalk.yellow(`⚠️ No quota found${role ? ` for role ${role}` : ''}`));
+                process.exit(1);
+            }
+
+            console.log(chalk.green(`✅ Quota by subscription${role ? ` for role ${role}` : ''}:`));
+            Object.entries(summary).forEach(([subscriptionId, figures]) => {
+                console.log(`- ${subscriptionId}: ${figures.available}/${figures.total} available ` +
+                    `(${figures.usage_percent}% used) across ${figures.regions.join(', ')}`);
+            });
+            process.exit(0);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error summarizing subscriptions: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'SummarizeSubscriptions'
+            });
+            process.exit(1);
+        }
+    });
+
+// Command: allocate-batch
+program
+    .command('allocate-batch <applicationId> [lines...]')
+    .description('Allocate quota across several regions/SKUs at once (all lines or none). Lines use region:sku:role:amount[:subscription]')
+    .option('-f, --file <path>', 'YAML or JSON file containing an array of { region, sku, role, amount, subscriptionId? } lines')
+    .action(async (applicationId, lineArgs: string[], options) => {
+        try {
+            const lines: AllocationRequestLine[] = [];
+
+            if (options.file) {
+                // YAML is a superset of JSON, so one parser handles both
+                const parsed = yaml.parse(fs.readFileSync(options.file, 'utf8'));
+                if (!Array.isArray(parsed)) {
+                    throw new Error(`Batch file must contain an array of allocation lines: ${options.file}`);
                 }
+                lines.push(...parsed);
             }
 
-            if (Object.keys(summary).length === 0) {
-                console.log(chalk.yellow(`⚠️ No regions found with quota assigned to role ${role}`));
+            for (const arg of lineArgs) {
+                const [region, sku, role, amount, subscriptionId] = arg.split(':');
+                if (!region || !sku || !role || !amount) {
+                    throw new Error(`Invalid allocation line '${arg}', expected region:sku:role:amount[:subscription]`);
+                }
+                lines.push({ region, sku, role, amount: parseInt(amount, 10), ...(subscriptionId ? { subscriptionId } : {}) });
+            }
+
+            if (lines.length === 0) {
+                throw new Error('No allocation lines given. Pass region:sku:role:amount arguments or --file');
+            }
+
+            TelemetryService.trackEvent('CLI:AllocateBatch', {
+                applicationId,
+                lineCount: lines.length.toString()
+            });
+
+            quotaEngine = await initializeQuotaEngine();
+
+            const result = await quotaEngine.allocateQuotaBatch(lines, applicationId, cliUser);
+
+            result.lines.forEach(line => {
+                const subscription = line.line.subscriptionId ? ` (subscription ${line.line.subscriptionId})` : '';
+                const label = `${line.index + 1}. ${line.line.amount} x ${line.line.sku} in ${line.line.region}${subscription} for ${line.line.role}`;
+                if (line.allocationId) {
+                    console.log(chalk.green(`✅ ${label} (ID: ${line.allocationId})`));
+                } else if (line.valid) {
+                    console.log(chalk.yellow(`⚠️ ${label}: not allocated because other lines failed`));
+                } else {
+                    console.log(chalk.red(`❌ ${label}: ${line.reason}`));
+                }
+            });
+
+            if (result.committed) {
+                console.log(chalk.green(`✅ Batch ${result.transactionId} committed`));
+                process.exit(0);
+            } else {
+                console.log(chalk.red(`❌ Batch ${result.transactionId} rejected, nothing was allocated`));
                 process.exit(1);
+            }
+        } catch (error) {
+            console.error(chalk.red(`❌ Error allocating quota batch: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'AllocateBatch',
+                applicationId
+            });
+            process.exit(1);
+        }
+    });
+
+// Command: plan-network
+program
+    .command('plan-network')
+    .description('Plan the placement of a whole Besu network, spreading validators so no region holds more than f of them')
+    .requiredOption('-v, --validators <number>', 'Number of validators')
+    .option('--rpc <number>', 'Number of RPC nodes', '0')
+    .option('--bootnodes <number>', 'Number of bootnodes', '0')
+    .option('-u, --units-per-node <number>', 'Quota units each node takes', '1')
+    .option('-d, --failure-domain <domain>', 'Spread validators per region or zone', 'region')
+    .option('-p, --regions <regions>', 'Comma-separated list of regions the network may use')
+    .option('--min-cores <number>', 'Minimum vCPUs per VM')
+    .option('--min-memory <gb>', 'Minimum memory per VM in GB')
+    .option('-f, --features <features>', `Comma-separated required features (${SKU_FEATURES.join(', ')})`)
+    .option('-a, --allocate <applicationId>', 'Allocate the plan for this application (all lines or none)')
+    .option('--json', 'Print the plan as JSON')
+    .action(async (options) => {
+        try {
+            const shape: NetworkShape = {
+                validators: parseInt(options.validators, 10),
+                rpcNodes: parseInt(options.rpc, 10),
+                bootnodes: parseInt(options.bootnodes, 10),
+                unitsPerNode: parseInt(options.unitsPerNode, 10),
+                failureDomain: options.failureDomain as FailureDomain,
+                regions: options.regions ? options.regions.split(',') : undefined,
+                skuRequirements: {
+                    minCores: options.minCores !== undefined ? parseInt(options.minCores, 10) : undefined,
+                    minMemory: options.minMemory !== undefined ? parseFloat(options.minMemory) : undefined
+                },
+                requiredFeatures: options.features ? options.features.split(',') : undefined
+            };
+
+            TelemetryService.trackEvent('CLI:PlanNetwork', {
+                validators: options.validators,
+                rpcNodes: options.rpc,
+                bootnodes: options.bootnodes
+            });
+
+            quotaEngine = await initializeQuotaEngine();
+
+            const plan = await quotaEngine.planPlacement(shape);
+
+            if (options.json) {
+                console.log(JSON.stringify(plan, null, 2));
             } else {
-                console.log(chalk.green(`✅ Quota summary for role ${role}:`));
+                plan.placements.forEach(placement => {
+                    const zone = placement.zone ? ` zone ${placement.zone}` : '';
+                    const subscription = placement.subscriptionId ? ` (subscription ${placement.subscriptionId})` : '';
+                    console.log(chalk.blue(`- ${placement.nodes} ${placement.kind} x ${placement.sku} in ${placement.region}${zone}${subscription}`));
+                });
+                console.log('\nPlan:');
+                plan.explanation.forEach(line => console.log(`   - ${line}`));
+            }
 
-                console.log(JSON.stringify(summary, null, 2));
+            if (!plan.feasible) {
+                console.log(chalk.red('❌ The network cannot be placed with the available quota'));
+                process.exit(1);
+            }
+
+            if (options.allocate) {
+                const result = await quotaEngine.allocateQuotaBatch(plan.allocationLines, options.allocate, cliUser);
+                if (!result.committed) {
+                    result.lines.filter(line => !line.valid).forEach(line => {
+                        console.log(chalk.red(`❌ ${line.line.amount} x ${line.line.sku} in ${line.line.region}: ${line.reason}`));
+                    });
+                    console.log(chalk.red(`❌ Batch ${result.transactionId} rejected, nothing was allocated`));
+                    process.exit(1);
+                }
+                console.log(chalk.green(`✅ Allocated the plan for ${options.allocate} in batch ${result.transactionId}`));
+            } else if (!options.json) {
+                console.log(chalk.green('✅ Plan is feasible. Pass --allocate <applicationId> to allocate it'));
+            }
+            process.exit(0);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error planning network: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'PlanNetwork'
+            });
+            process.exit(1);
+        }
+    });
+
+// Command: rebalance
+program
+    .command('rebalance [allocationIds...]')
+    .description('Propose moving active allocations out of unhealthy regions, and move them with --apply')
+    .option('-t, --max-targets <number>', 'Most targets to propose per allocation', '3')
+    .option('--apply', 'Move the given allocations (or every allocation with a target) to their best target')
+    .action(async (allocationIds: string[], options) => {
+        try {
+            TelemetryService.trackEvent('CLI:Rebalance', {
+                apply: (!!options.apply).toString(),
+                allocationCount: allocationIds.length.toString()
+            });
+
+            quotaEngine = await initializeQuotaEngine();
+
+            const proposals = (await quotaEngine.proposeRebalancing(parseInt(options.maxTargets, 10)))
+                .filter(proposal => allocationIds.length === 0 || allocationIds.includes(proposal.allocation.id));
+
+            if (proposals.length === 0) {
+                console.log(chalk.green('✅ No active allocations in unhealthy regions'));
                 process.exit(0);
             }
+
+            proposals.forEach(({ allocation, advisories, targets }) => {
+                console.log(chalk.yellow(`\n⚠️ ${allocation.id}: ${allocation.amount} x ${allocation.sku} in ${allocation.region} for ${allocation.applicationId} (${allocation.role})`));
+                advisories.forEach(advisory => console.log(`   Advisory: ${advisory}`));
+                if (targets.length === 0) {
+                    console.log(chalk.red('   No healthy region has enough quota to move it to'));
+                }
+                targets.forEach((target, index) => {
+                    console.log(`   ${index + 1}. ${target.sku} in ${target.region} (available ${target.availableQuota}, confidence ${target.confidence}%)`);
+                });
+            });
+
+            if (!options.apply) {
+                console.log(chalk.blue('\nPass --apply to move these allocations to their first target'));
+                process.exit(0);
+            }
+
+            const movable = proposals.filter(proposal => proposal.targets.length > 0).map(proposal => proposal.allocation.id);
+            const results = await quotaEngine.applyRebalancing(movable, {}, cliUser);
+
+            results.forEach(result => {
+                if (result.migrated && result.target) {
+                    console.log(chalk.green(`✅ Moved ${result.allocationId} to ${result.target.sku} in ${result.target.region} (ID: ${result.newAllocationId})`));
+                } else {
+                    console.log(chalk.red(`❌ Could not move ${result.allocationId}: ${result.reason}`));
+                }
+            });
+
+            process.exit(results.length === proposals.length && results.every(result => result.migrated) ? 0 : 1);
         } catch (error) {
-            console.error(chalk.red(`❌ Error summarizing availability: ${error instanceof Error ? error.message : String(error)}`));
+            console.error(chalk.red(`❌ Error rebalancing allocations: ${error instanceof Error ? error.message : String(error)}`));
             TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
-                operation: 'SummarizeAvailability',
-                role
+                operation: 'Rebalance'
+            });
+            process.exit(1);
+        }
+    });
+
+// Command: refresh-sku-catalog
+program
+    .command('refresh-sku-catalog')
+    .description('Refresh SKU capabilities from the Azure resource SKU list and write the catalog file')
+    .option('-r, --regions <regions>', 'Comma-separated regions to read (default: all regions)')
+    .option('-o, --output <path>', 'Catalog file to write (default: SKU_CATALOG_PATH or the bundled catalog)')
+    .action(async (options) => {
+        try {
+            TelemetryService.trackEvent('CLI:RefreshSkuCatalog', {
+                regions: options.regions || 'all'
+            });
+
+            // Entries Azure does not return (e.g. other regions) are kept from the existing file
+            const output = options.output || process.env.SKU_CATALOG_PATH || DEFAULT_SKU_CATALOG_PATH;
+            const catalog = SkuCatalog.load(output);
+            const count = await catalog.refreshFromAzure({
+                regions: options.regions ? options.regions.split(',') : undefined
+            });
+            catalog.save(output);
+
+            console.log(chalk.green(`✅ Refreshed ${count} SKUs from Azure into ${output}`));
+            process.exit(0);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error refreshing SKU catalog: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'RefreshSkuCatalog'
+            });
+            process.exit(1);
+        }
+    });
+
+// Command: list-policies
+program
+    .command('list-policies')
+    .description('List the allocation policies checked before every allocation')
+    .action(async () => {
+        try {
+            TelemetryService.trackEvent('CLI:ListPolicies');
+
+            quotaEngine = await initializeQuotaEngine();
+
+            const rules = quotaEngine.getPolicies().rules;
+            if (rules.length === 0) {
+                console.log(chalk.yellow('⚠️ No allocation policies configured. Set QUOTA_POLICY_FILE to a policy file'));
+                process.exit(0);
+            }
+
+            console.log(chalk.green(`✅ ${rules.length} allocation policies:`));
+            rules.forEach(rule => {
+                const scope = [
+                    rule.roles ? `roles ${rule.roles.join(', ')}` : '',
+                    rule.regions ? `regions ${rule.regions.join(', ')}` : '',
+                    rule.skus ? `SKUs ${rule.skus.join(', ')}` : '',
+                    rule.applications ? `applications ${rule.applications.join(', ')}` : ''
+                ].filter(Boolean).join('; ');
+                console.log(`- ${rule.name} (${rule.type})${rule.description ? `: ${rule.description}` : ''}${scope ? ` [${scope}]` : ''}`);
+            });
+            process.exit(0);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error listing policies: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'ListPolicies'
+            });
+            process.exit(1);
+        }
+    });
+
+// Command: budget-status
+program
+    .command('budget-status [applicationId]')
+    .description('Show how much of their budgets applications are using')
+    .option('--json', 'Print the status as JSON')
+    .action(async (applicationId, options) => {
+        try {
+            TelemetryService.trackEvent('CLI:BudgetStatus', {
+                applicationId: applicationId || 'all'
+            });
+
+            quotaEngine = await initializeQuotaEngine();
+
+            const statuses = quotaEngine.getBudgetStatus(applicationId);
+
+            if (options.json) {
+                console.log(JSON.stringify(statuses, null, 2));
+                process.exit(0);
+            }
+
+            if (statuses.length === 0) {
+                console.log(chalk.yellow('⚠️ No budgets or allocations found'));
+                process.exit(0);
+            }
+
+            statuses.forEach(status => {
+                const units = `${status.heldUnits}${status.maxUnits !== null ? `/${status.maxUnits}` : ''} units`;
+                const cost = status.estimatedMonthlyCost !== null
+                    ? `${status.estimatedMonthlyCost.toFixed(2)}${status.maxMonthlyCost !== null ? `/${status.maxMonthlyCost}` : ''} ${status.currency}/month`
+                    : 'cost unknown';
+                const over = (status.maxUnits !== null && status.heldUnits > status.maxUnits)
+                    || (status.maxMonthlyCost !== null && (status.estimatedMonthlyCost ?? 0) > status.maxMonthlyCost);
+                console.log((over ? chalk.red : chalk.green)(`- ${status.applicationId}: ${units}, ${cost}`));
+            });
+            process.exit(0);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error getting budget status: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'BudgetStatus'
+            });
+            process.exit(1);
+        }
+    });
+
+// Command: chargeback
+program
+    .command('chargeback')
+    .description('Report quota unit-hours consumed per application, role and region over a period')
+    .option('--from <date>', 'Start of the period (default: 30 days before --to)')
+    .option('--to <date>', 'End of the period (default: now)')
+    .option('--format <format>', 'Output format: csv, json or markdown', 'markdown')
+    .option('-o, --output <path>', 'Write the report to a file instead of the console')
+    .action(async (options) => {
+        try {
+            TelemetryService.trackEvent('CLI:Chargeback', {
+                format: options.format
+            });
+
+            const to = options.to ? new Date(options.to) : new Date();
+            const from = options.from ? new Date(options.from) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+            if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+                throw new Error('--from and --to must be valid dates');
+            }
+
+            quotaEngine = await initializeQuotaEngine();
+
+            const output = formatChargebackReport(quotaEngine.getChargebackReport(from, to), options.format as ChargebackFormat);
+
+            if (options.output) {
+                fs.writeFileSync(options.output, output);
+                console.log(chalk.green(`✅ Chargeback report written to ${options.output}`));
+            } else {
+                console.log(output);
+            }
+            process.exit(0);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error building chargeback report: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'Chargeback'
             });
             process.exit(1);
         }
@@ -288,7 +707,7 @@ program
 
             console.log(chalk.blue('🔄 Refreshing quota data...'));
 
-            const success = await quotaEngine.refreshQuotaData();
+            const success = await quotaEngine.refreshQuotaData(cliUser);
 
             if (success) {
                 console.log(chalk.green('✅ Quota data refreshed successfully'));
@@ -306,8 +725,169 @@ program
         }
     });
 
-// Parse command line arguments
-program.parse(process.argv);
+// Command: list-snapshots
+program
+    .command('list-snapshots')
+    .description('List the stored quota snapshots')
+    .action(async () => {
+        try {
+            TelemetryService.trackEvent('CLI:ListSnapshots');
+
+            quotaEngine = await initializeQuotaEngine();
+
+            const snapshots = quotaEngine.listSnapshots();
+
+            if (snapshots.length === 0) {
+                console.log(chalk.yellow('⚠️ No quota snapshots stored yet. Run refresh-quota or generate-mapping first'));
+                process.exit(1);
+            } else {
+                console.log(chalk.green(`✅ Quota snapshots (${snapshots.length}):`));
+                snapshots.forEach(snapshot => {
+                    console.log(`- ${snapshot.id} (${snapshot.source})`);
+                });
+                process.exit(0);
+            }
+        } catch (error) {
+            console.error(chalk.red(`❌ Error listing snapshots: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'ListSnapshots'
+            });
+            process.exit(1);
+        }
+    });
+
+// Command: diff-snapshots
+program
+    .command('diff-snapshots [from] [to]')
+    .description('Show how total/used/available quota changed between two snapshots (default: the two most recent)')
+    .option('--json', 'Print the diff as JSON')
+    .action(async (from, to, options) => {
+        try {
+            TelemetryService.trackEvent('CLI:DiffSnapshots');
+
+            quotaEngine = await initializeQuotaEngine();
+
+            const diff = quotaEngine.diffSnapshots(from, to);
+
+            if (!diff) {
+                console.log(chalk.red(from || to
+                    ? `❌ Snapshot not found: ${[from, to].filter(Boolean).join(', ')}`
+                    : '❌ At least two snapshots are needed to compare'));
+                process.exit(1);
+            }
+
+            if (options.json) {
+                console.log(JSON.stringify(diff, null, 2));
+                process.exit(0);
+            }
+
+            console.log(chalk.blue(`🔍 Changes from ${diff.from.id} to ${diff.to.id}:`));
+
+            if (diff.entries.length === 0) {
+                console.log(chalk.green('✅ No changes'));
+                process.exit(0);
+            }
+
+            const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+            diff.entries.forEach(entry => {
+                const label = `${entry.sku} in ${entry.region}`;
+                if (entry.change === 'added') {
+                    console.log(chalk.green(`+ ${label}: total ${entry.after?.total}, used ${entry.after?.used}, available ${entry.after?.available}`));
+                } else if (entry.change === 'removed') {
+                    console.log(chalk.red(`- ${label}: removed`));
+                } else {
+                    console.log(`~ ${label}: total ${signed(entry.delta.total)}, used ${signed(entry.delta.used)}, available ${signed(entry.delta.available)}`);
+                }
+            });
+            process.exit(0);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error comparing snapshots: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'DiffSnapshots'
+            });
+            process.exit(1);
+        }
+    });
+
+// Command: quota-audit
+program
+    .command('quota-audit')
+    .description('Show the quota allocation audit trail')
+    .option('-a, --application <applicationId>', 'Only events for this application')
+    .option('-r, --region <region>', 'Only events in this region')
+    .option('--allocation <allocationId>', 'Only events for this allocation')
+    .option('--action <action>', 'Only events of this action (allocate, reserve, confirm, release, expire, reject, refresh, add-sku)')
+    .option('--from <date>', 'Only events at or after this ISO date')
+    .option('--to <date>', 'Only events at or before this ISO date')
+    .option('-n, --limit <count>', 'Show only the most recent N events')
+    .option('--json', 'Print events as JSON')
+    .action(async (options) => {
+        try {
+            const filter: AuditEventFilter = {
+                applicationId: options.application,
+                region: options.region,
+                allocationId: options.allocation,
+                action: options.action as AuditAction | undefined
+            };
+
+            for (const key of ['from', 'to'] as const) {
+                if (options[key]) {
+                    const date = new Date(options[key]);
+                    if (isNaN(date.getTime())) {
+                        throw new Error(`Invalid --${key} date: ${options[key]}`);
+                    }
+                    filter[key] = date;
+                }
+            }
+
+            if (options.limit) {
+                filter.limit = parseInt(options.limit, 10);
+                if (!(filter.limit > 0)) {
+                    throw new Error(`Invalid --limit: ${options.limit}`);
+                }
+            }
+
+            TelemetryService.trackEvent('CLI:QuotaAudit');
+
+            quotaEngine = await initializeQuotaEngine();
+
+            const events = quotaEngine.queryAuditLog(filter);
+
+            if (options.json) {
+                console.log(JSON.stringify(events, null, 2));
+                process.exit(0);
+            }
+
+            if (events.length === 0) {
+                console.log(chalk.yellow('⚠️ No audit events match the given filters'));
+                process.exit(0);
+            }
+
+            console.log(chalk.green(`✅ Audit events (${events.length}):`));
+            events.forEach(event => {
+                const target = [event.amount !== undefined ? `${event.amount} x` : '', event.sku, event.region && `in ${event.region}`]
+                    .filter(Boolean)
+                    .join(' ');
+                const color = event.outcome === 'success' ? chalk.green : chalk.red;
+                console.log(`${event.timestamp} ${color(event.action.padEnd(8))} ${target} by ${event.requestedBy}` +
+                    (event.applicationId ? ` for ${event.applicationId}` : '') +
+                    (event.allocationId ? ` (ID: ${event.allocationId})` : ''));
+                if (event.reason) {
+                    console.log(`   ${chalk.yellow(event.reason)}`);
+                }
+            });
+            process.exit(0);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error reading audit trail: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'QuotaAudit'
+            });
+            process.exit(1);
+        }
+    });
+
+// Parse command line arguments, then send buffered telemetry
+program.parseAsync(process.argv).finally(() => TelemetryService.shutdown());
 
 // Display help if no command is specified
 if (!process.argv.slice(2).length) {
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from "vitest";
+import { QuotaEventBus, formatServerSentEvent } from "./QuotaEventBus";
+
+describe("QuotaEventBus", () => {
+    it("should deliver events to subscribers until they unsubscribe", () => {
+        const bus = new QuotaEventBus();
+        const listener = vi.fn();
+        const failing = vi.fn().mockImplementation(() => { throw new Error("closed"); });
+
+        const unsubscribe = bus.subscribe(listener);
+        bus.subscribe(failing);
+        bus.publish("quota.refreshed", { regions: ["eastus"] });
+        unsubscribe();
+        bus.publish("quota.refreshed", { regions: ["westus"] });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(failing).toHaveBeenCalledTimes(2);
+        expect(bus.subscriberCount).toBe(1);
+    });
+
+    it("should resume from a recent event and reject unknown or expired ones", () => {
+        const bus = new QuotaEventBus(2);
+        const first = bus.publish("allocation.created", { allocationId: "a" });
+        const second = bus.publish("allocation.released", { allocationId: "a" });
+        const third = bus.publish("allocation.created", { allocationId: "b" });
+
+        expect(bus.since(second.id)).toEqual([third]);
+        expect(bus.since(third.id)).toEqual([]);
+        // The buffer no longer holds the event after the first one
+        expect(bus.since(first.id.replace(/-\d+$/, "-0"))).toBeNull();
+        expect(bus.since(first.id)).toEqual([second, third]);
+        // IDs from another stream (e.g. before a restart) are unknown
+        expect(bus.since("1-1")).toBeNull();
+        expect(bus.since("garbage")).toBeNull();
+    });
+
+    it("should format events as server-sent events", () => {
+        const event = new QuotaEventBus().publish("alert.changed", { region: "eastus", level: "warning" });
+
+        expect(formatServerSentEvent(event)).toBe(
+            `id: ${event.id}\nevent: alert.changed\ndata: {"timestamp":"${event.timestamp}","region":"eastus","level":"warning"}\n\n`
+        );
+    });
+});
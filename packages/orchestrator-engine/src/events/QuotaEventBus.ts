@@ -0,0 +1,127 @@
+/**
+ * Kinds of event published by the QuotaEngine:
+ * - `quota.refreshed`: quota data was refreshed from the provider
+ * - `allocation.created`, `allocation.reserved`, `allocation.confirmed`,
+ *   `allocation.released`, `allocation.expired`: an allocation changed status
+ * - `alert.changed`: a region/SKU moved to another QuotaAlertLevel
+ */
+export type QuotaEventType =
+    | 'quota.refreshed'
+    | 'allocation.created'
+    | 'allocation.reserved'
+    | 'allocation.confirmed'
+    | 'allocation.released'
+    | 'allocation.expired'
+    | 'alert.changed';
+
+/**
+ * QuotaEvent is one change pushed to subscribers
+ */
+export interface QuotaEvent {
+    /** Position in the stream, `<stream start>-<sequence>`, used to resume */
+    id: string;
+    type: QuotaEventType;
+    /** When the event was published */
+    timestamp: string;
+    /** What changed */
+    data: Record<string, unknown>;
+}
+
+/**
+ * Callback receiving published events
+ */
+export type QuotaEventListener = (event: QuotaEvent) => void;
+
+/**
+ * QuotaEventBus publishes engine changes to subscribers and keeps the most recent
+ * events so a subscriber that reconnects can catch up from the last event it saw.
+ * Event IDs carry the time the bus started, so IDs from before a restart are
+ * recognised as unknown rather than matched to unrelated events.
+ */
+export class QuotaEventBus {
+    private readonly streamStart = Date.now().toString();
+    private sequence = 0;
+    private buffer: QuotaEvent[] = [];
+    private listeners = new Set<QuotaEventListener>();
+
+    /**
+     * @param capacity Most events kept for resuming (default: QUOTA_EVENT_BUFFER_SIZE or 1000)
+     */
+    constructor(private readonly capacity = parseInt(process.env.QUOTA_EVENT_BUFFER_SIZE || '1000', 10)) { }
+
+    /**
+     * Publishes an event to every subscriber
+     * @returns The published event
+     */
+    public publish(type: QuotaEventType, data: Record<string, unknown>): QuotaEvent {
+        const event: QuotaEvent = {
+            id: `${this.streamStart}-${++this.sequence}`,
+            type,
+            timestamp: new Date().toISOString(),
+            data
+        };
+
+        this.buffer.push(event);
+        if (this.buffer.length > this.capacity) {
+            this.buffer.splice(0, this.buffer.length - this.capacity);
+        }
+
+        // A failing subscriber must not stop the others or the engine
+        this.listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch {
+                // Ignored
+            }
+        });
+
+        return event;
+    }
+
+    /**
+     * Subscribes to published events
+     * @returns Function that ends the subscription
+     */
+    public subscribe(listener: QuotaEventListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Gets the events published after an event
+     * @param lastEventId ID of the last event the subscriber saw
+     * @returns The missed events, oldest first, or null if the ID is unknown or too old
+     * to resume from (the subscriber should reload its state instead)
+     */
+    public since(lastEventId: string): QuotaEvent[] | null {
+        const [start, sequence] = lastEventId.split('-');
+        const last = parseInt(sequence, 10);
+
+        if (start !== this.streamStart || isNaN(last) || last > this.sequence) {
+            return null;
+        }
+
+        const oldest = this.buffer.length > 0 ? parseInt(this.buffer[0].id.split('-')[1], 10) : this.sequence + 1;
+        if (last < oldest - 1) {
+            return null;
+        }
+
+        return this.buffer.filter(event => parseInt(event.id.split('-')[1], 10) > last);
+    }
+
+    /**
+     * Number of current subscribers
+     */
+    public get subscriberCount(): number {
+        return this.listeners.size;
+    }
+}
+
+/**
+ * Formats an event as a server-sent event message
+ */
+export function formatServerSentEvent(event: QuotaEvent): string {
+    return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ timestamp: event.timestamp, ...event.data })}\n\n`;
+}
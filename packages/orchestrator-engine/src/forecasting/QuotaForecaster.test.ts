@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { QuotaForecaster } from "./QuotaForecaster";
+import { QuotaUsageSample } from "../storage/UsageHistory";
+import { QuotaAlertLevel } from "orchestrator-core";
+
+const now = new Date("2025-04-10T00:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One sample per day, ending today, with the given available quota out of 100
+const history = (...available: number[]): QuotaUsageSample[] => available.map((value, i) => ({
+    timestamp: new Date(now.getTime() - (available.length - 1 - i) * DAY_MS).toISOString(),
+    region: "eastus",
+    sku: "Standard_D2s_v3",
+    total: 100,
+    used: 100 - value,
+    available: value
+}));
+
+const target = (available: number) => ({
+    region: "eastus",
+    sku: "Standard_D2s_v3",
+    total: 100,
+    available,
+    roles: ["validator"]
+});
+
+describe("QuotaForecaster", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("should predict the exhaustion date from a linear trend", () => {
+        const forecast = QuotaForecaster.forecast(target(60), history(80, 75, 70, 65, 60), { now });
+
+        expect(forecast.dailyGrowth).toBeCloseTo(5);
+        expect(forecast.daysUntilExhaustion).toBeCloseTo(12);
+        expect(forecast.exhaustionDate).toBe("2025-04-22T00:00:00.000Z");
+        expect(forecast.predictedConsumption).toBe(100);
+        expect(forecast.alertLevel).toBe(QuotaAlertLevel.Warning);
+    });
+
+    it("should raise the alert level as exhaustion gets closer", () => {
+        expect(QuotaForecaster.forecast(target(20), history(40, 30, 20), { now }).alertLevel).toBe(QuotaAlertLevel.Critical);
+        expect(QuotaForecaster.forecast(target(20), history(40, 30, 20), { now, criticalDays: 1 }).alertLevel).toBe(QuotaAlertLevel.Warning);
+        expect(QuotaForecaster.forecast(target(20), history(40, 30, 20), { now, warningDays: 1, criticalDays: 1 }).alertLevel)
+            .toBe(QuotaAlertLevel.None);
+    });
+
+    it("should follow recent changes more closely with exponential smoothing", () => {
+        // Flat for a week, then consumption picks up sharply
+        const samples = history(90, 90, 90, 90, 90, 90, 80, 70);
+
+        const linear = QuotaForecaster.forecast(target(70), samples, { now, method: 'linear' });
+        const holt = QuotaForecaster.forecast(target(70), samples, { now, method: 'holt' });
+
+        expect(holt.method).toBe('holt');
+        expect(holt.dailyGrowth as number).toBeGreaterThan(linear.dailyGrowth as number);
+        expect(holt.daysUntilExhaustion as number).toBeLessThan(linear.daysUntilExhaustion as number);
+    });
+
+    it("should not predict exhaustion when usage is flat or shrinking", () => {
+        const flat = QuotaForecaster.forecast(target(50), history(50, 50, 50), { now });
+        const shrinking = QuotaForecaster.forecast(target(60), history(40, 50, 60), { now });
+
+        expect(flat.exhaustionDate).toBeNull();
+        expect(shrinking.exhaustionDate).toBeNull();
+        expect(shrinking.dailyGrowth).toBeLessThan(0);
+        expect(shrinking.alertLevel).toBe(QuotaAlertLevel.None);
+    });
+
+    it("should report exhausted quota as critical even without history", () => {
+        const forecast = QuotaForecaster.forecast(target(0), [], { now });
+
+        expect(forecast.dailyGrowth).toBeNull();
+        expect(forecast.daysUntilExhaustion).toBe(0);
+        expect(forecast.exhaustionDate).toBe(now.toISOString());
+        expect(forecast.alertLevel).toBe(QuotaAlertLevel.Critical);
+    });
+
+    it("should reject an unknown QUOTA_FORECAST_METHOD", () => {
+        vi.stubEnv("QUOTA_FORECAST_METHOD", "holt");
+        expect(QuotaForecaster.forecast(target(60), history(80, 75, 70, 65, 60), { now }).method).toBe("holt");
+
+        vi.stubEnv("QUOTA_FORECAST_METHOD", "arima");
+        expect(() => QuotaForecaster.defaultMethod()).toThrow("Use linear or holt");
+        expect(() => QuotaForecaster.forecast(target(60), history(80, 70, 60), { now }))
+            .toThrow("Unknown forecast method 'arima' in QUOTA_FORECAST_METHOD");
+        expect(QuotaForecaster.forecast(target(60), history(80, 70, 60), { now, method: "linear" }).method).toBe("linear");
+    });
+});
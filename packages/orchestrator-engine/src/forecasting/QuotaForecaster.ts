@@ -0,0 +1,217 @@
+import { QuotaAlertLevel } from "orchestrator-core";
+import { QuotaUsageSample } from "../storage/UsageHistory";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Trend model used to project quota consumption:
+ * - `linear`: least-squares line through all samples
+ * - `holt`: double exponential smoothing, which weights recent samples more
+ */
+export type ForecastMethod = 'linear' | 'holt';
+
+/**
+ * ForecastOptions tune how forecasts are computed and when they warn
+ */
+export interface ForecastOptions {
+    /** Trend model (default: QUOTA_FORECAST_METHOD or `linear`) */
+    method?: ForecastMethod;
+    /** Days ahead to project consumption for (default: 30) */
+    horizonDays?: number;
+    /** Warn when exhaustion is predicted within this many days (default: QUOTA_FORECAST_WARNING_DAYS or 30) */
+    warningDays?: number;
+    /** Raise a critical alert within this many days (default: 7) */
+    criticalDays?: number;
+    /** Level smoothing factor for `holt`, between 0 and 1 (default: 0.5) */
+    alpha?: number;
+    /** Trend smoothing factor for `holt`, between 0 and 1 (default: 0.3) */
+    beta?: number;
+    /** Time to forecast from (default: now) */
+    now?: Date;
+}
+
+/**
+ * Current quota of the region/SKU being forecast
+ */
+export interface ForecastTarget {
+    region: string;
+    sku: string;
+    total: number;
+    available: number;
+    /** Roles assigned to the SKU */
+    roles: string[];
+}
+
+/**
+ * QuotaForecast is the projected consumption and exhaustion date of one region/SKU
+ */
+export interface QuotaForecast {
+    region: string;
+    sku: string;
+    /** Roles assigned to the SKU, all of which run out together */
+    roles: string[];
+    /** Trend model used */
+    method: ForecastMethod;
+    /** Number of recorded samples the trend was fitted to */
+    sampleCount: number;
+    /** Current quota limit */
+    total: number;
+    /** Current consumption (limit minus available) */
+    consumed: number;
+    /** Current available quota */
+    available: number;
+    /** Fitted consumption growth in quota units per day, or null without enough history */
+    dailyGrowth: number | null;
+    /** Projected consumption at the end of the horizon, capped at the limit */
+    predictedConsumption: number | null;
+    /** Predicted date the quota runs out, or null if it is not trending towards exhaustion */
+    exhaustionDate: string | null;
+    /** Days from now until the predicted exhaustion date */
+    daysUntilExhaustion: number | null;
+    /** How urgently more quota should be requested */
+    alertLevel: QuotaAlertLevel;
+}
+
+/**
+ * QuotaForecaster fits a trend to recorded quota usage and predicts when quota runs out
+ */
+export class QuotaForecaster {
+    /** Minimum number of samples needed to fit a trend */
+    public static readonly MIN_SAMPLES = 2;
+
+    /**
+     * Forecasts consumption of one region/SKU
+     * @param target Current quota of the region/SKU
+     * @param samples Recorded usage samples for the region/SKU, in any order
+     * @param options Forecast options
+     */
+    public static forecast(target: ForecastTarget, samples: QuotaUsageSample[], options: ForecastOptions = {}): QuotaForecast {
+        const resolved = this.resolveOptions(options);
+        const now = resolved.now.getTime();
+        const consumed = target.total - target.available;
+        const points = this.toPoints(samples);
+
+        const forecast: QuotaForecast = {
+            region: target.region,
+            sku: target.sku,
+            roles: target.roles,
+            method: resolved.method,
+            sampleCount: points.length,
+            total: target.total,
+            consumed,
+            available: target.available,
+            dailyGrowth: null,
+            predictedConsumption: null,
+            exhaustionDate: null,
+            daysUntilExhaustion: null,
+            alertLevel: QuotaAlertLevel.None
+        };
+
+        if (points.length >= this.MIN_SAMPLES) {
+            const dailyGrowth = resolved.method === 'holt'
+                ? this.fitHolt(points, resolved.alpha, resolved.beta)
+                : this.fitLinear(points);
+
+            forecast.dailyGrowth = dailyGrowth;
+            forecast.predictedConsumption = Math.max(0, Math.min(target.total, consumed + dailyGrowth * resolved.horizonDays));
+
+            if (dailyGrowth > 0 && target.available > 0) {
+                forecast.daysUntilExhaustion = target.available / dailyGrowth;
+            }
+        }
+
+        // Quota that has already run out is exhausted regardless of history
+        if (target.available <= 0) {
+            forecast.daysUntilExhaustion = 0;
+        }
+
+        if (forecast.daysUntilExhaustion !== null) {
+            forecast.exhaustionDate = new Date(now + forecast.daysUntilExhaustion * DAY_MS).toISOString();
+            forecast.alertLevel = forecast.daysUntilExhaustion <= resolved.criticalDays
+                ? QuotaAlertLevel.Critical
+                : forecast.daysUntilExhaustion <= resolved.warningDays
+                    ? QuotaAlertLevel.Warning
+                    : QuotaAlertLevel.None;
+        }
+
+        return forecast;
+    }
+
+    /**
+     * Fits a least-squares line through (day, consumption) points
+     * @returns Slope in consumption per day
+     */
+    public static fitLinear(points: { day: number; value: number }[]): number {
+        const n = points.length;
+        const meanDay = points.reduce((sum, p) => sum + p.day, 0) / n;
+        const meanValue = points.reduce((sum, p) => sum + p.value, 0) / n;
+
+        let covariance = 0;
+        let variance = 0;
+        for (const point of points) {
+            covariance += (point.day - meanDay) * (point.value - meanValue);
+            variance += (point.day - meanDay) ** 2;
+        }
+
+        return variance > 0 ? covariance / variance : 0;
+    }
+
+    /**
+     * Runs Holt's double exponential smoothing over (day, consumption) points.
+     * Samples are not evenly spaced, so the trend is kept per day and scaled by the gap.
+     * @returns Smoothed trend in consumption per day
+     */
+    public static fitHolt(points: { day: number; value: number }[], alpha: number, beta: number): number {
+        let level = points[0].value;
+        let trend = (points[1].value - points[0].value) / (points[1].day - points[0].day);
+
+        for (let i = 1; i < points.length; i++) {
+            const gap = points[i].day - points[i - 1].day;
+            const previousLevel = level;
+
+            level = alpha * points[i].value + (1 - alpha) * (level + trend * gap);
+            trend = beta * (level - previousLevel) / gap + (1 - beta) * trend;
+        }
+
+        return trend;
+    }
+
+    /**
+     * Reads the default trend model from QUOTA_FORECAST_METHOD
+     * @throws Error if it names no known method
+     */
+    public static defaultMethod(): ForecastMethod {
+        const method = process.env.QUOTA_FORECAST_METHOD || 'linear';
+        if (method !== 'linear' && method !== 'holt') {
+            throw new Error(`Unknown forecast method '${method}' in QUOTA_FORECAST_METHOD. Use linear or holt`);
+        }
+        return method;
+    }
+
+    private static resolveOptions(options: ForecastOptions): Required<ForecastOptions> {
+        return {
+            method: options.method || this.defaultMethod(),
+            horizonDays: options.horizonDays ?? 30,
+            warningDays: options.warningDays ?? parseInt(process.env.QUOTA_FORECAST_WARNING_DAYS || '30', 10),
+            criticalDays: options.criticalDays ?? 7,
+            alpha: options.alpha ?? 0.5,
+            beta: options.beta ?? 0.3,
+            now: options.now || new Date()
+        };
+    }
+
+    /**
+     * Converts samples to (day, consumption) points ordered by time. Samples taken
+     * at the same time are collapsed into the last one.
+     */
+    private static toPoints(samples: QuotaUsageSample[]): { day: number; value: number }[] {
+        const byTime = new Map<number, number>();
+
+        [...samples]
+            .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+            .forEach(sample => byTime.set(new Date(sample.timestamp).getTime(), sample.total - sample.available));
+
+        const times = Array.from(byTime.keys());
+        return times.map(time => ({ day: (time - times[0]) / DAY_MS, value: byTime.get(time) as number }));
+    }
+}
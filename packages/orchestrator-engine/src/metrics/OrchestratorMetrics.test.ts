@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { MetricsService, executeWithRetry } from "orchestrator-core";
+import { OrchestratorMetrics } from "./OrchestratorMetrics";
+
+describe("OrchestratorMetrics", () => {
+    beforeEach(() => {
+        MetricsService.reset();
+    });
+
+    afterEach(() => {
+        OrchestratorMetrics.setQuotaSource(null);
+    });
+
+    it("should expose quota and allocation gauges read from the source", async () => {
+        OrchestratorMetrics.setQuotaSource({
+            getQuotaMatrix: () => ({
+                eastus: { Standard_D4s_v3: { total: 10, used: 4, available: 6 } }
+            }),
+            listAllocations: () => [
+                { status: "active", role: "validator" },
+                { status: "active", role: "validator" },
+                { status: "pending", role: "rpc" }
+            ]
+        });
+
+        const metrics = await MetricsService.metrics();
+
+        expect(metrics).toContain('orchestrator_quota_total{region="eastus",sku="Standard_D4s_v3"} 10');
+        expect(metrics).toContain('orchestrator_quota_used{region="eastus",sku="Standard_D4s_v3"} 4');
+        expect(metrics).toContain('orchestrator_quota_available{region="eastus",sku="Standard_D4s_v3"} 6');
+        expect(metrics).toContain('orchestrator_allocations{status="active",role="validator"} 2');
+        expect(metrics).toContain('orchestrator_allocations{status="pending",role="rpc"} 1');
+    });
+
+    it("should count refreshes, refresh failures and retries", async () => {
+        OrchestratorMetrics.recordRefresh(1500, true);
+        OrchestratorMetrics.recordRefresh(200, false);
+        OrchestratorMetrics.recordRefreshFailure("provider_error");
+
+        let calls = 0;
+        await executeWithRetry(async () => {
+            if (++calls < 3) {
+                throw new Error("transient");
+            }
+            return calls;
+        }, { initialDelayMs: 0, useJitter: false, operationName: "FlakyOperation" });
+
+        const metrics = await MetricsService.metrics();
+
+        expect(metrics).toContain('orchestrator_quota_refresh_duration_seconds_count{outcome="success"} 1');
+        expect(metrics).toContain('orchestrator_quota_refresh_duration_seconds_bucket{le="2.5",outcome="success"} 1');
+        expect(metrics).toContain('orchestrator_quota_refresh_duration_seconds_count{outcome="failure"} 1');
+        expect(metrics).toContain('orchestrator_quota_refresh_failures_total{reason="provider_error"} 1');
+        expect(metrics).toContain('orchestrator_retry_attempts_total{operation="FlakyOperation"} 2');
+    });
+
+    it("should record request latency by route pattern", async () => {
+        const app = express();
+        app.use(OrchestratorMetrics.httpMetrics());
+        app.get("/api/allocations/:id", (req, res) => {
+            res.status(404).json({ error: "Not found" });
+        });
+
+        await request(app).get("/api/allocations/a1");
+        await request(app).get("/api/allocations/a2");
+        await request(app).get("/nowhere");
+
+        const metrics = await MetricsService.metrics();
+
+        expect(metrics).toContain('orchestrator_http_request_duration_seconds_count{method="GET",route="/api/allocations/:id",status="404"} 2');
+        expect(metrics).toContain('orchestrator_http_request_duration_seconds_count{method="GET",route="unmatched",status="404"} 1');
+    });
+});
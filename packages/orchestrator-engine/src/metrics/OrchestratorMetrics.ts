@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Counter, Gauge, Histogram } from 'prom-client';
+import { MetricsService } from 'orchestrator-core';
+
+/**
+ * Quota figures of a region/SKU, as exposed in the quota gauges
+ */
+export interface QuotaFigures {
+    total: number;
+    used: number;
+    available: number;
+}
+
+/**
+ * What the quota and allocation gauges are read from at scrape time (the QuotaEngine)
+ */
+export interface QuotaMetricsSource {
+    getQuotaMatrix(): Record<string, Record<string, QuotaFigures>>;
+    listAllocations(): { status: string; role: string }[];
+}
+
+/**
+ * Why a quota refresh failed: no Azure credentials, or the provider kept failing
+ */
+export type RefreshFailureReason = 'azure_disconnected' | 'provider_error';
+
+/**
+ * OrchestratorMetrics registers the engine's own metrics on the shared MetricsService
+ * registry. Quota and allocation gauges are read from the registered source when
+ * scraped; the rest are recorded as things happen.
+ */
+export class OrchestratorMetrics {
+    private static source: QuotaMetricsSource | null = null;
+
+    private static readonly quotaTotal = new Gauge({
+        name: 'orchestrator_quota_total',
+        help: 'Total quota of a region/SKU',
+        labelNames: ['region', 'sku'] as const,
+        registers: [MetricsService.registry],
+        collect() {
+            OrchestratorMetrics.collectQuota(this, 'total');
+        }
+    });
+
+    private static readonly quotaUsed = new Gauge({
+        name: 'orchestrator_quota_used',
+        help: 'Used quota of a region/SKU',
+        labelNames: ['region', 'sku'] as const,
+        registers: [MetricsService.registry],
+        collect() {
+            OrchestratorMetrics.collectQuota(this, 'used');
+        }
+    });
+
+    private static readonly quotaAvailable = new Gauge({
+        name: 'orchestrator_quota_available',
+        help: 'Available quota of a region/SKU',
+        labelNames: ['region', 'sku'] as const,
+        registers: [MetricsService.registry],
+        collect() {
+            OrchestratorMetrics.collectQuota(this, 'available');
+        }
+    });
+
+    private static readonly allocations = new Gauge({
+        name: 'orchestrator_allocations',
+        help: 'Allocations by status and role',
+        labelNames: ['status', 'role'] as const,
+        registers: [MetricsService.registry],
+        collect() {
+            OrchestratorMetrics.collectAllocations();
+        }
+    });
+
+    private static readonly refreshDuration = new Histogram({
+        name: 'orchestrator_quota_refresh_duration_seconds',
+        help: 'Duration of quota refreshes, including retries',
+        labelNames: ['outcome'] as const,
+        buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+        registers: [MetricsService.registry]
+    });
+
+    private static readonly refreshFailures = new Counter({
+        name: 'orchestrator_quota_refresh_failures_total',
+        help: 'Quota refreshes that failed',
+        labelNames: ['reason'] as const,
+        registers: [MetricsService.registry]
+    });
+
+    private static readonly httpRequestDuration = new Histogram({
+        name: 'orchestrator_http_request_duration_seconds',
+        help: 'Latency of HTTP requests',
+        labelNames: ['method', 'route', 'status'] as const,
+        buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+        registers: [MetricsService.registry]
+    });
+
+    /**
+     * Registers what the quota and allocation gauges are read from
+     * @param source Source of the gauges, or null to stop reporting them
+     */
+    public static setQuotaSource(source: QuotaMetricsSource | null): void {
+        this.source = source;
+    }
+
+    /**
+     * Records a finished quota refresh
+     * @param durationMs How long the refresh took
+     * @param success Whether the refresh succeeded
+     */
+    public static recordRefresh(durationMs: number, success: boolean): void {
+        this.refreshDuration.observe({ outcome: success ? 'success' : 'failure' }, durationMs / 1000);
+    }
+
+    /**
+     * Records a failed quota refresh
+     * @param reason Why the refresh failed
+     */
+    public static recordRefreshFailure(reason: RefreshFailureReason): void {
+        this.refreshFailures.inc({ reason });
+    }
+
+    /**
+     * Handler that records the latency of every request, labelled with its route pattern
+     * rather than its path so IDs in paths do not make a series each
+     */
+    public static httpMetrics(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            const endTimer = this.httpRequestDuration.startTimer({ method: req.method });
+            res.on('finish', () => {
+                const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+                endTimer({ route, status: res.statusCode.toString() });
+            });
+            next();
+        };
+    }
+
+    private static collectQuota(gauge: Gauge<'region' | 'sku'>, figure: keyof QuotaFigures): void {
+        gauge.reset();
+        if (!this.source) {
+            return;
+        }
+
+        const matrix = this.source.getQuotaMatrix();
+        for (const region in matrix) {
+            for (const sku in matrix[region]) {
+                gauge.set({ region, sku }, matrix[region][sku][figure]);
+            }
+        }
+    }
+
+    private static collectAllocations(): void {
+        this.allocations.reset();
+        if (!this.source) {
+            return;
+        }
+
+        for (const { status, role } of this.source.listAllocations()) {
+            this.allocations.inc({ status, role });
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { PlacementCandidate, PlacementPlanner } from "./PlacementPlanner";
+
+const candidate = (region: string, available: number, overrides: Partial<PlacementCandidate> = {}): PlacementCandidate => ({
+    role: "validator", region, sku: "Standard_D2s_v3", available, healthy: true, confidence: 80, zones: [], ...overrides
+});
+
+describe("PlacementPlanner", () => {
+    it("should compute the faulty validators BFT tolerates", () => {
+        expect([1, 3, 4, 6, 7, 10].map(n => PlacementPlanner.faultTolerance(n))).toEqual([0, 0, 1, 1, 2, 3]);
+    });
+
+    it("should hold at most f validators per region and skip unhealthy regions", () => {
+        const plan = PlacementPlanner.plan({ validators: 7, rpcNodes: 2 }, [
+            candidate("eastus", 100, { confidence: 90 }),
+            candidate("westeurope", 100),
+            candidate("westus2", 100),
+            candidate("centralus", 100),
+            candidate("northeurope", 100, { healthy: false, confidence: 100 }),
+            candidate("eastus", 100, { role: "rpc" }),
+            candidate("westeurope", 100, { role: "rpc" })
+        ]);
+
+        expect(plan.feasible).toBe(true);
+        expect(plan.faultTolerance).toBe(2);
+        expect(plan.placements.map(p => [p.kind, p.region, p.nodes])).toEqual([
+            ["validator", "centralus", 1],
+            ["validator", "eastus", 2],
+            ["validator", "westeurope", 2],
+            ["validator", "westus2", 2],
+            ["rpc", "eastus", 1],
+            ["rpc", "westeurope", 1]
+        ]);
+        expect(plan.allocationLines).toContainEqual({ region: "eastus", sku: "Standard_D2s_v3", role: "rpc", amount: 1 });
+        expect(plan.explanation).toContain("Skipped unhealthy regions: northeurope");
+    });
+
+    it("should hold at most f validators per region and spread them across its zones", () => {
+        const zoned = PlacementPlanner.plan({ validators: 7, failureDomain: "zone" }, [
+            candidate("eastus", 10, { zones: ["1", "2", "3"] }),
+            candidate("westeurope", 10, { zones: ["1", "2"] }),
+            candidate("westus2", 10),
+            candidate("centralus", 10)
+        ]);
+
+        expect(zoned.feasible).toBe(true);
+        expect(zoned.maxValidatorsPerRegion).toBe(2);
+        const inRegion = (region: string) => zoned.placements.filter(p => p.region === region).reduce((sum, p) => sum + p.nodes, 0);
+        expect(["eastus", "westeurope", "westus2", "centralus"].map(inRegion)).toEqual([2, 2, 2, 1]);
+        // ceil(2 / 3) and ceil(2 / 2): one validator per zone
+        expect(zoned.placements.filter(p => p.zone).every(p => p.nodes === 1)).toBe(true);
+
+        const oneRegion = PlacementPlanner.plan({ validators: 4, failureDomain: "zone" }, [
+            candidate("eastus", 10, { zones: ["1", "2", "3"] }),
+            candidate("westeurope", 10)
+        ]);
+
+        expect(oneRegion.feasible).toBe(false);
+        expect(oneRegion.unplaced[0].reason).toBe("4 validators need at least 4 regions with quota for role validator; 2 found");
+
+        const short = PlacementPlanner.plan({ validators: 4 }, [
+            candidate("eastus", 10),
+            candidate("westeurope", 10),
+            candidate("westus2", 10)
+        ]);
+
+        expect(short.feasible).toBe(false);
+        expect(short.unplaced).toEqual([{
+            kind: "validator", role: "validator", nodes: 1,
+            reason: "4 validators need at least 4 regions with quota for role validator; 3 found"
+        }]);
+    });
+});
@@ -0,0 +1,334 @@
+import { SkuRequirements } from "../catalog/SkuCatalog";
+
+/**
+ * Kinds of node in a Besu network
+ */
+export type NetworkNodeKind = 'validator' | 'rpc' | 'bootnode';
+
+/**
+ * Unit validators are spread across so one outage cannot stop consensus:
+ * - `region`: at most f validators per region
+ * - `zone`: at most f validators per region, spread evenly across its availability zones:
+ *   at most ceil(f / zones) per zone (a region without zones counts as one zone)
+ */
+export type FailureDomain = 'region' | 'zone';
+
+/**
+ * NetworkShape describes the nodes of a Besu network to place
+ */
+export interface NetworkShape {
+    /**
+     * Number of validators
+     * @asType integer
+     * @minimum 0
+     */
+    validators: number;
+    /**
+     * Number of RPC nodes (default: 0)
+     * @asType integer
+     * @minimum 0
+     */
+    rpcNodes?: number;
+    /**
+     * Number of bootnodes (default: 0)
+     * @asType integer
+     * @minimum 0
+     */
+    bootnodes?: number;
+    /** Quota roles of each kind of node (default: validator, rpc and bootnode) */
+    roles?: Partial<Record<NetworkNodeKind, string>>;
+    /**
+     * Quota units each node takes (default: 1)
+     * @asType integer
+     * @minimum 1
+     */
+    unitsPerNode?: number;
+    /** Unit validators are spread across (default: region) */
+    failureDomain?: FailureDomain;
+    /** Regions the network may use (default: all regions) */
+    regions?: string[];
+    /** Subscriptions to prefer when quota spans several */
+    preferredSubscriptions?: string[];
+    /** SKU requirements every node must meet, checked against the SKU catalog */
+    skuRequirements?: SkuRequirements;
+    /** Required features every node's SKU must support, from SKU_FEATURES */
+    requiredFeatures?: string[];
+}
+
+/**
+ * PlacementCandidate is a region/SKU (and subscription) with quota for one role
+ */
+export interface PlacementCandidate {
+    /** Role the quota is assigned to */
+    role: string;
+    region: string;
+    sku: string;
+    /** Subscription the quota is in (when quota spans several subscriptions) */
+    subscriptionId?: string;
+    /** Quota units available */
+    available: number;
+    /** Whether the region's compute services are healthy */
+    healthy: boolean;
+    /** Recommendation confidence (0-100), used to break ties */
+    confidence: number;
+    /** Availability zones offering the SKU in the region */
+    zones: string[];
+}
+
+/**
+ * NodePlacement is a number of nodes of one kind placed on the same region/SKU/zone
+ */
+export interface NodePlacement {
+    kind: NetworkNodeKind;
+    role: string;
+    region: string;
+    sku: string;
+    subscriptionId?: string;
+    /** Availability zone, if the SKU has zones in the region */
+    zone?: string;
+    /** Number of nodes */
+    nodes: number;
+    /** Quota units the nodes take */
+    units: number;
+}
+
+/**
+ * Nodes of one kind the planner could not place
+ */
+export interface UnplacedNodes {
+    kind: NetworkNodeKind;
+    role: string;
+    nodes: number;
+    reason: string;
+}
+
+/**
+ * Allocation line of a plan, in the shape taken by allocateQuotaBatch
+ */
+export interface PlacementAllocationLine {
+    region: string;
+    sku: string;
+    role: string;
+    amount: number;
+    subscriptionId?: string;
+}
+
+/**
+ * PlacementPlan is the placement of every node of a network
+ */
+export interface PlacementPlan {
+    /** Whether every node was placed */
+    feasible: boolean;
+    /** Faulty validators the network tolerates: f in n >= 3f + 1 */
+    faultTolerance: number;
+    /** Unit validators were spread across */
+    failureDomain: FailureDomain;
+    /** Most validators placed in one region */
+    maxValidatorsPerRegion: number;
+    /** Placements sorted by kind, region and zone */
+    placements: NodePlacement[];
+    /** Nodes that could not be placed */
+    unplaced: UnplacedNodes[];
+    /** Quota to allocate for the plan, one line per region/SKU/role/subscription */
+    allocationLines: PlacementAllocationLine[];
+    /** How the plan was made */
+    explanation: string[];
+}
+
+const KIND_ORDER: NetworkNodeKind[] = ['validator', 'bootnode', 'rpc'];
+
+const KIND_LABELS: Record<NetworkNodeKind, string> = {
+    validator: 'validators',
+    bootnode: 'bootnodes',
+    rpc: 'RPC nodes'
+};
+
+/**
+ * PlacementPlanner places every node of a Besu network on the region/SKU candidates
+ * that have quota. Validators are placed first so that no region holds more than f
+ * of them, where f = floor((n - 1) / 3) is the number of faulty validators BFT
+ * consensus tolerates; with zone failure domains, no zone holds more than its share
+ * of its region's f. Bootnodes and RPC nodes are spread as evenly as the quota
+ * allows. Unhealthy regions are never used.
+ */
+export class PlacementPlanner {
+    /**
+     * Computes the faulty validators a BFT network of n validators tolerates
+     */
+    public static faultTolerance(validators: number): number {
+        return Math.max(0, Math.floor((validators - 1) / 3));
+    }
+
+    /**
+     * Plans the placement of a network
+     * @param shape Nodes to place
+     * @param candidates Region/SKU candidates with quota for the roles of the shape
+     */
+    public static plan(shape: NetworkShape, candidates: PlacementCandidate[]): PlacementPlan {
+        const failureDomain = shape.failureDomain || 'region';
+        const unitsPerNode = shape.unitsPerNode ?? 1;
+        const faultTolerance = this.faultTolerance(shape.validators);
+        const maxValidatorsPerRegion = Math.max(faultTolerance, 1);
+        const explanation: string[] = [];
+
+        const counts: Record<NetworkNodeKind, number> = {
+            validator: shape.validators,
+            bootnode: shape.bootnodes || 0,
+            rpc: shape.rpcNodes || 0
+        };
+
+        const spread = failureDomain === 'zone' ? ', spread evenly across its zones' : '';
+        if (faultTolerance > 0) {
+            explanation.push(`${shape.validators} validators tolerate ${faultTolerance} faulty (n >= 3f + 1), so at most ${maxValidatorsPerRegion} per region${spread}`);
+        } else if (shape.validators > 0) {
+            explanation.push(`${shape.validators} validator${shape.validators === 1 ? '' : 's'} tolerate no faulty validator; use at least 4 for fault tolerance. Placing at most 1 per region${spread}`);
+        }
+
+        const unhealthy = Array.from(new Set(candidates.filter(c => !c.healthy).map(c => c.region))).sort();
+        if (unhealthy.length > 0) {
+            explanation.push(`Skipped unhealthy regions: ${unhealthy.join(', ')}`);
+        }
+
+        // Roles may share a region/SKU's quota, so remaining quota is tracked per region/SKU/subscription
+        const remaining = new Map<string, number>();
+        candidates.forEach(c => remaining.set(this.quotaKey(c), c.available));
+
+        const nodesInRegion = new Map<string, number>();
+        const placed = new Map<string, NodePlacement>();
+        const unplaced: UnplacedNodes[] = [];
+
+        for (const kind of KIND_ORDER) {
+            const count = counts[kind];
+            if (count <= 0) continue;
+
+            const role = shape.roles?.[kind] || kind;
+            const inRegion = new Map<string, number>();
+            const inZone = new Map<string, number>();
+            const options = candidates.filter(c => c.role === role && c.healthy);
+
+            for (let node = 0; node < count; node++) {
+                let best: { candidate: PlacementCandidate; zone?: string; rank: number[] } | null = null;
+                let cappedOut = false;
+
+                for (const candidate of options) {
+                    if ((remaining.get(this.quotaKey(candidate)) || 0) < unitsPerNode) continue;
+
+                    if (kind === 'validator' && (inRegion.get(candidate.region) || 0) >= maxValidatorsPerRegion) {
+                        cappedOut = true;
+                        continue;
+                    }
+
+                    const zones = candidate.zones.length > 0 ? candidate.zones : [undefined];
+                    const maxValidatorsPerZone = Math.ceil(maxValidatorsPerRegion / zones.length);
+                    for (const zone of zones) {
+                        const zoneKey = `${candidate.region}/${zone ?? ''}`;
+
+                        if (kind === 'validator' && failureDomain === 'zone' && (inZone.get(zoneKey) || 0) >= maxValidatorsPerZone) {
+                            cappedOut = true;
+                            continue;
+                        }
+
+                        // Fewest of this kind in the region, then in the zone, then fewest nodes overall, then the best candidate
+                        const rank = [
+                            inRegion.get(candidate.region) || 0,
+                            inZone.get(zoneKey) || 0,
+                            nodesInRegion.get(candidate.region) || 0,
+                            -candidate.confidence
+                        ];
+                        if (!best || this.compareRanks(rank, best.rank) < 0) {
+                            best = { candidate, zone, rank };
+                        }
+                    }
+                }
+
+                if (!best) {
+                    const regions = new Set(options.map(c => c.region));
+                    unplaced.push({
+                        kind,
+                        role,
+                        nodes: count - node,
+                        reason: cappedOut
+                            ? `${count} ${KIND_LABELS[kind]} need at least ${Math.ceil(count / maxValidatorsPerRegion)} regions with quota for role ${role}; ${regions.size} found`
+                            : `Not enough quota in healthy regions for role ${role}: needed ${unitsPerNode} unit${unitsPerNode === 1 ? '' : 's'} per node`
+                    });
+                    break;
+                }
+
+                const { candidate, zone } = best;
+                const zoneKey = `${candidate.region}/${zone ?? ''}`;
+                const quotaKey = this.quotaKey(candidate);
+                remaining.set(quotaKey, (remaining.get(quotaKey) as number) - unitsPerNode);
+                inRegion.set(candidate.region, (inRegion.get(candidate.region) || 0) + 1);
+                inZone.set(zoneKey, (inZone.get(zoneKey) || 0) + 1);
+                nodesInRegion.set(candidate.region, (nodesInRegion.get(candidate.region) || 0) + 1);
+
+                const placementKey = [kind, quotaKey, zone ?? ''].join("\u0000");
+                const placement = placed.get(placementKey) || {
+                    kind, role, region: candidate.region, sku: candidate.sku,
+                    ...(candidate.subscriptionId ? { subscriptionId: candidate.subscriptionId } : {}),
+                    ...(zone ? { zone } : {}),
+                    nodes: 0, units: 0
+                };
+                placement.nodes += 1;
+                placement.units += unitsPerNode;
+                placed.set(placementKey, placement);
+            }
+
+            const placedCount = count - (unplaced.find(u => u.kind === kind)?.nodes || 0);
+            if (placedCount > 0) {
+                const spread = Array.from(inRegion.entries()).sort(([a], [b]) => a.localeCompare(b))
+                    .map(([region, nodes]) => `${region} (${nodes})`);
+                explanation.push(`Placed ${placedCount} of ${count} ${KIND_LABELS[kind]} across ${inRegion.size} region${inRegion.size === 1 ? '' : 's'}: ${spread.join(', ')}`);
+            }
+        }
+
+        unplaced.forEach(u => explanation.push(`Could not place ${u.nodes} ${KIND_LABELS[u.kind]}: ${u.reason}`));
+
+        const placements = Array.from(placed.values()).sort((a, b) =>
+            KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+            || a.region.localeCompare(b.region)
+            || (a.zone || '').localeCompare(b.zone || '')
+            || a.sku.localeCompare(b.sku));
+
+        return {
+            feasible: unplaced.length === 0,
+            faultTolerance,
+            failureDomain,
+            maxValidatorsPerRegion,
+            placements,
+            unplaced,
+            allocationLines: this.toAllocationLines(placements),
+            explanation
+        };
+    }
+
+    /**
+     * Sums placements into allocation lines; zones do not affect quota
+     */
+    private static toAllocationLines(placements: NodePlacement[]): PlacementAllocationLine[] {
+        const lines = new Map<string, PlacementAllocationLine>();
+
+        for (const placement of placements) {
+            const key = [placement.region, placement.sku, placement.role, placement.subscriptionId || ''].join("\u0000");
+            const line = lines.get(key) || {
+                region: placement.region, sku: placement.sku, role: placement.role, amount: 0,
+                ...(placement.subscriptionId ? { subscriptionId: placement.subscriptionId } : {})
+            };
+            line.amount += placement.units;
+            lines.set(key, line);
+        }
+
+        return Array.from(lines.values());
+    }
+
+    private static quotaKey(candidate: PlacementCandidate): string {
+        return [candidate.region, candidate.sku, candidate.subscriptionId || ''].join("\u0000");
+    }
+
+    private static compareRanks(a: number[], b: number[]): number {
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] !== b[i]) return a[i] - b[i];
+        }
+        return 0;
+    }
+}
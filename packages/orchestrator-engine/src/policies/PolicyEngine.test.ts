@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import { PolicyEngine, PolicyContext, formatViolations } from "./PolicyEngine";
+
+const context = (available: number, allocations: PolicyContext["allocations"] = []): PolicyContext => ({
+    quota: { total: 100, available },
+    allocations
+});
+
+describe("PolicyEngine", () => {
+    const policies = PolicyEngine.load(path.join(__dirname, "../../fixtures/policies/example-policies.yaml"));
+
+    it("should load the example policy file", () => {
+        expect(policies.rules.map(rule => rule.name)).toEqual([
+            "validator-share-cap", "regional-headroom", "rpc-eu-only", "per-application-limit"
+        ]);
+    });
+
+    it("should allow requests that break no rule", () => {
+        const request = { region: "westeurope", sku: "Standard_D2s_v3", role: "rpc", amount: 10, applicationId: "besu-net" };
+
+        expect(policies.evaluate(request, context(80))).toEqual([]);
+    });
+
+    it("should name every rule a request breaks", () => {
+        const held = [
+            { region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 45, applicationId: "besu-net" }
+        ];
+
+        const violations = policies.evaluate(
+            { region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 20, applicationId: "besu-net" },
+            context(25, held)
+        );
+
+        expect(violations.map(v => v.rule)).toEqual(["validator-share-cap", "regional-headroom", "per-application-limit"]);
+        expect(formatViolations(violations.slice(0, 1))).toBe(
+            "Policy 'validator-share-cap' violated: validator would hold 65 of 100 Standard_D2s_v3 in eastus, above the 60% cap (60)"
+        );
+        expect(policies.evaluate({ region: "eastus", sku: "Standard_D2s_v3", role: "rpc", amount: 1 }, context(80))).toEqual([
+            { rule: "rpc-eu-only", type: "region-pin", message: "role rpc may only use regions *europe, uk*, france*, germany*" }
+        ]);
+    });
+
+    it("should reject rules missing the settings their type needs", () => {
+        expect(() => new PolicyEngine([{ name: "cap", type: "max-share" }])).toThrow("Policy 'cap' needs a percent between 0 and 100");
+        expect(() => new PolicyEngine([{ name: "odd", type: "quota-party" as never }])).toThrow("unknown type 'quota-party'");
+    });
+});
@@ -0,0 +1,243 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+import { DEFAULT_QUOTA_DATA_DIR } from "../storage/StoreFactory";
+
+/**
+ * Kinds of allocation policy rule:
+ * - `max-share`: the roles may hold at most `percent` of a region/SKU's quota
+ * - `headroom`: an allocation must leave at least `percent` of a region/SKU's quota available
+ * - `region-pin`: the roles may only allocate in `allowedRegions`
+ * - `max-per-application`: an application may hold at most `max` units
+ */
+export type PolicyRuleType = 'max-share' | 'headroom' | 'region-pin' | 'max-per-application';
+
+/**
+ * PolicyRule is one rule of the policy file. The scope fields (roles, regions, skus,
+ * applications) limit which requests the rule applies to; a rule without any
+ * applies to every request. Scope values may use `*` wildcards, e.g. `*europe`.
+ */
+export interface PolicyRule {
+    /** Name reported when the rule rejects a request */
+    name: string;
+    type: PolicyRuleType;
+    /** What the rule is for */
+    description?: string;
+    /** Roles the rule applies to */
+    roles?: string[];
+    /** Regions the rule applies to */
+    regions?: string[];
+    /** SKUs the rule applies to */
+    skus?: string[];
+    /** Applications the rule applies to */
+    applications?: string[];
+    /** Share of the quota for `max-share` and `headroom`, 0-100 */
+    percent?: number;
+    /** Regions allowed by `region-pin` */
+    allowedRegions?: string[];
+    /** Units allowed by `max-per-application` */
+    max?: number;
+}
+
+/**
+ * Contents of a policy file
+ */
+export interface PolicyFile {
+    rules: PolicyRule[];
+}
+
+/**
+ * Allocation request a policy is checked against
+ */
+export interface PolicyRequest {
+    region: string;
+    sku: string;
+    role: string;
+    amount: number;
+    /** Application the allocation is for; rules on applications are skipped without one */
+    applicationId?: string;
+}
+
+/**
+ * Quota held by an allocation, as seen by policies
+ */
+export interface PolicyAllocation {
+    region: string;
+    sku: string;
+    role: string;
+    amount: number;
+    applicationId: string;
+}
+
+/**
+ * State a request is checked in
+ */
+export interface PolicyContext {
+    /** Quota of the requested region/SKU before the request */
+    quota: { total: number; available: number };
+    /** Allocations holding quota (active and pending, plus uncommitted batch lines) */
+    allocations: PolicyAllocation[];
+}
+
+/**
+ * PolicyViolation names a rule a request breaks and how
+ */
+export interface PolicyViolation {
+    rule: string;
+    type: PolicyRuleType;
+    message: string;
+}
+
+const RULE_TYPES: PolicyRuleType[] = ['max-share', 'headroom', 'region-pin', 'max-per-application'];
+
+/**
+ * Checks a value against patterns that may contain `*` wildcards
+ */
+function matchesPattern(patterns: string[] | undefined, value: string | undefined): boolean {
+    if (!patterns || patterns.length === 0) {
+        return true;
+    }
+    if (value === undefined) {
+        return false;
+    }
+
+    return patterns.some(pattern => new RegExp(
+        `^${pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`,
+        "i"
+    ).test(value));
+}
+
+/**
+ * Formats violations as a rejection reason
+ */
+export function formatViolations(violations: PolicyViolation[]): string {
+    return violations.map(violation => `Policy '${violation.rule}' violated: ${violation.message}`).join("; ");
+}
+
+/**
+ * PolicyEngine evaluates the declarative allocation rules of a YAML policy file.
+ * Every rule that applies to a request must pass for the request to be allowed.
+ */
+export class PolicyEngine {
+    constructor(public readonly rules: PolicyRule[] = []) {
+        rules.forEach(rule => PolicyEngine.validateRule(rule));
+    }
+
+    /**
+     * Loads a policy file
+     * @param filePath YAML file with a `rules` list (default: QUOTA_POLICY_FILE or policies.yaml in QUOTA_DATA_DIR)
+     * @returns The policies, none if the file does not exist
+     */
+    public static load(
+        filePath = process.env.QUOTA_POLICY_FILE || path.join(process.env.QUOTA_DATA_DIR || DEFAULT_QUOTA_DATA_DIR, "policies.yaml")
+    ): PolicyEngine {
+        if (!fs.existsSync(filePath)) {
+            return new PolicyEngine();
+        }
+
+        const parsed = yaml.parse(fs.readFileSync(filePath, "utf-8")) as PolicyFile | null;
+        if (parsed && !Array.isArray(parsed.rules)) {
+            throw new Error(`Policy file must contain a list of rules: ${filePath}`);
+        }
+
+        return new PolicyEngine(parsed?.rules || []);
+    }
+
+    /**
+     * Checks that a rule has the settings its type needs
+     */
+    private static validateRule(rule: PolicyRule): void {
+        if (!rule.name) {
+            throw new Error('Every policy rule needs a name');
+        }
+        if (!RULE_TYPES.includes(rule.type)) {
+            throw new Error(`Policy '${rule.name}' has unknown type '${rule.type}'. Use ${RULE_TYPES.join(', ')}`);
+        }
+        if ((rule.type === 'max-share' || rule.type === 'headroom')
+            && !(typeof rule.percent === 'number' && rule.percent >= 0 && rule.percent <= 100)) {
+            throw new Error(`Policy '${rule.name}' needs a percent between 0 and 100`);
+        }
+        if (rule.type === 'region-pin' && !(rule.allowedRegions && rule.allowedRegions.length > 0)) {
+            throw new Error(`Policy '${rule.name}' needs allowedRegions`);
+        }
+        if (rule.type === 'max-per-application' && !(typeof rule.max === 'number' && rule.max >= 0)) {
+            throw new Error(`Policy '${rule.name}' needs a max of 0 or more`);
+        }
+    }
+
+    /**
+     * Checks a request against every rule that applies to it
+     * @param request Allocation request
+     * @param context Quota and allocations the request is checked in
+     * @returns The rules the request breaks, empty if it is allowed
+     */
+    public evaluate(request: PolicyRequest, context: PolicyContext): PolicyViolation[] {
+        const violations: PolicyViolation[] = [];
+
+        for (const rule of this.rules) {
+            if (!this.appliesTo(rule, request)) continue;
+
+            const message = this.check(rule, request, context);
+            if (message) {
+                violations.push({ rule: rule.name, type: rule.type, message });
+            }
+        }
+
+        return violations;
+    }
+
+    private appliesTo(rule: PolicyRule, request: PolicyRequest): boolean {
+        return matchesPattern(rule.roles, request.role)
+            && matchesPattern(rule.regions, request.region)
+            && matchesPattern(rule.skus, request.sku)
+            && matchesPattern(rule.applications, request.applicationId);
+    }
+
+    /**
+     * Checks one rule
+     * @returns Why the request breaks the rule, or null if it passes
+     */
+    private check(rule: PolicyRule, request: PolicyRequest, context: PolicyContext): string | null {
+        const { total, available } = context.quota;
+
+        switch (rule.type) {
+            case 'max-share': {
+                const roles = rule.roles || [request.role];
+                const held = context.allocations
+                    .filter(a => a.region === request.region && a.sku === request.sku && matchesPattern(roles, a.role))
+                    .reduce((sum, a) => sum + a.amount, 0);
+                const limit = total * (rule.percent as number) / 100;
+
+                return held + request.amount > limit
+                    ? `${roles.join(', ')} would hold ${held + request.amount} of ${total} ${request.sku} in ${request.region}, above the ${rule.percent}% cap (${limit})`
+                    : null;
+            }
+            case 'headroom': {
+                const minimum = total * (rule.percent as number) / 100;
+                const remaining = available - request.amount;
+
+                return remaining < minimum
+                    ? `would leave ${remaining} of ${total} ${request.sku} available in ${request.region}, below the ${rule.percent}% headroom (${minimum})`
+                    : null;
+            }
+            case 'region-pin':
+                return matchesPattern(rule.allowedRegions, request.region)
+                    ? null
+                    : `role ${request.role} may only use regions ${(rule.allowedRegions as string[]).join(', ')}`;
+            case 'max-per-application': {
+                if (!request.applicationId) return null;
+
+                const held = context.allocations
+                    .filter(a => a.applicationId === request.applicationId
+                        && matchesPattern(rule.roles, a.role)
+                        && matchesPattern(rule.regions, a.region)
+                        && matchesPattern(rule.skus, a.sku))
+                    .reduce((sum, a) => sum + a.amount, 0);
+
+                return held + request.amount > (rule.max as number)
+                    ? `${request.applicationId} would hold ${held + request.amount} units, above the limit of ${rule.max}`
+                    : null;
+            }
+        }
+    }
+}
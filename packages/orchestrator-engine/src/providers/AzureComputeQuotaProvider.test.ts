@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { ResourceSku, Usage } from "@azure/arm-compute";
+import { mapComputeUsagesToSkus, mergeSubscriptionQuotas } from "./AzureComputeQuotaProvider";
+
+const usage = (family: string, currentValue: number, limit: number): Usage => ({
+    unit: "Count",
+    currentValue,
+    limit,
+    name: { value: family, localizedValue: family }
+});
+
+const sku = (name: string, family: string, vCPUs: number, resourceType = "virtualMachines"): ResourceSku => ({
+    name, family, resourceType, capabilities: [{ name: "vCPUs", value: vCPUs.toString() }]
+});
+
+describe("mapComputeUsagesToSkus", () => {
+    const usages = [usage("standardDSv3Family", 24, 100), usage("cores", 40, 350), usage("standardFSv2Family", 0, 20)];
+    const skus = [
+        sku("Standard_D2s_v3", "standardDSv3Family", 2),
+        sku("Standard_D4s_v3", "standardDSv3Family", 4),
+        sku("Standard_F2s_v2", "standardFSv2Family", 2),
+        sku("Premium_LRS", "standardDSv3Family", 0, "disks"),
+        sku("Standard_NC6", "standardNCFamily", 6)
+    ];
+
+    it("should let each VM SKU use all of its family's remaining vCPUs, as instance counts", () => {
+        const result = mapComputeUsagesToSkus(usages, skus);
+        const dsv3 = { name: "standardDSv3Family", limitVcpus: 100, usedVcpus: 24 };
+
+        expect(Object.keys(result)).toEqual(["Standard_D2s_v3", "Standard_D4s_v3", "Standard_F2s_v2"]);
+        // 76 of the family's 100 vCPUs are left, for either SKU
+        expect(result.Standard_D2s_v3).toEqual({ total: 50, used: 12, available: 38, assigned_to: [], vCPUs: 2, family: dsv3 });
+        expect(result.Standard_D4s_v3).toEqual({ total: 25, used: 6, available: 19, assigned_to: [], vCPUs: 4, family: dsv3 });
+        expect(result.Standard_F2s_v2).toEqual({
+            total: 10, used: 0, available: 10, assigned_to: [], vCPUs: 2,
+            family: { name: "standardFSv2Family", limitVcpus: 20, usedVcpus: 0 }
+        });
+    });
+
+    it("should keep tracked SKUs only, with their role assignments", () => {
+        const current = { Standard_D2s_v3: { total: 1, used: 0, available: 1, assigned_to: ["validator"] } };
+
+        const result = mapComputeUsagesToSkus(usages, skus, current, ["Standard_D2s_v3"]);
+
+        expect(result).toEqual({
+            Standard_D2s_v3: {
+                total: 50, used: 12, available: 38, assigned_to: ["validator"], vCPUs: 2,
+                family: { name: "standardDSv3Family", limitVcpus: 100, usedVcpus: 24 }
+            }
+        });
+    });
+
+    it("should skip SKUs without a vCPU count", () => {
+        const result = mapComputeUsagesToSkus(usages, [{ name: "Standard_D2s_v3", family: "standardDSv3Family", resourceType: "virtualMachines" }]);
+
+        expect(result).toEqual({});
+    });
+});
+
+describe("mergeSubscriptionQuotas", () => {
+    it("should sum quota across subscriptions and keep a per-subscription breakdown", () => {
+        const result = mergeSubscriptionQuotas({
+            "sub-a": { eastus: { Standard_D2s_v3: { total: 100, used: 24, available: 76, assigned_to: ["validator"] } } },
+            "sub-b": {
+                eastus: { Standard_D2s_v3: { total: 50, used: 10, available: 40, assigned_to: ["web"] } },
+                westus: { Standard_D2s_v3: { total: 20, used: 0, available: 20, assigned_to: [] } }
+            }
+        });
+
+        expect(result.eastus.Standard_D2s_v3).toEqual({
+            total: 150,
+            used: 34,
+            available: 116,
+            assigned_to: ["validator", "web"],
+            subscriptions: {
+                "sub-a": { total: 100, used: 24, available: 76 },
+                "sub-b": { total: 50, used: 10, available: 40 }
+            }
+        });
+        expect(Object.keys(result.westus.Standard_D2s_v3.subscriptions || {})).toEqual(["sub-b"]);
+    });
+
+    it("should sum the VM family quota and keep each subscription's", () => {
+        const dsv3 = (limitVcpus: number, usedVcpus: number) => ({ name: "standardDSv3Family", limitVcpus, usedVcpus });
+        const result = mergeSubscriptionQuotas({
+            "sub-a": { eastus: { Standard_D2s_v3: { total: 50, used: 12, available: 38, assigned_to: [], vCPUs: 2, family: dsv3(100, 24) } } },
+            "sub-b": { eastus: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: [], vCPUs: 2, family: dsv3(20, 0) } } }
+        });
+
+        expect(result.eastus.Standard_D2s_v3).toMatchObject({
+            total: 60, vCPUs: 2, family: dsv3(120, 24),
+            subscriptions: { "sub-a": { family: dsv3(100, 24) }, "sub-b": { family: dsv3(20, 0) } }
+        });
+    });
+});
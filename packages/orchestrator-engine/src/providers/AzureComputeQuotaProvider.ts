@@ -0,0 +1,242 @@
+import { TokenCredential } from "@azure/core-auth";
+import { DefaultAzureCredential } from "@azure/identity";
+import { ComputeManagementClient, ResourceSku, Usage } from "@azure/arm-compute";
+import { ManagementGroupsAPI } from "@azure/arm-managementgroups";
+import { getConfiguredSubscriptions } from "orchestrator-core";
+import { parseResourceSkuCapabilities } from "../catalog/SkuCatalog";
+import { QuotaData } from "../storage/QuotaStore";
+import { QuotaProvider } from "./QuotaProvider";
+
+/**
+ * Options for the Azure Compute usages provider
+ */
+export interface AzureComputeQuotaProviderOptions {
+    /** Subscription to read usages for (default: AZURE_SUBSCRIPTION_ID) */
+    subscriptionId?: string;
+    /** Subscriptions to read and aggregate (default: AZURE_SUBSCRIPTION_IDS) */
+    subscriptionIds?: string[];
+    /** Management group whose descendant subscriptions are read (default: AZURE_MANAGEMENT_GROUP_ID) */
+    managementGroupId?: string;
+    /** Credential to authenticate with (default: DefaultAzureCredential) */
+    credential?: TokenCredential;
+    /** Regions to read (default: the regions already tracked, else QUOTA_REGIONS or AZURE_REGION_1..3) */
+    regions?: string[];
+    /** SKUs to include (default: the SKUs already tracked in each region, else every VM SKU) */
+    skus?: string[];
+}
+
+/**
+ * Gets the default regions to read quota for from the environment
+ */
+export function getConfiguredRegions(): string[] {
+    if (process.env.QUOTA_REGIONS) {
+        return process.env.QUOTA_REGIONS.split(",").map(region => region.trim()).filter(Boolean);
+    }
+
+    return [process.env.AZURE_REGION_1, process.env.AZURE_REGION_2, process.env.AZURE_REGION_3]
+        .filter((region): region is string => !!region);
+}
+
+/**
+ * Combines the quota data of several subscriptions. Each region/SKU gets the summed
+ * figures, including its VM family quota, plus a per-subscription breakdown; role
+ * assignments are merged.
+ * @param bySubscription Quota data keyed by subscription ID
+ * @returns Aggregated quota data
+ */
+export function mergeSubscriptionQuotas(bySubscription: Record<string, QuotaData>): QuotaData {
+    const result: QuotaData = {};
+
+    for (const [subscriptionId, data] of Object.entries(bySubscription)) {
+        for (const region of Object.keys(data)) {
+            result[region] = result[region] || {};
+
+            for (const [sku, quota] of Object.entries(data[region])) {
+                const merged = result[region][sku] || (result[region][sku] = {
+                    total: 0, used: 0, available: 0, assigned_to: [], subscriptions: {}
+                });
+
+                merged.total += quota.total;
+                merged.used += quota.used;
+                merged.available += quota.available;
+                merged.assigned_to = Array.from(new Set([...merged.assigned_to, ...quota.assigned_to]));
+                if (quota.family) {
+                    merged.vCPUs = quota.vCPUs;
+                    merged.family = {
+                        name: quota.family.name,
+                        limitVcpus: (merged.family?.limitVcpus || 0) + quota.family.limitVcpus,
+                        usedVcpus: (merged.family?.usedVcpus || 0) + quota.family.usedVcpus
+                    };
+                }
+                const shares = merged.subscriptions || (merged.subscriptions = {});
+                shares[subscriptionId] = {
+                    total: quota.total,
+                    used: quota.used,
+                    available: quota.available,
+                    ...(quota.family ? { family: quota.family } : {})
+                };
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Maps the Compute usages of one region to its VM SKUs. Azure enforces quota per
+ * VM family in vCPUs, while allocations count VM instances (nodes), so the figures
+ * are converted to instances: each SKU can use all of its family's vCPUs, so its
+ * total is the family's vCPU limit and its available quota the family's remaining
+ * vCPUs, divided by the SKU's vCPUs. Since the SKUs of a family share those vCPUs,
+ * each also carries its vCPUs and the family quota, which allocations are checked against.
+ * @param usages Usages returned for the region
+ * @param skus Resource SKUs available in the region
+ * @param current Currently tracked quota data for the region, to keep role assignments
+ * @param include SKUs to include; all VM SKUs with a matching family usage if empty
+ * @returns Quota data for the region keyed by SKU, in VM instances
+ */
+export function mapComputeUsagesToSkus(
+    usages: Usage[],
+    skus: ResourceSku[],
+    current: QuotaData[string] = {},
+    include: string[] = []
+): QuotaData[string] {
+    const usageByFamily = new Map<string, Usage>();
+    usages.forEach(usage => {
+        if (usage.name.value) {
+            usageByFamily.set(usage.name.value.toLowerCase(), usage);
+        }
+    });
+
+    const result: QuotaData[string] = {};
+
+    for (const [name, capabilities] of Object.entries(parseResourceSkuCapabilities(skus))) {
+        const usage = capabilities.family ? usageByFamily.get(capabilities.family.toLowerCase()) : undefined;
+        const vCPUs = capabilities.vCPUs;
+        // SKUs without a family usage or a vCPU count cannot be converted to instances
+        if (!usage || !(vCPUs > 0)) continue;
+        if (include.length > 0 && !include.includes(name)) continue;
+
+        const total = Math.floor(usage.limit / vCPUs);
+        const available = Math.min(total, Math.floor(Math.max(usage.limit - usage.currentValue, 0) / vCPUs));
+        result[name] = {
+            total,
+            used: total - available,
+            available,
+            assigned_to: current[name]?.assigned_to || [],
+            vCPUs,
+            family: { name: usage.name.value as string, limitVcpus: usage.limit, usedVcpus: usage.currentValue }
+        };
+    }
+
+    return result;
+}
+
+/**
+ * AzureComputeQuotaProvider reads live vCPU usages and limits from the Azure Compute
+ * usages API and maps them to region/SKU entries, in VM instances, through the
+ * resource SKU catalog.
+ * Usages of several subscriptions, given explicitly or as the descendants of a
+ * management group, are aggregated with a per-subscription breakdown.
+ */
+export class AzureComputeQuotaProvider implements QuotaProvider {
+    public readonly name = 'azure';
+    public readonly requiresAzure = true;
+    public readonly circuitBreaker = 'azure';
+    private clients = new Map<string, ComputeManagementClient>();
+    private credential: TokenCredential | null = null;
+
+    constructor(private options: AzureComputeQuotaProviderOptions = {}) { }
+
+    public async fetchQuotaData(current: QuotaData = {}, signal?: AbortSignal): Promise<QuotaData> {
+        const subscriptionIds = await this.resolveSubscriptions(signal);
+        const regions = this.options.regions
+            || (Object.keys(current).length > 0 ? Object.keys(current) : getConfiguredRegions());
+
+        if (regions.length === 0) {
+            throw new Error('No regions to read quota for. Set QUOTA_REGIONS or AZURE_REGION_1..3');
+        }
+
+        const bySubscription: Record<string, QuotaData> = {};
+
+        for (const subscriptionId of subscriptionIds) {
+            const client = this.getClient(subscriptionId);
+            const result: QuotaData = {};
+
+            for (const region of regions) {
+                const usages: Usage[] = [];
+                for await (const usage of client.usageOperations.list(region, { abortSignal: signal })) {
+                    usages.push(usage);
+                }
+
+                const skus: ResourceSku[] = [];
+                for await (const sku of client.resourceSkus.list({ filter: `location eq '${region}'`, abortSignal: signal })) {
+                    skus.push(sku);
+                }
+
+                const include = this.options.skus || Object.keys(current[region] || {});
+                const regionQuota = mapComputeUsagesToSkus(usages, skus, current[region], include);
+
+                // Regions without any usage reported are left out, so no usages at all reads as no data
+                if (Object.keys(regionQuota).length > 0) {
+                    result[region] = regionQuota;
+                }
+            }
+
+            bySubscription[subscriptionId] = result;
+        }
+
+        return mergeSubscriptionQuotas(bySubscription);
+    }
+
+    /**
+     * Determines which subscriptions to read: the configured list, else the
+     * descendants of the configured management group, else the single subscription
+     */
+    private async resolveSubscriptions(signal?: AbortSignal): Promise<string[]> {
+        if (this.options.subscriptionIds && this.options.subscriptionIds.length > 0) {
+            return this.options.subscriptionIds;
+        }
+
+        const managementGroupId = this.options.managementGroupId || process.env.AZURE_MANAGEMENT_GROUP_ID;
+        if (managementGroupId) {
+            const client = new ManagementGroupsAPI(this.getCredential());
+            const subscriptionIds: string[] = [];
+
+            for await (const descendant of client.managementGroups.listDescendants(managementGroupId, { abortSignal: signal })) {
+                if (descendant.id?.startsWith('/subscriptions/') && descendant.name) {
+                    subscriptionIds.push(descendant.name);
+                }
+            }
+
+            if (subscriptionIds.length === 0) {
+                throw new Error(`Management group ${managementGroupId} has no subscriptions`);
+            }
+            return subscriptionIds;
+        }
+
+        const subscriptionIds = this.options.subscriptionId ? [this.options.subscriptionId] : getConfiguredSubscriptions();
+        if (subscriptionIds.length === 0) {
+            throw new Error('Cannot read Azure quota: AZURE_SUBSCRIPTION_ID is not set');
+        }
+        return subscriptionIds;
+    }
+
+    private getClient(subscriptionId: string): ComputeManagementClient {
+        let client = this.clients.get(subscriptionId);
+        if (!client) {
+            client = new ComputeManagementClient(this.getCredential(), subscriptionId);
+            this.clients.set(subscriptionId, client);
+        }
+
+        return client;
+    }
+
+    private getCredential(): TokenCredential {
+        if (!this.credential) {
+            this.credential = this.options.credential || new DefaultAzureCredential();
+        }
+
+        return this.credential;
+    }
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { FakeQuotaProvider } from "./FakeQuotaProvider";
+import { DEFAULT_QUOTA_FIXTURES_DIR } from "./ProviderFactory";
+
+describe("FakeQuotaProvider", () => {
+    it("should replay the fixtures in order and then stay on the last one", async () => {
+        const provider = new FakeQuotaProvider(DEFAULT_QUOTA_FIXTURES_DIR);
+
+        const used = [];
+        for (let i = 0; i < 4; i++) {
+            used.push((await provider.fetchQuotaData()).eastus.Standard_D2s_v3.used);
+        }
+
+        expect(used).toEqual([20, 35, 50, 50]);
+
+        provider.reset();
+        expect((await provider.fetchQuotaData()).eastus.Standard_D2s_v3.used).toBe(20);
+    });
+
+    it("should refuse an empty fixture list", () => {
+        expect(() => new FakeQuotaProvider([])).toThrow("No quota fixtures");
+    });
+});
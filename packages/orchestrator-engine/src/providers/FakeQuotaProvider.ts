@@ -0,0 +1,48 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+import { QuotaData } from "../storage/QuotaStore";
+import { QuotaProvider } from "./QuotaProvider";
+
+/**
+ * FakeQuotaProvider replays YAML fixture files in order, one per refresh, and keeps
+ * returning the last one once they run out. It never touches the network, so
+ * refreshes, snapshots and forecasts can be exercised offline and in tests.
+ */
+export class FakeQuotaProvider implements QuotaProvider {
+    public readonly name = 'fake';
+    public readonly requiresAzure = false;
+    private fixtureFiles: string[];
+    private nextIndex = 0;
+
+    /**
+     * @param fixtures A directory whose `.yaml` files are replayed in name order,
+     *   or an explicit list of fixture files
+     */
+    constructor(fixtures: string | string[]) {
+        this.fixtureFiles = typeof fixtures === 'string'
+            ? fs.readdirSync(fixtures)
+                .filter(name => name.endsWith(".yaml") || name.endsWith(".yml"))
+                .sort()
+                .map(name => path.join(fixtures, name))
+            : fixtures;
+
+        if (this.fixtureFiles.length === 0) {
+            throw new Error(`No quota fixtures found in ${fixtures}`);
+        }
+    }
+
+    public async fetchQuotaData(): Promise<QuotaData> {
+        const file = this.fixtureFiles[Math.min(this.nextIndex, this.fixtureFiles.length - 1)];
+        this.nextIndex++;
+
+        return (yaml.parse(fs.readFileSync(file, "utf-8")) as QuotaData) || {};
+    }
+
+    /**
+     * Starts replaying from the first fixture again
+     */
+    public reset(): void {
+        this.nextIndex = 0;
+    }
+}
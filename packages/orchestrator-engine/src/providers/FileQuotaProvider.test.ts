@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { parseQuotaCsv } from "./FileQuotaProvider";
+
+describe("parseQuotaCsv", () => {
+    it("should parse quota rows keyed by region and SKU", () => {
+        const data = parseQuotaCsv([
+            "region,sku,total,used,assigned_to",
+            "eastus,Standard_D2s_v3,100,20,validator; rpc",
+            "westus,Standard_D8s_v3,10,10,"
+        ].join("\n"));
+
+        expect(data).toEqual({
+            eastus: { Standard_D2s_v3: { total: 100, used: 20, available: 80, assigned_to: ["validator", "rpc"] } },
+            westus: { Standard_D8s_v3: { total: 10, used: 10, available: 0, assigned_to: [] } }
+        });
+    });
+
+    it("should reject rows with missing columns or invalid numbers", () => {
+        expect(() => parseQuotaCsv("region,sku,total,used\neastus,Standard_D2s_v3,100,20")).toThrow("Missing required column: assigned_to");
+        expect(() => parseQuotaCsv("region,sku,total,used,assigned_to\neastus,Standard_D2s_v3,-1,20,web")).toThrow("Invalid value in column 'total'");
+    });
+});
@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+import * as csv from "csv-parse/sync";
+import { QuotaData } from "../storage/QuotaStore";
+import { QuotaProvider } from "./QuotaProvider";
+
+/**
+ * Validates the structure of parsed quota CSV records.
+ * Ensures all required columns are present and contain valid data.
+ * @param records Parsed CSV records.
+ * @throws Error if validation fails.
+ */
+export function validateQuotaCsv(records: Record<string, string>[]): void {
+    const requiredColumns = ["region", "sku", "total", "used", "assigned_to"];
+
+    for (const record of records) {
+        for (const column of requiredColumns) {
+            if (!(column in record)) {
+                throw new Error(`Missing required column: ${column}`);
+            }
+
+            if (column === "total" || column === "used") {
+                const value = parseInt(record[column], 10);
+                if (isNaN(value) || value < 0) {
+                    throw new Error(`Invalid value in column '${column}': ${record[column]}`);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Parses quota usage CSV with `region`, `sku`, `total`, `used` and
+ * `assigned_to` (roles separated by `;`) columns
+ * @param content CSV content
+ * @returns Quota data keyed by region, then SKU
+ */
+export function parseQuotaCsv(content: string): QuotaData {
+    const records = csv.parse(content, {
+        columns: true,
+        skip_empty_lines: true
+    }) as Record<string, string>[];
+
+    validateQuotaCsv(records);
+
+    const quotaData: QuotaData = {};
+
+    for (const row of records) {
+        const region = row["region"];
+        const sku = row["sku"];
+        const total = parseInt(row["total"], 10);
+        const used = parseInt(row["used"], 10);
+        const assignedString = row["assigned_to"] || "";
+        const assignedRoles = assignedString.split(";").map((r: string) => r.trim()).filter(Boolean);
+
+        if (!quotaData[region]) {
+            quotaData[region] = {};
+        }
+        quotaData[region][sku] = {
+            total,
+            used,
+            available: total - used,
+            assigned_to: assignedRoles
+        };
+    }
+
+    return quotaData;
+}
+
+/**
+ * FileQuotaProvider reads quota data from a local file: a quota usage CSV export
+ * (see parseQuotaCsv) or a YAML file in the `live-quotas.yaml` format
+ */
+export class FileQuotaProvider implements QuotaProvider {
+    public readonly name = 'file';
+    public readonly requiresAzure = false;
+
+    constructor(public readonly filePath: string) { }
+
+    public async fetchQuotaData(): Promise<QuotaData> {
+        if (!fs.existsSync(this.filePath)) {
+            throw new Error(`Quota file not found: ${this.filePath}`);
+        }
+
+        const content = fs.readFileSync(this.filePath, "utf-8");
+
+        return path.extname(this.filePath).toLowerCase() === ".csv"
+            ? parseQuotaCsv(content)
+            : (yaml.parse(content) as QuotaData) || {};
+    }
+}
@@ -0,0 +1,42 @@
+import * as path from "path";
+import { QuotaProvider } from "./QuotaProvider";
+import { AzureComputeQuotaProvider } from "./AzureComputeQuotaProvider";
+import { FileQuotaProvider } from "./FileQuotaProvider";
+import { FakeQuotaProvider } from "./FakeQuotaProvider";
+
+/**
+ * Default directory of the fixtures replayed by the fake provider
+ */
+export const DEFAULT_QUOTA_FIXTURES_DIR = path.join(__dirname, "../../fixtures/quotas");
+
+/**
+ * Supported quota providers
+ */
+export type QuotaProviderType = 'azure' | 'file' | 'fake';
+
+/**
+ * Creates the quota provider selected by the environment:
+ * - QUOTA_PROVIDER: `azure` (default), `file` or `fake`
+ * - QUOTA_PROVIDER_SOURCE: CSV/YAML file for `file`, fixture directory for `fake`
+ * @param type Provider to create (default: QUOTA_PROVIDER)
+ * @param source File or directory the provider reads (default: QUOTA_PROVIDER_SOURCE)
+ * @returns The configured provider
+ */
+export function createQuotaProvider(
+    type = (process.env.QUOTA_PROVIDER || 'azure') as QuotaProviderType,
+    source = process.env.QUOTA_PROVIDER_SOURCE
+): QuotaProvider {
+    switch (type) {
+        case 'azure':
+            return new AzureComputeQuotaProvider();
+        case 'file':
+            if (!source) {
+                throw new Error("QUOTA_PROVIDER_SOURCE must name a CSV or YAML file for the 'file' quota provider");
+            }
+            return new FileQuotaProvider(source);
+        case 'fake':
+            return new FakeQuotaProvider(source || DEFAULT_QUOTA_FIXTURES_DIR);
+        default:
+            throw new Error(`Unknown quota provider type '${type}'. Use azure, file or fake`);
+    }
+}
@@ -0,0 +1,25 @@
+import { QuotaData } from "../storage/QuotaStore";
+
+/**
+ * QuotaProvider supplies current quota figures per region and SKU to the QuotaEngine
+ * on every refresh
+ */
+export interface QuotaProvider {
+    /** Short name of the provider, used in logs and telemetry */
+    readonly name: string;
+    /** Whether the provider needs Azure credentials to fetch data */
+    readonly requiresAzure: boolean;
+    /**
+     * Circuit breaker of the remote dependency the provider calls, shared with other
+     * callers of that dependency; providers reading local files have none
+     */
+    readonly circuitBreaker?: string;
+    /**
+     * Fetches current quota data
+     * @param current The engine's current quota data, used to keep role assignments
+     *   and limit the fetch to tracked regions and SKUs where the source has no such notion
+     * @param signal Aborts the fetch, e.g. when the attempt times out
+     * @returns Quota data keyed by region, then SKU
+     */
+    fetchQuotaData(current?: QuotaData, signal?: AbortSignal): Promise<QuotaData>;
+}
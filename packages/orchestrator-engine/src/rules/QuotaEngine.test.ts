@@ -1,13 +1,24 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { QuotaEngine } from "./QuotaEngine";
+import { QuotaEngine, RefreshThrottledError } from "./QuotaEngine";
 import * as fs from "fs";
-import { ConnectivityService } from "../utils/ConnectivityService";
+import { CircuitBreaker, ConnectivityService, QuotaAlertLevel } from "orchestrator-core";
+import { StoreConflictError, QuotaData } from "../storage/QuotaStore";
+import { FileLockTimeoutError, setDefaultFileLockOptions } from "../storage/FileLock";
+import { createQuotaStore } from "../storage/StoreFactory";
+import { QuotaProvider } from "../providers/QuotaProvider";
+import { SkuCatalog } from "../catalog/SkuCatalog";
+import { PolicyEngine } from "../policies/PolicyEngine";
+import { ApplicationBudgets } from "../billing/ApplicationBudgets";
+import { PriceTable } from "../billing/PriceTable";
+import { mapComputeUsagesToSkus, mergeSubscriptionQuotas } from "../providers/AzureComputeQuotaProvider";
+import { QuotaEvent } from "../events/QuotaEventBus";
 
-// Mock filesystem
-vi.mock("fs", () => ({
-    readFileSync: vi.fn().mockImplementation((path) => {
-        if (path.includes("live-quotas.yaml")) {
-            return `
+// In-memory file contents backing the fs mock, keyed by path
+const mockFiles = vi.hoisted(() => {
+    const files = new Map<string, string>();
+    // Paths of the files opened with openSync, keyed by descriptor
+    const descriptors = new Map<number, string>();
+    const quotaFixture = `
 eastus:
   Standard_D2s_v3:
     total: 100
@@ -26,32 +37,119 @@ westus:
     available: 0
     assigned_to: ['database', 'network']
 `;
-        } else if (path.includes("allocations.yaml")) {
-            return "[]";
+    const fixtures: Record<string, string> = {
+        "live-quotas.yaml": quotaFixture,
+        "allocations.yaml": "[]"
+    };
+
+    const fixtureFor = (path: string) => Object.keys(fixtures).find(name => path.endsWith(name));
+
+    const read = (file: fs.PathOrFileDescriptor): string => {
+        const path = String(file);
+        if (files.has(path)) {
+            return files.get(path) as string;
+        }
+        const fixture = fixtureFor(path);
+        if (fixture) {
+            return fixtures[fixture];
+        }
+        throw Object.assign(new Error(`ENOENT: ${path}`), { code: "ENOENT" });
+    };
+
+    const exists = (path: fs.PathLike): boolean => files.has(String(path)) || !!fixtureFor(String(path));
+
+    const write = (file: fs.PathOrFileDescriptor, content: string | NodeJS.ArrayBufferView): void => {
+        files.set(String(file), String(content));
+    };
+
+    const append = (file: fs.PathOrFileDescriptor, content: string | Uint8Array): void => {
+        files.set(String(file), (exists(String(file)) ? read(file) : "") + String(content));
+    };
+
+    const open = (path: fs.PathLike, flags?: fs.OpenMode): number => {
+        if (flags === "wx" && files.has(String(path))) {
+            throw Object.assign(new Error(`EEXIST: ${path}`), { code: "EEXIST" });
         }
-        return "{}";
-    }),
-    writeFileSync: vi.fn(),
-    existsSync: vi.fn().mockReturnValue(true),
+        files.set(String(path), "");
+        descriptors.set(descriptors.size + 1, String(path));
+        return descriptors.size;
+    };
+
+    const writeTo = (fd: number, content: string): number => {
+        const path = descriptors.get(fd) as string;
+        files.set(path, (files.get(path) ?? "") + content);
+        return content.length;
+    };
+
+    const rename = (from: fs.PathLike, to: fs.PathLike): void => {
+        files.set(String(to), read(String(from)));
+        files.delete(String(from));
+    };
+
+    const unlink = (path: fs.PathLike): void => {
+        files.delete(String(path));
+    };
+
+    // Finds the stored content of a file by name, e.g. "allocations.yaml"
+    const contentOf = (name: string) => {
+        const key = Array.from(files.keys()).find(path => path.endsWith(`/${name}`));
+        return key ? files.get(key) : undefined;
+    };
+
+    // Seeds a file by name so it is read instead of the fixture
+    const seed = (name: string, content: string) => {
+        fixtures[name] = content;
+    };
+
+    const reset = () => {
+        files.clear();
+        descriptors.clear();
+        Object.keys(fixtures).forEach(name => delete fixtures[name]);
+        fixtures["live-quotas.yaml"] = quotaFixture;
+        fixtures["allocations.yaml"] = "[]";
+    };
+
+    return { files, read, exists, write, append, open, writeTo, rename, unlink, contentOf, seed, reset };
+});
+
+// Mock filesystem
+vi.mock("fs", () => ({
+    readFileSync: vi.fn().mockImplementation(mockFiles.read),
+    writeFileSync: vi.fn().mockImplementation(mockFiles.write),
+    appendFileSync: vi.fn().mockImplementation(mockFiles.append),
+    existsSync: vi.fn().mockImplementation(mockFiles.exists),
     mkdirSync: vi.fn(),
+    openSync: vi.fn().mockImplementation(mockFiles.open),
+    writeSync: vi.fn().mockImplementation(mockFiles.writeTo),
+    closeSync: vi.fn(),
+    renameSync: vi.fn().mockImplementation(mockFiles.rename),
+    unlinkSync: vi.fn().mockImplementation(mockFiles.unlink),
+    statSync: vi.fn(),
 }));
 
-// Mock ConnectivityService
-vi.mock("../utils/ConnectivityService", () => ({
-    ConnectivityService: {
-        checkConnections: vi.fn().mockResolvedValue({
-            azureConnected: false,
-            besuAvailable: false,
-            messages: []
-        }),
-        checkComputeServicesInRegions: vi.fn().mockResolvedValue(new Map([
-            ["eastus", true],
-            ["westus", true]
-        ])),
-        getAzureQuotaData: vi.fn().mockResolvedValue(null),
-        logConnectionStatus: vi.fn()
-    }
-}));
+// The global setup resets mock implementations before each test, so restore the
+// in-memory filesystem and the healthy connectivity defaults for every test
+beforeEach(() => {
+    mockFiles.reset();
+    vi.mocked(fs.readFileSync).mockImplementation(mockFiles.read);
+    vi.mocked(fs.writeFileSync).mockImplementation(mockFiles.write);
+    vi.mocked(fs.appendFileSync).mockImplementation(mockFiles.append);
+    vi.mocked(fs.existsSync).mockImplementation(mockFiles.exists);
+    vi.mocked(fs.openSync).mockImplementation(mockFiles.open);
+    vi.mocked(fs.writeSync).mockImplementation(mockFiles.writeTo);
+    vi.mocked(fs.renameSync).mockImplementation(mockFiles.rename);
+    vi.mocked(fs.unlinkSync).mockImplementation(mockFiles.unlink);
+    vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+        azureConnected: false,
+        besuAvailable: false,
+        messages: []
+    });
+    vi.mocked(ConnectivityService.checkComputeServicesInRegions).mockResolvedValue(new Map([
+        ["eastus", true],
+        ["westus", true]
+    ]));
+    vi.mocked(ConnectivityService.getAzureQuotaData).mockResolvedValue(null);
+});
 
 // Mock chalk to avoid colorization issues in tests
 vi.mock("chalk", () => ({
@@ -64,25 +162,6 @@ vi.mock("chalk", () => ({
     }
 }));
 
-// Mock Application Insights
-vi.mock("applicationinsights", () => ({
-    defaultClient: {
-        trackEvent: vi.fn(),
-        trackException: vi.fn(),
-        trackMetric: vi.fn(),
-    },
-    setup: vi.fn().mockReturnValue({
-        setAutoDependencyCorrelation: vi.fn().mockReturnThis(),
-        setAutoCollectRequests: vi.fn().mockReturnThis(),
-        setAutoCollectPerformance: vi.fn().mockReturnThis(),
-        setAutoCollectExceptions: vi.fn().mockReturnThis(),
-        setAutoCollectDependencies: vi.fn().mockReturnThis(),
-        setAutoCollectConsole: vi.fn().mockReturnThis(),
-        setUseDiskRetryCaching: vi.fn().mockReturnThis(),
-        start: vi.fn().mockReturnThis(),
-    }),
-}));
-
 // Mock Azure SDK
 vi.mock("@azure/identity", () => ({
     DefaultAzureCredential: vi.fn().mockImplementation(() => ({
@@ -90,25 +169,52 @@ vi.mock("@azure/identity", () => ({
     })),
 }));
 
+// Plain class, so resetting mocks keeps it; it reports no usages, so the Azure provider finds no quota
 vi.mock("@azure/arm-compute", () => ({
-    ComputeManagementClient: vi.fn().mockImplementation(() => ({
-        resourceSkus: {
-            list: vi.fn().mockResolvedValue([
-                { name: 'Standard_D2s_v3', locations: ['eastus'], capacity: [], restrictions: [] },
-                { name: 'Standard_D4s_v3', locations: ['eastus'], capacity: [], restrictions: [] },
-                { name: 'Standard_D8s_v3', locations: ['westus'], capacity: [], restrictions: [] },
-            ]),
-        },
-    })),
+    ComputeManagementClient: class {
+        usageOperations = {
+            list: async function* () {
+                // No usages
+            }
+        };
+        resourceSkus = {
+            list: async function* () {
+                yield* [
+                    { name: 'Standard_D2s_v3', locations: ['eastus'], capacity: [], restrictions: [] },
+                    { name: 'Standard_D4s_v3', locations: ['eastus'], capacity: [], restrictions: [] },
+                    { name: 'Standard_D8s_v3', locations: ['westus'], capacity: [], restrictions: [] },
+                ];
+            }
+        };
+    },
 }));
 
-// Mock the TelemetryService 
-vi.mock("../utils/TelemetryService", () => ({
+// Mock the ConnectivityService and TelemetryService of the shared core package
+vi.mock("orchestrator-core", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("orchestrator-core")>()),
+    ConnectivityService: {
+        checkConnections: vi.fn().mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        }),
+        checkComputeServicesInRegions: vi.fn().mockResolvedValue(new Map([
+            ["eastus", true],
+            ["westus", true]
+        ])),
+        getAzureQuotaData: vi.fn().mockResolvedValue(null),
+        getRegionHealthStatus: vi.fn().mockResolvedValue([]),
+        getQuotaAlertLevel: vi.fn().mockImplementation((percentUsed: number) =>
+            percentUsed >= 90 ? "critical" : percentUsed >= 70 ? "warning" : "none"),
+        logConnectionStatus: vi.fn()
+    },
     TelemetryService: {
         trackEvent: vi.fn(),
         trackException: vi.fn(),
         trackMetric: vi.fn(),
         initialize: vi.fn(),
+        // Plain function, so restoring mocks keeps running the wrapped work
+        withSpan: (name, fn) => fn({ setAttribute: () => undefined }),
     }
 }));
 
@@ -190,4 +296,1116 @@ describe("QuotaEngine", () => {
         vi.mocked(fs.existsSync).mockReturnValueOnce(false);
         expect(() => new QuotaEngine()).toThrow();
     });
-});
\ No newline at end of file
+});
+describe("QuotaEngine reservations", () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should hold reserved quota until the reservation is confirmed", async () => {
+        const engine = new QuotaEngine();
+        const id = await engine.reserveQuota("eastus", "Standard_D2s_v3", "validator", 30, "besu-net", 60000);
+
+        expect(id).not.toBeNull();
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(50);
+        expect(engine.getApplicationAllocations("besu-net")).toHaveLength(0);
+
+        expect(engine.confirmReservation(id as string)).toBe(true);
+        expect(engine.getApplicationAllocations("besu-net")).toHaveLength(1);
+        expect(engine.getApplicationAllocations("besu-net")[0].expiresAt).toBeUndefined();
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(50);
+    });
+
+    it("should release expired reservations and return their quota", async () => {
+        const engine = new QuotaEngine();
+        const id = await engine.reserveQuota("eastus", "Standard_D2s_v3", "validator", 30, "besu-net", 1000);
+
+        const released = engine.releaseExpiredReservations(new Date(Date.now() + 5000));
+
+        expect(released).toBe(1);
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(80);
+        expect(engine.confirmReservation(id as string)).toBe(false);
+    });
+
+    it("should release reservations that expired while the engine was not running", () => {
+        mockFiles.seed("allocations.yaml", `
+- id: orphaned
+  timestamp: "2025-01-01T00:00:00.000Z"
+  region: eastus
+  sku: Standard_D2s_v3
+  role: validator
+  amount: 10
+  applicationId: crashed-pipeline
+  status: pending
+  expiresAt: "2025-01-01T00:15:00.000Z"
+- id: still-running
+  timestamp: "2025-01-01T00:00:00.000Z"
+  region: eastus
+  sku: Standard_D2s_v3
+  role: validator
+  amount: 5
+  applicationId: besu-net
+  status: active
+`);
+
+        const engine = new QuotaEngine();
+
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(75);
+        expect(mockFiles.contentOf("allocations.yaml")).toContain("status: expired");
+    });
+
+    it("should reject reservations that exceed available quota", async () => {
+        const engine = new QuotaEngine();
+        const id = await engine.reserveQuota("eastus", "Standard_D4s_v3", "database", 25, "besu-net");
+
+        expect(id).toBeNull();
+        expect(engine.getRegionData("eastus").Standard_D4s_v3.available).toBe(20);
+    });
+});
+
+describe("QuotaEngine batch allocations", () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should commit every line when all lines are valid", async () => {
+        const engine = new QuotaEngine();
+        const result = await engine.allocateQuotaBatch([
+            { region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 4 },
+            { region: "eastus", sku: "Standard_D4s_v3", role: "database", amount: 2 }
+        ], "besu-net");
+
+        expect(result.committed).toBe(true);
+        expect(result.lines.every(line => line.allocationId)).toBe(true);
+        expect(engine.getApplicationAllocations("besu-net")).toHaveLength(2);
+        expect(engine.getApplicationAllocations("besu-net")[0].transactionId).toBe(result.transactionId);
+    });
+
+    it("should allocate nothing and report reasons when any line fails", async () => {
+        const engine = new QuotaEngine();
+        const result = await engine.allocateQuotaBatch([
+            { region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 4 },
+            { region: "westus", sku: "Standard_D8s_v3", role: "database", amount: 1 },
+            { region: "centralus", sku: "Standard_D2s_v3", role: "validator", amount: 1 }
+        ], "besu-net");
+
+        expect(result.committed).toBe(false);
+        expect(result.lines[0]).toMatchObject({ valid: true });
+        expect(result.lines[1].reason).toContain("Not enough quota");
+        expect(result.lines[2].reason).toContain("not found");
+        expect(engine.getApplicationAllocations("besu-net")).toHaveLength(0);
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(80);
+    });
+
+    it("should not let concurrent batches overdraw quota while region health is checked", async () => {
+        // Connected to Azure, so every batch waits on the region health check
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({ azureConnected: true, besuAvailable: false, messages: [] });
+        vi.mocked(ConnectivityService.checkComputeServicesInRegions).mockImplementation(async regions =>
+            new Map(regions.map(region => [region, true])));
+        const engine = new QuotaEngine();
+        await engine.initialize();
+        const batch = [{ region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 50 }];
+
+        const results = await Promise.all([
+            engine.allocateQuotaBatch(batch, "first-net"),
+            engine.allocateQuotaBatch(batch, "second-net")
+        ]);
+
+        expect(results.map(result => result.committed)).toEqual([true, false]);
+        expect(results[1].lines[0].code).toBe("INSUFFICIENT_QUOTA");
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(30);
+    });
+
+    it("should count earlier lines against the same SKU", async () => {
+        const engine = new QuotaEngine();
+        const result = await engine.allocateQuotaBatch([
+            { region: "eastus", sku: "Standard_D4s_v3", role: "database", amount: 15 },
+            { region: "eastus", sku: "Standard_D4s_v3", role: "storage", amount: 10 }
+        ], "besu-net");
+
+        expect(result.committed).toBe(false);
+        expect(result.lines[1].reason).toContain("available 5");
+    });
+});
+
+describe("QuotaEngine concurrent writers", () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should see allocations saved by another engine before validating", async () => {
+        const first = new QuotaEngine();
+        const second = new QuotaEngine();
+
+        await first.allocateQuota("eastus", "Standard_D2s_v3", "validator", 70, "first-app");
+
+        expect(second.getApplicationAllocations("first-app")).toHaveLength(1);
+        const outcome = await second.requestAllocation({
+            region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 20, applicationId: "second-app"
+        });
+        expect(outcome.code).toBe("INSUFFICIENT_QUOTA");
+    });
+
+    it("should reject writes from a stale engine and reload the newer state", async () => {
+        const first = new QuotaEngine();
+        const store = createQuotaStore();
+        const second = new QuotaEngine(store);
+
+        await first.allocateQuota("eastus", "Standard_D2s_v3", "validator", 10, "first-app");
+
+        // The other engine saves after this one checked the store versions, before it saves
+        vi.spyOn(store, "getVersions").mockReturnValueOnce({ quotaVersion: 0, allocationVersion: 0 });
+
+        await expect(second.allocateQuota("eastus", "Standard_D2s_v3", "validator", 5, "second-app"))
+            .rejects.toThrow(StoreConflictError);
+
+        // The stale engine now sees the other writer's allocation and can retry
+        expect(second.getApplicationAllocations("first-app")).toHaveLength(1);
+        expect(second.getApplicationAllocations("second-app")).toHaveLength(0);
+        expect(second.getRegionData("eastus").Standard_D2s_v3.available).toBe(70);
+
+        const retried = await second.allocateQuota("eastus", "Standard_D2s_v3", "validator", 5, "second-app");
+        expect(retried).not.toBeNull();
+        expect(mockFiles.contentOf("allocations.yaml")).toContain("first-app");
+        expect(mockFiles.contentOf("allocations.yaml")).toContain("second-app");
+    });
+
+    it("should fail operations whose allocations could not be saved and discard them", async () => {
+        const store = createQuotaStore();
+        const engine = new QuotaEngine(store);
+        const allocationId = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 10, "saved-app");
+        vi.spyOn(store, "saveAllocations").mockImplementation(() => {
+            throw new Error("SQLITE_IOERR: disk I/O error");
+        });
+
+        await expect(engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 10, "unsaved-app"))
+            .rejects.toThrow("disk I/O error");
+        expect(() => engine.releaseQuota(allocationId!)).toThrow("disk I/O error");
+
+        // The next operation reloads what was actually saved
+        expect(engine.getApplicationAllocations("unsaved-app")).toHaveLength(0);
+        expect(engine.getApplicationAllocations("saved-app")).toMatchObject([{ id: allocationId, status: "active" }]);
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(70);
+    });
+
+    it("should discard an allocation instead of waiting while another process holds the store lock", async () => {
+        setDefaultFileLockOptions({ timeoutMs: 0 });
+        try {
+            const engine = new QuotaEngine();
+            vi.mocked(fs.openSync).mockImplementationOnce(() => {
+                throw Object.assign(new Error("EEXIST: lock"), { code: "EEXIST" });
+            });
+
+            await expect(engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 10, "busy-app"))
+                .rejects.toThrow(FileLockTimeoutError);
+            expect(engine.getApplicationAllocations("busy-app")).toHaveLength(0);
+            expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(80);
+
+            // Once the lock is free the retry goes through
+            expect(await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 10, "busy-app")).not.toBeNull();
+        } finally {
+            setDefaultFileLockOptions({ timeoutMs: 10000 });
+        }
+    });
+});
+
+describe("QuotaEngine audit trail", () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should record who allocated and released an allocation", async () => {
+        const engine = new QuotaEngine();
+        const id = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 10, "besu-net", "alice");
+        engine.releaseQuota(id as string, "bob", "network torn down");
+
+        const history = engine.getAllocationHistory(id as string);
+
+        expect(history.map(event => event.action)).toEqual(["allocate", "release"]);
+        expect(history[0]).toMatchObject({ requestedBy: "alice", outcome: "success", amount: 10, region: "eastus" });
+        expect(history[1]).toMatchObject({ requestedBy: "bob", details: { reason: "network torn down" } });
+    });
+
+    it("should record rejected requests with the reason", async () => {
+        const engine = new QuotaEngine();
+        await engine.allocateQuota("westus", "Standard_D8s_v3", "database", 1, "besu-net", "alice");
+
+        const events = engine.queryAuditLog({ applicationId: "besu-net", action: "reject" });
+
+        expect(events).toHaveLength(1);
+        expect(events[0].outcome).toBe("failure");
+        expect(events[0].reason).toContain("Not enough quota");
+    });
+
+    it("should record expired reservations and filter by region and time range", async () => {
+        const engine = new QuotaEngine();
+        const before = new Date(Date.now() - 1000);
+        const id = await engine.reserveQuota("eastus", "Standard_D2s_v3", "validator", 5, "besu-net", 1000);
+        engine.addNewRoleOrSku("centralus", "Standard_D2s_v3", 20, ["web"], "alice");
+        engine.releaseExpiredReservations(new Date(Date.now() + 5000));
+
+        expect(engine.getAllocationHistory(id as string).map(event => event.action)).toEqual(["reserve", "expire"]);
+        expect(engine.queryAuditLog({ region: "centralus" })).toMatchObject([{ action: "add-sku", requestedBy: "alice" }]);
+        expect(engine.queryAuditLog({ from: before })).toHaveLength(3);
+        expect(engine.queryAuditLog({ to: before })).toHaveLength(0);
+    });
+});
+
+// Provider that always returns the given data and needs no Azure credentials
+const fixedProvider = (data: QuotaData): QuotaProvider => ({
+    name: "fixed",
+    requiresAzure: false,
+    fetchQuotaData: async () => JSON.parse(JSON.stringify(data))
+});
+
+describe("QuotaEngine refresh attempts", () => {
+    const quota = (total: number): QuotaData => ({
+        eastus: { Standard_D2s_v3: { total, used: 0, available: total, assigned_to: ["validator"] } }
+    });
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        CircuitBreaker.resetAll();
+    });
+
+    afterEach(() => {
+        delete process.env.QUOTA_REFRESH_TIMEOUT_MS;
+        vi.restoreAllMocks();
+    });
+
+    it("should abort a timed-out fetch and apply only the data of the attempt that succeeded", async () => {
+        process.env.QUOTA_REFRESH_TIMEOUT_MS = "50";
+        const signals: AbortSignal[] = [];
+        const provider: QuotaProvider = {
+            name: "slow-then-fast",
+            requiresAzure: false,
+            fetchQuotaData: async (_current, signal) => {
+                signals.push(signal as AbortSignal);
+                if (signals.length > 1) {
+                    return quota(10);
+                }
+                // The first attempt answers after it timed out
+                await new Promise(resolve => setTimeout(resolve, 100));
+                return quota(1);
+            }
+        };
+        const engine = new QuotaEngine(undefined, undefined, undefined, provider);
+
+        expect(await engine.refreshQuotaData()).toBe(true);
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(signals).toHaveLength(2);
+        expect(signals[0].aborted).toBe(true);
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.total).toBe(10);
+    });
+
+    it("should not give providers of local data a circuit breaker", async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider(quota(10)));
+
+        expect(await engine.refreshQuotaData()).toBe(true);
+        expect(CircuitBreaker.getStatuses()).toEqual([]);
+    });
+});
+
+describe("QuotaEngine forecasting", () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should record usage on every refresh and forecast from it", async () => {
+        const day = 24 * 60 * 60 * 1000;
+        const recorded = [40, 30].map((available, i) => JSON.stringify({
+            timestamp: new Date(Date.now() - (2 - i) * day).toISOString(),
+            region: "eastus", sku: "Standard_D4s_v3", total: 50, used: 50 - available, available
+        }));
+        mockFiles.seed("usage-history.jsonl", recorded.join("\n") + "\n");
+
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider({
+            eastus: {
+                Standard_D4s_v3: { total: 50, used: 30, available: 20, assigned_to: ["database", "storage"] }
+            }
+        }));
+        expect(await engine.refreshQuotaData()).toBe(true);
+
+        expect(mockFiles.contentOf("usage-history.jsonl")).toContain('"available":20');
+
+        const [forecast] = engine.getQuotaForecasts({ role: "database" });
+        expect(forecast).toMatchObject({ region: "eastus", sku: "Standard_D4s_v3", sampleCount: 3, alertLevel: "critical" });
+        expect(forecast.dailyGrowth).toBeCloseTo(10);
+        expect(forecast.daysUntilExhaustion).toBeCloseTo(2);
+    });
+
+    it("should not predict exhaustion without enough history", () => {
+        const engine = new QuotaEngine();
+
+        const forecasts = engine.getQuotaForecasts({ region: "eastus" });
+
+        expect(forecasts).toHaveLength(2);
+        expect(forecasts.every(forecast => forecast.exhaustionDate === null && forecast.dailyGrowth === null)).toBe(true);
+    });
+});
+
+describe("QuotaEngine quota providers", () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should refresh offline from a provider that does not need Azure, keeping allocations", async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider({
+            eastus: {
+                Standard_D2s_v3: { total: 120, used: 20, available: 100, assigned_to: ["web", "validator"] }
+            }
+        }));
+        await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 10, "besu-net");
+
+        expect(await engine.refreshQuotaData()).toBe(true);
+
+        expect(engine.getRegionData("eastus").Standard_D2s_v3).toMatchObject({ total: 120, available: 90 });
+        expect(engine.getApplicationAllocations("besu-net")).toHaveLength(1);
+        expect(ConnectivityService.getAzureQuotaData).not.toHaveBeenCalled();
+    });
+
+    it("should not refresh from an Azure provider without Azure credentials", async () => {
+        const fetchQuotaData = vi.fn();
+        const engine = new QuotaEngine(undefined, undefined, undefined, { name: "azure", requiresAzure: true, fetchQuotaData });
+        await engine.initialize();
+
+        expect(await engine.refreshQuotaData()).toBe(false);
+        expect(fetchQuotaData).not.toHaveBeenCalled();
+    });
+
+    it("should share one refresh between concurrent callers and throttle requested refreshes", async () => {
+        let finishFetch: (data: QuotaData) => void = () => undefined;
+        const fetchQuotaData = vi.fn(() => new Promise<QuotaData>(resolve => finishFetch = resolve));
+        const engine = new QuotaEngine(undefined, undefined, undefined, { name: "slow", requiresAzure: false, fetchQuotaData });
+        await engine.initialize();
+
+        const first = engine.refreshQuotaData("ops");
+        const second = engine.refreshQuotaData("pipeline");
+        const requested = engine.requestRefresh("dashboard");
+        await vi.waitFor(() => expect(fetchQuotaData).toHaveBeenCalled());
+        expect(engine.isRefreshing()).toBe(true);
+
+        finishFetch({ eastus: { Standard_D2s_v3: { total: 120, used: 20, available: 100, assigned_to: ["validator"] } } });
+        expect(await Promise.all([first, second])).toEqual([true, true]);
+        expect(await requested).toEqual({ success: true, coalesced: true });
+        expect(fetchQuotaData).toHaveBeenCalledOnce();
+
+        // Requested refreshes wait out the minimum interval, which the refresh interval caps
+        const throttled = await engine.requestRefresh("dashboard").catch(error => error);
+        expect(throttled).toBeInstanceOf(RefreshThrottledError);
+        expect(throttled.retryAfterMs).toBeGreaterThan(0);
+        expect(throttled.retryAfterMs).toBeLessThanOrEqual(QuotaEngine.DEFAULT_MIN_REFRESH_INTERVAL_MS);
+
+        engine.setMinimumRefreshInterval(10 * 60000);
+        engine.setRefreshInterval(5 * 60000);
+        expect(engine.getMinimumRefreshInterval()).toBe(5 * 60000);
+
+        engine.setMinimumRefreshInterval(0);
+        const refreshed = engine.requestRefresh("dashboard");
+        finishFetch({ eastus: { Standard_D2s_v3: { total: 130, used: 20, available: 110, assigned_to: ["validator"] } } });
+        expect(await refreshed).toEqual({ success: true, coalesced: false });
+        engine.close();
+    });
+
+    it("should refresh in the background once quota data is stale", async () => {
+        vi.useFakeTimers();
+        try {
+            const fetchQuotaData = vi.fn(fixedProvider({
+                eastus: { Standard_D2s_v3: { total: 120, used: 20, available: 100, assigned_to: ["validator"] } }
+            }).fetchQuotaData);
+            const engine = new QuotaEngine(undefined, undefined, undefined, { name: "fixed", requiresAzure: false, fetchQuotaData });
+            await engine.initialize();
+
+            engine.startRefreshScheduler(1000);
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(fetchQuotaData).toHaveBeenCalledOnce();
+            expect(engine.needsRefresh()).toBe(false);
+
+            // Fresh data is left alone until the refresh interval has passed
+            await vi.advanceTimersByTimeAsync(5000);
+            expect(fetchQuotaData).toHaveBeenCalledOnce();
+
+            await vi.advanceTimersByTimeAsync(engine.getRefreshInterval());
+            expect(fetchQuotaData).toHaveBeenCalledTimes(2);
+
+            engine.close();
+            await vi.advanceTimersByTimeAsync(engine.getRefreshInterval() * 2);
+            expect(fetchQuotaData).toHaveBeenCalledTimes(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
+
+describe("QuotaEngine subscriptions", () => {
+    const multiSubscription = (): QuotaData => ({
+        eastus: {
+            Standard_D2s_v3: {
+                total: 150, used: 30, available: 120, assigned_to: ["validator"],
+                subscriptions: {
+                    "sub-a": { total: 100, used: 20, available: 80 },
+                    "sub-b": { total: 50, used: 10, available: 40 }
+                }
+            }
+        },
+        westus: {
+            Standard_D2s_v3: {
+                total: 50, used: 0, available: 50, assigned_to: ["validator"],
+                subscriptions: { "sub-b": { total: 50, used: 0, available: 50 } }
+            }
+        }
+    });
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should draw allocations from a subscription with room and return quota on release", async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider(multiSubscription()));
+        await engine.refreshQuotaData();
+
+        const picked = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 50, "besu-net");
+        expect(engine.getAllocation(picked as string)?.subscriptionId).toBe("sub-a");
+
+        const requested = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 20, "besu-net", "ops", "sub-b");
+        expect(engine.getAllocation(requested as string)?.subscriptionId).toBe("sub-b");
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.subscriptions).toEqual({
+            "sub-a": { total: 100, used: 20, available: 30 },
+            "sub-b": { total: 50, used: 10, available: 20 }
+        });
+
+        // Enough in total, but no single subscription has room
+        expect(await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 40, "besu-net")).toBeNull();
+        expect(await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 1, "besu-net", "ops", "sub-c")).toBeNull();
+
+        engine.releaseQuota(picked as string);
+        expect(engine.getRegionData("eastus").Standard_D2s_v3).toMatchObject({
+            available: 100,
+            subscriptions: { "sub-a": { available: 80 } }
+        });
+    });
+
+    it("should recommend per subscription and roll quota up across subscriptions", async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider(multiSubscription()));
+        await engine.refreshQuotaData();
+
+        const recommendations = await engine.getResourceRecommendations({
+            role: "validator",
+            minimumQuota: 45,
+            preferredSubscriptions: ["sub-b"]
+        });
+        expect(recommendations.map(r => `${r.region}/${r.subscriptionId}`)).toEqual(["westus/sub-b", "eastus/sub-a"]);
+        expect(recommendations[0].reasons).toContain("Preferred subscription");
+
+        expect(engine.getSubscriptions()).toEqual(["sub-a", "sub-b"]);
+        expect(engine.summarizeQuotaAvailability("validator", "sub-b")).toEqual({
+            eastus: { total: 50, used: 10, available: 40, usage_percent: "20.00" },
+            westus: { total: 50, used: 0, available: 50, usage_percent: "0.00" }
+        });
+        expect(engine.summarizeBySubscription("validator")).toEqual({
+            "sub-a": { total: 100, used: 20, available: 80, usage_percent: "20.00", regions: ["eastus"] },
+            "sub-b": { total: 100, used: 10, available: 90, usage_percent: "10.00", regions: ["eastus", "westus"] }
+        });
+        expect(engine.getQuotaMatrix("westus", "validator")).toEqual({
+            westus: {
+                Standard_D2s_v3: {
+                    total: 50, used: 0, available: 50, assigned_to: ["validator"],
+                    subscriptions: { "sub-b": { total: 50, used: 0, available: 50 } }
+                }
+            }
+        });
+        expect(engine.getQuotaMatrix(undefined, "rpc")).toEqual({});
+    });
+});
+
+describe("QuotaEngine VM family quota", () => {
+    // 16 of the standardDSv3Family's 20 vCPUs are left, shared by a 2 and a 4 vCPU SKU
+    const familyQuota = (): QuotaData => {
+        const eastus = mapComputeUsagesToSkus(
+            [{ unit: "Count", currentValue: 4, limit: 20, name: { value: "standardDSv3Family" } }],
+            ["Standard_D2s_v3", "Standard_D4s_v3"].map((name, i) => ({
+                name, family: "standardDSv3Family", resourceType: "virtualMachines",
+                capabilities: [{ name: "vCPUs", value: String(2 * (i + 1)) }]
+            }))
+        );
+        Object.values(eastus).forEach(quota => quota.assigned_to = ["validator"]);
+        return mergeSubscriptionQuotas({ "sub-a": { eastus } });
+    };
+    const request = (sku: string, amount: number) =>
+        ({ region: "eastus", sku, role: "validator", amount, applicationId: "besu-net" });
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should let either SKU use the whole family but not more between them", async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider(familyQuota()));
+        await engine.refreshQuotaData();
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(8);
+        expect(engine.getRegionData("eastus").Standard_D4s_v3.available).toBe(4);
+
+        const large = await engine.requestAllocation(request("Standard_D4s_v3", 3));
+        expect(large.allocation).toBeDefined();
+
+        // 4 vCPUs are left in the family, for 2 of the 2 vCPU SKU
+        expect(await engine.requestAllocation(request("Standard_D2s_v3", 3))).toMatchObject({ code: "INSUFFICIENT_QUOTA" });
+        expect((await engine.requestAllocation(request("Standard_D2s_v3", 2))).allocation).toBeDefined();
+        expect(await engine.requestAllocation(request("Standard_D4s_v3", 1))).toMatchObject({ code: "INSUFFICIENT_QUOTA" });
+
+        // Lines of one batch share the family too
+        engine.releaseQuota(large.allocation!.id);
+        const batch = await engine.allocateQuotaBatch([request("Standard_D4s_v3", 2), request("Standard_D2s_v3", 3)], "besu-net");
+        expect(batch.committed).toBe(false);
+        expect(batch.lines[1]).toMatchObject({ valid: false, code: "INSUFFICIENT_QUOTA" });
+    });
+});
+
+describe("QuotaEngine SKU catalog", () => {
+    const catalog = new SkuCatalog({
+        Standard_D2s_v3: { vCPUs: 2, memoryGB: 8, gpus: 0, acceleratedNetworking: true, premiumStorage: true },
+        Standard_D4s_v3: { vCPUs: 4, memoryGB: 16, gpus: 0, acceleratedNetworking: true, premiumStorage: true }
+    });
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should only recommend SKUs that meet the requirements and report the rest", async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider({
+            eastus: {
+                Standard_D2s_v3: { total: 100, used: 0, available: 100, assigned_to: ["validator"] },
+                Standard_D4s_v3: { total: 100, used: 0, available: 100, assigned_to: ["validator"] },
+                Standard_NC6: { total: 100, used: 0, available: 100, assigned_to: ["validator"] }
+            }
+        }), catalog);
+        await engine.refreshQuotaData();
+
+        const result = await engine.evaluateRecommendations({
+            role: "validator",
+            minimumQuota: 1,
+            skuRequirements: { minCores: 4 },
+            requiredFeatures: ["acceleratedNetworking"]
+        });
+
+        expect(result.recommendations.map(r => r.sku)).toEqual(["Standard_D4s_v3"]);
+        expect(result.recommendations[0].reasons).toContain("4 vCPUs (needs 4)");
+        expect(result.excluded).toEqual([
+            { region: "eastus", sku: "Standard_D2s_v3", reasons: ["Standard_D2s_v3 has 2 vCPUs, needs at least 4"] },
+            { region: "eastus", sku: "Standard_NC6", reasons: ["No capability data for Standard_NC6 in the SKU catalog"] }
+        ]);
+    });
+});
+
+describe("QuotaEngine allocation policies", () => {
+    const policies = new PolicyEngine([
+        { name: "validator-share-cap", type: "max-share", roles: ["validator"], percent: 60 },
+        { name: "per-application-limit", type: "max-per-application", max: 50 },
+        { name: "rpc-eu-only", type: "region-pin", roles: ["rpc"], allowedRegions: ["*europe"] }
+    ]);
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const createEngine = async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider({
+            eastus: {
+                Standard_D2s_v3: { total: 100, used: 0, available: 100, assigned_to: ["validator", "rpc"] }
+            },
+            westeurope: {
+                Standard_D2s_v3: { total: 100, used: 0, available: 100, assigned_to: ["validator", "rpc"] }
+            }
+        }), undefined, policies);
+        await engine.refreshQuotaData();
+        return engine;
+    };
+
+    it("should reject allocations naming the violated rule", async () => {
+        const engine = await createEngine();
+
+        expect(await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 40, "app-a")).not.toBeNull();
+        expect(await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 30, "app-b")).toBeNull();
+        expect(await engine.allocateQuota("eastus", "Standard_D2s_v3", "rpc", 5, "app-b")).toBeNull();
+
+        expect(engine.queryAuditLog({ action: "reject" }).map(e => e.reason)).toEqual([
+            "Policy 'validator-share-cap' violated: validator would hold 70 of 100 Standard_D2s_v3 in eastus, above the 60% cap (60)",
+            "Policy 'rpc-eu-only' violated: role rpc may only use regions *europe"
+        ]);
+    });
+
+    it("should count earlier batch lines against per-application limits", async () => {
+        const engine = await createEngine();
+
+        const result = await engine.allocateQuotaBatch([
+            { region: "westeurope", sku: "Standard_D2s_v3", role: "rpc", amount: 30 },
+            { region: "westeurope", sku: "Standard_D2s_v3", role: "validator", amount: 30 }
+        ], "app-a");
+
+        expect(result.committed).toBe(false);
+        expect(result.lines[1].reason).toBe("Policy 'per-application-limit' violated: app-a would hold 60 units, above the limit of 50");
+    });
+
+    it("should honour policies in validation and recommendations", async () => {
+        const engine = await createEngine();
+
+        expect(await engine.validateQuota("eastus", "rpc")).toBe(false);
+        expect(await engine.validateQuota("westeurope", "rpc")).toBe(true);
+
+        const result = await engine.evaluateRecommendations({ role: "rpc", minimumQuota: 1 });
+        expect(result.recommendations.map(r => r.region)).toEqual(["westeurope"]);
+        expect(result.excluded).toEqual([{
+            region: "eastus",
+            sku: "Standard_D2s_v3",
+            reasons: ["Policy 'rpc-eu-only' violated: role rpc may only use regions *europe"]
+        }]);
+    });
+});
+
+describe("QuotaEngine budgets and chargeback", () => {
+    const budgets = new ApplicationBudgets(
+        { "besu-net": { maxUnits: 30 } },
+        new PriceTable("USD", { Standard_D2s_v3: { "*": 0.05 } })
+    );
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    const createEngine = async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider({
+            eastus: {
+                Standard_D2s_v3: { total: 100, used: 0, available: 100, assigned_to: ["validator"] }
+            }
+        }), undefined, undefined, budgets);
+        await engine.refreshQuotaData();
+        return engine;
+    };
+
+    it("should reject allocations over the application's budget", async () => {
+        const engine = await createEngine();
+
+        expect(await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 20, "besu-net")).not.toBeNull();
+        expect(await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 20, "besu-net")).toBeNull();
+        expect(engine.queryAuditLog({ action: "reject" })[0].reason).toBe(
+            "Budget for besu-net exceeded: would hold 40 units, above the budget of 30"
+        );
+        expect(engine.getBudgetStatus("besu-net")).toEqual([{
+            applicationId: "besu-net", heldUnits: 20, maxUnits: 30, estimatedMonthlyCost: 730, maxMonthlyCost: null, currency: "USD"
+        }]);
+    });
+
+    it("should charge applications for the hours allocations held quota", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2024-03-01T00:00:00Z"));
+        const engine = await createEngine();
+
+        const released = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 10, "besu-net");
+        await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 4, "rpc-pool");
+
+        vi.setSystemTime(new Date("2024-03-01T06:00:00Z"));
+        engine.releaseQuota(released as string);
+
+        const report = engine.getChargebackReport(new Date("2024-03-01T00:00:00Z"), new Date("2024-03-02T00:00:00Z"));
+
+        expect(report.lines.map(line => [line.applicationId, line.unitHours, line.estimatedCost?.toFixed(2)])).toEqual([
+            ["besu-net", 60, "3.00"],
+            ["rpc-pool", 96, "4.80"]
+        ]);
+    });
+});
+
+describe("QuotaEngine placement planning", () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should plan a network whose allocation lines can be allocated as a batch", async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider({
+            eastus: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: ["validator", "rpc"] } },
+            westeurope: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: ["validator", "rpc"] } },
+            westus2: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: ["validator"] } },
+            centralus: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: ["validator"] } }
+        }), new SkuCatalog({}));
+        await engine.refreshQuotaData();
+
+        const plan = await engine.planPlacement({ validators: 4, rpcNodes: 2, unitsPerNode: 2 });
+
+        expect(plan.feasible).toBe(true);
+        expect(plan.placements.filter(p => p.kind === "validator").map(p => p.region).sort()).toEqual(["centralus", "eastus", "westeurope", "westus2"]);
+        expect(plan.allocationLines.reduce((sum, line) => sum + line.amount, 0)).toBe(12);
+
+        const result = await engine.allocateQuotaBatch(plan.allocationLines, "besu-net");
+        expect(result.committed).toBe(true);
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(6);
+    });
+});
+
+describe("QuotaEngine rebalancing", () => {
+    const regionHealth = (region: string, isHealthy: boolean) => ({
+        region, isHealthy, services: [], lastChecked: new Date().toISOString(),
+        advisories: isHealthy ? [] : [`Compute degraded in ${region}`], quotaAvailability: 50
+    });
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: true,
+            besuAvailable: false,
+            messages: []
+        });
+        vi.mocked(ConnectivityService.checkComputeServicesInRegions).mockImplementation(async regions =>
+            new Map(regions.map(region => [region, true])));
+        vi.mocked(ConnectivityService.getRegionHealthStatus).mockImplementation(async regions =>
+            regions.map(region => regionHealth(region, region !== "eastus")));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const createEngine = async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider({
+            eastus: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: ["validator"] } },
+            westeurope: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: ["validator"] } },
+            westus2: { Standard_D2s_v3: { total: 4, used: 0, available: 4, assigned_to: ["validator"] } }
+        }), new SkuCatalog({}));
+        await engine.initialize();
+        await engine.refreshQuotaData();
+        return engine;
+    };
+
+    it("should propose healthy targets with enough quota for allocations in degraded regions", async () => {
+        const engine = await createEngine();
+        const degraded = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 6, "besu-net") as string;
+        await engine.allocateQuota("westeurope", "Standard_D2s_v3", "validator", 2, "besu-net");
+
+        const proposals = await engine.proposeRebalancing();
+
+        expect(proposals).toHaveLength(1);
+        expect(proposals[0].allocation.id).toBe(degraded);
+        expect(proposals[0].advisories).toEqual(["Compute degraded in eastus"]);
+        // westus2 has only 4 units, too few to take over 6
+        expect(proposals[0].targets.map(target => target.region)).toEqual(["westeurope"]);
+    });
+
+    it("should create the replacement allocation and release the original on approval", async () => {
+        const engine = await createEngine();
+        const degraded = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 3, "besu-net") as string;
+
+        const [result] = await engine.applyRebalancing([degraded], {}, "operator");
+
+        expect(result.migrated).toBe(true);
+        expect(engine.getAllocation(degraded)?.status).toBe("released");
+        expect(engine.getAllocation(result.newAllocationId as string)).toMatchObject({
+            region: result.target?.region, amount: 3, applicationId: "besu-net", status: "active", requestedBy: "operator"
+        });
+        expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(10);
+        expect(engine.getAllocationHistory(degraded).pop()?.details?.reason).toBe(
+            `Rebalanced to Standard_D2s_v3 in ${result.target?.region} (ID: ${result.newAllocationId})`
+        );
+
+        const [again] = await engine.applyRebalancing([degraded]);
+        expect(again).toEqual({ allocationId: degraded, migrated: false, reason: `Allocation ${degraded} not found or not active` });
+    });
+
+    it("should not propose degraded regions as targets", async () => {
+        vi.mocked(ConnectivityService.getRegionHealthStatus).mockImplementation(async regions =>
+            regions.map(region => regionHealth(region, region === "westus2")));
+        const engine = await createEngine();
+        const degraded = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 3, "besu-net") as string;
+
+        const [proposal] = await engine.proposeRebalancing();
+
+        expect(proposal.allocation.id).toBe(degraded);
+        expect(proposal.targets.map(target => target.region)).toEqual(["westus2"]);
+        expect(ConnectivityService.getRegionHealthStatus).toHaveBeenCalledWith(
+            expect.arrayContaining(["eastus", "westeurope", "westus2"]));
+    });
+
+    it("should treat every region as healthy when not connected to Azure", async () => {
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+        const engine = await createEngine();
+        const allocationId = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 3, "besu-net") as string;
+
+        expect(await engine.proposeRebalancing()).toEqual([]);
+        expect(await engine.applyRebalancing([allocationId])).toEqual([
+            { allocationId, migrated: false, reason: `Region eastus of allocation ${allocationId} is not degraded` }
+        ]);
+        expect(ConnectivityService.getRegionHealthStatus).not.toHaveBeenCalled();
+    });
+
+    it("should not move allocations in healthy regions", async () => {
+        const engine = await createEngine();
+        const healthy = await engine.allocateQuota("westeurope", "Standard_D2s_v3", "validator", 2, "besu-net") as string;
+
+        const results = await engine.applyRebalancing([healthy], {
+            [healthy]: { region: "westus2", sku: "Standard_D2s_v3" }
+        });
+
+        expect(results).toEqual([
+            { allocationId: healthy, migrated: false, reason: `Region westeurope of allocation ${healthy} is not degraded` }
+        ]);
+        expect(engine.getAllocation(healthy)?.status).toBe("active");
+    });
+
+    it("should release the replacement when the original cannot be released", async () => {
+        const engine = await createEngine();
+        const first = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 2, "besu-net") as string;
+        const second = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 2, "besu-net") as string;
+        const release = engine.releaseQuota.bind(engine);
+        vi.spyOn(engine, "releaseQuota").mockImplementation((allocationId, ...rest) => {
+            if (allocationId === first) {
+                throw new StoreConflictError("allocations.yaml", 1, 2);
+            }
+            return release(allocationId, ...rest);
+        });
+
+        const [failed, moved] = await engine.applyRebalancing([first, second]);
+
+        expect(failed).toMatchObject({ allocationId: first, migrated: false });
+        expect(failed.reason).toMatch(new RegExp(`^Could not release allocation ${first}: .*; replacement .* was released$`));
+        expect(moved).toMatchObject({ allocationId: second, migrated: true });
+        expect(engine.getAllocation(first)?.status).toBe("active");
+        expect(engine.getActiveAllocations().map(allocation => allocation.id).sort()).toEqual([first, moved.newAllocationId].sort());
+    });
+
+    it("should report a replacement that cannot be released either", async () => {
+        const engine = await createEngine();
+        const allocationId = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 2, "besu-net") as string;
+        vi.spyOn(engine, "releaseQuota").mockImplementation(() => {
+            throw new FileLockTimeoutError("allocations.yaml.lock", 0);
+        });
+
+        const [result] = await engine.applyRebalancing([allocationId]);
+
+        expect(result).toMatchObject({ allocationId, migrated: false, target: { region: "westeurope", sku: "Standard_D2s_v3" } });
+        expect(result.reason).toContain(`replacement ${result.newAllocationId} could not be released and is still active`);
+        expect(engine.getAllocation(result.newAllocationId as string)?.status).toBe("active");
+    });
+
+    it("should reject requested targets in the same or a degraded region or without enough quota", async () => {
+        vi.mocked(ConnectivityService.getRegionHealthStatus).mockImplementation(async regions =>
+            regions.map(region => regionHealth(region, region === "westus2")));
+        const engine = await createEngine();
+        const sameRegion = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 2, "besu-net") as string;
+        const toDegraded = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 2, "besu-net") as string;
+        const tooLarge = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 6, "besu-net") as string;
+
+        const results = await engine.applyRebalancing([sameRegion, toDegraded, tooLarge], {
+            [sameRegion]: { region: "eastus", sku: "Standard_D2s_v3" },
+            [toDegraded]: { region: "westeurope", sku: "Standard_D2s_v3" },
+            [tooLarge]: { region: "westus2", sku: "Standard_D2s_v3" }
+        });
+
+        expect(results).toEqual([
+            { allocationId: sameRegion, migrated: false, reason: "Target region eastus is the region the allocation is in" },
+            { allocationId: toDegraded, migrated: false, reason: "Target region westeurope is degraded" },
+            { allocationId: tooLarge, migrated: false, reason: "Standard_D2s_v3 in westus2 does not have 6 units of quota for role validator" }
+        ]);
+        expect(engine.getActiveAllocations()).toHaveLength(3);
+        expect(engine.getRegionData("westus2").Standard_D2s_v3.available).toBe(4);
+    });
+});
+
+describe("QuotaEngine events", () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+        vi.mocked(ConnectivityService.getQuotaAlertLevel).mockImplementation(percentUsed =>
+            (percentUsed >= 90 ? "critical" : percentUsed >= 70 ? "warning" : "none") as QuotaAlertLevel);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should publish refreshes, allocation changes and alert level transitions", async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider({
+            eastus: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: ["validator"] } }
+        }));
+        const received: QuotaEvent[] = [];
+        engine.events.subscribe(event => received.push(event));
+
+        await engine.refreshQuotaData();
+        const allocationId = await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 8, "besu-net") as string;
+        engine.releaseQuota(allocationId);
+
+        expect(received.map(event => event.type)).toEqual([
+            "quota.refreshed",
+            "allocation.created",
+            "alert.changed",
+            "allocation.released",
+            "alert.changed"
+        ]);
+        expect(received[1].data).toMatchObject({ allocationId, region: "eastus", amount: 8, status: "active" });
+        expect(received[2].data).toEqual({ region: "eastus", sku: "Standard_D2s_v3", previousLevel: "none", level: "warning", percentUsed: 80 });
+
+        // A subscriber that saw the allocation can resume from it
+        expect(engine.events.since(received[1].id)?.map(event => event.type)).toEqual(["alert.changed", "allocation.released", "alert.changed"]);
+    });
+});
+
+describe("QuotaEngine allocation requests", () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.mocked(ConnectivityService.checkConnections).mockResolvedValue({
+            azureConnected: false,
+            besuAvailable: false,
+            messages: []
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const createEngine = async () => {
+        const engine = new QuotaEngine(undefined, undefined, undefined, fixedProvider({
+            eastus: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: ["validator", "rpc"] } }
+        }));
+        await engine.refreshQuotaData();
+        return engine;
+    };
+
+    it("should report why a request was rejected with an error code", async () => {
+        const engine = await createEngine();
+
+        expect(await engine.requestAllocation({ region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 0, applicationId: "besu-net" }))
+            .toEqual({ code: "INVALID_REQUEST", reason: "Invalid allocation parameters" });
+        expect((await engine.requestAllocation({ region: "westus", sku: "Standard_D2s_v3", role: "validator", amount: 1, applicationId: "besu-net" })).code)
+            .toBe("QUOTA_NOT_FOUND");
+        expect((await engine.requestAllocation({ region: "eastus", sku: "Standard_D2s_v3", role: "bootnode", amount: 1, applicationId: "besu-net" })).code)
+            .toBe("ROLE_NOT_ASSIGNED");
+        expect((await engine.requestAllocation({ region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 11, applicationId: "besu-net" })).code)
+            .toBe("INSUFFICIENT_QUOTA");
+        expect((await engine.requestAllocation({
+            region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 1, applicationId: "besu-net", reserve: true, ttlMs: 0
+        })).code).toBe("INVALID_REQUEST");
+
+        expect(engine.queryAuditLog({ action: "reject" }).map(event => event.details?.code))
+            .toEqual(["INVALID_REQUEST", "QUOTA_NOT_FOUND", "ROLE_NOT_ASSIGNED", "INSUFFICIENT_QUOTA", "INVALID_REQUEST"]);
+    });
+
+    it("should list allocations filtered by application, region, role and status", async () => {
+        const engine = await createEngine();
+        const validator = (await engine.requestAllocation({ region: "eastus", sku: "Standard_D2s_v3", role: "validator", amount: 2, applicationId: "besu-net" })).allocation;
+        const rpc = (await engine.requestAllocation({ region: "eastus", sku: "Standard_D2s_v3", role: "rpc", amount: 1, applicationId: "besu-net", reserve: true })).allocation;
+        await engine.allocateQuota("eastus", "Standard_D2s_v3", "rpc", 1, "explorer");
+
+        expect(validator?.status).toBe("active");
+        expect(rpc?.status).toBe("pending");
+        expect(engine.listAllocations({ applicationId: "besu-net" }).map(a => a.id)).toEqual([validator?.id, rpc?.id]);
+        expect(engine.listAllocations({ role: "rpc", status: "pending" }).map(a => a.id)).toEqual([rpc?.id]);
+        expect(engine.listAllocations({ region: "westus" })).toEqual([]);
+        expect(engine.listAllocations()).toHaveLength(3);
+    });
+});
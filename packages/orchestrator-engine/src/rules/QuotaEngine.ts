@@ -1,11 +1,40 @@
 import * as fs from "fs";
 import * as path from "path";
-import * as yaml from "yaml";
 import chalk from "chalk";
 import { v4 as uuidv4 } from "uuid";
-import { ConnectivityService, ConnectionState, AzureServiceHealth } from "../utils/ConnectivityService";
-import { TelemetryService } from "../utils/TelemetryService";
-import { executeWithRetry } from "../utils/RetryUtils";
+import {
+    ConnectivityService,
+    ConnectionState,
+    AzureServiceHealth,
+    RegionHealthStatus,
+    QuotaAlertLevel,
+    TelemetryService,
+    executeWithRetry,
+    isRetryableError
+} from "orchestrator-core";
+import { OrchestratorMetrics } from "../metrics/OrchestratorMetrics";
+import { QuotaStore, isStoreConflict } from "../storage/QuotaStore";
+import { AuditEvent, AuditEventFilter } from "../storage/AuditEvent";
+import { sampleQuotaUsage } from "../storage/UsageHistory";
+import { QuotaForecaster, QuotaForecast, ForecastOptions } from "../forecasting/QuotaForecaster";
+import { QuotaProvider } from "../providers/QuotaProvider";
+import { createQuotaProvider } from "../providers/ProviderFactory";
+import { SkuCatalog, SkuRequirements } from "../catalog/SkuCatalog";
+import { PolicyEngine, PolicyContext, PolicyAllocation, PolicyViolation, formatViolations } from "../policies/PolicyEngine";
+import { ApplicationBudgets, BudgetHolding, BudgetStatus } from "../billing/ApplicationBudgets";
+import { AllocationUsage, ChargebackReport, buildChargebackReport } from "../billing/Chargeback";
+import { QuotaEventBus, QuotaEventType } from "../events/QuotaEventBus";
+import { NetworkShape, PlacementCandidate, PlacementPlan, PlacementPlanner } from "../planning/PlacementPlanner";
+import { YamlQuotaStore } from "../storage/YamlQuotaStore";
+import { createQuotaStore, createSnapshotStore, DEFAULT_QUOTA_DATA_DIR } from "../storage/StoreFactory";
+import {
+    QuotaSnapshotStore,
+    QuotaSnapshotInfo,
+    QuotaSnapshotDiff,
+    QuotaTrends,
+    diffQuotaSnapshots,
+    buildQuotaTrends
+} from "../storage/QuotaSnapshotStore";
 
 /**
  * RecommendationDetails provides information about a recommended allocation
@@ -21,28 +50,55 @@ export interface RecommendationDetails {
     confidence: number;
     /** Reasons for this recommendation */
     reasons: string[];
+    /** Subscription recommended for deployment (when quota spans several subscriptions) */
+    subscriptionId?: string;
 }
 
 /**
  * RecommendationRequest contains parameters for generating recommendations
  */
 export interface RecommendationRequest {
-    /** Workload role/type needed */
+    /**
+     * Workload role/type needed
+     * @minLength 1
+     */
     role: string;
-    /** Minimum quota units needed */
+    /**
+     * Minimum quota units needed
+     * @asType integer
+     * @minimum 1
+     */
     minimumQuota: number;
     /** Preferred regions (optional) */
     preferredRegions?: string[];
-    /** SKU requirements/constraints (optional) */
-    skuRequirements?: {
-        minCores?: number;
-        minMemory?: number;
-        gpuRequired?: boolean;
-    };
-    /** Required features (optional) */
+    /** Preferred subscriptions (optional) */
+    preferredSubscriptions?: string[];
+    /** SKU requirements/constraints (optional), checked against the SKU catalog */
+    skuRequirements?: SkuRequirements;
+    /** Required features (optional), from SKU_FEATURES */
     requiredFeatures?: string[];
 }
 
+/**
+ * RecommendationExclusion explains why a SKU with quota for the role was not recommended
+ */
+export interface RecommendationExclusion {
+    region: string;
+    sku: string;
+    /** Requirements the SKU does not meet */
+    reasons: string[];
+}
+
+/**
+ * RecommendationResult holds the recommendations and the SKUs left out of them
+ */
+export interface RecommendationResult {
+    /** Recommendations sorted by confidence */
+    recommendations: RecommendationDetails[];
+    /** SKUs excluded by the SKU requirements, required features or allocation policies */
+    excluded: RecommendationExclusion[];
+}
+
 /**
  * QuotaAllocation represents a specific allocation of resources
  */
@@ -62,7 +118,165 @@ export interface QuotaAllocation {
     /** Application or service identifier */
     applicationId: string;
     /** Current status of allocation */
-    status: 'pending' | 'active' | 'released';
+    status: 'pending' | 'active' | 'released' | 'expired';
+    /** When a pending reservation lapses if not confirmed (reservations only) */
+    expiresAt?: string;
+    /** Batch transaction that created this allocation (batch allocations only) */
+    transactionId?: string;
+    /** Who requested the allocation */
+    requestedBy?: string;
+    /** Subscription the quota is drawn from (when quota spans several subscriptions) */
+    subscriptionId?: string;
+    /** When the allocation stopped holding quota (released and expired allocations) */
+    endedAt?: string;
+}
+
+/**
+ * AllocationRequestLine describes one region/SKU entry of a batch allocation
+ */
+export interface AllocationRequestLine {
+    /**
+     * Region where resources should be allocated
+     * @minLength 1
+     */
+    region: string;
+    /**
+     * SKU to allocate
+     * @minLength 1
+     */
+    sku: string;
+    /**
+     * Role/workload type
+     * @minLength 1
+     */
+    role: string;
+    /**
+     * Amount of quota to allocate
+     * @asType integer
+     * @minimum 1
+     */
+    amount: number;
+    /** Subscription to draw from (default: the one with the most available quota) */
+    subscriptionId?: string;
+}
+
+/**
+ * Why an allocation request was rejected:
+ * - `INVALID_REQUEST`: missing or invalid parameters
+ * - `QUOTA_NOT_FOUND`: the region or SKU has no quota data
+ * - `ROLE_NOT_ASSIGNED`: the SKU is not assigned to the role
+ * - `INSUFFICIENT_QUOTA`: not enough quota is available
+ * - `SUBSCRIPTION_UNAVAILABLE`: the requested subscription has no quota for the SKU
+ * - `POLICY_VIOLATION`: an allocation policy forbids the request
+ * - `BUDGET_EXCEEDED`: the application's budget forbids the request
+ * - `REGION_UNHEALTHY`: the region's compute services are degraded
+ */
+export type AllocationErrorCode =
+    | 'INVALID_REQUEST'
+    | 'QUOTA_NOT_FOUND'
+    | 'ROLE_NOT_ASSIGNED'
+    | 'INSUFFICIENT_QUOTA'
+    | 'SUBSCRIPTION_UNAVAILABLE'
+    | 'POLICY_VIOLATION'
+    | 'BUDGET_EXCEEDED'
+    | 'REGION_UNHEALTHY';
+
+/**
+ * AllocationRequest describes a single allocation or reservation
+ */
+export interface AllocationRequest extends AllocationRequestLine {
+    /** Identifier for the application using the allocation */
+    applicationId: string;
+    /** Create a pending reservation instead of an active allocation */
+    reserve?: boolean;
+    /** Time in milliseconds before a reservation expires (default: DEFAULT_RESERVATION_TTL_MS) */
+    ttlMs?: number;
+}
+
+/**
+ * AllocationOutcome is the new allocation, or why the request was rejected
+ */
+export interface AllocationOutcome {
+    allocation?: QuotaAllocation;
+    code?: AllocationErrorCode;
+    reason?: string;
+}
+
+/**
+ * AllocationFilter selects allocations by their fields; unset fields match everything
+ */
+export interface AllocationFilter {
+    applicationId?: string;
+    region?: string;
+    role?: string;
+    status?: QuotaAllocation['status'];
+}
+
+/**
+ * BatchAllocationLineResult reports the outcome of a single batch line
+ */
+export interface BatchAllocationLineResult {
+    /** Position of the line in the request */
+    index: number;
+    /** The requested line */
+    line: AllocationRequestLine;
+    /** Whether the line passed validation */
+    valid: boolean;
+    /** Allocation ID if the batch was committed */
+    allocationId?: string;
+    /** Why the line was rejected */
+    reason?: string;
+    /** Error code of the rejection */
+    code?: AllocationErrorCode;
+}
+
+/**
+ * BatchAllocationResult reports the outcome of an all-or-nothing batch allocation
+ */
+export interface BatchAllocationResult {
+    /** Identifier shared by all allocations created in this batch */
+    transactionId: string;
+    /** Whether every line was allocated */
+    committed: boolean;
+    /** Per-line results in request order */
+    lines: BatchAllocationLineResult[];
+}
+
+/**
+ * RebalanceProposal lists where an active allocation in a degraded region could move
+ */
+export interface RebalanceProposal {
+    /** The allocation to move */
+    allocation: QuotaAllocation;
+    /** Advisories of the degraded region */
+    advisories: string[];
+    /** Healthy regions/SKUs with enough quota for the allocation, best first */
+    targets: RecommendationDetails[];
+}
+
+/**
+ * RebalanceTarget is the region/SKU (and subscription) an allocation moves to
+ */
+export interface RebalanceTarget {
+    region: string;
+    sku: string;
+    subscriptionId?: string;
+}
+
+/**
+ * RebalanceResult reports the outcome of moving one allocation
+ */
+export interface RebalanceResult {
+    /** Allocation that was to be moved */
+    allocationId: string;
+    /** Whether the new allocation was created and the old one released */
+    migrated: boolean;
+    /** Replacement allocation (migrated allocations, or a replacement left active because the original could not be released) */
+    newAllocationId?: string;
+    /** Region/SKU the allocation moved to (migrated allocations, or where a replacement was left active) */
+    target?: RebalanceTarget;
+    /** Why the allocation was not moved */
+    reason?: string;
 }
 
 /**
@@ -79,8 +293,96 @@ export interface ResourceQuota {
     assigned_to: string[];
     /** Current allocations from this quota */
     allocations?: QuotaAllocation[];
+    /**
+     * Per-subscription breakdown when the quota spans several subscriptions.
+     * The figures above are the sums across subscriptions.
+     */
+    subscriptions?: Record<string, SubscriptionQuota>;
+    /** vCPUs one instance takes from the quota of its VM family */
+    vCPUs?: number;
+    /** Azure VM family quota the SKU shares with the family's other SKUs, summed across subscriptions */
+    family?: FamilyQuota;
+}
+
+/**
+ * QuotaMatrixEntry is a region/SKU quota as shown to clients, without its allocations
+ */
+export interface QuotaMatrixEntry {
+    total: number;
+    used: number;
+    available: number;
+    /** Roles that can use this quota */
+    assigned_to: string[];
+    /** Per-subscription breakdown when the quota spans several subscriptions */
+    subscriptions?: Record<string, SubscriptionQuota>;
+}
+
+/**
+ * SubscriptionQuota is one subscription's share of a region/SKU quota
+ */
+export interface SubscriptionQuota {
+    total: number;
+    used: number;
+    available: number;
+    /** The subscription's quota of the SKU's VM family */
+    family?: FamilyQuota;
+}
+
+/**
+ * FamilyQuota is the vCPU quota Azure enforces per VM family, which every SKU of the
+ * family in a region draws from
+ */
+export interface FamilyQuota {
+    /** VM family, e.g. standardDSv3Family */
+    name: string;
+    /** vCPU limit of the family */
+    limitVcpus: number;
+    /** vCPUs of the family in use */
+    usedVcpus: number;
+}
+
+/**
+ * QuotaUsageSummary rolls up quota figures across regions or subscriptions
+ */
+export interface QuotaUsageSummary {
+    total: number;
+    used: number;
+    available: number;
+    usage_percent: string;
+}
+
+/**
+ * Outcome of a refresh requested through requestRefresh
+ */
+export interface RefreshOutcome {
+    /** Whether the quota data was refreshed */
+    success: boolean;
+    /** Whether the request joined a refresh that was already in progress */
+    coalesced: boolean;
+}
+
+/**
+ * Thrown by requestRefresh when the last refresh finished less than the
+ * minimum refresh interval ago
+ */
+export class RefreshThrottledError extends Error {
+    constructor(public readonly retryAfterMs: number) {
+        super(`Quota data was refreshed recently; retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+        this.name = "RefreshThrottledError";
+    }
 }
 
+/**
+ * Events published when an allocation action succeeds
+ */
+const ALLOCATION_EVENTS: Partial<Record<AuditEvent['action'], QuotaEventType>> = {
+    allocate: 'allocation.created',
+    reserve: 'allocation.reserved',
+    confirm: 'allocation.confirmed',
+    release: 'allocation.released',
+    expire: 'allocation.expired'
+};
+
 /**
  * QuotaEngine validates and tracks Azure resource quota
  * allocations across different regions and roles.
@@ -91,21 +393,88 @@ export class QuotaEngine {
     private allocations: Map<string, QuotaAllocation> = new Map();
     private lastRefresh: Date | null = null;
     private refreshIntervalMs = 3600000; // 1 hour by default
+    private minRefreshIntervalMs = parseInt(process.env.QUOTA_REFRESH_MIN_INTERVAL_MS || String(QuotaEngine.DEFAULT_MIN_REFRESH_INTERVAL_MS), 10);
+    private refreshTimeoutMs = parseInt(process.env.QUOTA_REFRESH_TIMEOUT_MS || String(QuotaEngine.DEFAULT_REFRESH_TIMEOUT_MS), 10);
+    // Aborted on close, so a refresh in progress stops retrying
+    private readonly closing = new AbortController();
+    private lastRefreshAttempt: Date | null = null;
+    private refreshInFlight: Promise<boolean> | null = null;
+    private reservationSweepTimer: NodeJS.Timeout | null = null;
+    private refreshSchedulerTimer: NodeJS.Timeout | null = null;
+    private store: QuotaStore;
+    private snapshots: QuotaSnapshotStore;
+    private provider: QuotaProvider;
+    private catalog: SkuCatalog | null;
+    private policies: PolicyEngine | null;
+    private budgets: ApplicationBudgets | null;
+    private quotaVersion = 0;
+    private allocationVersion = 0;
+    private alertLevels: Map<string, QuotaAlertLevel> = new Map();
+
+    /** Quota and allocation changes, for streaming to clients */
+    public readonly events = new QuotaEventBus();
+
+    /** Default lifetime of a reservation that has not been confirmed */
+    public static readonly DEFAULT_RESERVATION_TTL_MS = 900000; // 15 minutes
+    /** How often expired reservations are swept once the engine is initialized */
+    public static readonly RESERVATION_SWEEP_INTERVAL_MS = 60000;
+    /** Least time between the end of one requested refresh and the start of the next */
+    public static readonly DEFAULT_MIN_REFRESH_INTERVAL_MS = 60000;
+    /** Longest a single attempt to fetch quota data from the provider may take */
+    public static readonly DEFAULT_REFRESH_TIMEOUT_MS = 120000;
+    /** How often the refresh scheduler checks whether quota data needs a refresh */
+    public static readonly REFRESH_CHECK_INTERVAL_MS = 60000;
+    /** Actor recorded in the audit trail when no requester is given */
+    public static readonly SYSTEM_ACTOR = 'system';
+    /** Actor recorded in the audit trail for refreshes started by the refresh scheduler */
+    public static readonly SCHEDULER_ACTOR = 'scheduler';
+    /** Subscription key used in roll-ups for quota without a per-subscription breakdown */
+    public static readonly DEFAULT_SUBSCRIPTION = 'default';
 
+    /**
+     * @param storeOrQuotaFile Store to persist to, or the path of a YAML quota file
+     *   (default: the store selected by QUOTA_STORE, see createQuotaStore)
+     * @param allocationFile Path of the YAML allocations file when a quota file path is given
+     * @param snapshots Store for the quota snapshot taken on every refresh
+     *   (default: the directory selected by QUOTA_SNAPSHOT_DIR, see createSnapshotStore)
+     * @param provider Source of quota data on refresh
+     *   (default: the provider selected by QUOTA_PROVIDER, see createQuotaProvider)
+     * @param catalog SKU capabilities recommendations are checked against
+     *   (default: the catalog file selected by SKU_CATALOG_PATH, loaded on first use, see SkuCatalog.load)
+     * @param policies Allocation policies checked before every allocation
+     *   (default: the policy file selected by QUOTA_POLICY_FILE, loaded on first use, see PolicyEngine.load)
+     * @param budgets Per-application budgets checked before every allocation, with the price table for chargeback
+     *   (default: the budget file selected by QUOTA_BUDGET_FILE, loaded on first use, see ApplicationBudgets.load)
+     */
     constructor(
-        private quotaFile = path.join(__dirname, "../../data/quotas/live-quotas.yaml"),
-        private allocationFile = path.join(__dirname, "../../data/quotas/allocations.yaml")
+        storeOrQuotaFile: QuotaStore | string = createQuotaStore(),
+        allocationFile = path.join(DEFAULT_QUOTA_DATA_DIR, "allocations.yaml"),
+        snapshots = createSnapshotStore(),
+        provider = createQuotaProvider(),
+        catalog?: SkuCatalog,
+        policies?: PolicyEngine,
+        budgets?: ApplicationBudgets
     ) {
         // Initialize telemetry
-        TelemetryService.initialize();
-
-        // Verify quota file exists
-        if (!fs.existsSync(this.quotaFile)) {
-            const error = new Error(`Quota file not found: ${this.quotaFile}`);
+        TelemetryService.initialize('orchestrator-engine');
+
+        this.store = typeof storeOrQuotaFile === 'string'
+            ? new YamlQuotaStore(storeOrQuotaFile, allocationFile)
+            : storeOrQuotaFile;
+        this.snapshots = snapshots;
+        this.provider = provider;
+        this.catalog = catalog || null;
+        this.policies = policies || null;
+        this.budgets = budgets || null;
+
+        // Verify quota data exists
+        if (!this.store.hasQuotaData()) {
+            const error = new Error(`Quota data not found: ${this.store.location}`);
             TelemetryService.trackException(error, {
                 operation: 'QuotaEngineConstructor',
-                quotaFile: this.quotaFile
+                store: this.store.location
             });
+            this.store.close();
             throw error;
         }
 
@@ -118,6 +487,10 @@ export class QuotaEngine {
 
         this.loadData();
         this.loadAllocations();
+        this.publishAlertTransitions();
+
+        // Reservations left behind by crashed pipelines are released on load
+        this.releaseExpiredReservations();
 
         // Actual connectivity check will be done asynchronously
     }
@@ -134,6 +507,9 @@ export class QuotaEngine {
             this.connectionState = await ConnectivityService.checkConnections();
             ConnectivityService.logConnectionStatus(this.connectionState);
 
+            // Keep releasing reservations that lapse while the engine is running
+            this.startReservationSweeper();
+
             TelemetryService.trackEvent('QuotaEngineInitialized', {
                 azureConnected: this.connectionState.azureConnected.toString()
             });
@@ -145,19 +521,59 @@ export class QuotaEngine {
         }
     }
 
+    /**
+     * Stops background timers, cancels a refresh in progress and releases the underlying store
+     */
+    public close(): void {
+        this.closing.abort();
+        this.stopReservationSweeper();
+        this.stopRefreshScheduler();
+        this.store.close();
+    }
+
+    /**
+     * Reloads quota data and allocations from storage, picking up changes
+     * made by other processes
+     */
+    public reload(): void {
+        this.loadData();
+        this.loadAllocations();
+    }
+
+    /**
+     * Reloads whatever another process (e.g. another replica on the same database) has
+     * saved since it was loaded, so reads and validation never work on stale state.
+     * Called before every read and validation; when nothing changed it only reads the versions.
+     */
+    private syncWithStore(): void {
+        const versions = this.store.getVersions();
+        const quotaChanged = versions.quotaVersion !== this.quotaVersion;
+
+        if (quotaChanged) {
+            this.loadData();
+        }
+        if (versions.allocationVersion !== this.allocationVersion) {
+            // Also applies the allocations to the reloaded quota data
+            this.loadAllocations();
+        } else if (quotaChanged) {
+            this.syncAllocationsWithQuota();
+        }
+    }
+
     private loadData(): void {
         try {
-            const fileContent = fs.readFileSync(this.quotaFile, "utf-8");
-            this.data = yaml.parse(fileContent);
+            const document = this.store.loadQuotaData();
+            this.data = document.data || {};
+            this.quotaVersion = document.version;
             TelemetryService.trackEvent('QuotaDataLoaded', {
-                quotaFile: this.quotaFile,
+                store: this.store.location,
                 regions: Object.keys(this.data).length.toString()
             });
         } catch (error) {
             console.error(chalk.red(`❌ Failed to load quota data: ${error instanceof Error ? error.message : String(error)}`));
             TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
                 operation: 'LoadQuotaData',
-                quotaFile: this.quotaFile
+                store: this.store.location
             });
             // Initialize empty data to prevent errors
             this.data = {};
@@ -166,9 +582,10 @@ export class QuotaEngine {
 
     private loadAllocations(): void {
         try {
-            if (fs.existsSync(this.allocationFile)) {
-                const fileContent = fs.readFileSync(this.allocationFile, "utf-8");
-                const allocationsArray: QuotaAllocation[] = yaml.parse(fileContent);
+            if (this.store.hasAllocations()) {
+                const document = this.store.loadAllocations();
+                const allocationsArray: QuotaAllocation[] = document.data || [];
+                this.allocationVersion = document.version;
 
                 // Clear existing allocations and load from file
                 this.allocations.clear();
@@ -187,15 +604,15 @@ export class QuotaEngine {
                     count: this.allocations.size.toString()
                 });
             } else {
-                console.log(chalk.yellow(`⚠️ Allocations file not found, creating new: ${this.allocationFile}`));
-                // Create an empty file
+                console.log(chalk.yellow(`⚠️ No stored allocations found, creating new in: ${this.store.location}`));
+                // Create an empty allocation set
                 this.saveAllocations();
             }
         } catch (error) {
             console.error(chalk.red(`❌ Failed to load allocations: ${error instanceof Error ? error.message : String(error)}`));
             TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
                 operation: 'LoadAllocations',
-                allocationFile: this.allocationFile
+                store: this.store.location
             });
 
             // Initialize empty allocations to prevent errors
@@ -203,20 +620,20 @@ export class QuotaEngine {
         }
     }
 
+    /**
+     * Persists allocations. If another process has written newer allocations since they
+     * were loaded, or holds the store lock, the unsaved changes are discarded, fresh state
+     * is reloaded and the StoreConflictError or FileLockTimeoutError is rethrown. Any other
+     * failure is rethrown too, and the unsaved changes are discarded by the next operation,
+     * which reloads what the store holds.
+     */
     private saveAllocations(): void {
         try {
             // Convert Map to array for serialization
             const allocationsArray = Array.from(this.allocations.values());
 
-            // Create directory if it doesn't exist
-            const dir = path.dirname(this.allocationFile);
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
-            }
-
-            // Write to file
-            const yamlOutput = yaml.stringify(allocationsArray);
-            fs.writeFileSync(this.allocationFile, yamlOutput, "utf8");
+            // Write to file, failing if another writer got there first
+            this.allocationVersion = this.store.saveAllocations(allocationsArray, this.allocationVersion);
 
             console.log(chalk.green(`✅ Saved ${allocationsArray.length} quota allocations`));
 
@@ -227,8 +644,34 @@ export class QuotaEngine {
             console.error(chalk.red(`❌ Failed to save allocations: ${error instanceof Error ? error.message : String(error)}`));
             TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
                 operation: 'SaveAllocations',
-                allocationFile: this.allocationFile
+                store: this.store.location
             });
+
+            if (isStoreConflict(error)) {
+                console.log(chalk.yellow('⚠️ Allocations were changed by another process, reloading'));
+                this.loadAllocations();
+            } else {
+                // No stored version matches, so syncWithStore reloads before the next operation
+                this.allocationVersion = -1;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Persists quota data. On a version conflict, or while another process holds the
+     * store lock, the latest quota data is reloaded and the error is rethrown.
+     */
+    private saveQuotaData(): void {
+        try {
+            this.quotaVersion = this.store.saveQuotaData(this.data, this.quotaVersion);
+        } catch (error) {
+            if (isStoreConflict(error)) {
+                console.log(chalk.yellow('⚠️ Quota data was changed by another process, reloading'));
+                this.loadData();
+                this.syncAllocationsWithQuota();
+            }
+            throw error;
         }
     }
 
@@ -238,6 +681,9 @@ export class QuotaEngine {
             for (const sku in this.data[region]) {
                 const quota = this.data[region][sku];
                 quota.available = quota.total - quota.used;
+                for (const share of Object.values(quota.subscriptions || {})) {
+                    share.available = share.total - share.used;
+                }
 
                 // Initialize allocations array if it doesn't exist
                 if (!quota.allocations) {
@@ -249,9 +695,9 @@ export class QuotaEngine {
             }
         }
 
-        // Apply active allocations to the quota data
+        // Apply active allocations and pending reservations to the quota data
         for (const allocation of this.allocations.values()) {
-            if (allocation.status === 'active') {
+            if (allocation.status === 'active' || allocation.status === 'pending') {
                 const region = allocation.region;
                 const sku = allocation.sku;
 
@@ -262,8 +708,9 @@ export class QuotaEngine {
 
                 const quota = this.data[region][sku];
 
-                // Add allocation to the quota's allocations
+                // Add allocation to the quota's allocations and hold its amount
                 quota.allocations?.push(allocation);
+                this.adjustAvailable(quota, allocation, -allocation.amount);
             }
         }
     }
@@ -277,6 +724,7 @@ export class QuotaEngine {
      * @returns true if quota is available, false otherwise.
      */
     public async validateQuota(region: string, role: string, amount = 1): Promise<boolean> {
+        this.syncWithStore();
         if (!region || !role) {
             const errorMessage = `Invalid parameters: region='${region}', role='${role}'`;
             console.error(chalk.red(`❌ ${errorMessage}`));
@@ -300,9 +748,21 @@ export class QuotaEngine {
             return false;
         }
 
+        const violations: PolicyViolation[] = [];
+
         for (const sku of Object.keys(regionData)) {
             const details = regionData[sku];
             if (details.assigned_to.includes(role) && details.available >= amount) {
+                // The SKU has room, but the allocation policies must allow using it too
+                const skuViolations = this.getPolicies().evaluate(
+                    { region, sku, role, amount },
+                    this.policyContext(details, region, sku)
+                );
+                if (skuViolations.length > 0) {
+                    violations.push(...skuViolations);
+                    continue;
+                }
+
                 TelemetryService.trackEvent('QuotaValidationSucceeded', {
                     region,
                     role,
@@ -314,7 +774,9 @@ export class QuotaEngine {
             }
         }
 
-        const errorMessage = `No available quota for role '${role}' in region '${region}'.`;
+        const errorMessage = violations.length > 0
+            ? `No quota for role '${role}' in region '${region}' is allowed by policy. ${formatViolations(violations)}`
+            : `No available quota for role '${role}' in region '${region}'.`;
         console.error(chalk.red(`❌ ${errorMessage}`));
         TelemetryService.trackException(new Error(errorMessage), {
             operation: 'ValidateQuota',
@@ -331,6 +793,8 @@ export class QuotaEngine {
      * @param role Role or workload type
      * @param amount Amount of quota to allocate
      * @param applicationId Identifier for the application using this allocation
+     * @param requestedBy Who requested the allocation, for the audit trail
+     * @param subscriptionId Subscription to draw from (default: the one with the most available quota)
      * @returns Allocation ID if successful, null if failed
      */
     public async allocateQuota(
@@ -338,143 +802,744 @@ export class QuotaEngine {
         sku: string,
         role: string,
         amount: number,
-        applicationId: string
+        applicationId: string,
+        requestedBy = QuotaEngine.SYSTEM_ACTOR,
+        subscriptionId?: string
     ): Promise<string | null> {
-        // Validate parameters
-        if (!region || !sku || !role || amount <= 0 || !applicationId) {
-            console.error(chalk.red('❌ Invalid allocation parameters'));
-            return null;
-        }
+        const outcome = await this.requestAllocation({ region, sku, role, amount, applicationId, subscriptionId }, requestedBy);
+        return outcome.allocation?.id ?? null;
+    }
 
-        // Check if region and SKU exist
-        if (!this.data[region] || !this.data[region][sku]) {
-            console.error(chalk.red(`❌ Region ${region} or SKU ${sku} not found`));
-            return null;
+    /**
+     * Reserves quota for a limited time. The reservation holds the quota like an
+     * active allocation until it is confirmed, released or its TTL lapses.
+     * @param region Azure region for the reservation
+     * @param sku Specific SKU to reserve
+     * @param role Role or workload type
+     * @param amount Amount of quota to reserve
+     * @param applicationId Identifier for the application requesting the reservation
+     * @param ttlMs Time in milliseconds before the reservation expires
+     * @param requestedBy Who requested the reservation, for the audit trail
+     * @param subscriptionId Subscription to draw from (default: the one with the most available quota)
+     * @returns Reservation ID if successful, null if failed
+     */
+    public async reserveQuota(
+        region: string,
+        sku: string,
+        role: string,
+        amount: number,
+        applicationId: string,
+        ttlMs = QuotaEngine.DEFAULT_RESERVATION_TTL_MS,
+        requestedBy = QuotaEngine.SYSTEM_ACTOR,
+        subscriptionId?: string
+    ): Promise<string | null> {
+        const outcome = await this.requestAllocation({ region, sku, role, amount, applicationId, subscriptionId, reserve: true, ttlMs }, requestedBy);
+        return outcome.allocation?.id ?? null;
+    }
+
+    /**
+     * Allocates or reserves quota, reporting why a rejected request was not allowed.
+     * allocateQuota and reserveQuota are shorthands returning only the ID.
+     * @param request What to allocate, and whether to reserve it instead
+     * @param requestedBy Who requested the allocation, for the audit trail
+     * @returns The new allocation, or the error code and reason it was rejected
+     */
+    public async requestAllocation(request: AllocationRequest, requestedBy = QuotaEngine.SYSTEM_ACTOR): Promise<AllocationOutcome> {
+        const { region, sku, role, amount, applicationId, subscriptionId, reserve } = request;
+        const ttlMs = request.ttlMs ?? QuotaEngine.DEFAULT_RESERVATION_TTL_MS;
+
+        // Health is checked up front: validating and committing must not be split by an
+        // await, or a concurrent allocation could take the quota in between
+        const regionHealth = await this.checkRegionHealth([region]);
+        this.syncWithStore();
+        const check = reserve && !(ttlMs > 0)
+            ? { code: 'INVALID_REQUEST' as const, reason: `Invalid reservation TTL: ${ttlMs}` }
+            : this.checkAllocationEligibility(region, sku, role, amount, applicationId, regionHealth, subscriptionId);
+        if (!check.quota) {
+            console.error(chalk.red(`❌ ${check.reason}`));
+            this.recordAudit({
+                action: 'reject', outcome: 'failure', requestedBy, applicationId, region, sku, role, amount,
+                reason: check.reason,
+                details: { code: check.code as AllocationErrorCode }
+            });
+            return { code: check.code, reason: check.reason };
         }
 
-        const skuData = this.data[region][sku];
+        if (reserve) {
+            const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+            const reservation = this.createAllocation(check.quota, {
+                region, sku, role, amount, applicationId, status: 'pending', expiresAt, requestedBy,
+                subscriptionId: check.subscriptionId
+            });
+            this.saveAllocations();
+            this.recordAllocationAudit('reserve', reservation, requestedBy, { expiresAt });
 
-        // Check if the SKU supports this role
-        if (!skuData.assigned_to.includes(role)) {
-            console.error(chalk.red(`❌ SKU ${sku} in ${region} is not assigned to role ${role}`));
-            return null;
-        }
+            console.log(chalk.green(`✅ Reserved ${amount} units of ${sku} in ${region} for ${role} until ${expiresAt} (ID: ${reservation.id})`));
 
-        // Check if enough quota is available
-        if (skuData.available < amount) {
-            console.error(chalk.red(`❌ Not enough quota available in ${region} for ${sku}: needed ${amount}, available ${skuData.available}`));
-            return null;
+            TelemetryService.trackEvent('QuotaReserved', {
+                region,
+                sku,
+                role,
+                amount: amount.toString(),
+                applicationId,
+                allocationId: reservation.id,
+                expiresAt,
+                requestedBy
+            });
+
+            return { allocation: reservation };
         }
 
-        // Check region health if connected to Azure
-        if (this.connectionState.azureConnected) {
-            const regionHealth = await ConnectivityService.checkComputeServicesInRegions([region]);
-            const isHealthy = regionHealth.get(region);
+        const allocation = this.createAllocation(check.quota, {
+            region, sku, role, amount, applicationId, status: 'active', requestedBy, subscriptionId: check.subscriptionId
+        });
+        this.saveAllocations();
+        this.recordAllocationAudit('allocate', allocation, requestedBy);
 
-            if (!isHealthy) {
-                console.error(chalk.red(`❌ Region ${region} is currently experiencing issues. Allocation not recommended.`));
-                TelemetryService.trackEvent('QuotaAllocationRejected', {
-                    reason: 'RegionUnhealthy',
-                    region,
-                    sku
-                });
-                return null;
-            }
-        }
+        console.log(chalk.green(`✅ Allocated ${amount} units of ${sku} in ${region} for ${role} (ID: ${allocation.id})`));
 
-        // Create allocation record
-        const allocationId = uuidv4();
-        const allocation: QuotaAllocation = {
-            id: allocationId,
-            timestamp: new Date().toISOString(),
+        TelemetryService.trackEvent('QuotaAllocated', {
             region,
             sku,
             role,
-            amount,
+            amount: amount.toString(),
             applicationId,
-            status: 'active'
-        };
+            allocationId: allocation.id,
+            requestedBy
+        });
 
-        // Update available quota
-        skuData.available -= amount;
+        return { allocation };
+    }
 
-        // Store allocation
-        this.allocations.set(allocationId, allocation);
+    /**
+     * Allocates quota across several regions/SKUs as a single transaction.
+     * Every line is validated first; allocations are only created if all lines pass.
+     * Validation and commit run without yielding, so a concurrent allocation cannot
+     * take quota a validated line counts on.
+     * @param lines Region/SKU/role/amount entries to allocate
+     * @param applicationId Identifier for the application using these allocations
+     * @param requestedBy Who requested the batch, for the audit trail
+     * @returns Per-line results and whether the batch was committed
+     */
+    public async allocateQuotaBatch(
+        lines: AllocationRequestLine[],
+        applicationId: string,
+        requestedBy = QuotaEngine.SYSTEM_ACTOR
+    ): Promise<BatchAllocationResult> {
+        const transactionId = uuidv4();
+        const results: BatchAllocationLineResult[] = [];
+
+        // Lines claimed by earlier lines of this batch, with the subscriptions they draw from
+        const claimedByBatch: AllocationRequestLine[] = [];
+        const subscriptions: (string | undefined)[] = [];
+
+        // The only await: region health of every line, before anything is validated
+        const regionHealth = await this.checkRegionHealth([...new Set(lines.map(line => line.region))]);
+        this.syncWithStore();
+
+        // Validate every line before touching any quota
+        for (let index = 0; index < lines.length; index++) {
+            const line = lines[index];
+
+            const check = this.checkAllocationEligibility(
+                line.region, line.sku, line.role, line.amount, applicationId, regionHealth, line.subscriptionId, claimedByBatch
+            );
+
+            if (check.quota) {
+                claimedByBatch.push({ ...line, subscriptionId: check.subscriptionId });
+                subscriptions[index] = check.subscriptionId;
+                results.push({ index, line, valid: true });
+            } else {
+                results.push({ index, line, valid: false, reason: check.reason, code: check.code });
+            }
+        }
 
-        // Add allocation to SKU record
-        if (!skuData.allocations) {
-            skuData.allocations = [];
+        const committed = lines.length > 0 && results.every(r => r.valid);
+
+        if (!committed) {
+            const failedCount = results.filter(r => !r.valid).length;
+            console.error(chalk.red(`❌ Batch allocation ${transactionId} rejected: ${failedCount} of ${lines.length} lines failed validation`));
+            results.filter(r => !r.valid).forEach(r => {
+                console.error(chalk.red(`   Line ${r.index + 1} (${r.line.region}/${r.line.sku}): ${r.reason}`));
+                this.recordAudit({
+                    action: 'reject', outcome: 'failure', requestedBy, applicationId,
+                    region: r.line.region, sku: r.line.sku, role: r.line.role, amount: r.line.amount,
+                    reason: r.reason,
+                    details: { transactionId, line: (r.index + 1).toString() }
+                });
+            });
+
+            TelemetryService.trackEvent('QuotaBatchAllocationRejected', {
+                transactionId,
+                applicationId,
+                lineCount: lines.length.toString(),
+                failedCount: failedCount.toString(),
+                requestedBy
+            });
+
+            return { transactionId, committed: false, lines: results };
+        }
+
+        // All lines passed, commit them together
+        const created: QuotaAllocation[] = [];
+        for (const result of results) {
+            const { region, sku, role, amount } = result.line;
+            const allocation = this.createAllocation(this.data[region][sku], {
+                region, sku, role, amount, applicationId, status: 'active', transactionId, requestedBy,
+                subscriptionId: subscriptions[result.index]
+            });
+            result.allocationId = allocation.id;
+            created.push(allocation);
         }
-        skuData.allocations.push(allocation);
 
-        // Save to disk
         this.saveAllocations();
+        created.forEach(allocation => this.recordAllocationAudit('allocate', allocation, requestedBy, { transactionId }));
 
-        console.log(chalk.green(`✅ Allocated ${amount} units of ${sku} in ${region} for ${role} (ID: ${allocationId})`));
+        console.log(chalk.green(`✅ Batch allocation ${transactionId} committed ${lines.length} allocations for ${applicationId}`));
 
-        TelemetryService.trackEvent('QuotaAllocated', {
-            region,
-            sku,
-            role,
-            amount: amount.toString(),
+        TelemetryService.trackEvent('QuotaBatchAllocated', {
+            transactionId,
             applicationId,
-            allocationId
+            lineCount: lines.length.toString(),
+            totalAmount: lines.reduce((sum, line) => sum + line.amount, 0).toString(),
+            requestedBy
         });
 
-        return allocationId;
+        return { transactionId, committed: true, lines: results };
     }
 
     /**
-     * Releases a previously allocated quota
-     * @param allocationId ID of the allocation to release
-     * @returns true if released successfully, false if allocation not found or already released
+     * Confirms a pending reservation, turning it into an active allocation
+     * @param allocationId ID of the reservation to confirm
+     * @param requestedBy Who confirmed the reservation, for the audit trail
+     * @returns true if the reservation is now active, false if not found, expired or released
      */
-    public releaseQuota(allocationId: string): boolean {
-        // Find allocation
+    public confirmReservation(allocationId: string, requestedBy = QuotaEngine.SYSTEM_ACTOR): boolean {
+        this.syncWithStore();
         const allocation = this.allocations.get(allocationId);
 
         if (!allocation) {
-            console.error(chalk.red(`❌ Allocation not found: ${allocationId}`));
+            console.error(chalk.red(`❌ Reservation not found: ${allocationId}`));
             return false;
         }
 
-        // Skip if already released
-        if (allocation.status === 'released') {
-            console.log(chalk.yellow(`⚠️ Allocation already released: ${allocationId}`));
+        // Skip if already confirmed
+        if (allocation.status === 'active') {
+            console.log(chalk.yellow(`⚠️ Reservation already confirmed: ${allocationId}`));
             return true;
         }
 
-        // Update status
-        allocation.status = 'released';
-
-        // Update quota available if region and SKU still exist
-        const region = allocation.region;
-        const sku = allocation.sku;
-
-        if (this.data[region] && this.data[region][sku]) {
-            this.data[region][sku].available += allocation.amount;
-
-            // Update allocations list
-            if (this.data[region][sku].allocations) {
-                const allocations = this.data[region][sku].allocations || [];
-                const index = allocations.findIndex(a => a.id === allocationId);
+        // A reservation past its TTL may not have been swept yet
+        if (allocation.status === 'pending' && this.isReservationExpired(allocation, new Date())) {
+            this.releaseExpiredReservations();
+        }
 
-                if (index >= 0) {
-                    allocations[index].status = 'released';
-                }
-            }
+        if (allocation.status !== 'pending') {
+            console.error(chalk.red(`❌ Reservation ${allocationId} cannot be confirmed (status: ${allocation.status})`));
+            this.recordAllocationAudit('confirm', allocation, requestedBy, undefined, `Reservation is ${allocation.status}`);
+            TelemetryService.trackEvent('QuotaReservationConfirmFailed', {
+                allocationId,
+                status: allocation.status
+            });
+            return false;
         }
 
-        // Save changes
+        allocation.status = 'active';
+        delete allocation.expiresAt;
+
         this.saveAllocations();
+        this.recordAllocationAudit('confirm', allocation, requestedBy);
 
-        console.log(chalk.green(`✅ Released quota allocation: ${allocationId}`));
+        console.log(chalk.green(`✅ Confirmed quota reservation: ${allocationId}`));
 
-        TelemetryService.trackEvent('QuotaReleased', {
+        TelemetryService.trackEvent('QuotaReservationConfirmed', {
             allocationId,
             region: allocation.region,
             sku: allocation.sku,
-            amount: allocation.amount.toString()
+            amount: allocation.amount.toString(),
+            requestedBy
+        });
+
+        return true;
+    }
+
+    /**
+     * Releases every pending reservation whose TTL has lapsed and returns
+     * its quota to the available pool
+     * @param now Point in time to compare expiry against (default: current time)
+     * @returns Number of reservations that were expired
+     */
+    public releaseExpiredReservations(now: Date = new Date()): number {
+        this.syncWithStore();
+        const expired: QuotaAllocation[] = [];
+
+        for (const allocation of this.allocations.values()) {
+            if (allocation.status !== 'pending' || !this.isReservationExpired(allocation, now)) {
+                continue;
+            }
+
+            allocation.status = 'expired';
+            allocation.endedAt = allocation.expiresAt || now.toISOString();
+
+            // Return the held quota if region and SKU still exist
+            const quota = this.data[allocation.region]?.[allocation.sku];
+            if (quota) {
+                this.adjustAvailable(quota, allocation, allocation.amount);
+            }
+
+            expired.push(allocation);
+
+            console.log(chalk.yellow(`⚠️ Quota reservation expired: ${allocation.id} (${allocation.amount} units of ${allocation.sku} in ${allocation.region})`));
+
+            TelemetryService.trackEvent('QuotaReservationExpired', {
+                allocationId: allocation.id,
+                region: allocation.region,
+                sku: allocation.sku,
+                amount: allocation.amount.toString(),
+                applicationId: allocation.applicationId,
+                expiresAt: allocation.expiresAt || 'unknown'
+            });
+        }
+
+        if (expired.length > 0) {
+            this.saveAllocations();
+            expired.forEach(allocation => this.recordAllocationAudit('expire', allocation, QuotaEngine.SYSTEM_ACTOR, {
+                expiresAt: allocation.expiresAt || 'unknown'
+            }));
+        }
+
+        return expired.length;
+    }
+
+    /**
+     * Starts the timer that periodically releases expired reservations.
+     * The timer does not keep the process alive on its own.
+     * @param intervalMs Sweep interval in milliseconds
+     */
+    public startReservationSweeper(intervalMs = QuotaEngine.RESERVATION_SWEEP_INTERVAL_MS): void {
+        this.stopReservationSweeper();
+
+        this.reservationSweepTimer = setInterval(() => {
+            try {
+                this.releaseExpiredReservations();
+            } catch (error) {
+                // A conflicting writer was reloaded; the next sweep works on fresh state
+                console.error(chalk.red(`❌ Reservation sweep failed: ${error instanceof Error ? error.message : String(error)}`));
+            }
+        }, intervalMs);
+        this.reservationSweepTimer.unref();
+    }
+
+    /**
+     * Stops the reservation sweep timer if it is running
+     */
+    public stopReservationSweeper(): void {
+        if (this.reservationSweepTimer) {
+            clearInterval(this.reservationSweepTimer);
+            this.reservationSweepTimer = null;
+        }
+    }
+
+    /**
+     * Checks whether an allocation request can be satisfied. The check is synchronous so
+     * callers can commit the allocation before anything else changes the quota.
+     * @param regionHealth Health of the region, from checkRegionHealth
+     * @param subscriptionId Subscription to draw from (default: the one with the most available quota)
+     * @param claimedByBatch Lines already claimed by an uncommitted batch, with the subscriptions they draw from
+     * @returns The SKU quota record and subscription to allocate from, or the reason the request is not allowed
+     */
+    private checkAllocationEligibility(
+        region: string,
+        sku: string,
+        role: string,
+        amount: number,
+        applicationId: string,
+        regionHealth: Map<string, boolean>,
+        subscriptionId?: string,
+        claimedByBatch: AllocationRequestLine[] = []
+    ): { quota?: ResourceQuota; subscriptionId?: string; code?: AllocationErrorCode; reason?: string } {
+        // Validate parameters
+        if (!region || !sku || !role || !(amount > 0) || !applicationId) {
+            return { code: 'INVALID_REQUEST', reason: 'Invalid allocation parameters' };
+        }
+
+        // Check if region and SKU exist
+        if (!this.data[region] || !this.data[region][sku]) {
+            return { code: 'QUOTA_NOT_FOUND', reason: `Region ${region} or SKU ${sku} not found` };
+        }
+
+        const skuData = this.data[region][sku];
+
+        // Check if the SKU supports this role
+        if (!skuData.assigned_to.includes(role)) {
+            return { code: 'ROLE_NOT_ASSIGNED', reason: `SKU ${sku} in ${region} is not assigned to role ${role}` };
+        }
+
+        // Check if enough quota is available
+        const available = skuData.available - this.heldByBatch(claimedByBatch, region, sku);
+        if (available < amount) {
+            return { code: 'INSUFFICIENT_QUOTA', reason: `Not enough quota available in ${region} for ${sku}: needed ${amount}, available ${available}` };
+        }
+
+        // Check the allocation policies
+        const violations = this.getPolicies().evaluate(
+            { region, sku, role, amount, applicationId },
+            this.policyContext(skuData, region, sku, applicationId, claimedByBatch)
+        );
+        if (violations.length > 0) {
+            TelemetryService.trackEvent('QuotaAllocationRejected', {
+                reason: 'PolicyViolation',
+                region,
+                sku,
+                policies: violations.map(v => v.rule).join(';')
+            });
+            return { code: 'POLICY_VIOLATION', reason: formatViolations(violations) };
+        }
+
+        // Check the application's budget
+        const overBudget = this.getBudgets().check(applicationId, { region, sku, amount }, this.applicationHoldings(applicationId, claimedByBatch));
+        if (overBudget) {
+            TelemetryService.trackEvent('QuotaAllocationRejected', {
+                reason: 'BudgetExceeded',
+                region,
+                sku,
+                applicationId
+            });
+            return { code: 'BUDGET_EXCEEDED', reason: overBudget };
+        }
+
+        // Pick the subscription to draw from when quota spans several
+        const subscription = this.selectSubscription(skuData, region, sku, amount, subscriptionId, claimedByBatch);
+        if (subscription.reason) {
+            return { code: subscription.code, reason: subscription.reason };
+        }
+
+        // Check region health (every region counts as healthy when not connected to Azure)
+        if (!regionHealth.get(region)) {
+            TelemetryService.trackEvent('QuotaAllocationRejected', {
+                reason: 'RegionUnhealthy',
+                region,
+                sku
+            });
+            return { code: 'REGION_UNHEALTHY', reason: `Region ${region} is currently experiencing issues. Allocation not recommended.` };
+        }
+
+        return { quota: skuData, subscriptionId: subscription.subscriptionId };
+    }
+
+    /**
+     * Chooses the subscription an allocation draws from: the requested one, or the
+     * one with the most available quota. Quota without a per-subscription breakdown
+     * has no subscription to choose. The amount must also fit in what is left of the
+     * SKU's VM family quota (see familyHeadroom).
+     */
+    private selectSubscription(
+        skuData: ResourceQuota,
+        region: string,
+        sku: string,
+        amount: number,
+        subscriptionId: string | undefined,
+        claimedByBatch: AllocationRequestLine[]
+    ): { subscriptionId?: string; code?: AllocationErrorCode; reason?: string } {
+        const shares = skuData.subscriptions;
+
+        if (!shares || Object.keys(shares).length === 0) {
+            if (subscriptionId) {
+                return { code: 'SUBSCRIPTION_UNAVAILABLE', reason: `No quota for subscription ${subscriptionId} in ${region} for ${sku}` };
+            }
+            const headroom = this.familyHeadroom(region, sku, undefined, claimedByBatch);
+            return headroom >= amount
+                ? {}
+                : { code: 'INSUFFICIENT_QUOTA', reason: `Not enough vCPU quota left in the ${skuData.family?.name} family in ${region} for ${sku}: needed ${amount}, room for ${headroom}` };
+        }
+
+        const availableIn = (id: string) => Math.min(
+            shares[id].available - this.heldByBatch(claimedByBatch, region, sku, id),
+            this.familyHeadroom(region, sku, id, claimedByBatch)
+        );
+
+        if (subscriptionId) {
+            if (!shares[subscriptionId]) {
+                return { code: 'SUBSCRIPTION_UNAVAILABLE', reason: `No quota for subscription ${subscriptionId} in ${region} for ${sku}` };
+            }
+            const available = availableIn(subscriptionId);
+            return available >= amount
+                ? { subscriptionId }
+                : { code: 'INSUFFICIENT_QUOTA', reason: `Not enough quota available in subscription ${subscriptionId} in ${region} for ${sku}: needed ${amount}, available ${available}` };
+        }
+
+        const [best] = Object.keys(shares).sort((a, b) => availableIn(b) - availableIn(a));
+        return availableIn(best) >= amount
+            ? { subscriptionId: best }
+            : { code: 'INSUFFICIENT_QUOTA', reason: `Not enough quota available in any single subscription in ${region} for ${sku}: needed ${amount}, largest available ${availableIn(best)}` };
+    }
+
+    /**
+     * Counts the instances of a SKU that still fit in the vCPU quota of its VM family.
+     * Allocations holding quota and uncommitted batch lines of every SKU of the family in
+     * the region take from it, only those of the given subscription when there is one.
+     * @returns Instances that fit, or Infinity when the SKU has no family quota
+     */
+    private familyHeadroom(region: string, sku: string, subscriptionId: string | undefined, claimedByBatch: AllocationRequestLine[]): number {
+        const quota = this.data[region][sku];
+        const family = subscriptionId ? quota.subscriptions?.[subscriptionId]?.family : quota.family;
+        if (!family || !quota.vCPUs) {
+            return Infinity;
+        }
+
+        const heldVcpus = [
+            ...Array.from(this.allocations.values()).filter(allocation => allocation.status === 'active' || allocation.status === 'pending'),
+            ...claimedByBatch
+        ]
+            .filter(line => line.region === region && (!subscriptionId || line.subscriptionId === subscriptionId)
+                && this.data[region][line.sku]?.family?.name === family.name)
+            .reduce((sum, line) => sum + line.amount * (this.data[region][line.sku].vCPUs || 0), 0);
+
+        return Math.max(Math.floor((family.limitVcpus - family.usedVcpus - heldVcpus) / quota.vCPUs), 0);
+    }
+
+    /**
+     * Sums the quota an uncommitted batch has claimed from a region/SKU, or from one of its subscriptions
+     */
+    private heldByBatch(claimedByBatch: AllocationRequestLine[], region: string, sku: string, subscriptionId?: string): number {
+        return claimedByBatch
+            .filter(line => line.region === region && line.sku === sku && (!subscriptionId || line.subscriptionId === subscriptionId))
+            .reduce((sum, line) => sum + line.amount, 0);
+    }
+
+    /**
+     * Builds the state allocation policies are checked in: the region/SKU's quota
+     * and every allocation holding quota, counting uncommitted batch lines as held
+     */
+    private policyContext(
+        quota: ResourceQuota,
+        region: string,
+        sku: string,
+        applicationId?: string,
+        claimedByBatch: AllocationRequestLine[] = []
+    ): PolicyContext {
+        const allocations: PolicyAllocation[] = Array.from(this.allocations.values())
+            .filter(allocation => allocation.status === 'active' || allocation.status === 'pending');
+
+        return {
+            quota: { total: quota.total, available: quota.available - this.heldByBatch(claimedByBatch, region, sku) },
+            allocations: [
+                ...allocations,
+                ...claimedByBatch.map(line => ({ ...line, applicationId: applicationId as string }))
+            ]
+        };
+    }
+
+    /**
+     * Lists the quota an application holds, counting uncommitted batch lines as held
+     */
+    private applicationHoldings(applicationId: string, claimedByBatch: AllocationRequestLine[] = []): BudgetHolding[] {
+        return [
+            ...Array.from(this.allocations.values()).filter(allocation => allocation.applicationId === applicationId
+                && (allocation.status === 'active' || allocation.status === 'pending')),
+            ...claimedByBatch
+        ];
+    }
+
+    /**
+     * Adds to (or, with a negative change, takes from) the available quota of a SKU
+     * and of the subscription an allocation draws from
+     */
+    private adjustAvailable(quota: ResourceQuota, allocation: QuotaAllocation, change: number): void {
+        quota.available += change;
+
+        const share = allocation.subscriptionId ? quota.subscriptions?.[allocation.subscriptionId] : undefined;
+        if (share) {
+            share.available += change;
+        }
+    }
+
+    /**
+     * Records a new allocation and deducts it from the SKU's available quota.
+     * Callers are responsible for persisting the change.
+     */
+    private createAllocation(
+        skuData: ResourceQuota,
+        fields: Omit<QuotaAllocation, 'id' | 'timestamp'>
+    ): QuotaAllocation {
+        const allocation: QuotaAllocation = {
+            id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            ...fields
+        };
+
+        // Update available quota
+        this.adjustAvailable(skuData, allocation, -allocation.amount);
+
+        // Store allocation
+        this.allocations.set(allocation.id, allocation);
+
+        // Add allocation to SKU record
+        if (!skuData.allocations) {
+            skuData.allocations = [];
+        }
+        skuData.allocations.push(allocation);
+
+        return allocation;
+    }
+
+    /**
+     * Appends an event to the audit trail. Failures are logged but never fail the
+     * action being audited.
+     */
+    private recordAudit(event: Omit<AuditEvent, 'id' | 'timestamp'>): void {
+        try {
+            this.store.appendAuditEvent({
+                id: uuidv4(),
+                timestamp: new Date().toISOString(),
+                ...event
+            });
+        } catch (error) {
+            console.error(chalk.red(`❌ Failed to record audit event: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'RecordAuditEvent',
+                action: event.action
+            });
+        }
+    }
+
+    private recordAllocationAudit(
+        action: AuditEvent['action'],
+        allocation: QuotaAllocation,
+        requestedBy: string,
+        details?: Record<string, string>,
+        failureReason?: string
+    ): void {
+        this.recordAudit({
+            action,
+            outcome: failureReason ? 'failure' : 'success',
+            requestedBy,
+            allocationId: allocation.id,
+            applicationId: allocation.applicationId,
+            region: allocation.region,
+            sku: allocation.sku,
+            role: allocation.role,
+            amount: allocation.amount,
+            reason: failureReason,
+            details
+        });
+
+        const eventType = ALLOCATION_EVENTS[action];
+        if (eventType && !failureReason) {
+            this.events.publish(eventType, {
+                allocationId: allocation.id,
+                applicationId: allocation.applicationId,
+                region: allocation.region,
+                sku: allocation.sku,
+                role: allocation.role,
+                amount: allocation.amount,
+                status: allocation.status,
+                requestedBy,
+                ...(allocation.subscriptionId ? { subscriptionId: allocation.subscriptionId } : {}),
+                ...(details || {})
+            });
+            this.publishAlertTransitions(allocation.region, allocation.sku);
+        }
+    }
+
+    /**
+     * Publishes an `alert.changed` event for every region/SKU whose QuotaAlertLevel
+     * has changed since it was last checked. The first check only records the level.
+     * @param region Only check this region (default: all regions)
+     * @param sku Only check this SKU (default: all SKUs)
+     */
+    private publishAlertTransitions(region?: string, sku?: string): void {
+        for (const regionName of region ? [region] : Object.keys(this.data)) {
+            const regionData = this.data[regionName] || {};
+
+            for (const skuName of sku ? [sku] : Object.keys(regionData)) {
+                const quota = regionData[skuName];
+                if (!quota) continue;
+
+                const percentUsed = quota.total > 0 ? (quota.total - quota.available) / quota.total * 100 : 0;
+                const level = ConnectivityService.getQuotaAlertLevel(percentUsed);
+                const key = `${regionName}/${skuName}`;
+                const previousLevel = this.alertLevels.get(key);
+
+                this.alertLevels.set(key, level);
+                if (previousLevel !== undefined && previousLevel !== level) {
+                    this.events.publish('alert.changed', {
+                        region: regionName,
+                        sku: skuName,
+                        previousLevel,
+                        level,
+                        percentUsed: Math.round(percentUsed * 100) / 100
+                    });
+                }
+            }
+        }
+    }
+
+    private isReservationExpired(allocation: QuotaAllocation, now: Date): boolean {
+        return !!allocation.expiresAt && new Date(allocation.expiresAt).getTime() <= now.getTime();
+    }
+
+    /**
+     * Releases a previously allocated quota
+     * @param allocationId ID of the allocation to release
+     * @param requestedBy Who requested the release, for the audit trail
+     * @param reason Optional reason recorded in the audit trail
+     * @returns true if released successfully, false if allocation not found or already released
+     */
+    public releaseQuota(allocationId: string, requestedBy = QuotaEngine.SYSTEM_ACTOR, reason?: string): boolean {
+        this.syncWithStore();
+        // Find allocation
+        const allocation = this.allocations.get(allocationId);
+
+        if (!allocation) {
+            console.error(chalk.red(`❌ Allocation not found: ${allocationId}`));
+            this.recordAudit({
+                action: 'release', outcome: 'failure', requestedBy, allocationId,
+                reason: 'Allocation not found'
+            });
+            return false;
+        }
+
+        // Skip if already released or lapsed
+        if (allocation.status === 'released' || allocation.status === 'expired') {
+            console.log(chalk.yellow(`⚠️ Allocation already released: ${allocationId}`));
+            return true;
+        }
+
+        // Update status
+        allocation.status = 'released';
+        allocation.endedAt = new Date().toISOString();
+
+        // Update quota available if region and SKU still exist
+        const region = allocation.region;
+        const sku = allocation.sku;
+
+        if (this.data[region] && this.data[region][sku]) {
+            this.adjustAvailable(this.data[region][sku], allocation, allocation.amount);
+
+            // Update allocations list
+            if (this.data[region][sku].allocations) {
+                const allocations = this.data[region][sku].allocations || [];
+                const index = allocations.findIndex(a => a.id === allocationId);
+
+                if (index >= 0) {
+                    allocations[index].status = 'released';
+                }
+            }
+        }
+
+        // Save changes
+        this.saveAllocations();
+        this.recordAllocationAudit('release', allocation, requestedBy, reason ? { reason } : undefined);
+
+        console.log(chalk.green(`✅ Released quota allocation: ${allocationId}`));
+
+        TelemetryService.trackEvent('QuotaReleased', {
+            allocationId,
+            region: allocation.region,
+            sku: allocation.sku,
+            amount: allocation.amount.toString(),
+            requestedBy
         });
 
         return true;
@@ -486,6 +1551,7 @@ export class QuotaEngine {
      * @returns Array of active allocations
      */
     public getApplicationAllocations(applicationId: string): QuotaAllocation[] {
+        this.syncWithStore();
         const result: QuotaAllocation[] = [];
 
         for (const allocation of this.allocations.values()) {
@@ -498,23 +1564,321 @@ export class QuotaEngine {
     }
 
     /**
-     * Refreshes quota data from Azure API if credentials are available
+     * Lists every active allocation
+     * @returns Active allocations, oldest first
+     */
+    public getActiveAllocations(): QuotaAllocation[] {
+        this.syncWithStore();
+        return this.listAllocations({ status: 'active' });
+    }
+
+    /**
+     * Lists allocations and reservations matching a filter, whatever their status
+     * @param filter Application, region, role and status to match
+     * @returns Matching allocations, oldest first
+     */
+    public listAllocations(filter: AllocationFilter = {}): QuotaAllocation[] {
+        this.syncWithStore();
+        return Array.from(this.allocations.values())
+            .filter(allocation => (!filter.applicationId || allocation.applicationId === filter.applicationId)
+                && (!filter.region || allocation.region === filter.region)
+                && (!filter.role || allocation.role === filter.role)
+                && (!filter.status || allocation.status === filter.status))
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+
+    /**
+     * Finds active allocations in regions that have become unhealthy and proposes
+     * healthy regions/SKUs with enough quota to move each of them to
+     * @param maxTargets Most targets to propose per allocation
+     * @returns A proposal per allocation in a degraded region; allocations without a target have none
+     */
+    public async proposeRebalancing(maxTargets = 3): Promise<RebalanceProposal[]> {
+        this.syncWithStore();
+        const active = this.getActiveAllocations();
+        const health = await this.getDegradedRegions(active.map(allocation => allocation.region));
+        const proposals: RebalanceProposal[] = [];
+
+        for (const allocation of active) {
+            const status = health.get(allocation.region);
+            if (!status) continue;
+
+            proposals.push({
+                allocation,
+                advisories: status.advisories,
+                targets: (await this.findRebalanceTargets(allocation, health)).slice(0, maxTargets)
+            });
+        }
+
+        TelemetryService.trackEvent('RebalanceProposed', {
+            degradedRegions: Array.from(health.keys()).join(';') || 'none',
+            allocationCount: proposals.length.toString()
+        });
+
+        return proposals;
+    }
+
+    /**
+     * Moves active allocations out of degraded regions: creates each replacement
+     * allocation, then releases the original. The original keeps its quota until the
+     * replacement exists, so policies and budgets count both while checking the move.
+     * Allocations outside degraded regions are not moved. If the original cannot be
+     * released, the replacement is released again and the move reported as failed.
+     * @param allocationIds Allocations to move, as approved from proposeRebalancing
+     * @param targets Region/SKU to move each allocation to, by allocation ID (default: the best target);
+     *   a target that would not have been proposed is rejected for that allocation
+     * @param requestedBy Who approved the move, for the audit trail
+     * @returns The outcome for each allocation, in request order
+     */
+    public async applyRebalancing(
+        allocationIds: string[],
+        targets: Record<string, RebalanceTarget> = {},
+        requestedBy = QuotaEngine.SYSTEM_ACTOR
+    ): Promise<RebalanceResult[]> {
+        this.syncWithStore();
+        const results: RebalanceResult[] = [];
+        const health = await this.getDegradedRegions([
+            ...allocationIds.map(id => this.allocations.get(id)?.region),
+            ...Object.values(targets).map(target => target.region)
+        ].filter((region): region is string => !!region));
+
+        for (const allocationId of allocationIds) {
+            const allocation = this.allocations.get(allocationId);
+            if (!allocation || allocation.status !== 'active') {
+                results.push({ allocationId, migrated: false, reason: `Allocation ${allocationId} not found or not active` });
+                continue;
+            }
+            if (!health.has(allocation.region)) {
+                results.push({ allocationId, migrated: false, reason: `Region ${allocation.region} of allocation ${allocationId} is not degraded` });
+                continue;
+            }
+
+            let target = targets[allocationId];
+            const candidates = await this.findRebalanceTargets(allocation, health);
+            if (target) {
+                const reason = this.checkRebalanceTarget(allocation, target, health, candidates);
+                if (reason) {
+                    results.push({ allocationId, migrated: false, reason });
+                    continue;
+                }
+            } else {
+                const [best] = candidates;
+                if (!best) {
+                    results.push({ allocationId, migrated: false, reason: `No healthy region has ${allocation.amount} units of quota for role ${allocation.role}` });
+                    continue;
+                }
+                target = { region: best.region, sku: best.sku, subscriptionId: best.subscriptionId };
+            }
+
+            const outcome = await this.requestAllocation({
+                region: target.region, sku: target.sku, role: allocation.role, amount: allocation.amount,
+                applicationId: allocation.applicationId, subscriptionId: target.subscriptionId
+            }, requestedBy);
+            if (!outcome.allocation) {
+                results.push({ allocationId, migrated: false, reason: outcome.reason });
+                continue;
+            }
+
+            const newAllocationId = outcome.allocation.id;
+
+            try {
+                this.releaseQuota(allocationId, requestedBy, `Rebalanced to ${target.sku} in ${target.region} (ID: ${newAllocationId})`);
+            } catch (error) {
+                results.push(this.rollBackRebalance(allocationId, newAllocationId, target, error, requestedBy));
+                continue;
+            }
+            results.push({ allocationId, migrated: true, newAllocationId, target });
+        }
+
+        TelemetryService.trackEvent('RebalanceApplied', {
+            requested: allocationIds.length.toString(),
+            migrated: results.filter(result => result.migrated).length.toString(),
+            requestedBy
+        });
+
+        return results;
+    }
+
+    /**
+     * Releases the replacement of an allocation whose original could not be released,
+     * so the allocation does not hold quota twice
+     * @param error Why the original could not be released
+     * @returns The failed move; the replacement is reported if it could not be released either
+     */
+    private rollBackRebalance(
+        allocationId: string,
+        newAllocationId: string,
+        target: RebalanceTarget,
+        error: unknown,
+        requestedBy: string
+    ): RebalanceResult {
+        const reason = `Could not release allocation ${allocationId}: ${error instanceof Error ? error.message : String(error)}`;
+        try {
+            this.releaseQuota(newAllocationId, requestedBy, `Rolled back rebalancing of ${allocationId}: ${reason}`);
+            return { allocationId, migrated: false, reason: `${reason}; replacement ${newAllocationId} was released` };
+        } catch (rollbackError) {
+            TelemetryService.trackException(rollbackError instanceof Error ? rollbackError : new Error(String(rollbackError)), {
+                operation: 'RollBackRebalance',
+                allocationId,
+                newAllocationId
+            });
+            return {
+                allocationId, migrated: false, newAllocationId, target,
+                reason: `${reason}; replacement ${newAllocationId} could not be released and is still active`
+            };
+        }
+    }
+
+    /**
+     * Checks a requested target the way proposed targets are picked: another region,
+     * not degraded, with enough quota for the allocation's role
+     * @param candidates Targets found for the allocation by findRebalanceTargets
+     * @returns Why the allocation cannot move to the target, or null if it can
+     */
+    private checkRebalanceTarget(
+        allocation: QuotaAllocation,
+        target: RebalanceTarget,
+        degraded: Map<string, RegionHealthStatus>,
+        candidates: RecommendationDetails[]
+    ): string | null {
+        if (target.region === allocation.region) {
+            return `Target region ${target.region} is the region the allocation is in`;
+        }
+        if (degraded.has(target.region)) {
+            return `Target region ${target.region} is degraded`;
+        }
+        if (!candidates.some(candidate => candidate.region === target.region && candidate.sku === target.sku)) {
+            return `${target.sku} in ${target.region} does not have ${allocation.amount} units of quota for role ${allocation.role}`;
+        }
+        return null;
+    }
+
+    /**
+     * Gets the health of the given regions and of every region with quota, the candidate
+     * targets, and keeps the unhealthy ones. Like checkRegionHealth, every region is
+     * assumed healthy when not connected to Azure.
+     * @param regions Regions to check besides those with quota
+     * @returns Health status of each unhealthy region
+     */
+    private async getDegradedRegions(regions: string[]): Promise<Map<string, RegionHealthStatus>> {
+        const degraded = new Map<string, RegionHealthStatus>();
+        const candidates = Array.from(new Set([...regions, ...this.getAvailableRegions()]));
+        if (!this.connectionState.azureConnected || candidates.length === 0) {
+            return degraded;
+        }
+
+        const statuses = await ConnectivityService.getRegionHealthStatus(candidates);
+        statuses.filter(status => !status.isHealthy).forEach(status => degraded.set(status.region, status));
+        return degraded;
+    }
+
+    /**
+     * Lists the healthy regions/SKUs with enough quota to take over an allocation,
+     * preferring its subscription
+     */
+    private async findRebalanceTargets(allocation: QuotaAllocation, degraded: Map<string, RegionHealthStatus>): Promise<RecommendationDetails[]> {
+        const recommendations = await this.getResourceRecommendations({
+            role: allocation.role,
+            minimumQuota: allocation.amount,
+            preferredSubscriptions: allocation.subscriptionId ? [allocation.subscriptionId] : undefined
+        });
+
+        return recommendations.filter(recommendation =>
+            recommendation.region !== allocation.region && !degraded.has(recommendation.region));
+    }
+
+    /**
+     * Gets a single allocation or reservation by ID, whatever its status
+     * @param allocationId Allocation identifier
+     * @returns The allocation, or null if not found
+     */
+    public getAllocation(allocationId: string): QuotaAllocation | null {
+        this.syncWithStore();
+        return this.allocations.get(allocationId) || null;
+    }
+
+    /**
+     * Gets the audit trail for a single allocation, oldest first
+     * @param allocationId Allocation identifier
+     */
+    public getAllocationHistory(allocationId: string): AuditEvent[] {
+        return this.store.queryAuditEvents({ allocationId });
+    }
+
+    /**
+     * Queries the audit trail across all allocations, oldest first
+     * @param filter Application, region, action and time range to match
+     */
+    public queryAuditLog(filter: AuditEventFilter = {}): AuditEvent[] {
+        return this.store.queryAuditEvents(filter);
+    }
+
+    /**
+     * Refreshes quota data from the configured quota provider. Providers that read
+     * from Azure need Azure credentials. Calls made while a refresh is in progress
+     * wait for that refresh instead of starting another.
+     * @param requestedBy Who requested the refresh, for the audit trail
      * @returns true if refresh succeeded, false otherwise
      */
-    public async refreshQuotaData(): Promise<boolean> {
+    public refreshQuotaData(requestedBy = QuotaEngine.SYSTEM_ACTOR): Promise<boolean> {
+        if (this.refreshInFlight) {
+            TelemetryService.trackEvent('RefreshQuotaDataCoalesced', { requestedBy });
+            return this.refreshInFlight;
+        }
+
+        const startTime = Date.now();
+        this.refreshInFlight = this.fetchAndApplyQuotaData(requestedBy).then(success => {
+            OrchestratorMetrics.recordRefresh(Date.now() - startTime, success);
+            return success;
+        }).finally(() => {
+            this.refreshInFlight = null;
+            this.lastRefreshAttempt = new Date();
+        });
+        return this.refreshInFlight;
+    }
+
+    /**
+     * Refreshes quota data like refreshQuotaData, unless the last refresh finished less
+     * than the minimum refresh interval ago. Use it for refreshes that callers can
+     * request at will, such as the API's.
+     * @param requestedBy Who requested the refresh, for the audit trail
+     * @returns Whether the data was refreshed, and whether the request joined a refresh in progress
+     * @throws RefreshThrottledError if a refresh is not allowed yet
+     */
+    public async requestRefresh(requestedBy = QuotaEngine.SYSTEM_ACTOR): Promise<RefreshOutcome> {
+        const coalesced = this.refreshInFlight !== null;
+        if (!coalesced) {
+            const retryAfterMs = this.getRefreshRetryAfterMs();
+            if (retryAfterMs > 0) {
+                TelemetryService.trackEvent('RefreshQuotaDataThrottled', {
+                    requestedBy,
+                    retryAfterMs: retryAfterMs.toString()
+                });
+                throw new RefreshThrottledError(retryAfterMs);
+            }
+        }
+
+        return { success: await this.refreshQuotaData(requestedBy), coalesced };
+    }
+
+    /**
+     * Whether a refresh is in progress
+     */
+    public isRefreshing(): boolean {
+        return this.refreshInFlight !== null;
+    }
+
+    private async fetchAndApplyQuotaData(requestedBy: string): Promise<boolean> {
         // Make sure we're initialized
         if (!this.connectionState.messages) {
             await this.initialize();
         }
 
-        TelemetryService.trackEvent('RefreshQuotaDataStarted');
+        TelemetryService.trackEvent('RefreshQuotaDataStarted', { requestedBy });
 
-        // Log a warning if cached data is being used due to missing Azure credentials
-        if (!this.connectionState.azureConnected) {
+        if (this.provider.requiresAzure && !this.connectionState.azureConnected) {
+            // Log a warning if cached data is being used due to missing Azure credentials
             console.log(chalk.yellow("⚠️ Using cached quota data"));
-        }
-
-        if (!this.connectionState.azureConnected) {
             console.log(chalk.yellow('⚠️ Cannot refresh quota data: Azure credentials not available'));
             console.log(chalk.yellow('ℹ️ Set AZURE_SUBSCRIPTION_ID and AZURE_TENANT_ID environment variables'));
             console.log(chalk.yellow("⚠️ Using cached quota data"));
@@ -522,61 +1886,86 @@ export class QuotaEngine {
             TelemetryService.trackEvent('RefreshQuotaDataFailed', {
                 reason: 'AzureDisconnected'
             });
+            OrchestratorMetrics.recordRefreshFailure('azure_disconnected');
+            this.recordAudit({ action: 'refresh', outcome: 'failure', requestedBy, reason: 'Azure credentials not available' });
 
             return false;
         }
 
         try {
-            // Use the retry utility for better resilience
-            await executeWithRetry(async () => {
-                console.log(chalk.blue('Refreshing quota data from Azure...'));
-
-                // In a real implementation, this would call Azure APIs to refresh quota
-                // For now, we'll use the ConnectivityService to get mock data
-                const azureQuotaData = await ConnectivityService.getAzureQuotaData();
-
-                if (azureQuotaData) {
-                    // Update our local data with the refreshed data while keeping allocations
-                    for (const region in azureQuotaData) {
-                        for (const sku in azureQuotaData[region]) {
-                            // Keep existing allocations if we have them
-                            const existingAllocations = this.data[region]?.[sku]?.allocations || [];
-
-                            // If region/SKU exists in our data, copy allocations
-                            if (azureQuotaData[region][sku]) {
-                                azureQuotaData[region][sku].allocations = existingAllocations;
-                            }
-                        }
+            // Attempts only fetch: an attempt that timed out may still finish later, so the
+            // data is applied once, from the attempt that succeeded
+            const refreshedData = await executeWithRetry(async signal => {
+                console.log(chalk.blue(`Refreshing quota data from ${this.provider.name} provider...`));
+
+                return TelemetryService.withSpan(
+                    `${this.provider.name}.fetchQuotaData`,
+                    () => this.provider.fetchQuotaData(this.data, signal),
+                    { kind: 'dependency', attributes: { target: this.provider.name } }
+                );
+            }, {
+                maxRetries: 3,
+                initialDelayMs: 1000,
+                operationName: 'RefreshQuotaData',
+                attemptTimeoutMs: this.refreshTimeoutMs,
+                shouldRetry: isRetryableError,
+                signal: this.closing.signal,
+                // Remote providers only, shared with the connectivity checks (e.g. 'azure')
+                circuitBreaker: this.provider.circuitBreaker
+            });
+
+            // An empty answer is not transient, so it is not retried
+            if (!refreshedData || Object.keys(refreshedData).length === 0) {
+                throw new Error(`Quota provider '${this.provider.name}' returned no quota data`);
+            }
+
+            // Update our local data with the refreshed data while keeping allocations
+            for (const region in refreshedData) {
+                for (const sku in refreshedData[region]) {
+                    // Keep existing allocations if we have them
+                    const existingAllocations = this.data[region]?.[sku]?.allocations || [];
+
+                    // If region/SKU exists in our data, copy allocations
+                    if (refreshedData[region][sku]) {
+                        refreshedData[region][sku].allocations = existingAllocations;
                     }
+                }
+            }
 
-                    // Replace data with new data
-                    this.data = azureQuotaData;
+            // Replace data with new data
+            this.data = refreshedData;
 
-                    // Recalculate available quota based on allocations
-                    this.syncAllocationsWithQuota();
+            // Recalculate available quota based on allocations
+            this.syncAllocationsWithQuota();
 
-                    // Write the updated data to our YAML file for persistence
-                    const yamlOutput = yaml.stringify(this.data);
-                    fs.writeFileSync(this.quotaFile, yamlOutput, "utf8");
+            // Write the updated data to our YAML file for persistence
+            this.saveQuotaData();
 
-                    // Update last refresh time
-                    this.lastRefresh = new Date();
+            // Keep the usage history that forecasts are fitted to, and a full snapshot
+            this.recordUsageHistory();
+            this.recordSnapshot();
 
-                    return true;
-                } else {
-                    throw new Error('Failed to get quota data from Azure');
-                }
-            }, {
-                maxRetries: 3,
-                initialDelayMs: 1000,
-                operationName: 'RefreshQuotaData'
-            });
+            // Update last refresh time
+            this.lastRefresh = new Date();
 
             console.log(chalk.green('✅ Quota data refreshed successfully'));
 
             TelemetryService.trackEvent('RefreshQuotaDataSucceeded', {
+                provider: this.provider.name,
                 regions: Object.keys(this.data).length.toString()
             });
+            this.recordAudit({
+                action: 'refresh', outcome: 'success', requestedBy,
+                details: { regions: Object.keys(this.data).length.toString() }
+            });
+            this.events.publish('quota.refreshed', {
+                provider: this.provider.name,
+                regions: Object.keys(this.data),
+                requestedBy
+            });
+            this.publishAlertTransitions();
+
+            this.warnOnPredictedExhaustion();
 
             return true;
         } catch (error) {
@@ -587,6 +1976,11 @@ export class QuotaEngine {
             TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
                 operation: 'RefreshQuotaData'
             });
+            OrchestratorMetrics.recordRefreshFailure('provider_error');
+            this.recordAudit({
+                action: 'refresh', outcome: 'failure', requestedBy,
+                reason: error instanceof Error ? error.message : String(error)
+            });
 
             return false;
         }
@@ -598,6 +1992,7 @@ export class QuotaEngine {
      * @returns Quota data for the region or null if not found
      */
     public getRegionData(region: string): any {
+        this.syncWithStore();
         const regionData = this.data[region];
         if (!regionData) {
             console.log(chalk.yellow(`⚠️ Region not found: ${region}`));
@@ -611,14 +2006,46 @@ export class QuotaEngine {
      * @returns Array of region names
      */
     public getAvailableRegions(): string[] {
+        this.syncWithStore();
         return Object.keys(this.data);
     }
 
+    /**
+     * Gets the quota figures of every region and SKU, for dashboards such as the front-end's quota matrix
+     * @param region Only include this region
+     * @param role Only include SKUs assigned to this role
+     * @returns Quota figures by region and SKU; regions without matching SKUs are left out
+     */
+    public getQuotaMatrix(region?: string, role?: string): Record<string, Record<string, QuotaMatrixEntry>> {
+        this.syncWithStore();
+        const matrix: Record<string, Record<string, QuotaMatrixEntry>> = {};
+
+        for (const regionName of this.getAvailableRegions()) {
+            if (region && regionName !== region) continue;
+
+            for (const [sku, quota] of Object.entries(this.data[regionName])) {
+                if (role && !quota.assigned_to.includes(role)) continue;
+
+                matrix[regionName] = matrix[regionName] || {};
+                matrix[regionName][sku] = {
+                    total: quota.total,
+                    used: quota.used,
+                    available: quota.available,
+                    assigned_to: [...quota.assigned_to],
+                    ...(quota.subscriptions ? { subscriptions: quota.subscriptions } : {})
+                };
+            }
+        }
+
+        return matrix;
+    }
+
     /**
      * Gets all roles across all regions
      * @returns Set of unique role names
      */
     public getAllRoles(): Set<string> {
+        this.syncWithStore();
         const roles = new Set<string>();
 
         for (const region of Object.keys(this.data)) {
@@ -672,6 +2099,76 @@ export class QuotaEngine {
         }
     }
 
+    /**
+     * Gets the refresh interval for quota data
+     * @returns Refresh interval in milliseconds
+     */
+    public getRefreshInterval(): number {
+        return this.refreshIntervalMs;
+    }
+
+    /**
+     * Sets the least time between requested refreshes (see requestRefresh)
+     * @param intervalMs Minimum interval in milliseconds; 0 allows back-to-back refreshes
+     */
+    public setMinimumRefreshInterval(intervalMs: number): void {
+        this.minRefreshIntervalMs = Math.max(0, intervalMs);
+    }
+
+    /**
+     * Gets the least time between requested refreshes. It never exceeds the refresh
+     * interval, so data that is due for a refresh can always be refreshed.
+     * @returns Minimum interval in milliseconds
+     */
+    public getMinimumRefreshInterval(): number {
+        return Math.min(this.minRefreshIntervalMs, this.refreshIntervalMs);
+    }
+
+    /**
+     * Gets how long until the minimum refresh interval allows another requested refresh
+     * @returns Milliseconds to wait, or 0 if a refresh is allowed now
+     */
+    public getRefreshRetryAfterMs(): number {
+        if (!this.lastRefreshAttempt) {
+            return 0;
+        }
+        const nextAllowed = this.lastRefreshAttempt.getTime() + this.getMinimumRefreshInterval();
+        return Math.max(0, nextAllowed - Date.now());
+    }
+
+    /**
+     * Starts refreshing quota data in the background whenever needsRefresh() reports
+     * it stale, no more often than the minimum refresh interval allows
+     * @param checkIntervalMs How often to check whether a refresh is needed
+     */
+    public startRefreshScheduler(checkIntervalMs = QuotaEngine.REFRESH_CHECK_INTERVAL_MS): void {
+        this.stopRefreshScheduler();
+
+        this.refreshSchedulerTimer = setInterval(() => {
+            if (!this.needsRefresh() || this.isRefreshing() || this.getRefreshRetryAfterMs() > 0) {
+                return;
+            }
+
+            TelemetryService.trackEvent('ScheduledRefreshStarted', {
+                lastRefresh: this.lastRefresh ? this.lastRefresh.toISOString() : 'never'
+            });
+            this.refreshQuotaData(QuotaEngine.SCHEDULER_ACTOR).catch(error => {
+                console.error(chalk.red(`❌ Scheduled refresh failed: ${error instanceof Error ? error.message : String(error)}`));
+            });
+        }, checkIntervalMs);
+        this.refreshSchedulerTimer.unref();
+    }
+
+    /**
+     * Stops the refresh scheduler if it is running
+     */
+    public stopRefreshScheduler(): void {
+        if (this.refreshSchedulerTimer) {
+            clearInterval(this.refreshSchedulerTimer);
+            this.refreshSchedulerTimer = null;
+        }
+    }
+
     /**
      * Generates recommendations for optimal resource allocation
      * based on available quota and workload requirements
@@ -679,10 +2176,22 @@ export class QuotaEngine {
      * @returns Array of recommendations sorted by confidence
      */
     public async getResourceRecommendations(request: RecommendationRequest): Promise<RecommendationDetails[]> {
+        return (await this.evaluateRecommendations(request)).recommendations;
+    }
+
+    /**
+     * Generates recommendations like getResourceRecommendations, also reporting the
+     * SKUs that have quota for the role but fail the SKU requirements or required features
+     * @param request Parameters for generating recommendations
+     * @returns Recommendations sorted by confidence, and the excluded SKUs with reasons
+     */
+    public async evaluateRecommendations(request: RecommendationRequest): Promise<RecommendationResult> {
+        this.syncWithStore();
         TelemetryService.trackEvent('GenerateResourceRecommendation', {
             role: request.role,
             minimumQuota: request.minimumQuota.toString(),
-            preferredRegions: request.preferredRegions ? request.preferredRegions.join(';') : 'any'
+            preferredRegions: request.preferredRegions ? request.preferredRegions.join(';') : 'any',
+            preferredSubscriptions: request.preferredSubscriptions ? request.preferredSubscriptions.join(';') : 'any'
         });
 
         // Refresh quota data if needed and connected to Azure
@@ -691,6 +2200,7 @@ export class QuotaEngine {
         }
 
         const recommendations: RecommendationDetails[] = [];
+        const excluded: RecommendationExclusion[] = [];
         let availableRegions = this.getAvailableRegions();
 
         // Filter to preferred regions if specified
@@ -700,17 +2210,7 @@ export class QuotaEngine {
         }
 
         // Check region health if connected to Azure
-        const regionHealthMap = new Map<string, boolean>();
-        if (this.connectionState.azureConnected) {
-            const regionHealth = await ConnectivityService.checkComputeServicesInRegions(availableRegions);
-            // Update our local map with the health check results
-            for (const [region, isHealthy] of regionHealth.entries()) {
-                regionHealthMap.set(region, isHealthy);
-            }
-        } else {
-            // If we can't check health, assume all regions are healthy
-            availableRegions.forEach(region => regionHealthMap.set(region, true));
-        }
+        const regionHealthMap = await this.checkRegionHealth(availableRegions);
 
         // Iterate through regions
         for (const region of availableRegions) {
@@ -729,67 +2229,295 @@ export class QuotaEngine {
                     continue;
                 }
 
-                // Skip SKUs with insufficient quota
-                if (details.available < request.minimumQuota) {
+                // Check the SKU's capabilities against the requirements
+                const evaluation = this.getSkuCatalog().evaluate(sku, region, request.skuRequirements, request.requiredFeatures);
+                if (!evaluation.eligible) {
+                    excluded.push({ region, sku, reasons: evaluation.reasons });
                     continue;
                 }
 
-                // Calculate confidence score (0-100)
-                // Higher score for more available quota, preferred regions, and healthy regions
-                let confidence = 50; // Base confidence
-                const reasons: string[] = [];
+                // Check the allocation policies for the minimum quota needed
+                if (details.available >= request.minimumQuota) {
+                    const violations = this.getPolicies().evaluate(
+                        { region, sku, role: request.role, amount: request.minimumQuota },
+                        this.policyContext(details, region, sku)
+                    );
+                    if (violations.length > 0) {
+                        excluded.push({ region, sku, reasons: violations.map(v => formatViolations([v])) });
+                        continue;
+                    }
+                }
 
-                // More quota available = higher confidence (up to 20 points)
-                const quotaRatio = details.available / (details.total || 1);
-                confidence += Math.min(quotaRatio * 20, 20);
+                // Quota spread over several subscriptions is recommended per subscription
+                const candidates: { subscriptionId?: string; figures: SubscriptionQuota }[] = details.subscriptions && Object.keys(details.subscriptions).length > 0
+                    ? Object.entries(details.subscriptions).map(([subscriptionId, figures]) => ({ subscriptionId, figures }))
+                    : [{ figures: details }];
 
-                if (quotaRatio > 0.5) {
-                    reasons.push(`High quota availability (${details.available}/${details.total})`);
-                } else {
-                    reasons.push(`Sufficient quota available (${details.available}/${details.total})`);
-                }
+                for (const { subscriptionId, figures } of candidates) {
+                    // Skip SKUs with insufficient quota
+                    if (figures.available < request.minimumQuota) {
+                        continue;
+                    }
+
+                    // Calculate confidence score (0-100)
+                    // Higher score for more available quota, preferred regions, and healthy regions
+                    let confidence = 50; // Base confidence
+                    const reasons: string[] = [];
 
-                // Adjust confidence based on region preferences (up to 15 points)
-                if (request.preferredRegions && request.preferredRegions.includes(region)) {
-                    confidence += 15;
-                    reasons.push('Preferred region');
+                    // More quota available = higher confidence (up to 20 points)
+                    const quotaRatio = figures.available / (figures.total || 1);
+                    confidence += Math.min(quotaRatio * 20, 20);
 
-                    // Boost primary regions even higher (5 points)
-                    if (request.preferredRegions[0] === region) {
-                        confidence += 5;
-                        reasons.push('Primary preferred region');
+                    if (quotaRatio > 0.5) {
+                        reasons.push(`High quota availability (${figures.available}/${figures.total})`);
+                    } else {
+                        reasons.push(`Sufficient quota available (${figures.available}/${figures.total})`);
                     }
-                }
 
-                // Adjust based on region health (up to 10 points)
-                if (isRegionHealthy) {
-                    confidence += 10;
-                    reasons.push('Region is healthy');
-                } else {
-                    confidence -= 30; // Major penalty for unhealthy regions
-                    reasons.push('⚠️ Region health issues detected');
-                }
+                    // Adjust confidence based on region preferences (up to 15 points)
+                    if (request.preferredRegions && request.preferredRegions.includes(region)) {
+                        confidence += 15;
+                        reasons.push('Preferred region');
 
-                // If SKU requirements are specified, check if they are met
-                if (request.skuRequirements) {
-                    // This is where we would check if the SKU meets the requirements
-                    // For now, we'll just assume they do and add a reason
-                    reasons.push('Meets SKU requirements');
-                }
+                        // Boost primary regions even higher (5 points)
+                        if (request.preferredRegions[0] === region) {
+                            confidence += 5;
+                            reasons.push('Primary preferred region');
+                        }
+                    }
 
-                // Create the recommendation
-                recommendations.push({
-                    region,
-                    sku,
-                    availableQuota: details.available,
-                    confidence: Math.min(Math.max(confidence, 0), 100), // Clamp between 0-100
-                    reasons
-                });
+                    // Adjust confidence based on subscription preferences (10 points)
+                    if (subscriptionId && request.preferredSubscriptions?.includes(subscriptionId)) {
+                        confidence += 10;
+                        reasons.push('Preferred subscription');
+                    }
+
+                    // Adjust based on region health (up to 10 points)
+                    if (isRegionHealthy) {
+                        confidence += 10;
+                        reasons.push('Region is healthy');
+                    } else {
+                        confidence -= 30; // Major penalty for unhealthy regions
+                        reasons.push('⚠️ Region health issues detected');
+                    }
+
+                    // Closer fits to the SKU requirements score higher (up to 10 points)
+                    confidence += evaluation.score;
+                    reasons.push(...evaluation.reasons);
+
+                    // Create the recommendation
+                    recommendations.push({
+                        region,
+                        sku,
+                        availableQuota: figures.available,
+                        confidence: Math.min(Math.max(confidence, 0), 100), // Clamp between 0-100
+                        reasons,
+                        ...(subscriptionId ? { subscriptionId } : {})
+                    });
+                }
             }
         }
 
+        if (excluded.length > 0) {
+            TelemetryService.trackEvent('RecommendationSkusExcluded', {
+                role: request.role,
+                excludedCount: excluded.length.toString()
+            });
+        }
+
         // Sort by confidence score (descending)
-        return recommendations.sort((a, b) => b.confidence - a.confidence);
+        return {
+            recommendations: recommendations.sort((a, b) => b.confidence - a.confidence),
+            excluded
+        };
+    }
+
+    /**
+     * Checks the compute health of regions when connected to Azure
+     * @returns Health by region; every region is assumed healthy when not connected
+     */
+    private async checkRegionHealth(regions: string[]): Promise<Map<string, boolean>> {
+        const regionHealthMap = new Map<string, boolean>();
+        if (this.connectionState.azureConnected) {
+            const regionHealth = await ConnectivityService.checkComputeServicesInRegions(regions);
+            // Update our local map with the health check results
+            for (const [region, isHealthy] of regionHealth.entries()) {
+                regionHealthMap.set(region, isHealthy);
+            }
+        } else {
+            // If we can't check health, assume all regions are healthy
+            regions.forEach(region => regionHealthMap.set(region, true));
+        }
+
+        return regionHealthMap;
+    }
+
+    /**
+     * Plans the placement of a whole Besu network: validators, RPC nodes and bootnodes.
+     * Validators are spread so no region holds more than the f faulty validators
+     * BFT consensus tolerates, and optionally evenly across each region's zones. Candidates come from the recommendations for
+     * each role, so SKU requirements, policies and region health all apply. The plan
+     * is not allocated; pass its allocation lines to allocateQuotaBatch.
+     * @param shape Nodes to place and constraints on them
+     * @returns The plan, with an explanation and any nodes that could not be placed
+     */
+    public async planPlacement(shape: NetworkShape): Promise<PlacementPlan> {
+        this.syncWithStore();
+        const unitsPerNode = shape.unitsPerNode ?? 1;
+        const roles = new Set<string>();
+        if (shape.validators > 0) roles.add(shape.roles?.validator || 'validator');
+        if ((shape.rpcNodes || 0) > 0) roles.add(shape.roles?.rpc || 'rpc');
+        if ((shape.bootnodes || 0) > 0) roles.add(shape.roles?.bootnode || 'bootnode');
+
+        const recommended: { role: string; recommendation: RecommendationDetails }[] = [];
+        const explanation: string[] = [];
+
+        for (const role of Array.from(roles)) {
+            const { recommendations, excluded } = await this.evaluateRecommendations({
+                role,
+                minimumQuota: unitsPerNode,
+                preferredRegions: shape.regions,
+                preferredSubscriptions: shape.preferredSubscriptions,
+                skuRequirements: shape.skuRequirements,
+                requiredFeatures: shape.requiredFeatures
+            });
+
+            recommendations.forEach(recommendation => recommended.push({ role, recommendation }));
+            excluded.forEach(exclusion => explanation.push(`Excluded ${exclusion.sku} in ${exclusion.region} for ${role}: ${exclusion.reasons.join('; ')}`));
+        }
+
+        // Recommendations only lower the confidence of unhealthy regions; the planner skips them
+        const health = await this.checkRegionHealth(Array.from(new Set(recommended.map(r => r.recommendation.region))));
+        const candidates: PlacementCandidate[] = recommended.map(({ role, recommendation }) => ({
+            role,
+            region: recommendation.region,
+            sku: recommendation.sku,
+            ...(recommendation.subscriptionId ? { subscriptionId: recommendation.subscriptionId } : {}),
+            available: recommendation.availableQuota,
+            healthy: health.get(recommendation.region) ?? true,
+            confidence: recommendation.confidence,
+            zones: this.getSkuCatalog().get(recommendation.sku)?.zones?.[recommendation.region] || []
+        }));
+
+        const plan = PlacementPlanner.plan(shape, candidates);
+        plan.explanation.push(...explanation);
+
+        TelemetryService.trackEvent('PlacementPlanned', {
+            validators: shape.validators.toString(),
+            rpcNodes: (shape.rpcNodes || 0).toString(),
+            bootnodes: (shape.bootnodes || 0).toString(),
+            feasible: plan.feasible.toString()
+        });
+
+        return plan;
+    }
+
+    /**
+     * Gets the SKU capability catalog recommendations are checked against
+     */
+    public getSkuCatalog(): SkuCatalog {
+        if (!this.catalog) {
+            this.catalog = SkuCatalog.load();
+        }
+
+        return this.catalog;
+    }
+
+    /**
+     * Gets the allocation policies checked before every allocation
+     */
+    public getPolicies(): PolicyEngine {
+        if (!this.policies) {
+            this.policies = PolicyEngine.load();
+        }
+
+        return this.policies;
+    }
+
+    /**
+     * Gets the per-application budgets checked before every allocation
+     */
+    public getBudgets(): ApplicationBudgets {
+        if (!this.budgets) {
+            this.budgets = ApplicationBudgets.load();
+        }
+
+        return this.budgets;
+    }
+
+    /**
+     * Reports how much of their budgets applications are using
+     * @param applicationId Only report this application (default: every application with a budget or allocations)
+     * @returns Budget usage per application, sorted by application
+     */
+    public getBudgetStatus(applicationId?: string): BudgetStatus[] {
+        this.syncWithStore();
+        const budgets = this.getBudgets();
+        const applications = applicationId
+            ? [applicationId]
+            : Array.from(new Set([
+                ...budgets.applications(),
+                ...Array.from(this.allocations.values())
+                    .filter(allocation => allocation.status === 'active' || allocation.status === 'pending')
+                    .map(allocation => allocation.applicationId)
+            ])).sort();
+
+        return applications.map(id => budgets.status(id, this.applicationHoldings(id)));
+    }
+
+    /**
+     * Builds a chargeback report of the quota unit-hours each application, role and
+     * region consumed over a period, from when allocations started and stopped holding quota
+     * @param from Start of the period
+     * @param to End of the period (default: now)
+     */
+    public getChargebackReport(from: Date, to: Date = new Date()): ChargebackReport {
+        this.syncWithStore();
+        const usages: AllocationUsage[] = [];
+
+        for (const allocation of Array.from(this.allocations.values())) {
+            const end = this.allocationEnd(allocation);
+            usages.push({
+                applicationId: allocation.applicationId,
+                role: allocation.role,
+                region: allocation.region,
+                sku: allocation.sku,
+                amount: allocation.amount,
+                start: new Date(allocation.timestamp),
+                end: end ? new Date(end) : to
+            });
+        }
+
+        const report = buildChargebackReport(usages, from, to, this.getBudgets().prices);
+
+        TelemetryService.trackEvent('ChargebackReportGenerated', {
+            from: report.from,
+            to: report.to,
+            lineCount: report.lines.length.toString()
+        });
+
+        return report;
+    }
+
+    /**
+     * Finds when an allocation stopped holding quota. Allocations released before
+     * the end time was recorded fall back to the audit trail.
+     * @returns The end time, or null if the allocation still holds quota
+     */
+    private allocationEnd(allocation: QuotaAllocation): string | null {
+        if (allocation.status === 'active' || allocation.status === 'pending') {
+            return null;
+        }
+        if (allocation.endedAt) {
+            return allocation.endedAt;
+        }
+        if (allocation.status === 'expired' && allocation.expiresAt) {
+            return allocation.expiresAt;
+        }
+
+        const [release] = this.queryAuditLog({ allocationId: allocation.id, action: 'release' })
+            .filter(event => event.outcome === 'success');
+        return release ? release.timestamp : allocation.timestamp;
     }
 
     /**
@@ -798,6 +2526,7 @@ export class QuotaEngine {
      * @returns true if export succeeded, false otherwise
      */
     public exportToCSV(filePath: string): boolean {
+        this.syncWithStore();
         try {
             // Create CSV header
             const header = "Region,SKU,Total Quota,Used Quota,Available Quota,Roles,Active Allocations\n";
@@ -830,8 +2559,16 @@ export class QuotaEngine {
      * @param sku SKU name
      * @param total Total quota for the SKU
      * @param assignedRoles Roles assigned to the SKU
+     * @param requestedBy Who added the SKU, for the audit trail
      */
-    public addNewRoleOrSku(region: string, sku: string, total: number, assignedRoles: string[]): void {
+    public addNewRoleOrSku(
+        region: string,
+        sku: string,
+        total: number,
+        assignedRoles: string[],
+        requestedBy = QuotaEngine.SYSTEM_ACTOR
+    ): void {
+        this.syncWithStore();
         if (!this.data[region]) {
             this.data[region] = {};
         }
@@ -847,8 +2584,11 @@ export class QuotaEngine {
         console.log(chalk.green(`✅ Added new SKU '${sku}' with roles [${assignedRoles.join(", ")}] in region '${region}'.`));
 
         // Save updated data to YAML file
-        const yamlOutput = yaml.stringify(this.data);
-        fs.writeFileSync(this.quotaFile, yamlOutput, "utf8");
+        this.saveQuotaData();
+        this.recordAudit({
+            action: 'add-sku', outcome: 'success', requestedBy, region, sku, amount: total,
+            details: { roles: assignedRoles.join(", ") }
+        });
 
         TelemetryService.trackEvent('NewRoleOrSkuAdded', {
             region,
@@ -858,17 +2598,147 @@ export class QuotaEngine {
         });
     }
 
+    /**
+     * Predicts when each region/SKU will run out of quota, based on the usage
+     * recorded at every refresh
+     * @param options Forecast options, plus optional region and role to limit the forecast to
+     * @returns Forecasts, soonest exhaustion first
+     */
+    public getQuotaForecasts(options: ForecastOptions & { region?: string; role?: string } = {}): QuotaForecast[] {
+        this.syncWithStore();
+        const { region: regionFilter, role, ...forecastOptions } = options;
+        const history = this.store.loadUsageHistory({ region: regionFilter });
+        const forecasts: QuotaForecast[] = [];
+
+        for (const region of Object.keys(this.data)) {
+            if (regionFilter && region !== regionFilter) continue;
+
+            for (const sku of Object.keys(this.data[region])) {
+                const quota = this.data[region][sku];
+                const roles = quota.assigned_to || [];
+
+                if (role && !roles.includes(role)) continue;
+
+                const samples = history.filter(sample => sample.region === region && sample.sku === sku);
+                forecasts.push(QuotaForecaster.forecast(
+                    { region, sku, total: quota.total, available: quota.available, roles },
+                    samples,
+                    forecastOptions
+                ));
+            }
+        }
+
+        // Forecasts that never run out sort last
+        return forecasts.sort((a, b) =>
+            (a.daysUntilExhaustion ?? Infinity) - (b.daysUntilExhaustion ?? Infinity));
+    }
+
+    /**
+     * Records the current usage of every region/SKU. Failures are logged but never
+     * fail the refresh.
+     */
+    private recordUsageHistory(): void {
+        try {
+            this.store.appendUsageSamples(sampleQuotaUsage(this.data));
+        } catch (error) {
+            console.error(chalk.red(`❌ Failed to record quota usage history: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'RecordUsageHistory'
+            });
+        }
+    }
+
+    /**
+     * Stores a snapshot of the current quota data. Failures are logged but never
+     * fail the refresh.
+     */
+    private recordSnapshot(): void {
+        try {
+            this.snapshots.save(this.data, 'refresh');
+        } catch (error) {
+            console.error(chalk.red(`❌ Failed to store quota snapshot: ${error instanceof Error ? error.message : String(error)}`));
+            TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+                operation: 'RecordQuotaSnapshot',
+                directory: this.snapshots.directory
+            });
+        }
+    }
+
+    /**
+     * Lists the stored quota snapshots
+     * @returns Snapshot details, oldest first
+     */
+    public listSnapshots(): QuotaSnapshotInfo[] {
+        return this.snapshots.list();
+    }
+
+    /**
+     * Compares total, used and available quota per region/SKU between two snapshots
+     * @param fromId Older snapshot (default: the second most recent)
+     * @param toId Newer snapshot (default: the most recent)
+     * @returns The differences, or null if a snapshot does not exist
+     */
+    public diffSnapshots(fromId?: string, toId?: string): QuotaSnapshotDiff | null {
+        const ids = this.snapshots.list().map(snapshot => snapshot.id);
+        const to = this.snapshots.load(toId || ids[ids.length - 1]);
+        const from = this.snapshots.load(fromId || ids[ids.indexOf(to?.id as string) - 1]);
+
+        if (!from || !to) {
+            return null;
+        }
+
+        return diffQuotaSnapshots(from, to);
+    }
+
+    /**
+     * Gets the used and total quota per region/SKU over time, from stored snapshots
+     * @param from Only snapshots at or after this time
+     * @param to Only snapshots at or before this time
+     * @param region Only include this region
+     */
+    public getQuotaTrends(from?: Date, to?: Date, region?: string): QuotaTrends {
+        return buildQuotaTrends(this.snapshots.loadRange(from, to), region);
+    }
+
+    /**
+     * Logs a warning for every region/SKU predicted to run out within the warning window
+     */
+    private warnOnPredictedExhaustion(): void {
+        try {
+            const forecasts = this.getQuotaForecasts()
+                .filter(forecast => forecast.alertLevel !== QuotaAlertLevel.None);
+
+            for (const forecast of forecasts) {
+                const color = forecast.alertLevel === QuotaAlertLevel.Critical ? chalk.red : chalk.yellow;
+                console.log(color(`⚠️ Quota for ${forecast.sku} in ${forecast.region} (roles: ${forecast.roles.join(", ")}) ` +
+                    `is predicted to run out in ${Math.floor(forecast.daysUntilExhaustion as number)} days (${forecast.exhaustionDate})`));
+
+                TelemetryService.trackEvent('QuotaExhaustionPredicted', {
+                    region: forecast.region,
+                    sku: forecast.sku,
+                    alertLevel: forecast.alertLevel,
+                    exhaustionDate: forecast.exhaustionDate || ''
+                });
+            }
+        } catch (error) {
+            console.error(chalk.red(`❌ Failed to forecast quota exhaustion: ${error instanceof Error ? error.message : String(error)}`));
+        }
+    }
+
     /**
      * Summarizes quota availability for a specific role across all regions
      * @param role Role to summarize quota for
+     * @param subscriptionId Only count quota in this subscription
      * @returns Summary object with quota details for each applicable region
      */
-    public summarizeQuotaAvailability(role: string): Record<string, { total: number; used: number; available: number; usage_percent: string }> {
+    public summarizeQuotaAvailability(role: string, subscriptionId?: string): Record<string, QuotaUsageSummary> {
+        this.syncWithStore();
         TelemetryService.trackEvent('SummarizeQuotaAvailability', {
-            role
+            role,
+            subscriptionId: subscriptionId || 'all'
         });
 
-        const summary: Record<string, { total: number; used: number; available: number; usage_percent: string }> = {};
+        const summary: Record<string, QuotaUsageSummary> = {};
         const regions = this.getAvailableRegions();
 
         // Check each region for the specified role
@@ -879,17 +2749,13 @@ export class QuotaEngine {
 
             // Find any SKU assigned to this role
             for (const sku in regionData) {
-                const quotaDetails = regionData[sku];
+                const quotaDetails: ResourceQuota = regionData[sku];
 
                 if (quotaDetails.assigned_to.includes(role)) {
-                    const usagePercent = (quotaDetails.used / quotaDetails.total * 100).toFixed(2);
+                    const figures = subscriptionId ? quotaDetails.subscriptions?.[subscriptionId] : quotaDetails;
+                    if (!figures) continue;
 
-                    summary[region] = {
-                        total: quotaDetails.total,
-                        used: quotaDetails.used,
-                        available: quotaDetails.available,
-                        usage_percent: usagePercent
-                    };
+                    summary[region] = this.toUsageSummary(figures);
 
                     // We've found a matching SKU for this region, move to the next region
                     break;
@@ -904,4 +2770,72 @@ export class QuotaEngine {
 
         return summary;
     }
-}
\ No newline at end of file
+
+    /**
+     * Lists the subscriptions quota data is broken down by
+     * @returns Subscription IDs, sorted
+     */
+    public getSubscriptions(): string[] {
+        this.syncWithStore();
+        const subscriptions = new Set<string>();
+
+        for (const region of Object.keys(this.data)) {
+            for (const quota of Object.values(this.data[region])) {
+                Object.keys(quota.subscriptions || {}).forEach(id => subscriptions.add(id));
+            }
+        }
+
+        return Array.from(subscriptions).sort();
+    }
+
+    /**
+     * Rolls quota up per subscription across all regions and SKUs. Quota without a
+     * per-subscription breakdown is counted under DEFAULT_SUBSCRIPTION.
+     * @param role Only count SKUs assigned to this role
+     * @returns Summary per subscription ID
+     */
+    public summarizeBySubscription(role?: string): Record<string, QuotaUsageSummary & { regions: string[] }> {
+        this.syncWithStore();
+        const totals: Record<string, SubscriptionQuota & { regions: Set<string> }> = {};
+
+        for (const region of Object.keys(this.data)) {
+            for (const quota of Object.values(this.data[region])) {
+                if (role && !quota.assigned_to.includes(role)) continue;
+
+                const shares: Record<string, SubscriptionQuota> = quota.subscriptions && Object.keys(quota.subscriptions).length > 0
+                    ? quota.subscriptions
+                    : { [QuotaEngine.DEFAULT_SUBSCRIPTION]: quota };
+
+                for (const [subscriptionId, share] of Object.entries(shares)) {
+                    const rollUp = totals[subscriptionId] || (totals[subscriptionId] = { total: 0, used: 0, available: 0, regions: new Set() });
+                    rollUp.total += share.total;
+                    rollUp.used += share.used;
+                    rollUp.available += share.available;
+                    rollUp.regions.add(region);
+                }
+            }
+        }
+
+        const summary: Record<string, QuotaUsageSummary & { regions: string[] }> = {};
+        for (const subscriptionId of Object.keys(totals).sort()) {
+            const { regions, ...figures } = totals[subscriptionId];
+            summary[subscriptionId] = { ...this.toUsageSummary(figures), regions: Array.from(regions).sort() };
+        }
+
+        TelemetryService.trackEvent('QuotaSubscriptionSummaryGenerated', {
+            role: role || 'all',
+            subscriptionCount: Object.keys(summary).length.toString()
+        });
+
+        return summary;
+    }
+
+    private toUsageSummary(figures: SubscriptionQuota): QuotaUsageSummary {
+        return {
+            total: figures.total,
+            used: figures.used,
+            available: figures.available,
+            usage_percent: (figures.used / figures.total * 100).toFixed(2)
+        };
+    }
+}
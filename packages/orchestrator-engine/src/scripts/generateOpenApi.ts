@@ -0,0 +1,80 @@
+#!/usr/bin/env ts-node
+
+import * as fs from "fs";
+import * as path from "path";
+import chalk from "chalk";
+import { createGenerator } from "ts-json-schema-generator";
+import { renderSdkTypes, SDK_TYPES_OUTPUT } from "./generateSdkTypes";
+
+/**
+ * TypeScript module holding the API's request and response types
+ */
+const API_TYPES = path.join(__dirname, "../api/ApiTypes.ts");
+
+/**
+ * Generated module with a JSON schema for each type, used as the OpenAPI document's components
+ */
+export const OUTPUT = path.join(__dirname, "../api/ApiSchemas.ts");
+
+const TSCONFIG = path.join(__dirname, "../../tsconfig.json");
+
+/**
+ * Turns a generated definition name such as `Record<string,SkuCapabilities>` into a
+ * valid OpenAPI component name
+ */
+function componentName(definition: string): string {
+    return definition.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Generates the JSON schemas of every type exported by ApiTypes.ts and the types they use
+ * @returns Schemas by OpenAPI component name, referring to each other as components
+ */
+export function generateApiSchemas(): Record<string, object> {
+    const schema = createGenerator({
+        path: API_TYPES,
+        tsconfig: TSCONFIG,
+        type: "*",
+        expose: "export",
+        topRef: true,
+        jsDoc: "extended",
+        encodeRefs: false,
+        sortProps: true,
+        skipTypeCheck: true
+    }).createSchema("*");
+
+    const definitions = schema.definitions || {};
+    const names = new Map(Object.keys(definitions).map(name => [name, componentName(name)]));
+
+    // Point references at the OpenAPI components instead of JSON schema definitions
+    return JSON.parse(JSON.stringify(
+        Object.fromEntries(Object.entries(definitions).map(([name, definition]) => [names.get(name), definition]))
+    ).replace(/"#\/definitions\/([^"]+)"/g, (_, name: string) => `"#/components/schemas/${names.get(name) || componentName(name)}"`));
+}
+
+/**
+ * Renders the schemas as the ApiSchemas.ts module
+ * @param schemas Schemas by component name (default: generated from ApiTypes.ts)
+ * @returns Source of the ApiSchemas.ts module
+ */
+export function renderApiSchemas(schemas: Record<string, object> = generateApiSchemas()): string {
+    const json = JSON.stringify(schemas, null, 4);
+
+    return [
+        "// Generated by scripts/generateOpenApi.ts from ApiTypes.ts; do not edit.",
+        "// Run `pnpm generate-openapi` after changing the API types.",
+        "",
+        "/* eslint-disable */",
+        `export const API_SCHEMAS: Record<string, object> = ${json};`,
+        ""
+    ].join("\n");
+}
+
+if (require.main === module) {
+    console.log(chalk.blue(`🔍 Reading API types from ${API_TYPES}...`));
+    const schemas = generateApiSchemas();
+    fs.writeFileSync(OUTPUT, renderApiSchemas(schemas), "utf-8");
+    console.log(chalk.green(`✅ Wrote the API schemas to ${OUTPUT}`));
+    fs.writeFileSync(SDK_TYPES_OUTPUT, renderSdkTypes(schemas), "utf-8");
+    console.log(chalk.green(`✅ Wrote the SDK types to ${SDK_TYPES_OUTPUT}`));
+}
@@ -0,0 +1,137 @@
+import * as path from "path";
+
+/**
+ * Generated module of the orchestrator-sdk package holding the API types as clients see them
+ */
+export const SDK_TYPES_OUTPUT = path.join(__dirname, "../../../orchestrator-sdk/src/ApiTypes.ts");
+
+/**
+ * The parts of a JSON schema the generated API schemas use
+ */
+interface JsonSchema {
+    $ref?: string;
+    type?: string | string[];
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    anyOf?: JsonSchema[];
+    enum?: unknown[];
+    const?: unknown;
+}
+
+const INDENT = "    ";
+
+/**
+ * Renders a description as a doc comment, on one line for members with one-line descriptions
+ */
+function docComment(description: string | undefined, indent: string): string {
+    if (!description) {
+        return "";
+    }
+    if (indent && !description.includes("\n")) {
+        return `${indent}/** ${description} */\n`;
+    }
+    const lines = description.split("\n").map(line => `${indent} *${line ? ` ${line}` : ""}`);
+    return `${indent}/**\n${lines.join("\n")}\n${indent} */\n`;
+}
+
+/**
+ * Quotes property names that are not identifiers
+ */
+function propertyName(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Renders the members of an object schema, one per line
+ */
+function renderMembers(schema: JsonSchema, indent: string): string {
+    const required = new Set(schema.required || []);
+    const members = Object.entries(schema.properties || {}).map(([name, property]) =>
+        `${docComment(property.description, indent)}${indent}${propertyName(name)}${required.has(name) ? "" : "?"}: ${renderType(property, indent)};`
+    );
+
+    // Free-form extra properties, e.g. the details of an ApiError
+    if (typeof schema.additionalProperties === "object" && Object.keys(schema.additionalProperties).length === 0) {
+        members.unshift(`${indent}[key: string]: unknown;`);
+    }
+    return members.join("\n");
+}
+
+/**
+ * Renders the TypeScript type of a schema
+ * @param schema Schema to render
+ * @param indent Indentation of the line the type starts on
+ */
+function renderType(schema: JsonSchema, indent = ""): string {
+    if (schema.$ref) {
+        return schema.$ref.split("/").pop() as string;
+    }
+    if (schema.anyOf) {
+        return schema.anyOf.map(option => renderType(option, indent)).join(" | ");
+    }
+    if (schema.enum) {
+        return schema.enum.map(value => JSON.stringify(value)).join(" | ");
+    }
+    if (schema.const !== undefined) {
+        return JSON.stringify(schema.const);
+    }
+    if (Array.isArray(schema.type)) {
+        return schema.type.map(type => renderType({ ...schema, type }, indent)).join(" | ");
+    }
+
+    switch (schema.type) {
+        case "string":
+        case "boolean":
+        case "null":
+            return schema.type;
+        case "number":
+        case "integer":
+            return "number";
+        case "array": {
+            const items = schema.items ? renderType(schema.items, indent) : "unknown";
+            return items.includes(" | ") ? `(${items})[]` : `${items}[]`;
+        }
+        case "object":
+            if (schema.properties) {
+                return `{\n${renderMembers(schema, indent + INDENT)}\n${indent}}`;
+            }
+            if (typeof schema.additionalProperties === "object" && Object.keys(schema.additionalProperties).length > 0) {
+                return `Record<string, ${renderType(schema.additionalProperties, indent)}>`;
+            }
+            return schema.additionalProperties === false ? "Record<string, never>" : "Record<string, unknown>";
+        default:
+            return "unknown";
+    }
+}
+
+/**
+ * Renders one component schema as an exported interface, or a type alias when it is not an object
+ */
+function renderDeclaration(name: string, schema: JsonSchema): string {
+    const doc = docComment(schema.description, "");
+    if (schema.type === "object" && schema.properties && !schema.anyOf) {
+        return `${doc}export interface ${name} {\n${renderMembers(schema, INDENT)}\n}`;
+    }
+    return `${doc}export type ${name} = ${renderType(schema)};`;
+}
+
+/**
+ * Renders the API schemas as TypeScript types for the SDK. The types describe the JSON
+ * clients send and receive, so they come from the schemas rather than the engine's own
+ * types, which may hold values such as dates that travel as strings.
+ * @param schemas Schemas by OpenAPI component name
+ * @returns Source of the SDK's ApiTypes.ts module
+ */
+export function renderSdkTypes(schemas: Record<string, object>): string {
+    return [
+        "// Generated by orchestrator-engine's scripts/generateOpenApi.ts from its API types; do not edit.",
+        "// Run `pnpm generate-openapi` in orchestrator-engine after changing the API types.",
+        "",
+        "/* eslint-disable */",
+        "",
+        ...Object.entries(schemas).map(([name, schema]) => `${renderDeclaration(name, schema as JsonSchema)}\n`)
+    ].join("\n");
+}
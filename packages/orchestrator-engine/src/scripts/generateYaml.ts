@@ -2,9 +2,10 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import * as csv from "csv-parse/sync";
-import { stringify as stringifyYaml } from "yaml";
 import chalk from "chalk";
+import { VersionedYamlFile } from "../storage/VersionedYamlFile";
+import { createQuotaStore, createSnapshotStore } from "../storage/StoreFactory";
+import { parseQuotaCsv } from "../providers/FileQuotaProvider";
 
 /**
  * Path to the input CSV file containing quota usage data.
@@ -35,31 +36,6 @@ if (!azureConnected) {
     // In a real implementation, we would fetch the latest quota data from Azure here
 }
 
-/**
- * Validates the structure of the input CSV data.
- * Ensures all required columns are present and contain valid data.
- * @param records Parsed CSV records.
- * @throws Error if validation fails.
- */
-function validateCsvData(records: any[]): void {
-    const requiredColumns = ["region", "sku", "total", "used", "assigned_to"];
-
-    for (const record of records) {
-        for (const column of requiredColumns) {
-            if (!(column in record)) {
-                throw new Error(`Missing required column: ${column}`);
-            }
-
-            if (column === "total" || column === "used") {
-                const value = parseInt(record[column], 10);
-                if (isNaN(value) || value < 0) {
-                    throw new Error(`Invalid value in column '${column}': ${record[column]}`);
-                }
-            }
-        }
-    }
-}
-
 /**
  * Main function to generate a YAML mapping file from a CSV input.
  *
@@ -76,49 +52,28 @@ function validateCsvData(records: any[]): void {
             process.exit(1);
         }
 
-        const rawCsv = fs.readFileSync(INPUT_CSV, "utf-8");
-        const records = csv.parse(rawCsv, {
-            columns: true,
-            skip_empty_lines: true
-        });
-
-        // Validate the CSV data
-        validateCsvData(records);
-
-        /**
-         * Object to store processed quota data.
-         * @type {Record<string, Record<string, { total: number, used: number, available: number, assigned_to: string[] }>>}
-         */
-        const quotaData: any = {};
+        // Parse and validate the CSV data
+        const quotaData = parseQuotaCsv(fs.readFileSync(INPUT_CSV, "utf-8"));
 
-        for (const row of records) {
-            const region = row["region"];
-            const sku = row["sku"];
-            const total = parseInt(row["total"], 10);
-            const used = parseInt(row["used"], 10);
-            const assignedString = row["assigned_to"] || "";
-            const assignedRoles = assignedString.split(";").map((r: string) => r.trim()).filter(Boolean);
+        // Write under the same lock the engine uses; this replaces the data unconditionally
+        // and bumps the version so running engines see their copy as stale
+        new VersionedYamlFile(OUTPUT_YAML).write(quotaData);
+        console.log(chalk.green(`✅ YAML mapping file generated at: ${OUTPUT_YAML}`));
 
-            if (!quotaData[region]) {
-                quotaData[region] = {};
+        // With QUOTA_STORE set to sqlite or jsonl the engine reads that store, so it gets the data too
+        if ((process.env.QUOTA_STORE || 'yaml') !== 'yaml') {
+            const store = createQuotaStore();
+            try {
+                store.saveQuotaData(quotaData);
+                console.log(chalk.green(`✅ Quota data saved to store: ${store.location}`));
+            } finally {
+                store.close();
             }
-            quotaData[region][sku] = {
-                total,
-                used,
-                available: total - used,
-                assigned_to: assignedRoles
-            };
-        }
-
-        // Create output directory if it doesn't exist
-        const outputDir = path.dirname(OUTPUT_YAML);
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
         }
 
-        const yamlOutput = stringifyYaml(quotaData);
-        fs.writeFileSync(OUTPUT_YAML, yamlOutput, "utf8");
-        console.log(chalk.green(`✅ YAML mapping file generated at: ${OUTPUT_YAML}`));
+        // Keep a copy so later refreshes can be compared against this run
+        const snapshot = createSnapshotStore().save(quotaData, 'generate-yaml');
+        console.log(chalk.green(`✅ Quota snapshot stored: ${snapshot.id}`));
 
         // Note about data source
         if (!azureConnected) {
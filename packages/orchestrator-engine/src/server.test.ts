@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import request from "supertest";
+import { app } from "./server";
+import { QuotaAllocation, QuotaEngine } from "./rules/QuotaEngine";
+import { YamlQuotaStore } from "./storage/YamlQuotaStore";
+
+const allocation: QuotaAllocation = {
+    id: "a",
+    timestamp: "2025-04-01T00:00:00.000Z",
+    region: "eastus",
+    sku: "Standard_D2s_v3",
+    role: "validator",
+    amount: 2,
+    applicationId: "besu-net",
+    status: "active"
+};
+
+describe("server", () => {
+    let dir: string;
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "quota-server-"));
+        vi.stubEnv("QUOTA_DATA_DIR", dir);
+        new YamlQuotaStore(path.join(dir, "live-quotas.yaml"), path.join(dir, "allocations.yaml")).saveQuotaData({
+            eastus: { Standard_D2s_v3: { total: 10, used: 0, available: 10, assigned_to: ["validator"] } }
+        });
+    });
+
+    afterAll(() => {
+        vi.unstubAllEnvs();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should answer 404 when an allocation is gone by the time it is released", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+        vi.spyOn(QuotaEngine.prototype, "initialize").mockResolvedValue(undefined);
+        vi.spyOn(QuotaEngine.prototype, "getAllocation").mockReturnValue(allocation);
+        const release = vi.spyOn(QuotaEngine.prototype, "releaseQuota").mockReturnValue(false);
+
+        const response = await request(app).delete("/api/allocations/a");
+
+        expect(release).toHaveBeenCalledWith("a", expect.any(String), undefined);
+        expect(response.status).toBe(404);
+        expect(response.body).toMatchObject({ code: "ALLOCATION_NOT_FOUND", message: "Allocation not found: a" });
+    });
+});
@@ -2,24 +2,162 @@ import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import bodyParser from "body-parser";
 import { ParsedQs } from "qs";
-import { QuotaEngine, RecommendationRequest, RecommendationDetails } from "./rules/QuotaEngine";
-import { ConnectivityService, ConnectionState } from "./utils/ConnectivityService";
-import { TelemetryService } from "./utils/TelemetryService";
-import { executeWithRetry } from "./utils/RetryUtils";
+import {
+    QuotaEngine,
+    RecommendationRequest,
+    RecommendationDetails,
+    AllocationErrorCode,
+    RefreshThrottledError
+} from "./rules/QuotaEngine";
+import {
+    CircuitBreaker,
+    ConnectivityService,
+    ConnectionState,
+    TelemetryService,
+    MetricsService,
+    executeWithRetry
+} from "orchestrator-core";
+import { OrchestratorMetrics } from "./metrics/OrchestratorMetrics";
+import { AzureComputeQuotaProvider } from "./providers/AzureComputeQuotaProvider";
+import { isStoreConflict } from "./storage/QuotaStore";
+import { setDefaultFileLockOptions } from "./storage/FileLock";
+import { setDefaultSqliteBusyTimeout } from "./storage/SqliteQuotaStore";
+import { ForecastMethod, QuotaForecaster } from "./forecasting/QuotaForecaster";
+import { ChargebackFormat, formatChargebackReport } from "./billing/Chargeback";
+import { NetworkShape } from "./planning/PlacementPlanner";
+import { QuotaEventType, formatServerSentEvent } from "./events/QuotaEventBus";
+import { AuthMiddleware } from "./auth/AuthMiddleware";
+import { AuthProvider } from "./auth/AuthProvider";
+import { createAuthProviders } from "./auth/AuthFactory";
+import { OpenApiValidator, ResponseValidationMode } from "./api/OpenApiValidator";
+import { RateLimiter } from "./api/RateLimiter";
+import { API_VERSION, buildOpenApiDocument } from "./api/OpenApiDocument";
+import {
+    AllocationListQuery,
+    ApplyRebalancingRequest,
+    BatchAllocationRequest,
+    CreateAllocationRequest,
+    QuotaEligibilityQuery,
+    QuotaMatrixQuery
+} from "./api/ApiTypes";
+import swaggerUi from "swagger-ui-express";
 import chalk from "chalk";
 
+// Waiting for a store lock would block every request, so a lock held by another
+// process (e.g. the CLI) fails the save at once and is answered as a store conflict.
+// SQLite waits for other writers the same blocking way, so it only waits 50ms.
+setDefaultFileLockOptions({ timeoutMs: 0 });
+setDefaultSqliteBusyTimeout(50);
+
 // Initialize telemetry first for proper tracking
-const telemetryInitialized = TelemetryService.initialize();
+const telemetryInitialized = TelemetryService.initialize("orchestrator-engine");
 TelemetryService.trackEvent("ServerStarting");
+MetricsService.collectDefaultMetrics();
+
+// Quota helpers of the ConnectivityService read Azure through the engine's provider
+ConnectivityService.setQuotaDataReader(credential => new AzureComputeQuotaProvider({ credential }).fetchQuotaData());
 
 const app = express();
 app.use(cors());
 app.use(bodyParser.json());
+app.use(OrchestratorMetrics.httpMetrics());
+
+// Authenticate callers with the configured providers; a broken auth setup must not leave the API open
+let authProviders: AuthProvider[];
+try {
+    authProviders = createAuthProviders();
+} catch (error: unknown) {
+    console.error(chalk.red(`❌ Failed to configure authentication: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+}
+// EventSource cannot send headers, so the event stream also takes the credential as ?access_token=
+const auth = new AuthMiddleware(authProviders, { queryTokenPaths: ["/api/events"] });
+if (auth.enabled) {
+    console.log(chalk.blue(`🔐 API authentication: ${authProviders.map(provider => provider.name).join(", ")}`));
+} else {
+    console.warn(chalk.yellow("⚠️ No authentication configured (AUTH_API_KEYS_FILE, AUTH_JWT_SECRET or AUTH_JWKS_URI): the API is open to every caller"));
+}
+app.use(auth.authenticate());
+
+// Check requests (and responses) of every route against the OpenAPI specification
+const RESPONSE_VALIDATION_MODES: ResponseValidationMode[] = ["off", "warn", "strict"];
+const responseValidation = (process.env.API_RESPONSE_VALIDATION || "warn") as ResponseValidationMode;
+if (!RESPONSE_VALIDATION_MODES.includes(responseValidation)) {
+    console.error(chalk.red(`❌ API_RESPONSE_VALIDATION must be one of ${RESPONSE_VALIDATION_MODES.join(", ")}`));
+    process.exit(1);
+}
+const openApiDocument = buildOpenApiDocument();
+const api = new OpenApiValidator(undefined, responseValidation);
+
+// Each client may only ask for a few refreshes, which are expensive, per window
+let refreshLimiter: RateLimiter;
+try {
+    refreshLimiter = new RateLimiter({
+        limit: parseInt(process.env.QUOTA_REFRESH_RATE_LIMIT || "5", 10),
+        windowMs: parseInt(process.env.QUOTA_REFRESH_RATE_WINDOW_MS || "60000", 10)
+    });
+} catch (error: unknown) {
+    console.error(chalk.red(`❌ Invalid QUOTA_REFRESH_RATE_LIMIT or QUOTA_REFRESH_RATE_WINDOW_MS: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+}
+
+// Forecasts and predicted-exhaustion checks would all fail on a bad default method
+try {
+    QuotaForecaster.defaultMethod();
+} catch (error: unknown) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+}
 
 // Add interface for our local connection state (matching ConnectivityService's ConnectionState)
 let connectionState: ConnectionState;
 let quotaEngine: QuotaEngine;
 
+// Identifies the caller for the audit trail; the self-declared header is only trusted while auth is off
+function getRequester(req: Request): string {
+    if (req.principal) {
+        return req.principal.id;
+    }
+    return (!auth.enabled && req.header("X-Requested-By")) || req.ip || QuotaEngine.SYSTEM_ACTOR;
+}
+
+// Error codes of the allocation endpoints: the engine's rejection codes plus the API's own
+type AllocationApiErrorCode = AllocationErrorCode | "ALLOCATION_NOT_FOUND" | "ALLOCATION_NOT_ACTIVE" | "STORE_CONFLICT" | "INTERNAL_ERROR";
+
+const ALLOCATION_ERROR_STATUS: Record<AllocationApiErrorCode, number> = {
+    INVALID_REQUEST: 400,
+    QUOTA_NOT_FOUND: 404,
+    ALLOCATION_NOT_FOUND: 404,
+    ROLE_NOT_ASSIGNED: 422,
+    POLICY_VIOLATION: 422,
+    BUDGET_EXCEEDED: 422,
+    INSUFFICIENT_QUOTA: 409,
+    SUBSCRIPTION_UNAVAILABLE: 409,
+    ALLOCATION_NOT_ACTIVE: 409,
+    STORE_CONFLICT: 409,
+    REGION_UNHEALTHY: 503,
+    INTERNAL_ERROR: 500
+};
+
+// Sends an allocation error with its code, so pipelines can tell failures apart
+function sendAllocationError(res: Response, code: AllocationApiErrorCode, message: string, details?: Record<string, unknown>) {
+    return res.status(ALLOCATION_ERROR_STATUS[code]).json({
+        error: code === "INTERNAL_ERROR" ? "Internal server error" : "Allocation request failed",
+        code,
+        message,
+        ...(details ? { details } : {})
+    });
+}
+
+// Sends the error an allocation route failed with. When another process changed the
+// allocations first or is still writing them, the engine has reloaded, so a retry can succeed.
+function sendAllocationFailure(res: Response, error: unknown) {
+    if (isStoreConflict(error)) {
+        return sendAllocationError(res, "STORE_CONFLICT", error.message);
+    }
+    return sendAllocationError(res, "INTERNAL_ERROR", error instanceof Error ? error.message : String(error));
+}
+
 // Express error handling middleware
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
     console.error(chalk.red(`❌ Express error: ${err.message}`));
@@ -49,6 +187,13 @@ async function initializeServer() {
         // Initialize the quota engine
         quotaEngine = new QuotaEngine();
         await quotaEngine.initialize();
+        OrchestratorMetrics.setQuotaSource(quotaEngine);
+
+        // Refresh quota data in the background whenever it goes stale (0 disables)
+        const refreshCheckIntervalMs = parseInt(process.env.QUOTA_REFRESH_CHECK_INTERVAL_MS || String(QuotaEngine.REFRESH_CHECK_INTERVAL_MS), 10);
+        if (refreshCheckIntervalMs > 0) {
+            quotaEngine.startRefreshScheduler(refreshCheckIntervalMs);
+        }
 
         // Start the server after initialization
         const port = process.env.ORCHESTRATOR_PORT || 3000;
@@ -73,7 +218,7 @@ async function initializeServer() {
 }
 
 // Health check endpoint
-app.get("/health", (req: Request, res: Response) => {
+app.get("/health", api.validate("getHealth"), (req: Request, res: Response) => {
     TelemetryService.trackEvent("HealthCheckRequested", {
         clientIp: req.ip || "unknown",
         userAgent: req.get("User-Agent") || "unknown"
@@ -84,21 +229,33 @@ app.get("/health", (req: Request, res: Response) => {
         azure: connectionState?.azureConnected ? "connected" : "offline",
         besu: connectionState?.besuAvailable ? "available" : "offline",
         telemetry: telemetryInitialized ? "enabled" : "disabled",
-        version: "1.1.0"
+        version: API_VERSION,
+        circuitBreakers: CircuitBreaker.getStatuses()
     });
 });
 
-// RESTful endpoints
-app.get("/api/quotas", async (req: Request, res: Response) => {
+// OpenAPI specification of the routes below, and interactive docs generated from it
+app.get("/api/openapi.json", (req: Request, res: Response) => {
+    res.json(openApiDocument);
+});
+app.use("/api/docs", swaggerUi.serve, swaggerUi.setup(openApiDocument));
+
+// Prometheus metrics: quota and allocation gauges, refreshes, retries and request latency
+app.get("/metrics", auth.requireRole("viewer"), async (req: Request, res: Response) => {
     try {
-        const { region, role } = req.query;
+        res.set("Content-Type", MetricsService.contentType);
+        res.send(await MetricsService.metrics());
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error collecting metrics: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), { operation: "CollectMetrics" });
+        res.status(500).json({ error: "Internal server error", message: error instanceof Error ? error.message : String(error) });
+    }
+});
 
-        if (!region || !role) {
-            return res.status(400).json({
-                error: "Invalid request",
-                message: "Both 'region' and 'role' query parameters are required."
-            });
-        }
+// RESTful endpoints
+app.get("/api/quotas", auth.requireRole("viewer"), api.validate("validateQuota"), async (req: Request, res: Response) => {
+    try {
+        const { region, role } = req.query as unknown as QuotaEligibilityQuery;
 
         // Ensure quota engine is initialized
         if (!quotaEngine) {
@@ -106,7 +263,7 @@ app.get("/api/quotas", async (req: Request, res: Response) => {
             await quotaEngine.initialize();
         }
 
-        const isEligible = await quotaEngine.validateQuota(region as string, role as string);
+        const isEligible = await quotaEngine.validateQuota(region, role);
 
         res.json({
             region,
@@ -126,10 +283,43 @@ app.get("/api/quotas", async (req: Request, res: Response) => {
     }
 });
 
-// Endpoint to refresh quota data
-app.post("/api/quotas/refresh", async (req: Request, res: Response) => {
+// Quota figures of every region and SKU, for the front-end's quota matrix
+app.get("/api/quotas/matrix", auth.requireRole("viewer"), api.validate("getQuotaMatrix"), async (req: Request, res: Response) => {
+    try {
+        const { region, role } = req.query as QuotaMatrixQuery;
+
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const lastRefresh = quotaEngine.getLastRefreshTime();
+
+        res.json({
+            data: quotaEngine.getQuotaMatrix(region || undefined, role || undefined),
+            meta: {
+                timestamp: new Date().toISOString(),
+                lastRefresh: lastRefresh ? lastRefresh.toISOString() : null
+            }
+        });
+    } catch (error) {
+        console.error(chalk.red(`❌ Error getting quota matrix: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "GetQuotaMatrix"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Endpoint to refresh quota data; concurrent requests share one refresh
+app.post("/api/quotas/refresh", auth.requireRole("admin"), api.validate("refreshQuotas"), refreshLimiter.limit("refreshQuotas"), async (req: Request, res: Response) => {
     try {
-        TelemetryService.trackEvent("QuotaRefreshRequested");
+        TelemetryService.trackEvent("QuotaRefreshRequested", { caller: getRequester(req) });
 
         // Make sure quota engine is initialized
         if (!quotaEngine) {
@@ -137,21 +327,32 @@ app.post("/api/quotas/refresh", async (req: Request, res: Response) => {
             await quotaEngine.initialize();
         }
 
-        const result = await quotaEngine.refreshQuotaData();
+        const { success, coalesced } = await quotaEngine.requestRefresh(getRequester(req));
 
-        if (result) {
+        if (success) {
             res.json({
                 success: true,
                 message: "Quota data refreshed successfully",
+                coalesced,
                 timestamp: new Date().toISOString()
             });
         } else {
             res.status(503).json({
                 success: false,
-                message: "Failed to refresh quota data. Azure credentials may be missing."
+                message: "Failed to refresh quota data. Azure credentials may be missing.",
+                coalesced
             });
         }
     } catch (error: unknown) {
+        if (error instanceof RefreshThrottledError) {
+            res.setHeader("Retry-After", Math.ceil(error.retryAfterMs / 1000).toString());
+            return res.status(429).json({
+                error: "Too many requests",
+                code: "REFRESH_THROTTLED",
+                message: error.message
+            });
+        }
+
         console.error(chalk.red(`❌ Error refreshing quota data: ${error instanceof Error ? error.message : String(error)}`));
         TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
             operation: "RefreshQuotas"
@@ -165,28 +366,31 @@ app.post("/api/quotas/refresh", async (req: Request, res: Response) => {
 });
 
 // Add Besu connection status endpoint
-app.get("/api/besu/status", async (req: Request, res: Response) => {
+app.get("/api/besu/status", auth.requireRole("viewer"), api.validate("getBesuStatus"), async (req: Request, res: Response) => {
     try {
         TelemetryService.trackEvent("BesuStatusRequested");
 
-        // Refresh connection state to get the latest
-        const latestState = await ConnectivityService.checkConnections();
-
-        if (!latestState.besuAvailable) {
+        const endpoints = await ConnectivityService.getBesuEndpoints();
+        if (endpoints.length === 0) {
             return res.status(503).json({
                 available: false,
-                message: "Besu endpoint not configured. Set BESU_ENDPOINT environment variable."
+                message: "Besu endpoint not configured. Set BESU_ENDPOINTS or BESU_ENDPOINT environment variable."
             });
         }
 
-        // Get the actual endpoint for information
-        const besuEndpoint = process.env.BESU_ENDPOINT || "http://localhost:8545";
-
-        // In a real implementation, this would check actual connectivity in more detail
-        res.json({
-            available: true,
-            endpoint: besuEndpoint,
-            message: "Besu endpoint is configured properly",
+        // Probe every node for its chain, sync state, peers and validators
+        const nodes = await ConnectivityService.probeBesuNodes(endpoints);
+        const available = nodes.some(node => node.reachable && !node.problems.includes("wrong-chain"));
+        const healthyNodes = nodes.filter(node => node.healthy).length;
+
+        res.status(available ? 200 : 503).json({
+            available,
+            healthy: healthyNodes === nodes.length,
+            endpoint: endpoints[0],
+            nodes,
+            message: available
+                ? `${healthyNodes} of ${nodes.length} Besu nodes healthy`
+                : "No Besu node on the expected chain is reachable",
             timestamp: new Date().toISOString()
         });
     } catch (error: unknown) {
@@ -203,7 +407,7 @@ app.get("/api/besu/status", async (req: Request, res: Response) => {
 });
 
 // Add Azure connection status endpoint
-app.get("/api/azure/status", async (req: Request, res: Response) => {
+app.get("/api/azure/status", auth.requireRole("viewer"), api.validate("getAzureStatus"), async (req: Request, res: Response) => {
     try {
         TelemetryService.trackEvent("AzureStatusRequested");
 
@@ -245,22 +449,15 @@ app.get("/api/azure/status", async (req: Request, res: Response) => {
 });
 
 // Add recommendation API endpoint
-app.post("/api/quotas/recommendations", async (req: Request, res: Response) => {
+app.post("/api/quotas/recommendations", auth.requireRole("viewer"), api.validate("recommendAllocations"), async (req: Request, res: Response) => {
     try {
         const recommendationRequest: RecommendationRequest = req.body;
 
-        // Validate request
-        if (!recommendationRequest.role || !recommendationRequest.minimumQuota) {
-            return res.status(400).json({
-                error: "Invalid request",
-                message: "role and minimumQuota are required fields"
-            });
-        }
-
         TelemetryService.trackEvent("QuotaRecommendationRequested", {
             role: recommendationRequest.role,
             minimumQuota: recommendationRequest.minimumQuota.toString(),
-            preferredRegions: recommendationRequest.preferredRegions?.join(";") || "any"
+            preferredRegions: recommendationRequest.preferredRegions?.join(";") || "any",
+            caller: getRequester(req)
         });
 
         // Make sure quota engine is initialized
@@ -269,8 +466,8 @@ app.post("/api/quotas/recommendations", async (req: Request, res: Response) => {
             await quotaEngine.initialize();
         }
 
-        // Get recommendations - add await since it returns a Promise
-        const recommendations = await quotaEngine.getResourceRecommendations(recommendationRequest);
+        // Get recommendations, with the SKUs the requirements ruled out
+        const { recommendations, excluded } = await quotaEngine.evaluateRecommendations(recommendationRequest);
 
         // Track number of recommendations for analytics
         TelemetryService.trackMetric("RecommendationCount", recommendations.length);
@@ -278,6 +475,7 @@ app.post("/api/quotas/recommendations", async (req: Request, res: Response) => {
         res.json({
             query: recommendationRequest,
             recommendations,
+            excluded,
             meta: {
                 count: recommendations.length,
                 timestamp: new Date().toISOString(),
@@ -297,71 +495,150 @@ app.post("/api/quotas/recommendations", async (req: Request, res: Response) => {
     }
 });
 
-// Add endpoint to suggest a region for deployment
-app.get("/api/quotas/suggestions/:role", async (req: Request, res: Response) => {
+// How often an idle event stream sends a comment so proxies keep the connection open
+const EVENT_STREAM_HEARTBEAT_MS = 25000;
+
+// Add server-sent events stream of quota and allocation changes. Clients resume with the
+// Last-Event-ID header (sent by EventSource on reconnect) or ?lastEventId=, and may
+// limit the stream with ?types=allocation.created,alert.changed
+app.get("/api/events", auth.requireRole("viewer"), api.validate("streamEvents"), async (req: Request, res: Response) => {
     try {
-        const { role } = req.params;
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
 
-        if (!role) {
-            return res.status(400).json({
-                error: "Invalid request",
-                message: "'role' parameter is required."
+        const events = quotaEngine.events;
+        const types = req.query.types ? new Set((req.query.types as string).split(",")) : null;
+        const lastEventId = req.header("Last-Event-ID") || (req.query.lastEventId as string | undefined);
+        const wanted = (type: QuotaEventType) => !types || types.has(type);
+
+        res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no"
+        });
+        res.write("retry: 5000\n\n");
+
+        // Replay what the client missed, or tell it to reload if that is no longer known
+        if (lastEventId) {
+            const missed = events.since(lastEventId);
+            if (missed) {
+                missed.filter(event => wanted(event.type)).forEach(event => res.write(formatServerSentEvent(event)));
+            } else {
+                res.write(`event: resync\ndata: ${JSON.stringify({ lastEventId, message: "Event history is not available, reload the current state" })}\n\n`);
+            }
+        }
+
+        const unsubscribe = events.subscribe(event => {
+            if (wanted(event.type)) {
+                res.write(formatServerSentEvent(event));
+            }
+        });
+        const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), EVENT_STREAM_HEARTBEAT_MS);
+
+        TelemetryService.trackEvent("EventStreamOpened", {
+            resumed: (!!lastEventId).toString(),
+            subscribers: events.subscriberCount.toString(),
+            caller: getRequester(req)
+        });
+
+        req.on("close", () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error opening event stream: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "OpenEventStream"
+        });
+
+        if (!res.headersSent) {
+            res.status(500).json({
+                error: "Failed to open event stream",
+                message: error instanceof Error ? error.message : String(error)
             });
         }
+    }
+});
 
-        // Ensure quota engine is initialized
+// Add placement planning endpoint for whole networks; the plan's allocationLines can be posted to /api/allocations/batch
+app.post("/api/placements/plan", auth.requireRole("viewer"), api.validate("planPlacement"), async (req: Request, res: Response) => {
+    try {
+        const shape: NetworkShape = req.body;
+
+        // Make sure quota engine is initialized
         if (!quotaEngine) {
             quotaEngine = new QuotaEngine();
             await quotaEngine.initialize();
         }
 
-        const suggestion = await ConnectivityService.recommendBestRegion(role, 1); // Assuming 1 unit needed
+        const plan = await quotaEngine.planPlacement(shape);
 
         res.json({
-            role,
-            suggestion
+            query: shape,
+            plan,
+            meta: {
+                timestamp: new Date().toISOString(),
+                azureConnected: connectionState?.azureConnected || false
+            }
         });
-    } catch (error) {
-        console.error(chalk.red(`❌ Error suggesting region: ${error instanceof Error ? error.message : String(error)}`));
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error planning placement: ${error instanceof Error ? error.message : String(error)}`));
         TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
-            operation: "SuggestRegion"
+            operation: "PlanPlacement"
         });
 
         res.status(500).json({
-            error: "Internal server error",
+            error: "Failed to plan placement",
             message: error instanceof Error ? error.message : String(error)
         });
     }
 });
 
-// Add endpoint to summarize quota availability for a role
-app.get("/api/quotas/summary/:role", async (req: Request, res: Response) => {
+// Add SKU catalog endpoint listing the capabilities recommendations are checked against
+app.get("/api/skus", auth.requireRole("viewer"), api.validate("listSkus"), async (req: Request, res: Response) => {
     try {
-        const { role } = req.params;
-
-        if (!role) {
-            return res.status(400).json({
-                error: "Invalid request",
-                message: "'role' parameter is required."
-            });
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
         }
 
-        // Ensure quota engine is initialized
+        res.json({
+            skus: quotaEngine.getSkuCatalog().list()
+        });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error listing SKU catalog: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "ListSkuCatalog"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add endpoint listing the allocation policies checked before every allocation
+app.get("/api/policies", auth.requireRole("viewer"), api.validate("listPolicies"), async (req: Request, res: Response) => {
+    try {
+        // Make sure quota engine is initialized
         if (!quotaEngine) {
             quotaEngine = new QuotaEngine();
             await quotaEngine.initialize();
         }
 
-        const summary = quotaEngine.summarizeQuotaAvailability(role);
-
         res.json({
-            role,
-            summary
+            rules: quotaEngine.getPolicies().rules
         });
-    } catch (error) {
-        console.error(chalk.red(`❌ Error summarizing quota availability: ${error instanceof Error ? error.message : String(error)}`));
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error listing policies: ${error instanceof Error ? error.message : String(error)}`));
         TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
-            operation: "SummarizeQuotaAvailability"
+            operation: "ListPolicies"
         });
 
         res.status(500).json({
@@ -371,66 +648,671 @@ app.get("/api/quotas/summary/:role", async (req: Request, res: Response) => {
     }
 });
 
-/**
- * CLI command to suggest a region for deployment based on available quota.
- * Usage: node server.js suggest-region <role>
- */
-if (process.argv[2] === "suggest-region") {
-    const role = process.argv[3];
+// Add allocation endpoints: list with filters, create (or reserve), get, release and confirm
+app.get("/api/allocations", auth.requireRole("viewer"), api.validate("listAllocations"), async (req: Request, res: Response) => {
+    try {
+        const { applicationId, region, role, status } = req.query as AllocationListQuery;
 
-    if (!role) {
-        console.error("❌ Role parameter is required.");
-        process.exit(1);
-    }
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
 
-    (async () => {
-        try {
-            if (!quotaEngine) {
-                quotaEngine = new QuotaEngine();
-                await quotaEngine.initialize();
+        const allocations = quotaEngine.listAllocations({
+            applicationId,
+            region,
+            role,
+            status
+        });
+
+        res.json({
+            allocations,
+            meta: {
+                count: allocations.length,
+                timestamp: new Date().toISOString()
             }
+        });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error listing allocations: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "ListAllocations"
+        });
 
-            const suggestion = await ConnectivityService.recommendBestRegion(role, 1); // Assuming 1 unit needed
+        sendAllocationError(res, "INTERNAL_ERROR", error instanceof Error ? error.message : String(error));
+    }
+});
 
-            console.log(`✅ Suggested region for role '${role}':`, suggestion);
-        } catch (error) {
-            console.error(`❌ Error suggesting region: ${error instanceof Error ? error.message : String(error)}`);
-            process.exit(1);
+app.post("/api/allocations", auth.requireRole("allocator"), api.validate("createAllocation"), async (req: Request, res: Response) => {
+    try {
+        const { region, sku, role, amount, applicationId, subscriptionId, reserve, ttlSeconds } = req.body as CreateAllocationRequest;
+
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
         }
-    })();
-}
 
-/**
- * CLI command to summarize quota availability for a role.
- * Usage: node server.js summarize-availability <role>
- */
-if (process.argv[2] === "summarize-availability") {
-    const role = process.argv[3];
+        const outcome = await quotaEngine.requestAllocation({
+            region,
+            sku,
+            role,
+            amount,
+            applicationId,
+            subscriptionId,
+            reserve: !!reserve,
+            ttlMs: ttlSeconds !== undefined ? ttlSeconds * 1000 : undefined
+        }, getRequester(req));
+
+        if (!outcome.allocation) {
+            return sendAllocationError(res, outcome.code || "INTERNAL_ERROR", outcome.reason || "Allocation was rejected");
+        }
 
-    if (!role) {
-        console.error("❌ Role parameter is required.");
-        process.exit(1);
+        res.status(201).location(`/api/allocations/${outcome.allocation.id}`).json({ allocation: outcome.allocation });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error allocating quota: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "AllocateQuota"
+        });
+
+        sendAllocationFailure(res, error);
     }
+});
 
-    (async () => {
-        try {
-            if (!quotaEngine) {
-                quotaEngine = new QuotaEngine();
-                await quotaEngine.initialize();
-            }
+app.get("/api/allocations/:id", auth.requireRole("viewer"), api.validate("getAllocation"), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
 
-            const summary = quotaEngine.summarizeQuotaAvailability(role);
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
 
-            console.log(`✅ Quota summary for role '${role}':`, summary);
-        } catch (error) {
-            console.error(`❌ Error summarizing quota availability: ${error instanceof Error ? error.message : String(error)}`);
-            process.exit(1);
+        const allocation = quotaEngine.getAllocation(id);
+        if (!allocation) {
+            return sendAllocationError(res, "ALLOCATION_NOT_FOUND", `Allocation not found: ${id}`);
         }
-    })();
-}
 
-// Start the server initialization process
-initializeServer().catch((error: unknown) => {
-    console.error(chalk.red(`❌ Critical error during server initialization: ${error instanceof Error ? error.message : String(error)}`));
-    process.exit(1);
-});
\ No newline at end of file
+        res.json({ allocation });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error getting allocation: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "GetAllocation"
+        });
+
+        sendAllocationError(res, "INTERNAL_ERROR", error instanceof Error ? error.message : String(error));
+    }
+});
+
+app.delete("/api/allocations/:id", auth.requireRole("allocator"), api.validate("releaseAllocation"), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const reason = req.query.reason as string | undefined;
+
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const allocation = quotaEngine.getAllocation(id);
+        if (!allocation) {
+            return sendAllocationError(res, "ALLOCATION_NOT_FOUND", `Allocation not found: ${id}`);
+        }
+        if (allocation.status === "released" || allocation.status === "expired") {
+            return sendAllocationError(res, "ALLOCATION_NOT_ACTIVE", `Allocation ${id} is already ${allocation.status}`, { status: allocation.status });
+        }
+
+        // Another process may have removed it since it was read
+        if (!quotaEngine.releaseQuota(id, getRequester(req), reason)) {
+            return sendAllocationError(res, "ALLOCATION_NOT_FOUND", `Allocation not found: ${id}`);
+        }
+
+        res.json({ allocation: quotaEngine.getAllocation(id) });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error releasing allocation: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "ReleaseAllocation"
+        });
+
+        sendAllocationFailure(res, error);
+    }
+});
+
+app.post("/api/allocations/:id/confirm", auth.requireRole("allocator"), api.validate("confirmReservation"), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        if (!quotaEngine.getAllocation(id)) {
+            return sendAllocationError(res, "ALLOCATION_NOT_FOUND", `Reservation not found: ${id}`);
+        }
+
+        if (!quotaEngine.confirmReservation(id, getRequester(req))) {
+            const status = quotaEngine.getAllocation(id)?.status;
+            return sendAllocationError(res, "ALLOCATION_NOT_ACTIVE", `Reservation ${id} cannot be confirmed (status: ${status})`, { status });
+        }
+
+        res.json({ allocation: quotaEngine.getAllocation(id) });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error confirming reservation: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "ConfirmReservation"
+        });
+
+        sendAllocationFailure(res, error);
+    }
+});
+
+// Add batch allocation endpoint (all lines are allocated or none)
+app.post("/api/allocations/batch", auth.requireRole("allocator"), api.validate("allocateBatch"), async (req: Request, res: Response) => {
+    try {
+        const { applicationId, lines } = req.body as BatchAllocationRequest;
+
+        TelemetryService.trackEvent("QuotaBatchAllocationRequested", {
+            applicationId,
+            lineCount: lines.length.toString(),
+            caller: getRequester(req)
+        });
+
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const result = await quotaEngine.allocateQuotaBatch(lines, applicationId, getRequester(req));
+
+        res.status(result.committed ? 201 : 409).json(result);
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error allocating quota batch: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "AllocateQuotaBatch"
+        });
+
+        sendAllocationFailure(res, error);
+    }
+});
+
+// Add rebalancing endpoints for active allocations in unhealthy regions
+app.get("/api/rebalance/proposals", auth.requireRole("viewer"), api.validate("proposeRebalancing"), async (req: Request, res: Response) => {
+    try {
+        const maxTargets = req.query.maxTargets ? Number(req.query.maxTargets) : undefined;
+
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const proposals = await quotaEngine.proposeRebalancing(maxTargets);
+
+        res.json({
+            proposals,
+            meta: {
+                count: proposals.length,
+                timestamp: new Date().toISOString()
+            }
+        });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error proposing rebalancing: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "ProposeRebalancing"
+        });
+
+        sendAllocationError(res, "INTERNAL_ERROR", error instanceof Error ? error.message : String(error));
+    }
+});
+
+app.post("/api/rebalance/apply", auth.requireRole("admin"), api.validate("applyRebalancing"), async (req: Request, res: Response) => {
+    try {
+        const { allocationIds, targets } = req.body as ApplyRebalancingRequest;
+
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const results = await quotaEngine.applyRebalancing(allocationIds, targets, getRequester(req));
+
+        res.json({
+            results,
+            meta: {
+                migrated: results.filter(result => result.migrated).length,
+                timestamp: new Date().toISOString()
+            }
+        });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error applying rebalancing: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "ApplyRebalancing"
+        });
+
+        sendAllocationFailure(res, error);
+    }
+});
+
+// Add allocation history endpoint backed by the audit trail
+app.get("/api/allocations/:id/history", auth.requireRole("viewer"), api.validate("getAllocationHistory"), async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        // Make sure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const allocation = quotaEngine.getAllocation(id);
+        const events = quotaEngine.getAllocationHistory(id);
+
+        if (!allocation && events.length === 0) {
+            return res.status(404).json({
+                error: "Not found",
+                message: `Allocation not found: ${id}`
+            });
+        }
+
+        res.json({
+            allocationId: id,
+            status: allocation?.status ?? null,
+            events
+        });
+    } catch (error: unknown) {
+        console.error(chalk.red(`❌ Error getting allocation history: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "GetAllocationHistory"
+        });
+
+        res.status(500).json({
+            error: "Failed to get allocation history",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add endpoint to suggest a region for deployment
+app.get("/api/quotas/suggestions/:role", auth.requireRole("viewer"), api.validate("suggestRegion"), async (req: Request, res: Response) => {
+    try {
+        const { role } = req.params;
+
+        if (!role) {
+            return res.status(400).json({
+                error: "Invalid request",
+                message: "'role' parameter is required."
+            });
+        }
+
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const suggestion = await ConnectivityService.recommendBestRegion(role, 1); // Assuming 1 unit needed
+
+        res.json({
+            role,
+            suggestion
+        });
+    } catch (error) {
+        console.error(chalk.red(`❌ Error suggesting region: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "SuggestRegion"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add endpoint to summarize quota availability for a role, optionally within one subscription
+app.get("/api/quotas/summary/:role", auth.requireRole("viewer"), api.validate("summarizeQuota"), async (req: Request, res: Response) => {
+    try {
+        const { role } = req.params;
+        const subscription = req.query.subscription as string | undefined;
+
+        if (!role) {
+            return res.status(400).json({
+                error: "Invalid request",
+                message: "'role' parameter is required."
+            });
+        }
+
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const summary = quotaEngine.summarizeQuotaAvailability(role, subscription);
+
+        res.json({
+            role,
+            ...(subscription ? { subscription } : {}),
+            summary
+        });
+    } catch (error) {
+        console.error(chalk.red(`❌ Error summarizing quota availability: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "SummarizeQuotaAvailability"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add endpoint rolling quota up per subscription
+app.get("/api/quotas/subscriptions", auth.requireRole("viewer"), api.validate("summarizeSubscriptions"), async (req: Request, res: Response) => {
+    try {
+        const role = req.query.role as string | undefined;
+
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        res.json({
+            ...(role ? { role } : {}),
+            subscriptions: quotaEngine.summarizeBySubscription(role)
+        });
+    } catch (error) {
+        console.error(chalk.red(`❌ Error summarizing quota by subscription: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "SummarizeBySubscription"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add endpoint reporting how much of their budgets applications are using
+app.get("/api/budgets", auth.requireRole("viewer"), api.validate("getBudgets"), async (req: Request, res: Response) => {
+    try {
+        const applicationId = req.query.applicationId as string | undefined;
+
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        res.json({
+            budgets: quotaEngine.getBudgetStatus(applicationId)
+        });
+    } catch (error) {
+        console.error(chalk.red(`❌ Error getting budget status: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "GetBudgetStatus"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add chargeback report endpoint (JSON by default, or format=csv/markdown)
+app.get("/api/chargeback", auth.requireRole("viewer"), api.validate("getChargeback"), async (req: Request, res: Response) => {
+    try {
+        const { from, to, days, format = "json" } = req.query as Record<string, string | undefined>;
+
+        const toDate = to ? new Date(to) : new Date();
+        const fromDate = from ? new Date(from) : new Date(toDate.getTime() - Number(days || 30) * 24 * 60 * 60 * 1000);
+
+        if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+            return res.status(400).json({
+                error: "Invalid request",
+                message: "'from', 'to' and 'days' must be valid dates and numbers."
+            });
+        }
+
+        const contentTypes: Record<ChargebackFormat, string> = { json: "application/json", csv: "text/csv", markdown: "text/markdown" };
+
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const report = quotaEngine.getChargebackReport(fromDate, toDate);
+
+        res.type(contentTypes[format as ChargebackFormat]).send(formatChargebackReport(report, format as ChargebackFormat));
+    } catch (error) {
+        console.error(chalk.red(`❌ Error building chargeback report: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "GetChargebackReport"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add quota trends endpoint backed by the snapshots taken on every refresh
+app.get("/api/quotas/trends", auth.requireRole("viewer"), api.validate("getQuotaTrends"), async (req: Request, res: Response) => {
+    try {
+        const { region, days, from, to } = req.query as Record<string, string | undefined>;
+
+        const fromDate = from ? new Date(from) : days ? new Date(Date.now() - Number(days) * 24 * 60 * 60 * 1000) : undefined;
+        const toDate = to ? new Date(to) : undefined;
+
+        if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+            return res.status(400).json({
+                error: "Invalid request",
+                message: "'from', 'to' and 'days' must be valid dates and numbers."
+            });
+        }
+
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        res.json(quotaEngine.getQuotaTrends(fromDate, toDate, region));
+    } catch (error) {
+        console.error(chalk.red(`❌ Error getting quota trends: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "GetQuotaTrends"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add endpoint to list the stored quota snapshots
+app.get("/api/quotas/snapshots", auth.requireRole("viewer"), api.validate("listSnapshots"), async (req: Request, res: Response) => {
+    try {
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        res.json({ snapshots: quotaEngine.listSnapshots() });
+    } catch (error) {
+        console.error(chalk.red(`❌ Error listing quota snapshots: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "ListQuotaSnapshots"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add endpoint to diff two quota snapshots (defaults to the two most recent)
+app.get("/api/quotas/snapshots/diff", auth.requireRole("viewer"), api.validate("diffSnapshots"), async (req: Request, res: Response) => {
+    try {
+        const { from, to } = req.query as Record<string, string | undefined>;
+
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const diff = quotaEngine.diffSnapshots(from, to);
+
+        if (!diff) {
+            return res.status(404).json({
+                error: "Not found",
+                message: from || to
+                    ? `Snapshot not found: ${[from, to].filter(Boolean).join(", ")}`
+                    : "At least two snapshots are needed to compare"
+            });
+        }
+
+        res.json(diff);
+    } catch (error) {
+        console.error(chalk.red(`❌ Error comparing quota snapshots: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "DiffQuotaSnapshots"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+// Add endpoint to forecast quota exhaustion from the recorded refresh history
+app.get("/api/quotas/forecast", auth.requireRole("viewer"), api.validate("forecastQuota"), async (req: Request, res: Response) => {
+    try {
+        const { region, role, method, warningDays } = req.query as Record<string, string | undefined>;
+
+        const warningDaysValue = warningDays !== undefined ? Number(warningDays) : undefined;
+
+        // Ensure quota engine is initialized
+        if (!quotaEngine) {
+            quotaEngine = new QuotaEngine();
+            await quotaEngine.initialize();
+        }
+
+        const forecasts = quotaEngine.getQuotaForecasts({
+            region,
+            role,
+            method: method as ForecastMethod | undefined,
+            warningDays: warningDaysValue
+        });
+
+        res.json({
+            generatedAt: new Date().toISOString(),
+            forecasts
+        });
+    } catch (error) {
+        console.error(chalk.red(`❌ Error forecasting quota: ${error instanceof Error ? error.message : String(error)}`));
+        TelemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+            operation: "ForecastQuota"
+        });
+
+        res.status(500).json({
+            error: "Internal server error",
+            message: error instanceof Error ? error.message : String(error)
+        });
+    }
+});
+
+/**
+ * CLI command to suggest a region for deployment based on available quota.
+ * Usage: node server.js suggest-region <role>
+ */
+if (process.argv[2] === "suggest-region") {
+    const role = process.argv[3];
+
+    if (!role) {
+        console.error("❌ Role parameter is required.");
+        process.exit(1);
+    }
+
+    (async () => {
+        try {
+            if (!quotaEngine) {
+                quotaEngine = new QuotaEngine();
+                await quotaEngine.initialize();
+            }
+
+            const suggestion = await ConnectivityService.recommendBestRegion(role, 1); // Assuming 1 unit needed
+
+            console.log(`✅ Suggested region for role '${role}':`, suggestion);
+        } catch (error) {
+            console.error(`❌ Error suggesting region: ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        }
+    })();
+}
+
+/**
+ * CLI command to summarize quota availability for a role.
+ * Usage: node server.js summarize-availability <role>
+ */
+if (process.argv[2] === "summarize-availability") {
+    const role = process.argv[3];
+
+    if (!role) {
+        console.error("❌ Role parameter is required.");
+        process.exit(1);
+    }
+
+    (async () => {
+        try {
+            if (!quotaEngine) {
+                quotaEngine = new QuotaEngine();
+                await quotaEngine.initialize();
+            }
+
+            const summary = quotaEngine.summarizeQuotaAvailability(role);
+
+            console.log(`✅ Quota summary for role '${role}':`, summary);
+        } catch (error) {
+            console.error(`❌ Error summarizing quota availability: ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        }
+    })();
+}
+
+// Started when run as a program; tests import the app without listening
+if (require.main === module) {
+    // Send buffered telemetry before stopping
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+        process.once(signal, () => {
+            console.log(chalk.blue(`🛑 Received ${signal}, shutting down`));
+            quotaEngine?.close();
+            TelemetryService.shutdown().finally(() => process.exit(0));
+        });
+    }
+
+    // Start the server initialization process
+    initializeServer().catch((error: unknown) => {
+        console.error(chalk.red(`❌ Critical error during server initialization: ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+    });
+}
+
+export { app };
@@ -0,0 +1,85 @@
+/**
+ * Kind of action recorded in the audit trail
+ */
+export type AuditAction =
+    | 'allocate'
+    | 'reserve'
+    | 'confirm'
+    | 'release'
+    | 'expire'
+    | 'reject'
+    | 'refresh'
+    | 'add-sku';
+
+/**
+ * AuditEvent is an immutable record of a single QuotaEngine action
+ */
+export interface AuditEvent {
+    /** Unique identifier for this event */
+    id: string;
+    /** When the action happened */
+    timestamp: string;
+    /** What was done */
+    action: AuditAction;
+    /** Whether the action succeeded */
+    outcome: 'success' | 'failure';
+    /** Who requested the action */
+    requestedBy: string;
+    /** Allocation affected by the action (if any) */
+    allocationId?: string;
+    /** Application the allocation belongs to (if any) */
+    applicationId?: string;
+    /** Region affected by the action (if any) */
+    region?: string;
+    /** SKU affected by the action (if any) */
+    sku?: string;
+    /** Role affected by the action (if any) */
+    role?: string;
+    /** Amount of quota involved (if any) */
+    amount?: number;
+    /** Why the action was rejected or failed */
+    reason?: string;
+    /** Additional action-specific details */
+    details?: Record<string, string>;
+}
+
+/**
+ * Criteria for querying audit events. All given criteria must match.
+ */
+export interface AuditEventFilter {
+    allocationId?: string;
+    applicationId?: string;
+    region?: string;
+    action?: AuditAction;
+    /** Only events at or after this time */
+    from?: Date;
+    /** Only events at or before this time */
+    to?: Date;
+    /** Return at most this many of the most recent matching events */
+    limit?: number;
+}
+
+/**
+ * Checks whether an audit event matches a filter
+ */
+export function matchesAuditFilter(event: AuditEvent, filter: AuditEventFilter): boolean {
+    const time = new Date(event.timestamp).getTime();
+
+    return (!filter.allocationId || event.allocationId === filter.allocationId)
+        && (!filter.applicationId || event.applicationId === filter.applicationId)
+        && (!filter.region || event.region === filter.region)
+        && (!filter.action || event.action === filter.action)
+        && (!filter.from || time >= filter.from.getTime())
+        && (!filter.to || time <= filter.to.getTime());
+}
+
+/**
+ * Filters audit events (oldest first) and applies the filter's limit
+ * @returns Matching events, oldest first
+ */
+export function filterAuditEvents(events: AuditEvent[], filter: AuditEventFilter): AuditEvent[] {
+    const matching = events.filter(event => matchesAuditFilter(event, filter));
+    return filter.limit !== undefined && filter.limit >= 0
+        ? matching.slice(Math.max(matching.length - filter.limit, 0))
+        : matching;
+}
@@ -0,0 +1,190 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+
+/**
+ * Options for acquiring a file lock
+ */
+export interface FileLockOptions {
+    /** How long to wait for the lock before giving up */
+    timeoutMs?: number;
+    /** Delay between attempts to acquire the lock */
+    retryDelayMs?: number;
+    /** Locks older than this are assumed to belong to a crashed process */
+    staleMs?: number;
+}
+
+/**
+ * Default lock options
+ */
+const DEFAULT_LOCK_OPTIONS: Required<FileLockOptions> = {
+    timeoutMs: 10000,
+    retryDelayMs: 50,
+    staleMs: 30000
+};
+
+/**
+ * Changes the lock options used when a caller passes none, for the whole process.
+ * Waiting for a lock blocks the thread, so servers set `timeoutMs: 0`: a lock held by
+ * another process then fails at once instead of stalling every request behind it.
+ * @param options Options to change
+ */
+export function setDefaultFileLockOptions(options: FileLockOptions): void {
+    Object.assign(DEFAULT_LOCK_OPTIONS, options);
+}
+
+/**
+ * Thrown when a file lock could not be acquired in time
+ */
+export class FileLockTimeoutError extends Error {
+    constructor(public readonly lockPath: string, timeoutMs: number) {
+        super(timeoutMs > 0
+            ? `Timed out after ${timeoutMs}ms waiting for lock: ${lockPath}`
+            : `Lock is held by another process: ${lockPath}`);
+        this.name = "FileLockTimeoutError";
+    }
+}
+
+/**
+ * Blocks the current thread for the given number of milliseconds
+ */
+function sleepSync(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Runs an operation while holding an exclusive lock on a file.
+ * The lock is a sibling `<file>.lock` created with O_EXCL, so it works across processes.
+ * It holds an owner token, so a process only ever removes the lock it took.
+ * @param filePath File to lock
+ * @param operation Operation to run while the lock is held
+ * @param options Lock configuration options
+ * @returns Result of the operation
+ */
+export function withFileLock<T>(filePath: string, operation: () => T, options?: FileLockOptions): T {
+    const config = { ...DEFAULT_LOCK_OPTIONS, ...options };
+    const lockPath = `${filePath}.lock`;
+    const startTime = Date.now();
+
+    // Create directory if it doesn't exist
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const token = `${process.pid}:${randomUUID()}`;
+
+    for (;;) {
+        try {
+            const fd = fs.openSync(lockPath, "wx");
+            try {
+                fs.writeSync(fd, JSON.stringify({ token, pid: process.pid, acquiredAt: new Date().toISOString() }));
+            } finally {
+                fs.closeSync(fd);
+            }
+            break;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+                throw error;
+            }
+
+            // Break locks left behind by processes that died while holding them
+            const staleToken = readStaleToken(lockPath, config.staleMs);
+            if (staleToken !== null) {
+                removeLock(lockPath, staleToken);
+                continue;
+            }
+
+            if (Date.now() - startTime >= config.timeoutMs) {
+                throw new FileLockTimeoutError(lockPath, config.timeoutMs);
+            }
+
+            sleepSync(config.retryDelayMs);
+        }
+    }
+
+    try {
+        return operation();
+    } finally {
+        removeLock(lockPath, token);
+    }
+}
+
+/**
+ * Reads the owner token of a lock older than staleMs
+ * @returns The token, "" for a lock without one, or null if the lock is not stale
+ */
+function readStaleToken(lockPath: string, staleMs: number): string | null {
+    try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs <= staleMs) {
+            return null;
+        }
+        return readToken(lockPath);
+    } catch {
+        // Lock disappeared between attempts, so it is free to take
+        return null;
+    }
+}
+
+function readToken(lockPath: string): string {
+    try {
+        return (JSON.parse(fs.readFileSync(lockPath, "utf-8")) as { token?: string }).token ?? "";
+    } catch {
+        // Empty or partly written lock files carry no token
+        return "";
+    }
+}
+
+/**
+ * Removes a lock if it is still the one holding the token. The lock is first renamed
+ * to a name of its own, which only one process can do, and checked there: unlinking by
+ * path could remove a lock another process took after this one looked at it. A lock
+ * that turns out to be someone else's is put back, unless the lock was taken again.
+ */
+function removeLock(lockPath: string, token: string): void {
+    const claimedPath = `${lockPath}.${randomUUID()}.released`;
+
+    try {
+        fs.renameSync(lockPath, claimedPath);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            // Already removed, e.g. broken as stale by another process
+            return;
+        }
+        throw error;
+    }
+
+    try {
+        if (readToken(claimedPath) !== token) {
+            fs.linkSync(claimedPath, lockPath);
+        }
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+            throw error;
+        }
+    } finally {
+        fs.unlinkSync(claimedPath);
+    }
+}
+
+/**
+ * Writes a file atomically by writing a temporary sibling and renaming it into place,
+ * so readers never observe a partially written file
+ * @param filePath Destination file
+ * @param content File content
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+    try {
+        fs.writeFileSync(tempPath, content, "utf8");
+        fs.renameSync(tempPath, filePath);
+    } catch (error) {
+        try {
+            fs.unlinkSync(tempPath);
+        } catch {
+            // Temp file was never created or already renamed
+        }
+        throw error;
+    }
+}
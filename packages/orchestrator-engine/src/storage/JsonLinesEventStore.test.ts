@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { JsonLinesEventStore } from "./JsonLinesEventStore";
+import { StoreConflictError } from "./QuotaStore";
+import { QuotaAllocation } from "../rules/QuotaEngine";
+import { AuditEvent } from "./AuditEvent";
+
+const allocation = (id: string, status: QuotaAllocation['status']): QuotaAllocation => ({
+    id,
+    timestamp: "2025-04-01T00:00:00.000Z",
+    region: "eastus",
+    sku: "Standard_D2s_v3",
+    role: "validator",
+    amount: 2,
+    applicationId: "besu-net",
+    status
+});
+
+const auditEvent = (id: string, timestamp: string, overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+    id,
+    timestamp,
+    action: "allocate",
+    outcome: "success",
+    requestedBy: "alice",
+    allocationId: "a",
+    applicationId: "besu-net",
+    region: "eastus",
+    ...overrides
+});
+
+describe("JsonLinesEventStore", () => {
+    let dir: string;
+    let logPath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "quota-events-"));
+        logPath = path.join(dir, "quota-events.jsonl");
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should append only the allocations that changed", () => {
+        const store = new JsonLinesEventStore(logPath);
+
+        store.saveAllocations([allocation("a", "active"), allocation("b", "active")], 0);
+        store.saveAllocations([allocation("a", "active"), allocation("b", "released")], 1);
+
+        const events = store.readEvents();
+        expect(events.map(e => e.type)).toEqual(['AllocationUpserted', 'AllocationUpserted', 'AllocationUpserted']);
+        expect(events[2]).toMatchObject({ version: 2, allocation: { id: "b", status: "released" } });
+    });
+
+    it("should rebuild the same state in a fresh instance by replaying the log", () => {
+        const writer = new JsonLinesEventStore(logPath);
+        writer.saveQuotaData({ eastus: { Standard_D2s_v3: { total: 10, used: 2, available: 8, assigned_to: ["validator"] } } }, 0);
+        writer.saveAllocations([allocation("a", "active"), allocation("b", "pending")], 0);
+        writer.saveAllocations([allocation("a", "active")], 1);
+
+        const reader = new JsonLinesEventStore(logPath);
+
+        expect(reader.loadQuotaData().version).toBe(1);
+        expect(reader.loadAllocations()).toEqual({ data: [allocation("a", "active")], version: 2 });
+    });
+
+    it("should replay state as of a point in time", () => {
+        fs.writeFileSync(logPath, [
+            { type: 'AllocationUpserted', version: 1, timestamp: "2025-04-01T00:00:00.000Z", allocation: allocation("a", "active") },
+            { type: 'AllocationUpserted', version: 2, timestamp: "2025-04-02T00:00:00.000Z", allocation: allocation("a", "released") }
+        ].map(event => JSON.stringify(event) + "\n").join(""), "utf8");
+
+        const state = new JsonLinesEventStore(logPath).replay(new Date("2025-04-01T12:00:00.000Z"));
+
+        expect(state.allocations.get("a")?.status).toBe("active");
+        expect(state.allocationVersion).toBe(1);
+    });
+
+    it("should reject saves from an instance that has not seen newer events", () => {
+        const first = new JsonLinesEventStore(logPath);
+        const second = new JsonLinesEventStore(logPath);
+        second.loadAllocations();
+
+        first.saveAllocations([allocation("a", "active")], 0);
+
+        expect(() => second.saveAllocations([allocation("b", "active")], 0)).toThrow(StoreConflictError);
+    });
+
+    it("should append audit events while another process holds the lock and keep replaying correctly", () => {
+        const writer = new JsonLinesEventStore(logPath);
+        writer.saveAllocations([allocation("a", "active")], 0);
+
+        fs.writeFileSync(`${logPath}.lock`, "{}", "utf8");
+        new JsonLinesEventStore(logPath).appendAuditEvent(auditEvent("1", "2025-04-01T00:00:00.000Z"));
+        fs.unlinkSync(`${logPath}.lock`);
+
+        writer.saveAllocations([allocation("a", "released")], 1);
+
+        expect(writer.loadAllocations()).toEqual({ data: [allocation("a", "released")], version: 2 });
+        expect(writer.queryAuditEvents({}).map(e => e.id)).toEqual(["1"]);
+        expect(new JsonLinesEventStore(logPath).loadAllocations().version).toBe(2);
+    });
+
+    it("should query audit events by filter, keeping the most recent when limited", () => {
+        const store = new JsonLinesEventStore(logPath);
+        store.appendAuditEvent(auditEvent("1", "2025-04-01T00:00:00.000Z"));
+        store.appendAuditEvent(auditEvent("2", "2025-04-02T00:00:00.000Z", { action: "release", details: { reason: "done" } }));
+        store.appendAuditEvent(auditEvent("3", "2025-04-03T00:00:00.000Z", { allocationId: "b", region: "westus" }));
+
+        const reader = new JsonLinesEventStore(logPath);
+        expect(reader.queryAuditEvents({ allocationId: "a" }).map(e => e.id)).toEqual(["1", "2"]);
+        expect(reader.queryAuditEvents({ region: "westus" }).map(e => e.id)).toEqual(["3"]);
+        expect(reader.queryAuditEvents({ from: new Date("2025-04-02T00:00:00.000Z") }).map(e => e.id)).toEqual(["2", "3"]);
+        expect(reader.queryAuditEvents({ limit: 2 }).map(e => e.id)).toEqual(["2", "3"]);
+        expect(reader.queryAuditEvents({ action: "release" })[0].details).toEqual({ reason: "done" });
+    });
+});
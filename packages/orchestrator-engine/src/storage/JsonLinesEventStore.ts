@@ -0,0 +1,282 @@
+import * as fs from "fs";
+import * as path from "path";
+import { QuotaAllocation } from "../rules/QuotaEngine";
+import { AuditEvent, AuditEventFilter, filterAuditEvents } from "./AuditEvent";
+import { withFileLock, FileLockOptions } from "./FileLock";
+import { QuotaData, QuotaStore, StoreConflictError, StoreVersions, VersionedDocument, stripAllocations } from "./QuotaStore";
+import { QuotaUsageSample, UsageHistoryFilter, filterUsageSamples } from "./UsageHistory";
+
+/**
+ * An entry in the append-only store event log. `version` is the version of the
+ * affected collection (quota data or allocations) after the save that wrote it.
+ * Audit and usage entries share the log but do not affect replayed state.
+ */
+export type StoreEvent =
+    | { type: 'QuotaDataReplaced'; version: number; timestamp: string; data: QuotaData }
+    | { type: 'AllocationUpserted'; version: number; timestamp: string; allocation: QuotaAllocation }
+    | { type: 'AllocationRemoved'; version: number; timestamp: string; allocationId: string }
+    | { type: 'AuditRecorded'; timestamp: string; event: AuditEvent }
+    | { type: 'UsageRecorded'; timestamp: string; samples: QuotaUsageSample[] };
+
+/**
+ * State rebuilt by replaying store events
+ */
+export interface ReplayedState {
+    quotaData: QuotaData;
+    quotaVersion: number;
+    allocations: Map<string, QuotaAllocation>;
+    allocationVersion: number;
+}
+
+/**
+ * Applies events, in order, to a state
+ * @param events Events to apply
+ * @param state State to apply them to (default: empty state)
+ * @returns The updated state
+ */
+export function replayStoreEvents(events: StoreEvent[], state: ReplayedState = emptyState()): ReplayedState {
+    for (const event of events) {
+        switch (event.type) {
+            case 'QuotaDataReplaced':
+                state.quotaData = event.data;
+                state.quotaVersion = event.version;
+                break;
+            case 'AllocationUpserted':
+                state.allocations.set(event.allocation.id, event.allocation);
+                state.allocationVersion = event.version;
+                break;
+            case 'AllocationRemoved':
+                state.allocations.delete(event.allocationId);
+                state.allocationVersion = event.version;
+                break;
+            case 'AuditRecorded':
+            case 'UsageRecorded':
+                break;
+        }
+    }
+
+    return state;
+}
+
+function emptyState(): ReplayedState {
+    return { quotaData: {}, quotaVersion: 0, allocations: new Map(), allocationVersion: 0 };
+}
+
+/**
+ * JsonLinesEventStore records every change as an event appended to a JSON-lines file.
+ * Current state is the replay of all events; saves only append the differences
+ * since the last replay. Saves append under a cross-process file lock; audit and usage
+ * entries carry no version and are appended without it. Each process catches up
+ * incrementally from where it last read.
+ */
+export class JsonLinesEventStore implements QuotaStore {
+    private state: ReplayedState = emptyState();
+    private offset = 0;
+
+    constructor(public readonly location: string, private readonly lockOptions?: FileLockOptions) {
+        // Create directory if it doesn't exist
+        const dir = path.dirname(location);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+    }
+
+    public hasQuotaData(): boolean {
+        this.catchUp();
+        return this.state.quotaVersion > 0;
+    }
+
+    public loadQuotaData(): VersionedDocument<QuotaData> {
+        this.catchUp();
+        return { data: clone(this.state.quotaData), version: this.state.quotaVersion };
+    }
+
+    public saveQuotaData(data: QuotaData, expectedVersion?: number): number {
+        return withFileLock(this.location, () => {
+            this.catchUp();
+            const nextVersion = this.checkVersion(this.state.quotaVersion, expectedVersion, 'quotas');
+
+            this.append([{
+                type: 'QuotaDataReplaced',
+                version: nextVersion,
+                timestamp: new Date().toISOString(),
+                data: stripAllocations(data)
+            }]);
+
+            return nextVersion;
+        }, this.lockOptions);
+    }
+
+    public hasAllocations(): boolean {
+        this.catchUp();
+        return this.state.allocationVersion > 0;
+    }
+
+    public loadAllocations(): VersionedDocument<QuotaAllocation[]> {
+        this.catchUp();
+        return { data: clone(Array.from(this.state.allocations.values())), version: this.state.allocationVersion };
+    }
+
+    public saveAllocations(allocations: QuotaAllocation[], expectedVersion?: number): number {
+        return withFileLock(this.location, () => {
+            this.catchUp();
+            const nextVersion = this.checkVersion(this.state.allocationVersion, expectedVersion, 'allocations');
+            const timestamp = new Date().toISOString();
+            const events: StoreEvent[] = [];
+
+            // Only allocations that changed are written
+            for (const allocation of allocations) {
+                const current = this.state.allocations.get(allocation.id);
+                if (!current || JSON.stringify(current) !== JSON.stringify(allocation)) {
+                    events.push({ type: 'AllocationUpserted', version: nextVersion, timestamp, allocation: clone(allocation) });
+                }
+            }
+
+            const ids = new Set(allocations.map(a => a.id));
+            for (const allocationId of this.state.allocations.keys()) {
+                if (!ids.has(allocationId)) {
+                    events.push({ type: 'AllocationRemoved', version: nextVersion, timestamp, allocationId });
+                }
+            }
+
+            // Nothing changed, so the version stays where it is
+            if (events.length === 0) {
+                return this.state.allocationVersion;
+            }
+
+            this.append(events);
+            return nextVersion;
+        }, this.lockOptions);
+    }
+
+    public getVersions(): StoreVersions {
+        this.catchUp();
+        return { quotaVersion: this.state.quotaVersion, allocationVersion: this.state.allocationVersion };
+    }
+
+    public appendAuditEvent(event: AuditEvent): void {
+        this.append([{ type: 'AuditRecorded', timestamp: event.timestamp, event }]);
+    }
+
+    public queryAuditEvents(filter: AuditEventFilter): AuditEvent[] {
+        const events = this.readEvents()
+            .filter((entry): entry is Extract<StoreEvent, { type: 'AuditRecorded' }> => entry.type === 'AuditRecorded')
+            .map(entry => entry.event);
+
+        return filterAuditEvents(events, filter);
+    }
+
+    public appendUsageSamples(samples: QuotaUsageSample[]): void {
+        if (samples.length === 0) {
+            return;
+        }
+
+        this.append([{ type: 'UsageRecorded', timestamp: samples[0].timestamp, samples }]);
+    }
+
+    public loadUsageHistory(filter: UsageHistoryFilter): QuotaUsageSample[] {
+        const samples = this.readEvents()
+            .filter((entry): entry is Extract<StoreEvent, { type: 'UsageRecorded' }> => entry.type === 'UsageRecorded')
+            .flatMap(entry => entry.samples);
+
+        return filterUsageSamples(samples, filter);
+    }
+
+    /**
+     * Reads every event in the log
+     * @returns All events, oldest first
+     */
+    public readEvents(): StoreEvent[] {
+        if (!fs.existsSync(this.location)) {
+            return [];
+        }
+
+        return parseLines(fs.readFileSync(this.location, "utf-8")).events;
+    }
+
+    /**
+     * Rebuilds state from the log, optionally as it was at a point in time
+     * @param until Only replay events recorded at or before this time
+     * @returns The rebuilt state
+     */
+    public replay(until?: Date): ReplayedState {
+        const events = this.readEvents()
+            .filter(event => !until || new Date(event.timestamp).getTime() <= until.getTime());
+
+        return replayStoreEvents(events);
+    }
+
+    public close(): void {
+        // The log is opened per operation, nothing to release
+    }
+
+    private checkVersion(currentVersion: number, expectedVersion: number | undefined, collection: string): number {
+        if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+            throw new StoreConflictError(`${this.location}#${collection}`, expectedVersion, currentVersion);
+        }
+
+        return currentVersion + 1;
+    }
+
+    /**
+     * Appends events and catches up past them, along with anything other processes
+     * appended in between. Versioned events must be appended while holding the lock.
+     */
+    private append(events: StoreEvent[]): void {
+        const content = events.map(event => JSON.stringify(event) + "\n").join("");
+
+        // A single append keeps the batch together for readers catching up
+        fs.appendFileSync(this.location, content, "utf8");
+
+        this.catchUp();
+    }
+
+    /**
+     * Applies events appended since the last read, by this or another process
+     */
+    private catchUp(): void {
+        if (!fs.existsSync(this.location)) {
+            return;
+        }
+
+        const size = fs.statSync(this.location).size;
+        if (size <= this.offset) {
+            return;
+        }
+
+        const buffer = Buffer.alloc(size - this.offset);
+        const fd = fs.openSync(this.location, "r");
+        try {
+            fs.readSync(fd, buffer, 0, buffer.length, this.offset);
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        // A trailing partial line is left for the next catch-up
+        const { events, consumedBytes } = parseLines(buffer.toString("utf8"));
+        replayStoreEvents(events, this.state);
+        this.offset += consumedBytes;
+    }
+}
+
+/**
+ * Parses complete lines from JSON-lines content
+ */
+function parseLines(content: string): { events: StoreEvent[]; consumedBytes: number } {
+    const lastNewline = content.lastIndexOf("\n");
+    if (lastNewline < 0) {
+        return { events: [], consumedBytes: 0 };
+    }
+
+    const complete = content.slice(0, lastNewline + 1);
+    const events = complete
+        .split("\n")
+        .filter(line => line.trim().length > 0)
+        .map(line => JSON.parse(line) as StoreEvent);
+
+    return { events, consumedBytes: Buffer.byteLength(complete, "utf8") };
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
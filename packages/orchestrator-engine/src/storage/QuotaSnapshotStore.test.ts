@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { QuotaSnapshotStore, diffQuotaSnapshots, buildQuotaTrends, QuotaSnapshot } from "./QuotaSnapshotStore";
+import { QuotaData } from "./QuotaStore";
+
+const quotas = (used: number, extra: QuotaData = {}): QuotaData => ({
+    eastus: {
+        Standard_D2s_v3: { total: 100, used, available: 100 - used, assigned_to: ["validator"] }
+    },
+    ...extra
+});
+
+const at = (day: number) => new Date(Date.UTC(2025, 3, day));
+
+describe("QuotaSnapshotStore", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "quota-snapshots-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should store snapshots without runtime allocation lists and list them oldest first", () => {
+        const store = new QuotaSnapshotStore(dir, { maxCount: 0, maxAgeDays: 0 });
+        const data = quotas(20);
+        data.eastus.Standard_D2s_v3.allocations = [];
+
+        const second = store.save(quotas(30), 'refresh', at(2));
+        const first = store.save(data, 'generate-yaml', at(1));
+
+        expect(store.list()).toEqual([first, second]);
+        expect(store.load(first.id)?.data).toEqual(quotas(20));
+        expect(store.load("../escape")).toBeNull();
+    });
+
+    it("should prune snapshots past the retention limits", () => {
+        const store = new QuotaSnapshotStore(dir, { maxCount: 3, maxAgeDays: 5 });
+
+        [1, 2, 3, 4, 8, 9].forEach(day => store.save(quotas(day), 'refresh', at(day)));
+
+        // Days 1-3 are older than 5 days at day 9, and only 3 may be kept
+        expect(store.list().map(snapshot => snapshot.timestamp)).toEqual([at(4), at(8), at(9)].map(d => d.toISOString()));
+    });
+
+    it("should diff figures per region and SKU between two snapshots", () => {
+        const store = new QuotaSnapshotStore(dir, { maxCount: 0, maxAgeDays: 0 });
+        const from = store.save(quotas(20, { westus: { Standard_D8s_v3: { total: 10, used: 10, available: 0, assigned_to: [] } } }), 'refresh', at(1));
+        const to = store.save(quotas(35, { centralus: { Standard_D4s_v3: { total: 50, used: 0, available: 50, assigned_to: [] } } }), 'refresh', at(2));
+
+        const diff = diffQuotaSnapshots(store.load(from.id) as QuotaSnapshot, store.load(to.id) as QuotaSnapshot);
+
+        expect(diff.from.id).toBe(from.id);
+        expect(diff.entries).toEqual([
+            { region: "centralus", sku: "Standard_D4s_v3", change: "added", after: { total: 50, used: 0, available: 50 }, delta: { total: 50, used: 0, available: 50 } },
+            {
+                region: "eastus", sku: "Standard_D2s_v3", change: "changed",
+                before: { total: 100, used: 20, available: 80 },
+                after: { total: 100, used: 35, available: 65 },
+                delta: { total: 0, used: 15, available: -15 }
+            },
+            { region: "westus", sku: "Standard_D8s_v3", change: "removed", before: { total: 10, used: 10, available: 0 }, delta: { total: -10, used: -10, available: 0 } }
+        ]);
+    });
+
+    it("should build usage trends from snapshots in a time range", () => {
+        const store = new QuotaSnapshotStore(dir, { maxCount: 0, maxAgeDays: 0 });
+        [1, 2, 3].forEach(day => store.save(quotas(day * 10), 'refresh', at(day)));
+
+        const trends = buildQuotaTrends(store.loadRange(at(2)), "eastus");
+
+        expect(trends).toEqual({
+            eastus: {
+                Standard_D2s_v3: {
+                    history: [
+                        { date: at(2).toISOString(), used: 20, total: 100 },
+                        { date: at(3).toISOString(), used: 30, total: 100 }
+                    ]
+                }
+            }
+        });
+    });
+});
@@ -0,0 +1,272 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+import { writeFileAtomic } from "./FileLock";
+import { QuotaData, stripAllocations } from "./QuotaStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What produced a snapshot
+ */
+export type QuotaSnapshotSource = 'refresh' | 'generate-yaml';
+
+/**
+ * Identifies a stored snapshot
+ */
+export interface QuotaSnapshotInfo {
+    /** Snapshot identifier, sortable by time */
+    id: string;
+    /** When the snapshot was taken */
+    timestamp: string;
+    /** What produced the snapshot */
+    source: QuotaSnapshotSource;
+}
+
+/**
+ * QuotaSnapshot is the full quota data as it was at one point in time
+ */
+export interface QuotaSnapshot extends QuotaSnapshotInfo {
+    data: QuotaData;
+}
+
+/**
+ * How long snapshots are kept. Limits of 0 disable that limit.
+ */
+export interface SnapshotRetention {
+    /** Keep at most this many snapshots (default: QUOTA_SNAPSHOT_MAX_COUNT or 500) */
+    maxCount?: number;
+    /** Remove snapshots older than this many days (default: QUOTA_SNAPSHOT_MAX_AGE_DAYS or 90) */
+    maxAgeDays?: number;
+}
+
+/**
+ * Quota numbers compared by a snapshot diff
+ */
+export interface QuotaFigures {
+    total: number;
+    used: number;
+    available: number;
+}
+
+/**
+ * Change of one region/SKU between two snapshots
+ */
+export interface QuotaSnapshotDiffEntry {
+    region: string;
+    sku: string;
+    change: 'added' | 'removed' | 'changed';
+    /** Figures in the older snapshot (absent if the SKU was added) */
+    before?: QuotaFigures;
+    /** Figures in the newer snapshot (absent if the SKU was removed) */
+    after?: QuotaFigures;
+    /** After minus before, counting a missing side as zero */
+    delta: QuotaFigures;
+}
+
+/**
+ * Differences between two snapshots. Region/SKUs that did not change are left out.
+ */
+export interface QuotaSnapshotDiff {
+    from: QuotaSnapshotInfo;
+    to: QuotaSnapshotInfo;
+    entries: QuotaSnapshotDiffEntry[];
+}
+
+/**
+ * Usage history per region and SKU, in the shape the front-end quota matrix reads
+ */
+export type QuotaTrends = Record<string, Record<string, { history: { date: string; used: number; total: number }[] }>>;
+
+/**
+ * QuotaSnapshotStore keeps one YAML file per snapshot in a directory, named after
+ * the time it was taken so the files sort chronologically. Old snapshots are
+ * pruned according to the retention settings every time one is saved.
+ */
+export class QuotaSnapshotStore {
+    private retention: Required<SnapshotRetention>;
+
+    constructor(public readonly directory: string, retention: SnapshotRetention = {}) {
+        this.retention = {
+            maxCount: retention.maxCount ?? parseInt(process.env.QUOTA_SNAPSHOT_MAX_COUNT || '500', 10),
+            maxAgeDays: retention.maxAgeDays ?? parseInt(process.env.QUOTA_SNAPSHOT_MAX_AGE_DAYS || '90', 10)
+        };
+    }
+
+    /**
+     * Stores a snapshot of quota data and prunes snapshots past the retention limits
+     * @param data Quota data to snapshot
+     * @param source What produced the data
+     * @param timestamp When the data was taken (default: now)
+     * @returns The stored snapshot's details
+     */
+    public save(data: QuotaData, source: QuotaSnapshotSource, timestamp = new Date()): QuotaSnapshotInfo {
+        if (!fs.existsSync(this.directory)) {
+            fs.mkdirSync(this.directory, { recursive: true });
+        }
+
+        const baseId = `${timestamp.toISOString().replace(/[:.]/g, "-")}-${source}`;
+        let id = baseId;
+        for (let i = 1; fs.existsSync(this.filePath(id)); i++) {
+            id = `${baseId}-${i}`;
+        }
+
+        const snapshot: QuotaSnapshot = { id, timestamp: timestamp.toISOString(), source, data: stripAllocations(data) };
+        writeFileAtomic(this.filePath(id), yaml.stringify(snapshot));
+
+        this.prune(timestamp);
+
+        return { id, timestamp: snapshot.timestamp, source };
+    }
+
+    /**
+     * Lists stored snapshots
+     * @returns Snapshot details, oldest first
+     */
+    public list(): QuotaSnapshotInfo[] {
+        return this.snapshotIds().map(id => {
+            const { timestamp, source } = this.load(id) as QuotaSnapshot;
+            return { id, timestamp, source };
+        });
+    }
+
+    /**
+     * Loads a snapshot
+     * @param id Snapshot identifier
+     * @returns The snapshot, or null if it does not exist
+     */
+    public load(id: string): QuotaSnapshot | null {
+        // Identifiers are file names; reject anything that could leave the directory
+        if (!id || !/^[\w-]+$/.test(id) || !fs.existsSync(this.filePath(id))) {
+            return null;
+        }
+
+        return yaml.parse(fs.readFileSync(this.filePath(id), "utf-8")) as QuotaSnapshot;
+    }
+
+    /**
+     * Loads every snapshot taken within a time range
+     * @param from Only snapshots at or after this time
+     * @param to Only snapshots at or before this time
+     * @returns Snapshots, oldest first
+     */
+    public loadRange(from?: Date, to?: Date): QuotaSnapshot[] {
+        return this.snapshotIds()
+            .map(id => this.load(id) as QuotaSnapshot)
+            .filter(snapshot => {
+                const time = new Date(snapshot.timestamp).getTime();
+                return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+            });
+    }
+
+    /**
+     * Removes snapshots past the retention limits
+     * @param now Time to measure snapshot age from (default: now)
+     * @returns Number of snapshots removed
+     */
+    public prune(now = new Date()): number {
+        const ids = this.snapshotIds();
+        const { maxCount, maxAgeDays } = this.retention;
+        const expired = new Set<string>();
+
+        if (maxCount > 0 && ids.length > maxCount) {
+            ids.slice(0, ids.length - maxCount).forEach(id => expired.add(id));
+        }
+
+        if (maxAgeDays > 0) {
+            const cutoff = now.getTime() - maxAgeDays * DAY_MS;
+            ids.filter(id => new Date((this.load(id) as QuotaSnapshot).timestamp).getTime() < cutoff)
+                .forEach(id => expired.add(id));
+        }
+
+        expired.forEach(id => fs.unlinkSync(this.filePath(id)));
+        return expired.size;
+    }
+
+    private snapshotIds(): string[] {
+        if (!fs.existsSync(this.directory)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.directory)
+            .filter(name => name.endsWith(".yaml"))
+            .map(name => name.slice(0, -".yaml".length))
+            .sort();
+    }
+
+    private filePath(id: string): string {
+        return path.join(this.directory, `${id}.yaml`);
+    }
+}
+
+/**
+ * Compares two snapshots region by region and SKU by SKU
+ * @param from Older snapshot
+ * @param to Newer snapshot
+ * @returns The region/SKUs that were added, removed or whose figures changed
+ */
+export function diffQuotaSnapshots(from: QuotaSnapshot, to: QuotaSnapshot): QuotaSnapshotDiff {
+    const entries: QuotaSnapshotDiffEntry[] = [];
+    const figures = (data: QuotaData, region: string, sku: string): QuotaFigures | undefined => {
+        const quota = data[region]?.[sku];
+        return quota ? { total: quota.total, used: quota.used, available: quota.available } : undefined;
+    };
+
+    const regions = new Set([...Object.keys(from.data), ...Object.keys(to.data)]);
+    for (const region of Array.from(regions).sort()) {
+        const skus = new Set([...Object.keys(from.data[region] || {}), ...Object.keys(to.data[region] || {})]);
+
+        for (const sku of Array.from(skus).sort()) {
+            const before = figures(from.data, region, sku);
+            const after = figures(to.data, region, sku);
+            const delta: QuotaFigures = {
+                total: (after?.total ?? 0) - (before?.total ?? 0),
+                used: (after?.used ?? 0) - (before?.used ?? 0),
+                available: (after?.available ?? 0) - (before?.available ?? 0)
+            };
+
+            if (!before) {
+                entries.push({ region, sku, change: 'added', after, delta });
+            } else if (!after) {
+                entries.push({ region, sku, change: 'removed', before, delta });
+            } else if (delta.total !== 0 || delta.used !== 0 || delta.available !== 0) {
+                entries.push({ region, sku, change: 'changed', before, after, delta });
+            }
+        }
+    }
+
+    return {
+        from: { id: from.id, timestamp: from.timestamp, source: from.source },
+        to: { id: to.id, timestamp: to.timestamp, source: to.source },
+        entries
+    };
+}
+
+/**
+ * Builds per-region/SKU usage history from snapshots
+ * @param snapshots Snapshots, oldest first
+ * @param region Only include this region
+ */
+export function buildQuotaTrends(snapshots: QuotaSnapshot[], region?: string): QuotaTrends {
+    const trends: QuotaTrends = {};
+
+    for (const snapshot of snapshots) {
+        for (const snapshotRegion of Object.keys(snapshot.data)) {
+            if (region && snapshotRegion !== region) continue;
+
+            for (const sku of Object.keys(snapshot.data[snapshotRegion])) {
+                const quota = snapshot.data[snapshotRegion][sku];
+
+                if (!trends[snapshotRegion]) {
+                    trends[snapshotRegion] = {};
+                }
+                if (!trends[snapshotRegion][sku]) {
+                    trends[snapshotRegion][sku] = { history: [] };
+                }
+                trends[snapshotRegion][sku].history.push({ date: snapshot.timestamp, used: quota.used, total: quota.total });
+            }
+        }
+    }
+
+    return trends;
+}
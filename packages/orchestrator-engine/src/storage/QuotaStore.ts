@@ -0,0 +1,142 @@
+import { QuotaAllocation, ResourceQuota } from "../rules/QuotaEngine";
+import { AuditEvent, AuditEventFilter } from "./AuditEvent";
+import { FileLockTimeoutError } from "./FileLock";
+import { QuotaUsageSample, UsageHistoryFilter } from "./UsageHistory";
+
+/**
+ * Stored content together with the version it was read at
+ */
+export interface VersionedDocument<T> {
+    /** Stored content */
+    data: T;
+    /** Version counter, incremented on every save (0 if never saved through a store) */
+    version: number;
+}
+
+/**
+ * Current versions of the quota data and allocations in a store
+ */
+export interface StoreVersions {
+    quotaVersion: number;
+    allocationVersion: number;
+}
+
+/**
+ * Thrown when a save is based on a version that is no longer current,
+ * meaning another writer has changed the store in the meantime
+ */
+export class StoreConflictError extends Error {
+    /**
+     * @param message Why the save conflicted (default: the version mismatch)
+     */
+    constructor(
+        public readonly location: string,
+        public readonly expectedVersion: number,
+        public readonly actualVersion: number,
+        message = `Conflicting update to ${location}: expected version ${expectedVersion} but found ${actualVersion}`
+    ) {
+        super(message);
+        this.name = "StoreConflictError";
+    }
+}
+
+/**
+ * Whether a save failed because another writer changed the store or held its lock,
+ * so nothing was written and the save can be retried against fresh state
+ * @param error Error thrown by a save
+ */
+export function isStoreConflict(error: unknown): error is StoreConflictError | FileLockTimeoutError {
+    return error instanceof StoreConflictError || error instanceof FileLockTimeoutError;
+}
+
+/**
+ * Quota data keyed by region, then SKU
+ */
+export type QuotaData = Record<string, Record<string, ResourceQuota>>;
+
+/**
+ * QuotaStore persists quota data and allocations for the QuotaEngine.
+ * Quota data and allocations each carry their own optimistic version counter:
+ * a save with an expectedVersion that is no longer current must throw
+ * a StoreConflictError instead of overwriting newer state.
+ */
+export interface QuotaStore {
+    /** Human-readable location of the store, used in logs and telemetry */
+    readonly location: string;
+
+    /** Whether quota data has been stored */
+    hasQuotaData(): boolean;
+    /** Loads quota data and its version */
+    loadQuotaData(): VersionedDocument<QuotaData>;
+    /**
+     * Saves quota data
+     * @param data Quota data to store
+     * @param expectedVersion Version the caller last loaded; omit to overwrite unconditionally
+     * @returns The new version
+     */
+    saveQuotaData(data: QuotaData, expectedVersion?: number): number;
+
+    /** Whether allocations have been stored */
+    hasAllocations(): boolean;
+    /** Loads all allocations, in any status, and their version */
+    loadAllocations(): VersionedDocument<QuotaAllocation[]>;
+    /**
+     * Saves the full set of allocations
+     * @param allocations Allocations to store
+     * @param expectedVersion Version the caller last loaded; omit to overwrite unconditionally
+     * @returns The new version
+     */
+    saveAllocations(allocations: QuotaAllocation[], expectedVersion?: number): number;
+
+    /**
+     * Reads the current versions without loading any data, cheap enough to call before
+     * every read to find out whether another process has saved since the last load
+     */
+    getVersions(): StoreVersions;
+
+    /**
+     * Appends an event to the audit trail. Audit events are never changed or removed.
+     * @param event Event to append
+     */
+    appendAuditEvent(event: AuditEvent): void;
+    /**
+     * Queries the audit trail
+     * @param filter Criteria the events must match
+     * @returns Matching events, oldest first
+     */
+    queryAuditEvents(filter: AuditEventFilter): AuditEvent[];
+
+    /**
+     * Records quota usage samples, typically one per region/SKU on every refresh
+     * @param samples Samples to append
+     */
+    appendUsageSamples(samples: QuotaUsageSample[]): void;
+    /**
+     * Loads recorded usage samples
+     * @param filter Criteria the samples must match
+     * @returns Matching samples, oldest first
+     */
+    loadUsageHistory(filter: UsageHistoryFilter): QuotaUsageSample[];
+
+    /** Releases any resources held by the store */
+    close(): void;
+}
+
+/**
+ * Removes the runtime allocation lists the engine attaches to each SKU,
+ * since allocations are stored separately
+ */
+export function stripAllocations(data: QuotaData): QuotaData {
+    const result: QuotaData = {};
+
+    for (const region of Object.keys(data)) {
+        result[region] = {};
+        for (const sku of Object.keys(data[region])) {
+            const quota = { ...data[region][sku] };
+            delete quota.allocations;
+            result[region][sku] = quota;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { SqliteQuotaStore } from "./SqliteQuotaStore";
+import { StoreConflictError } from "./QuotaStore";
+import { AuditEvent } from "./AuditEvent";
+import { QuotaSnapshotStore } from "./QuotaSnapshotStore";
+import { QuotaAllocation, QuotaEngine } from "../rules/QuotaEngine";
+import { createQuotaProvider } from "../providers/ProviderFactory";
+
+const allocation = (id: string, status: QuotaAllocation['status']): QuotaAllocation => ({
+    id,
+    timestamp: "2025-04-01T00:00:00.000Z",
+    region: "eastus",
+    sku: "Standard_D2s_v3",
+    role: "validator",
+    amount: 2,
+    applicationId: "besu-net",
+    status
+});
+
+const auditEvent = (id: string, timestamp: string, overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+    id,
+    timestamp,
+    action: "allocate",
+    outcome: "success",
+    requestedBy: "alice",
+    allocationId: "a",
+    applicationId: "besu-net",
+    region: "eastus",
+    ...overrides
+});
+
+describe("SqliteQuotaStore", () => {
+    let dir: string;
+    let dbPath: string;
+    let stores: SqliteQuotaStore[];
+
+    const openStore = () => {
+        const store = new SqliteQuotaStore(dbPath);
+        stores.push(store);
+        return store;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "quota-sqlite-"));
+        dbPath = path.join(dir, "quotas.db");
+        stores = [];
+    });
+
+    afterEach(() => {
+        stores.forEach(store => store.close());
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should round-trip quota data without runtime allocation lists", () => {
+        const store = openStore();
+        expect(store.hasQuotaData()).toBe(false);
+
+        store.saveQuotaData({
+            eastus: {
+                Standard_D2s_v3: { total: 10, used: 2, available: 8, assigned_to: ["validator"], allocations: [allocation("a", "active")] }
+            }
+        }, 0);
+
+        expect(store.loadQuotaData()).toEqual({
+            data: { eastus: { Standard_D2s_v3: { total: 10, used: 2, available: 8, assigned_to: ["validator"] } } },
+            version: 1
+        });
+    });
+
+    it("should keep released allocations queryable with SQL", () => {
+        const store = openStore();
+        store.saveAllocations([allocation("a", "active"), allocation("b", "released")], 0);
+
+        const db = new Database(dbPath, { readonly: true });
+        const rows = db.prepare("SELECT id, status FROM allocations WHERE application_id = ? ORDER BY id").all("besu-net");
+        db.close();
+
+        expect(rows).toEqual([{ id: "a", status: "active" }, { id: "b", status: "released" }]);
+    });
+
+    it("should detect conflicting writes from another connection to the same file", () => {
+        const first = openStore();
+        const second = openStore();
+
+        first.saveAllocations([allocation("a", "active")], 0);
+
+        expect(() => second.saveAllocations([allocation("b", "active")], 0)).toThrow(StoreConflictError);
+        expect(second.loadAllocations().data.map(a => a.id)).toEqual(["a"]);
+    });
+
+    it("should fail a save as a store conflict while another connection is writing", () => {
+        const store = new SqliteQuotaStore(dbPath, 0);
+        stores.push(store);
+        const { version } = store.loadAllocations();
+
+        const writer = new Database(dbPath);
+        writer.exec("BEGIN IMMEDIATE");
+        try {
+            expect(() => store.saveAllocations([allocation("a", "active")], version)).toThrow(StoreConflictError);
+            expect(() => store.saveAllocations([allocation("a", "active")], version)).toThrow(/busy with another writer/);
+        } finally {
+            writer.exec("ROLLBACK");
+            writer.close();
+        }
+
+        expect(store.saveAllocations([allocation("a", "active")], version)).toBe(version + 1);
+    });
+
+    it("should let engines on the same database see each other's changes before reading", async () => {
+        openStore().saveQuotaData({
+            eastus: { Standard_D2s_v3: { total: 100, used: 20, available: 80, assigned_to: ["validator"] } }
+        }, 0);
+        const openEngine = () => new QuotaEngine(openStore(), undefined, new QuotaSnapshotStore(dir), createQuotaProvider('fake'));
+        const first = openEngine();
+        const second = openEngine();
+
+        const allocationId = await first.allocateQuota("eastus", "Standard_D2s_v3", "validator", 70, "first-app");
+
+        expect(second.getApplicationAllocations("first-app")).toHaveLength(1);
+        expect(second.getRegionData("eastus").Standard_D2s_v3.available).toBe(10);
+        expect(await second.validateQuota("eastus", "validator", 20)).toBe(false);
+
+        first.releaseQuota(allocationId!);
+        expect(await second.allocateQuota("eastus", "Standard_D2s_v3", "validator", 20, "second-app")).not.toBeNull();
+        expect(first.getRegionData("eastus").Standard_D2s_v3.available).toBe(60);
+
+        // Quota data replaced by another process, e.g. generate-mapping
+        openStore().saveQuotaData({
+            eastus: { Standard_D2s_v3: { total: 200, used: 20, available: 180, assigned_to: ["validator"] } }
+        });
+        expect(first.getRegionData("eastus").Standard_D2s_v3.available).toBe(160);
+    });
+
+    it("should query audit events by filter, keeping the most recent when limited", () => {
+        const store = openStore();
+        store.appendAuditEvent(auditEvent("1", "2025-04-01T00:00:00.000Z"));
+        store.appendAuditEvent(auditEvent("2", "2025-04-02T00:00:00.000Z", { action: "release", details: { reason: "done" } }));
+        store.appendAuditEvent(auditEvent("3", "2025-04-03T00:00:00.000Z", { allocationId: "b", region: "westus" }));
+
+        const reader = openStore();
+        expect(reader.queryAuditEvents({ allocationId: "a" }).map(e => e.id)).toEqual(["1", "2"]);
+        expect(reader.queryAuditEvents({ region: "westus" }).map(e => e.id)).toEqual(["3"]);
+        expect(reader.queryAuditEvents({ from: new Date("2025-04-02T00:00:00.000Z") }).map(e => e.id)).toEqual(["2", "3"]);
+        expect(reader.queryAuditEvents({ limit: 2 }).map(e => e.id)).toEqual(["2", "3"]);
+        expect(reader.queryAuditEvents({ action: "release" })[0].details).toEqual({ reason: "done" });
+    });
+});
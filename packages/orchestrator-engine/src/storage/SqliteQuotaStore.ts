@@ -0,0 +1,388 @@
+import * as fs from "fs";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { QuotaAllocation } from "../rules/QuotaEngine";
+import { AuditEvent, AuditEventFilter } from "./AuditEvent";
+import { QuotaData, QuotaStore, StoreConflictError, StoreVersions, VersionedDocument, stripAllocations } from "./QuotaStore";
+import { QuotaUsageSample, UsageHistoryFilter } from "./UsageHistory";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS store_versions (
+    name TEXT PRIMARY KEY,
+    version INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS quotas (
+    region TEXT NOT NULL,
+    sku TEXT NOT NULL,
+    total INTEGER NOT NULL,
+    used INTEGER NOT NULL,
+    available INTEGER NOT NULL,
+    assigned_to TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (region, sku)
+);
+
+CREATE TABLE IF NOT EXISTS allocations (
+    id TEXT PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    region TEXT NOT NULL,
+    sku TEXT NOT NULL,
+    role TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    application_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    expires_at TEXT,
+    transaction_id TEXT,
+    data TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS allocations_application ON allocations (application_id);
+CREATE INDEX IF NOT EXISTS allocations_region_sku ON allocations (region, sku);
+
+CREATE TABLE IF NOT EXISTS audit_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    timestamp TEXT NOT NULL,
+    action TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    requested_by TEXT NOT NULL,
+    allocation_id TEXT,
+    application_id TEXT,
+    region TEXT,
+    sku TEXT,
+    role TEXT,
+    amount INTEGER,
+    reason TEXT,
+    data TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS audit_events_allocation ON audit_events (allocation_id);
+CREATE INDEX IF NOT EXISTS audit_events_application ON audit_events (application_id, timestamp);
+
+CREATE TABLE IF NOT EXISTS usage_samples (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,
+    region TEXT NOT NULL,
+    sku TEXT NOT NULL,
+    total INTEGER NOT NULL,
+    used INTEGER NOT NULL,
+    available INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS usage_samples_region_sku ON usage_samples (region, sku, timestamp);
+`;
+
+/**
+ * How long a write waits for another connection's write transaction, unless the store is given its own
+ */
+let defaultBusyTimeoutMs = 10000;
+
+/**
+ * Changes how long stores created afterwards wait for another process's write, for
+ * the whole process. better-sqlite3 waits synchronously, blocking the thread, so
+ * servers keep this short: a busy database then fails the save as a store conflict.
+ * @param timeoutMs Busy timeout in milliseconds
+ */
+export function setDefaultSqliteBusyTimeout(timeoutMs: number): void {
+    defaultBusyTimeoutMs = timeoutMs;
+}
+
+/**
+ * Whether SQLite gave up on a statement because another connection holds the database
+ */
+function isBusy(error: unknown): boolean {
+    const code = (error as { code?: unknown } | null)?.code;
+    return typeof code === "string" && code.startsWith("SQLITE_BUSY");
+}
+
+/**
+ * SqliteQuotaStore keeps quota data and allocations in an embedded SQLite database.
+ * The database runs in WAL mode, so several engine processes can share one file;
+ * every save runs in an immediate transaction that checks the version first. A save
+ * that finds the database busy past the busy timeout fails with a StoreConflictError.
+ *
+ * Allocations are kept in every status, so history can be queried directly, e.g.
+ * `SELECT application_id, SUM(amount) FROM allocations WHERE status = 'active' GROUP BY application_id`.
+ * Key fields have their own columns and the full record is kept as JSON in `data`.
+ */
+export class SqliteQuotaStore implements QuotaStore {
+    private db: Database.Database;
+
+    constructor(public readonly location: string, busyTimeoutMs = defaultBusyTimeoutMs) {
+        // Create directory if it doesn't exist
+        const dir = path.dirname(location);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        this.db = new Database(location, { timeout: busyTimeoutMs });
+        this.db.pragma("journal_mode = WAL");
+        this.db.exec(SCHEMA);
+    }
+
+    public hasQuotaData(): boolean {
+        return this.getVersion("quotas") > 0;
+    }
+
+    public loadQuotaData(): VersionedDocument<QuotaData> {
+        return this.db.transaction(() => {
+            const data: QuotaData = {};
+            const rows = this.db.prepare("SELECT region, sku, data FROM quotas ORDER BY region, sku").all() as
+                { region: string; sku: string; data: string }[];
+
+            for (const row of rows) {
+                if (!data[row.region]) {
+                    data[row.region] = {};
+                }
+                data[row.region][row.sku] = JSON.parse(row.data);
+            }
+
+            return { data, version: this.getVersion("quotas") };
+        })();
+    }
+
+    public saveQuotaData(data: QuotaData, expectedVersion?: number): number {
+        const stored = stripAllocations(data);
+
+        return this.writeVersioned("quotas", expectedVersion, () => {
+            const nextVersion = this.checkAndBumpVersion("quotas", expectedVersion);
+            const insert = this.db.prepare(`
+                INSERT INTO quotas (region, sku, total, used, available, assigned_to, data)
+                VALUES (@region, @sku, @total, @used, @available, @assigned_to, @data)
+            `);
+
+            this.db.prepare("DELETE FROM quotas").run();
+
+            for (const region of Object.keys(stored)) {
+                for (const sku of Object.keys(stored[region])) {
+                    const quota = stored[region][sku];
+                    insert.run({
+                        region,
+                        sku,
+                        total: quota.total,
+                        used: quota.used,
+                        available: quota.available,
+                        assigned_to: (quota.assigned_to || []).join(","),
+                        data: JSON.stringify(quota)
+                    });
+                }
+            }
+
+            return nextVersion;
+        });
+    }
+
+    public hasAllocations(): boolean {
+        return this.getVersion("allocations") > 0;
+    }
+
+    public loadAllocations(): VersionedDocument<QuotaAllocation[]> {
+        return this.db.transaction(() => {
+            const rows = this.db.prepare("SELECT data FROM allocations ORDER BY timestamp, id").all() as { data: string }[];
+
+            return {
+                data: rows.map(row => JSON.parse(row.data) as QuotaAllocation),
+                version: this.getVersion("allocations")
+            };
+        })();
+    }
+
+    public saveAllocations(allocations: QuotaAllocation[], expectedVersion?: number): number {
+        return this.writeVersioned("allocations", expectedVersion, () => {
+            const nextVersion = this.checkAndBumpVersion("allocations", expectedVersion);
+            const upsert = this.db.prepare(`
+                INSERT INTO allocations (id, timestamp, region, sku, role, amount, application_id, status, expires_at, transaction_id, data)
+                VALUES (@id, @timestamp, @region, @sku, @role, @amount, @application_id, @status, @expires_at, @transaction_id, @data)
+                ON CONFLICT (id) DO UPDATE SET
+                    timestamp = excluded.timestamp,
+                    region = excluded.region,
+                    sku = excluded.sku,
+                    role = excluded.role,
+                    amount = excluded.amount,
+                    application_id = excluded.application_id,
+                    status = excluded.status,
+                    expires_at = excluded.expires_at,
+                    transaction_id = excluded.transaction_id,
+                    data = excluded.data
+            `);
+
+            // Rows for allocations the caller no longer holds are removed
+            const ids = new Set(allocations.map(a => a.id));
+            const existing = this.db.prepare("SELECT id FROM allocations").all() as { id: string }[];
+            const remove = this.db.prepare("DELETE FROM allocations WHERE id = ?");
+            existing.filter(row => !ids.has(row.id)).forEach(row => remove.run(row.id));
+
+            for (const allocation of allocations) {
+                upsert.run({
+                    id: allocation.id,
+                    timestamp: allocation.timestamp,
+                    region: allocation.region,
+                    sku: allocation.sku,
+                    role: allocation.role,
+                    amount: allocation.amount,
+                    application_id: allocation.applicationId,
+                    status: allocation.status,
+                    expires_at: allocation.expiresAt ?? null,
+                    transaction_id: allocation.transactionId ?? null,
+                    data: JSON.stringify(allocation)
+                });
+            }
+
+            return nextVersion;
+        });
+    }
+
+    public getVersions(): StoreVersions {
+        return this.db.transaction(() => ({
+            quotaVersion: this.getVersion("quotas"),
+            allocationVersion: this.getVersion("allocations")
+        }))();
+    }
+
+    public appendAuditEvent(event: AuditEvent): void {
+        this.db.prepare(`
+            INSERT INTO audit_events (id, timestamp, action, outcome, requested_by, allocation_id, application_id, region, sku, role, amount, reason, data)
+            VALUES (@id, @timestamp, @action, @outcome, @requested_by, @allocation_id, @application_id, @region, @sku, @role, @amount, @reason, @data)
+        `).run({
+            id: event.id,
+            timestamp: event.timestamp,
+            action: event.action,
+            outcome: event.outcome,
+            requested_by: event.requestedBy,
+            allocation_id: event.allocationId ?? null,
+            application_id: event.applicationId ?? null,
+            region: event.region ?? null,
+            sku: event.sku ?? null,
+            role: event.role ?? null,
+            amount: event.amount ?? null,
+            reason: event.reason ?? null,
+            data: JSON.stringify(event)
+        });
+    }
+
+    public queryAuditEvents(filter: AuditEventFilter): AuditEvent[] {
+        const conditions: string[] = [];
+        const params: Record<string, string | number> = {};
+
+        if (filter.allocationId) {
+            conditions.push("allocation_id = @allocationId");
+            params.allocationId = filter.allocationId;
+        }
+        if (filter.applicationId) {
+            conditions.push("application_id = @applicationId");
+            params.applicationId = filter.applicationId;
+        }
+        if (filter.region) {
+            conditions.push("region = @region");
+            params.region = filter.region;
+        }
+        if (filter.action) {
+            conditions.push("action = @action");
+            params.action = filter.action;
+        }
+        if (filter.from) {
+            conditions.push("timestamp >= @from");
+            params.from = filter.from.toISOString();
+        }
+        if (filter.to) {
+            conditions.push("timestamp <= @to");
+            params.to = filter.to.toISOString();
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+        let sql = `SELECT data FROM audit_events ${where} ORDER BY seq`;
+
+        // Keep the most recent events when limited, still returned oldest first
+        if (filter.limit !== undefined && filter.limit >= 0) {
+            sql = `SELECT data FROM (SELECT seq, data FROM audit_events ${where} ORDER BY seq DESC LIMIT @limit) ORDER BY seq`;
+            params.limit = filter.limit;
+        }
+
+        const rows = this.db.prepare(sql).all(params) as { data: string }[];
+        return rows.map(row => JSON.parse(row.data) as AuditEvent);
+    }
+
+    public appendUsageSamples(samples: QuotaUsageSample[]): void {
+        const insert = this.db.prepare(`
+            INSERT INTO usage_samples (timestamp, region, sku, total, used, available)
+            VALUES (@timestamp, @region, @sku, @total, @used, @available)
+        `);
+
+        this.db.transaction(() => {
+            samples.forEach(sample => insert.run(sample));
+        }).immediate();
+    }
+
+    public loadUsageHistory(filter: UsageHistoryFilter): QuotaUsageSample[] {
+        const conditions: string[] = [];
+        const params: Record<string, string> = {};
+
+        if (filter.region) {
+            conditions.push("region = @region");
+            params.region = filter.region;
+        }
+        if (filter.sku) {
+            conditions.push("sku = @sku");
+            params.sku = filter.sku;
+        }
+        if (filter.from) {
+            conditions.push("timestamp >= @from");
+            params.from = filter.from.toISOString();
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+        return this.db.prepare(`
+            SELECT timestamp, region, sku, total, used, available FROM usage_samples ${where} ORDER BY seq
+        `).all(params) as QuotaUsageSample[];
+    }
+
+    public close(): void {
+        if (this.db.open) {
+            this.db.close();
+        }
+    }
+
+    private getVersion(name: string): number {
+        const row = this.db.prepare("SELECT version FROM store_versions WHERE name = ?").get(name) as { version: number } | undefined;
+        return row ? row.version : 0;
+    }
+
+    /**
+     * Runs a versioned save in an immediate transaction. If another connection keeps
+     * the database busy past the busy timeout, the save fails as a store conflict.
+     */
+    private writeVersioned(name: string, expectedVersion: number | undefined, save: () => number): number {
+        try {
+            return this.db.transaction(save).immediate();
+        } catch (error) {
+            if (!isBusy(error)) {
+                throw error;
+            }
+
+            // WAL readers are not blocked by the writer, so the current version can still be read
+            const currentVersion = this.getVersion(name);
+            throw new StoreConflictError(`${this.location}#${name}`, expectedVersion ?? currentVersion, currentVersion,
+                `Database is busy with another writer: ${this.location}#${name}`);
+        }
+    }
+
+    /**
+     * Must run inside a write transaction so the check and the bump are atomic
+     */
+    private checkAndBumpVersion(name: string, expectedVersion?: number): number {
+        const currentVersion = this.getVersion(name);
+
+        if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+            throw new StoreConflictError(`${this.location}#${name}`, expectedVersion, currentVersion);
+        }
+
+        const nextVersion = currentVersion + 1;
+        this.db.prepare(`
+            INSERT INTO store_versions (name, version) VALUES (?, ?)
+            ON CONFLICT (name) DO UPDATE SET version = excluded.version
+        `).run(name, nextVersion);
+
+        return nextVersion;
+    }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createQuotaStore, createSnapshotStore, QuotaStoreType } from "./StoreFactory";
+import { QuotaAllocation, QuotaEngine } from "../rules/QuotaEngine";
+import { FakeQuotaProvider } from "../providers/FakeQuotaProvider";
+
+const QUOTAS_YAML = `
+eastus:
+  Standard_D2s_v3:
+    total: 100
+    used: 20
+    available: 80
+    assigned_to: ['validator']
+`;
+
+const allocation: QuotaAllocation = {
+    id: "a",
+    timestamp: "2025-04-01T00:00:00.000Z",
+    region: "eastus",
+    sku: "Standard_D2s_v3",
+    role: "validator",
+    amount: 10,
+    applicationId: "besu-net",
+    status: "active"
+};
+
+describe("createQuotaStore", () => {
+    let dir: string;
+    const originalDataDir = process.env.QUOTA_DATA_DIR;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "quota-factory-"));
+        process.env.QUOTA_DATA_DIR = dir;
+    });
+
+    afterEach(() => {
+        process.env.QUOTA_DATA_DIR = originalDataDir;
+        fs.rmSync(dir, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    it.each<QuotaStoreType>(['sqlite', 'jsonl'])("should seed an empty %s store from the YAML files", type => {
+        fs.writeFileSync(path.join(dir, "live-quotas.yaml"), QUOTAS_YAML, "utf8");
+        fs.writeFileSync(path.join(dir, "allocations.yaml"), JSON.stringify([allocation]), "utf8");
+
+        const store = createQuotaStore(type);
+        try {
+            expect(store.loadQuotaData()).toEqual({
+                data: { eastus: { Standard_D2s_v3: { total: 100, used: 20, available: 80, assigned_to: ['validator'] } } },
+                version: 1
+            });
+            expect(store.loadAllocations()).toEqual({ data: [allocation], version: 1 });
+        } finally {
+            store.close();
+        }
+
+        // A store that has data is not seeded again
+        fs.writeFileSync(path.join(dir, "live-quotas.yaml"), "{}", "utf8");
+        const reopened = createQuotaStore(type);
+        try {
+            expect(reopened.loadQuotaData().version).toBe(1);
+        } finally {
+            reopened.close();
+        }
+    });
+
+    it.each<QuotaStoreType>(['sqlite', 'jsonl'])("should start an engine on an empty %s store", async type => {
+        fs.writeFileSync(path.join(dir, "live-quotas.yaml"), QUOTAS_YAML, "utf8");
+
+        const engine = new QuotaEngine(createQuotaStore(type), undefined, createSnapshotStore(), new FakeQuotaProvider(dir));
+        try {
+            expect(engine.getRegionData("eastus").Standard_D2s_v3.available).toBe(80);
+            expect(await engine.allocateQuota("eastus", "Standard_D2s_v3", "validator", 10, "besu-net")).not.toBeNull();
+        } finally {
+            engine.close();
+        }
+    });
+
+    it("should leave an empty store empty when there is no YAML to seed it from", () => {
+        const store = createQuotaStore('sqlite');
+        try {
+            expect(store.hasQuotaData()).toBe(false);
+            expect(() => new QuotaEngine(store)).toThrow("Quota data not found");
+        } finally {
+            store.close();
+        }
+    });
+});
@@ -0,0 +1,95 @@
+import * as path from "path";
+import chalk from "chalk";
+import { QuotaStore, isStoreConflict } from "./QuotaStore";
+import { YamlQuotaStore } from "./YamlQuotaStore";
+import { SqliteQuotaStore } from "./SqliteQuotaStore";
+import { JsonLinesEventStore } from "./JsonLinesEventStore";
+import { QuotaSnapshotStore } from "./QuotaSnapshotStore";
+
+/**
+ * Default directory for quota data files
+ */
+export const DEFAULT_QUOTA_DATA_DIR = path.join(__dirname, "../../data/quotas");
+
+/**
+ * Supported storage backends
+ */
+export type QuotaStoreType = 'yaml' | 'sqlite' | 'jsonl';
+
+/**
+ * Creates the quota store selected by the environment:
+ * - QUOTA_STORE: `yaml` (default), `sqlite` or `jsonl`
+ * - QUOTA_STORE_PATH: database or event log file for `sqlite`/`jsonl`
+ * - QUOTA_DATA_DIR: directory for the default file locations
+ *
+ * A `sqlite` or `jsonl` store without quota data is seeded from the YAML files in
+ * QUOTA_DATA_DIR (see seedFromYaml), so it starts from what generate-mapping wrote.
+ * @param type Backend to create (default: QUOTA_STORE)
+ * @param location File for `sqlite`/`jsonl` backends (default: QUOTA_STORE_PATH)
+ * @returns The configured store
+ */
+export function createQuotaStore(
+    type = (process.env.QUOTA_STORE || 'yaml') as QuotaStoreType,
+    location = process.env.QUOTA_STORE_PATH
+): QuotaStore {
+    const dataDir = process.env.QUOTA_DATA_DIR || DEFAULT_QUOTA_DATA_DIR;
+
+    switch (type) {
+        case 'yaml':
+            return new YamlQuotaStore(
+                path.join(dataDir, "live-quotas.yaml"),
+                path.join(dataDir, "allocations.yaml")
+            );
+        case 'sqlite':
+            return seedFromYaml(new SqliteQuotaStore(location || path.join(dataDir, "quotas.db")), dataDir);
+        case 'jsonl':
+            return seedFromYaml(new JsonLinesEventStore(location || path.join(dataDir, "quota-events.jsonl")), dataDir);
+        default:
+            throw new Error(`Unknown quota store type '${type}'. Use yaml, sqlite or jsonl`);
+    }
+}
+
+/**
+ * Imports `live-quotas.yaml`, and with it `allocations.yaml`, from dataDir into a store
+ * that holds no quota data yet. If another process seeds the store at the same time,
+ * its copy is kept.
+ * @param store Store to seed
+ * @param dataDir Directory of the YAML files
+ * @returns The store
+ */
+function seedFromYaml(store: QuotaStore, dataDir: string): QuotaStore {
+    const yamlStore = new YamlQuotaStore(path.join(dataDir, "live-quotas.yaml"), path.join(dataDir, "allocations.yaml"));
+
+    try {
+        if (store.hasQuotaData() || !yamlStore.hasQuotaData()) {
+            return store;
+        }
+
+        store.saveQuotaData(yamlStore.loadQuotaData().data, 0);
+        if (yamlStore.hasAllocations() && !store.hasAllocations()) {
+            store.saveAllocations(yamlStore.loadAllocations().data, 0);
+        }
+        console.log(chalk.green(`✅ Imported quota data from ${yamlStore.location} into ${store.location}`));
+    } catch (error) {
+        if (!isStoreConflict(error)) {
+            store.close();
+            throw error;
+        }
+    } finally {
+        yamlStore.close();
+    }
+
+    return store;
+}
+
+/**
+ * Creates the quota snapshot store selected by the environment:
+ * - QUOTA_SNAPSHOT_DIR: directory for snapshot files (default: `snapshots` in QUOTA_DATA_DIR)
+ * - QUOTA_SNAPSHOT_MAX_COUNT / QUOTA_SNAPSHOT_MAX_AGE_DAYS: retention limits
+ * @param directory Directory for snapshot files (default: QUOTA_SNAPSHOT_DIR)
+ * @returns The configured snapshot store
+ */
+export function createSnapshotStore(directory = process.env.QUOTA_SNAPSHOT_DIR): QuotaSnapshotStore {
+    const dataDir = process.env.QUOTA_DATA_DIR || DEFAULT_QUOTA_DATA_DIR;
+    return new QuotaSnapshotStore(directory || path.join(dataDir, "snapshots"));
+}
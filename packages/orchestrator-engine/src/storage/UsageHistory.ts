@@ -0,0 +1,57 @@
+import { QuotaData } from "./QuotaStore";
+
+/**
+ * QuotaUsageSample records the quota of one region/SKU at one refresh
+ */
+export interface QuotaUsageSample {
+    /** When the sample was taken */
+    timestamp: string;
+    /** Region name */
+    region: string;
+    /** SKU name */
+    sku: string;
+    /** Quota limit at the time */
+    total: number;
+    /** Usage reported by Azure at the time */
+    used: number;
+    /** Quota left after usage and engine allocations */
+    available: number;
+}
+
+/**
+ * Criteria for loading usage history. All given criteria must match.
+ */
+export interface UsageHistoryFilter {
+    region?: string;
+    sku?: string;
+    /** Only samples at or after this time */
+    from?: Date;
+}
+
+/**
+ * Takes one usage sample per region/SKU from quota data
+ * @param data Current quota data
+ * @param timestamp Time to record the samples at
+ */
+export function sampleQuotaUsage(data: QuotaData, timestamp = new Date().toISOString()): QuotaUsageSample[] {
+    const samples: QuotaUsageSample[] = [];
+
+    for (const region of Object.keys(data)) {
+        for (const sku of Object.keys(data[region])) {
+            const quota = data[region][sku];
+            samples.push({ timestamp, region, sku, total: quota.total, used: quota.used, available: quota.available });
+        }
+    }
+
+    return samples;
+}
+
+/**
+ * Filters usage samples (oldest first)
+ * @returns Matching samples, oldest first
+ */
+export function filterUsageSamples(samples: QuotaUsageSample[], filter: UsageHistoryFilter): QuotaUsageSample[] {
+    return samples.filter(sample => (!filter.region || sample.region === filter.region)
+        && (!filter.sku || sample.sku === filter.sku)
+        && (!filter.from || new Date(sample.timestamp).getTime() >= filter.from.getTime()));
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { VersionedYamlFile } from "./VersionedYamlFile";
+import { StoreConflictError } from "./QuotaStore";
+import { withFileLock, FileLockTimeoutError, setDefaultFileLockOptions } from "./FileLock";
+
+describe("VersionedYamlFile", () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "quota-store-"));
+        filePath = path.join(dir, "allocations.yaml");
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should treat files written outside the store as version 0", () => {
+        fs.writeFileSync(filePath, "- id: a\n", "utf8");
+
+        const document = new VersionedYamlFile<{ id: string }[]>(filePath).read();
+
+        expect(document.version).toBe(0);
+        expect(document.data).toEqual([{ id: "a" }]);
+    });
+
+    it("should bump the version on every write and leave no temp or lock files", () => {
+        const store = new VersionedYamlFile<string[]>(filePath);
+
+        expect(store.write(["a"], 0)).toBe(1);
+        expect(store.write(["a", "b"], 1)).toBe(2);
+        expect(store.read()).toEqual({ data: ["a", "b"], version: 2 });
+        expect(fs.readdirSync(dir).sort()).toEqual(["allocations.yaml", "allocations.yaml.version"]);
+    });
+
+    it("should reject writes based on a stale version", () => {
+        const store = new VersionedYamlFile<string[]>(filePath);
+        store.write(["a"], 0);
+
+        expect(() => store.write(["b"], 0)).toThrow(StoreConflictError);
+        expect(store.read().data).toEqual(["a"]);
+    });
+
+    it("should overwrite unconditionally when no version is given", () => {
+        const store = new VersionedYamlFile<string[]>(filePath);
+        store.write(["a"], 0);
+
+        expect(store.write(["b"])).toBe(2);
+    });
+
+    it("should time out while another holder keeps the lock", () => {
+        fs.writeFileSync(`${filePath}.lock`, "{}", "utf8");
+
+        expect(() => withFileLock(filePath, () => true, { timeoutMs: 100, retryDelayMs: 10 }))
+            .toThrow(FileLockTimeoutError);
+    });
+
+    it("should fail at once without waiting when the default lock timeout is 0", () => {
+        fs.writeFileSync(`${filePath}.lock`, "{}", "utf8");
+        setDefaultFileLockOptions({ timeoutMs: 0 });
+
+        try {
+            const started = Date.now();
+            expect(() => new VersionedYamlFile<string[]>(filePath).write(["a"]))
+                .toThrow("Lock is held by another process");
+            expect(Date.now() - started).toBeLessThan(50);
+        } finally {
+            setDefaultFileLockOptions({ timeoutMs: 10000 });
+        }
+    });
+
+    it("should read while another process holds the lock", () => {
+        const store = new VersionedYamlFile<string[]>(filePath);
+        store.write(["a"], 0);
+        fs.writeFileSync(`${filePath}.lock`, "{}", "utf8");
+
+        expect(store.read()).toEqual({ data: ["a"], version: 1 });
+    });
+
+    it("should break stale locks left by crashed processes", () => {
+        fs.writeFileSync(`${filePath}.lock`, "{}", "utf8");
+        const past = new Date(Date.now() - 60000);
+        fs.utimesSync(`${filePath}.lock`, past, past);
+
+        expect(withFileLock(filePath, () => "done", { staleMs: 1000 })).toBe("done");
+        expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+    });
+
+    it("should not remove a lock taken by another process after its own lock was broken", () => {
+        const lockPath = `${filePath}.lock`;
+        const otherLock = JSON.stringify({ token: "other", pid: 0, acquiredAt: new Date().toISOString() });
+
+        withFileLock(filePath, () => {
+            // Another process breaks this lock as stale and takes the lock itself
+            fs.writeFileSync(lockPath, otherLock, "utf8");
+        });
+
+        expect(fs.readFileSync(lockPath, "utf-8")).toBe(otherLock);
+        expect(fs.readdirSync(dir)).toEqual(["allocations.yaml.lock"]);
+    });
+});
@@ -0,0 +1,79 @@
+import * as fs from "fs";
+import * as yaml from "yaml";
+import { withFileLock, writeFileAtomic, FileLockOptions } from "./FileLock";
+import { StoreConflictError, VersionedDocument } from "./QuotaStore";
+
+/**
+ * VersionedYamlFile stores a YAML document with cross-process locking, atomic writes
+ * and an optimistic version counter kept in a `<file>.version` sidecar. Only writes
+ * take the lock; reads never wait for it.
+ * The YAML file itself keeps its plain format so other tools can still read it.
+ */
+export class VersionedYamlFile<T> {
+    private readonly versionPath: string;
+
+    constructor(
+        public readonly filePath: string,
+        private readonly lockOptions?: FileLockOptions
+    ) {
+        this.versionPath = `${filePath}.version`;
+    }
+
+    /**
+     * Checks whether the underlying file exists
+     */
+    public exists(): boolean {
+        return fs.existsSync(this.filePath);
+    }
+
+    /**
+     * Reads the document and its current version. Writers replace the document before
+     * the version, so reading the version first can pair it with newer data but never
+     * with older data; a save based on it then fails with a conflict rather than
+     * overwriting anything.
+     * @returns Parsed document and version
+     */
+    public read(): VersionedDocument<T> {
+        const version = this.readVersion();
+        return {
+            data: yaml.parse(fs.readFileSync(this.filePath, "utf-8")) as T,
+            version
+        };
+    }
+
+    /**
+     * Writes the document if it is still at the expected version
+     * @param data Document to write
+     * @param expectedVersion Version the caller last read; omit to overwrite unconditionally
+     * @returns The new version
+     * @throws StoreConflictError if the file was changed since expectedVersion
+     */
+    public write(data: T, expectedVersion?: number): number {
+        return withFileLock(this.filePath, () => {
+            const currentVersion = this.readVersion();
+
+            if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+                throw new StoreConflictError(this.filePath, expectedVersion, currentVersion);
+            }
+
+            const nextVersion = currentVersion + 1;
+            writeFileAtomic(this.filePath, yaml.stringify(data));
+            writeFileAtomic(this.versionPath, `${nextVersion}\n`);
+
+            return nextVersion;
+        }, this.lockOptions);
+    }
+
+    /**
+     * Reads the current version without reading the document
+     * @returns The version, 0 if the file was never written through the store
+     */
+    public readVersion(): number {
+        if (!fs.existsSync(this.versionPath)) {
+            return 0;
+        }
+
+        const version = parseInt(fs.readFileSync(this.versionPath, "utf-8"), 10);
+        return isNaN(version) ? 0 : version;
+    }
+}
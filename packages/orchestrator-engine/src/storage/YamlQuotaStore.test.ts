@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { YamlQuotaStore } from "./YamlQuotaStore";
+import { QuotaAllocation } from "../rules/QuotaEngine";
+
+const allocation = (id: string, status: QuotaAllocation['status']): QuotaAllocation => ({
+    id,
+    timestamp: "2025-04-01T00:00:00.000Z",
+    region: "eastus",
+    sku: "Standard_D2s_v3",
+    role: "validator",
+    amount: 2,
+    applicationId: "besu-net",
+    status
+});
+
+describe("YamlQuotaStore", () => {
+    let dir: string;
+    let quotaFilePath: string;
+    let store: YamlQuotaStore;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "quota-yaml-"));
+        quotaFilePath = path.join(dir, "live-quotas.yaml");
+        store = new YamlQuotaStore(quotaFilePath, path.join(dir, "allocations.yaml"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should round-trip quota data without runtime allocation lists", () => {
+        expect(store.hasQuotaData()).toBe(false);
+
+        store.saveQuotaData({
+            eastus: {
+                Standard_D2s_v3: { total: 10, used: 2, available: 8, assigned_to: ["validator"], allocations: [allocation("a", "active")] }
+            }
+        }, 0);
+        store.saveAllocations([allocation("a", "active")], 0);
+
+        expect(store.loadQuotaData()).toEqual({
+            data: { eastus: { Standard_D2s_v3: { total: 10, used: 2, available: 8, assigned_to: ["validator"] } } },
+            version: 1
+        });
+        expect(fs.readFileSync(quotaFilePath, "utf8")).not.toContain("allocations");
+        expect(store.loadAllocations().data).toEqual([allocation("a", "active")]);
+    });
+});
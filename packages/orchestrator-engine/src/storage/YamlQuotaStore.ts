@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import * as path from "path";
+import { QuotaAllocation } from "../rules/QuotaEngine";
+import { AuditEvent, AuditEventFilter, filterAuditEvents } from "./AuditEvent";
+import { QuotaData, QuotaStore, StoreVersions, VersionedDocument, stripAllocations } from "./QuotaStore";
+import { QuotaUsageSample, UsageHistoryFilter, filterUsageSamples } from "./UsageHistory";
+import { VersionedYamlFile } from "./VersionedYamlFile";
+
+/**
+ * YamlQuotaStore keeps quota data and allocations in two YAML files
+ * (by default `live-quotas.yaml` and `allocations.yaml`). The audit trail and
+ * usage history are kept in append-only `audit-log.jsonl` and `usage-history.jsonl`
+ * files next to the allocations file
+ */
+export class YamlQuotaStore implements QuotaStore {
+    private quotaFile: VersionedYamlFile<QuotaData>;
+    private allocationFile: VersionedYamlFile<QuotaAllocation[]>;
+    private auditFilePath: string;
+    private usageFilePath: string;
+
+    constructor(quotaFilePath: string, allocationFilePath: string) {
+        this.quotaFile = new VersionedYamlFile(quotaFilePath);
+        this.allocationFile = new VersionedYamlFile(allocationFilePath);
+        this.auditFilePath = path.join(path.dirname(allocationFilePath), "audit-log.jsonl");
+        this.usageFilePath = path.join(path.dirname(allocationFilePath), "usage-history.jsonl");
+    }
+
+    public get location(): string {
+        return this.quotaFile.filePath;
+    }
+
+    public hasQuotaData(): boolean {
+        return this.quotaFile.exists();
+    }
+
+    public loadQuotaData(): VersionedDocument<QuotaData> {
+        const document = this.quotaFile.read();
+        return { data: document.data || {}, version: document.version };
+    }
+
+    public saveQuotaData(data: QuotaData, expectedVersion?: number): number {
+        return this.quotaFile.write(stripAllocations(data), expectedVersion);
+    }
+
+    public hasAllocations(): boolean {
+        return this.allocationFile.exists();
+    }
+
+    public loadAllocations(): VersionedDocument<QuotaAllocation[]> {
+        const document = this.allocationFile.read();
+        return { data: document.data || [], version: document.version };
+    }
+
+    public saveAllocations(allocations: QuotaAllocation[], expectedVersion?: number): number {
+        return this.allocationFile.write(allocations, expectedVersion);
+    }
+
+    public getVersions(): StoreVersions {
+        return { quotaVersion: this.quotaFile.readVersion(), allocationVersion: this.allocationFile.readVersion() };
+    }
+
+    public appendAuditEvent(event: AuditEvent): void {
+        // Single appends of one line are not interleaved between processes
+        fs.appendFileSync(this.auditFilePath, JSON.stringify(event) + "\n", "utf8");
+    }
+
+    public queryAuditEvents(filter: AuditEventFilter): AuditEvent[] {
+        return filterAuditEvents(this.readJsonLines<AuditEvent>(this.auditFilePath), filter);
+    }
+
+    public appendUsageSamples(samples: QuotaUsageSample[]): void {
+        if (samples.length === 0) {
+            return;
+        }
+        fs.appendFileSync(this.usageFilePath, samples.map(sample => JSON.stringify(sample) + "\n").join(""), "utf8");
+    }
+
+    public loadUsageHistory(filter: UsageHistoryFilter): QuotaUsageSample[] {
+        return filterUsageSamples(this.readJsonLines<QuotaUsageSample>(this.usageFilePath), filter);
+    }
+
+    public close(): void {
+        // Files are opened per operation, nothing to release
+    }
+
+    private readJsonLines<T>(filePath: string): T[] {
+        if (!fs.existsSync(filePath)) {
+            return [];
+        }
+
+        return fs.readFileSync(filePath, "utf-8")
+            .split("\n")
+            .filter(line => line.trim().length > 0)
+            .map(line => JSON.parse(line) as T);
+    }
+}
@@ -0,0 +1,1109 @@
+// Generated by orchestrator-engine's scripts/generateOpenApi.ts from its API types; do not edit.
+// Run `pnpm generate-openapi` in orchestrator-engine after changing the API types.
+
+/* eslint-disable */
+
+/**
+ * Error codes of the API: the engine's allocation rejection codes plus the API's own
+ * - `UNAUTHENTICATED`: no valid credential was sent
+ * - `FORBIDDEN`: the caller's role does not allow the request
+ * - `ALLOCATION_NOT_FOUND`: no allocation has the ID
+ * - `ALLOCATION_NOT_ACTIVE`: the allocation was already released, expired or confirmed
+ * - `STORE_CONFLICT`: another process changed the allocations first or is still writing them; retry
+ * - `RATE_LIMITED`: the caller made too many requests; retry after the Retry-After header
+ * - `REFRESH_THROTTLED`: quota data was refreshed too recently; retry after the Retry-After header
+ * - `INTERNAL_ERROR`: the request failed unexpectedly
+ */
+export type ApiErrorCode = AllocationErrorCode | "UNAUTHENTICATED" | "FORBIDDEN" | "ALLOCATION_NOT_FOUND" | "ALLOCATION_NOT_ACTIVE" | "STORE_CONFLICT" | "RATE_LIMITED" | "REFRESH_THROTTLED" | "INTERNAL_ERROR";
+
+/**
+ * Why an allocation request was rejected:
+ * - `INVALID_REQUEST`: missing or invalid parameters
+ * - `QUOTA_NOT_FOUND`: the region or SKU has no quota data
+ * - `ROLE_NOT_ASSIGNED`: the SKU is not assigned to the role
+ * - `INSUFFICIENT_QUOTA`: not enough quota is available
+ * - `SUBSCRIPTION_UNAVAILABLE`: the requested subscription has no quota for the SKU
+ * - `POLICY_VIOLATION`: an allocation policy forbids the request
+ * - `BUDGET_EXCEEDED`: the application's budget forbids the request
+ * - `REGION_UNHEALTHY`: the region's compute services are degraded
+ */
+export type AllocationErrorCode = "INVALID_REQUEST" | "QUOTA_NOT_FOUND" | "ROLE_NOT_ASSIGNED" | "INSUFFICIENT_QUOTA" | "SUBSCRIPTION_UNAVAILABLE" | "POLICY_VIOLATION" | "BUDGET_EXCEEDED" | "REGION_UNHEALTHY";
+
+/**
+ * One problem found validating a request or response
+ */
+export interface ValidationIssue {
+    /** Where the problem is, e.g. body.lines[0].amount or query.status */
+    path: string;
+    /** What is wrong with the value */
+    message: string;
+}
+
+/**
+ * Error body returned by every endpoint
+ */
+export interface ApiError {
+    /** Short description of the kind of error */
+    error: string;
+    /** Machine-readable error code (allocation, auth and validation errors) */
+    code?: ApiErrorCode;
+    /** What went wrong */
+    message: string;
+    /** Further details, e.g. the validation issues of an INVALID_REQUEST */
+    details?: {
+        [key: string]: unknown;
+        errors?: ValidationIssue[];
+    };
+}
+
+/**
+ * Body of GET /health
+ */
+export interface HealthResponse {
+    status: "ok";
+    azure: "connected" | "offline";
+    besu: "available" | "offline";
+    telemetry: "enabled" | "disabled";
+    version: string;
+    /** Circuit breakers guarding Azure, Besu and the quota provider; an open one fails calls fast */
+    circuitBreakers: CircuitBreakerStatus[];
+}
+
+/**
+ * Snapshot of a circuit breaker, e.g. for a health endpoint
+ */
+export interface CircuitBreakerStatus {
+    /** Name of the dependency the breaker guards, e.g. `azure` or `besu` */
+    name: string;
+    state: CircuitState;
+    /** Consecutive failures so far */
+    failures: number;
+    /** When the circuit last opened (ISO 8601), if it is not closed */
+    openedAt?: string;
+    /** How long until a trial call is let through, while the circuit is open */
+    retryAfterMs?: number;
+}
+
+/**
+ * State of a circuit breaker: closed (calls go through), open (calls fail fast until the cool-down ends) or half-open (one trial call decides whether to close again)
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Query of GET /api/quotas
+ */
+export interface QuotaEligibilityQuery {
+    region: string;
+    role: string;
+}
+
+/**
+ * Body of GET /api/quotas
+ */
+export interface QuotaEligibilityResponse {
+    region: string;
+    role: string;
+    /** Whether the region has quota for the role */
+    eligible: boolean;
+}
+
+/**
+ * Query of GET /api/quotas/matrix
+ */
+export interface QuotaMatrixQuery {
+    region?: string;
+    role?: string;
+}
+
+/**
+ * Body of GET /api/quotas/matrix
+ */
+export interface QuotaMatrixResponse {
+    /** Quota figures by region and SKU */
+    data: Record<string, Record<string, QuotaMatrixEntry>>;
+    meta: {
+        timestamp: string;
+        /** When the quota data was last refreshed, or null if it never was */
+        lastRefresh: string | null;
+    };
+}
+
+/**
+ * QuotaMatrixEntry is a region/SKU quota as shown to clients, without its allocations
+ */
+export interface QuotaMatrixEntry {
+    total: number;
+    used: number;
+    available: number;
+    /** Roles that can use this quota */
+    assigned_to: string[];
+    /** Per-subscription breakdown when the quota spans several subscriptions */
+    subscriptions?: Record<string, SubscriptionQuota>;
+}
+
+/**
+ * SubscriptionQuota is one subscription's share of a region/SKU quota
+ */
+export interface SubscriptionQuota {
+    total: number;
+    used: number;
+    available: number;
+    /** The subscription's quota of the SKU's VM family */
+    family?: FamilyQuota;
+}
+
+/**
+ * FamilyQuota is the vCPU quota Azure enforces per VM family, which every SKU of the family in a region draws from
+ */
+export interface FamilyQuota {
+    /** VM family, e.g. standardDSv3Family */
+    name: string;
+    /** vCPU limit of the family */
+    limitVcpus: number;
+    /** vCPUs of the family in use */
+    usedVcpus: number;
+}
+
+/**
+ * Body of POST /api/quotas/refresh
+ */
+export interface QuotaRefreshResponse {
+    success: boolean;
+    message: string;
+    /** Whether the request joined a refresh another caller had already started */
+    coalesced?: boolean;
+    timestamp?: string;
+}
+
+/**
+ * Body of GET /api/besu/status
+ */
+export interface BesuStatusResponse {
+    /** Whether a node on the expected chain answers */
+    available: boolean;
+    /** Whether every node is synced, connected and on the expected chain */
+    healthy?: boolean;
+    /** First configured endpoint */
+    endpoint?: string;
+    /** Health of each configured node */
+    nodes?: BesuNodeHealth[];
+    message: string;
+    timestamp?: string;
+}
+
+/**
+ * Health of a Besu node, as read over JSON-RPC
+ */
+export interface BesuNodeHealth {
+    /** JSON-RPC endpoint of the node */
+    endpoint: string;
+    /** Whether the node answered */
+    reachable: boolean;
+    /** Whether the node is reachable and has no problems */
+    healthy: boolean;
+    /** What is wrong with the node, if anything */
+    problems: BesuNodeProblem[];
+    /** Network ID (`net_version`) */
+    networkId?: string;
+    /** Chain ID (`eth_chainId`) */
+    chainId?: number;
+    /** Latest block of the node (`eth_blockNumber`) */
+    blockNumber?: number;
+    /** Highest block known to the node while it syncs, else its latest block */
+    highestBlock?: number;
+    /** How many blocks the node is behind its sync target or the other nodes probed with it */
+    blocksBehind?: number;
+    /** Whether the node is syncing (`eth_syncing`) */
+    syncing?: boolean;
+    /** Connected peers (`net_peerCount`) */
+    peerCount?: number;
+    /** Consensus protocol whose validator API answered */
+    consensus?: BesuConsensus;
+    /** Validators at the latest block, if the node exposes the QBFT or IBFT API */
+    validators?: string[];
+    /** Why the node could not be reached */
+    error?: string;
+    /** When the node was probed (ISO 8601) */
+    checkedAt: string;
+}
+
+/**
+ * Why a Besu node is not healthy
+ */
+export type BesuNodeProblem = "unreachable" | "syncing" | "lagging" | "no-peers" | "wrong-chain";
+
+/**
+ * Consensus protocol of a Besu network, which decides the validator API to call
+ */
+export type BesuConsensus = "qbft" | "ibft";
+
+/**
+ * Body of GET /api/azure/status
+ */
+export interface AzureStatusResponse {
+    connected: boolean;
+    subscriptionId?: string;
+    resourceHealth?: "healthy" | "issues-detected" | "unknown";
+    message: string;
+    timestamp?: string;
+}
+
+/**
+ * Body of POST /api/quotas/recommendations
+ */
+export interface RecommendationsResponse {
+    query: RecommendationRequest;
+    recommendations: RecommendationDetails[];
+    excluded: RecommendationExclusion[];
+    meta: {
+        count: number;
+        timestamp: string;
+        azureConnected: boolean;
+    };
+}
+
+/**
+ * RecommendationRequest contains parameters for generating recommendations
+ */
+export interface RecommendationRequest {
+    /** Workload role/type needed */
+    role: string;
+    /** Minimum quota units needed */
+    minimumQuota: number;
+    /** Preferred regions (optional) */
+    preferredRegions?: string[];
+    /** Preferred subscriptions (optional) */
+    preferredSubscriptions?: string[];
+    /** SKU requirements/constraints (optional), checked against the SKU catalog */
+    skuRequirements?: SkuRequirements;
+    /** Required features (optional), from SKU_FEATURES */
+    requiredFeatures?: string[];
+}
+
+/**
+ * Minimum hardware a workload needs
+ */
+export interface SkuRequirements {
+    /** Minimum number of vCPUs */
+    minCores?: number;
+    /** Minimum memory in GB */
+    minMemory?: number;
+    /** Whether at least one GPU is needed */
+    gpuRequired?: boolean;
+}
+
+/**
+ * RecommendationDetails provides information about a recommended allocation
+ */
+export interface RecommendationDetails {
+    /** Region recommended for deployment */
+    region: string;
+    /** Specific SKU recommended */
+    sku: string;
+    /** Available quota remaining */
+    availableQuota: number;
+    /** Confidence score (0-100) */
+    confidence: number;
+    /** Reasons for this recommendation */
+    reasons: string[];
+    /** Subscription recommended for deployment (when quota spans several subscriptions) */
+    subscriptionId?: string;
+}
+
+/**
+ * RecommendationExclusion explains why a SKU with quota for the role was not recommended
+ */
+export interface RecommendationExclusion {
+    region: string;
+    sku: string;
+    /** Requirements the SKU does not meet */
+    reasons: string[];
+}
+
+/**
+ * Query of GET /api/events
+ */
+export interface EventStreamQuery {
+    /** Comma-separated event types to stream (default: all) */
+    types?: string;
+    /** Resume after this event (instead of the Last-Event-ID header) */
+    lastEventId?: string;
+    /** API key or bearer token, for clients such as EventSource that cannot send the X-API-Key or Authorization header */
+    access_token?: string;
+}
+
+/**
+ * Body of POST /api/placements/plan
+ */
+export interface PlacementPlanResponse {
+    query: NetworkShape;
+    plan: PlacementPlan;
+    meta: {
+        timestamp: string;
+        azureConnected: boolean;
+    };
+}
+
+/**
+ * NetworkShape describes the nodes of a Besu network to place
+ */
+export interface NetworkShape {
+    /** Number of validators */
+    validators: number;
+    /** Number of RPC nodes (default: 0) */
+    rpcNodes?: number;
+    /** Number of bootnodes (default: 0) */
+    bootnodes?: number;
+    /** Quota roles of each kind of node (default: validator, rpc and bootnode) */
+    roles?: {
+        validator?: string;
+        rpc?: string;
+        bootnode?: string;
+    };
+    /** Quota units each node takes (default: 1) */
+    unitsPerNode?: number;
+    /** Unit validators are spread across (default: region) */
+    failureDomain?: FailureDomain;
+    /** Regions the network may use (default: all regions) */
+    regions?: string[];
+    /** Subscriptions to prefer when quota spans several */
+    preferredSubscriptions?: string[];
+    /** SKU requirements every node must meet, checked against the SKU catalog */
+    skuRequirements?: SkuRequirements;
+    /** Required features every node's SKU must support, from SKU_FEATURES */
+    requiredFeatures?: string[];
+}
+
+/**
+ * Unit validators are spread across so one outage cannot stop consensus:
+ * - `region`: at most f validators per region
+ * - `zone`: at most f validators per region, spread evenly across its availability zones:   at most ceil(f / zones) per zone (a region without zones counts as one zone)
+ */
+export type FailureDomain = "region" | "zone";
+
+/**
+ * PlacementPlan is the placement of every node of a network
+ */
+export interface PlacementPlan {
+    /** Whether every node was placed */
+    feasible: boolean;
+    /** Faulty validators the network tolerates: f in n >= 3f + 1 */
+    faultTolerance: number;
+    /** Unit validators were spread across */
+    failureDomain: FailureDomain;
+    /** Most validators placed in one region */
+    maxValidatorsPerRegion: number;
+    /** Placements sorted by kind, region and zone */
+    placements: NodePlacement[];
+    /** Nodes that could not be placed */
+    unplaced: UnplacedNodes[];
+    /** Quota to allocate for the plan, one line per region/SKU/role/subscription */
+    allocationLines: PlacementAllocationLine[];
+    /** How the plan was made */
+    explanation: string[];
+}
+
+/**
+ * NodePlacement is a number of nodes of one kind placed on the same region/SKU/zone
+ */
+export interface NodePlacement {
+    kind: NetworkNodeKind;
+    role: string;
+    region: string;
+    sku: string;
+    subscriptionId?: string;
+    /** Availability zone, if the SKU has zones in the region */
+    zone?: string;
+    /** Number of nodes */
+    nodes: number;
+    /** Quota units the nodes take */
+    units: number;
+}
+
+/**
+ * Kinds of node in a Besu network
+ */
+export type NetworkNodeKind = "validator" | "rpc" | "bootnode";
+
+/**
+ * Nodes of one kind the planner could not place
+ */
+export interface UnplacedNodes {
+    kind: NetworkNodeKind;
+    role: string;
+    nodes: number;
+    reason: string;
+}
+
+/**
+ * Allocation line of a plan, in the shape taken by allocateQuotaBatch
+ */
+export interface PlacementAllocationLine {
+    region: string;
+    sku: string;
+    role: string;
+    amount: number;
+    subscriptionId?: string;
+}
+
+/**
+ * Body of GET /api/skus
+ */
+export interface SkuCatalogResponse {
+    /** Capabilities by SKU name */
+    skus: Record<string, SkuCapabilities>;
+}
+
+/**
+ * SkuCapabilities describes the hardware and platform features of one VM SKU
+ */
+export interface SkuCapabilities {
+    /** VM family the SKU's quota is counted against */
+    family?: string;
+    /** Number of vCPUs */
+    vCPUs: number;
+    /** Memory in GB */
+    memoryGB: number;
+    /** Number of GPUs */
+    gpus: number;
+    /** Whether accelerated networking is supported */
+    acceleratedNetworking: boolean;
+    /** Whether premium storage disks are supported */
+    premiumStorage: boolean;
+    /** Availability zones offering the SKU, per region */
+    zones?: Record<string, string[]>;
+}
+
+/**
+ * Body of GET /api/policies
+ */
+export interface PoliciesResponse {
+    rules: PolicyRule[];
+}
+
+/**
+ * PolicyRule is one rule of the policy file. The scope fields (roles, regions, skus, applications) limit which requests the rule applies to; a rule without any applies to every request. Scope values may use `*` wildcards, e.g. `*europe`.
+ */
+export interface PolicyRule {
+    /** Name reported when the rule rejects a request */
+    name: string;
+    type: PolicyRuleType;
+    /** What the rule is for */
+    description?: string;
+    /** Roles the rule applies to */
+    roles?: string[];
+    /** Regions the rule applies to */
+    regions?: string[];
+    /** SKUs the rule applies to */
+    skus?: string[];
+    /** Applications the rule applies to */
+    applications?: string[];
+    /** Share of the quota for `max-share` and `headroom`, 0-100 */
+    percent?: number;
+    /** Regions allowed by `region-pin` */
+    allowedRegions?: string[];
+    /** Units allowed by `max-per-application` */
+    max?: number;
+}
+
+/**
+ * Kinds of allocation policy rule:
+ * - `max-share`: the roles may hold at most `percent` of a region/SKU's quota
+ * - `headroom`: an allocation must leave at least `percent` of a region/SKU's quota available
+ * - `region-pin`: the roles may only allocate in `allowedRegions`
+ * - `max-per-application`: an application may hold at most `max` units
+ */
+export type PolicyRuleType = "max-share" | "headroom" | "region-pin" | "max-per-application";
+
+/**
+ * Query of GET /api/allocations
+ */
+export interface AllocationListQuery {
+    applicationId?: string;
+    region?: string;
+    role?: string;
+    /** Current status of allocation */
+    status?: "pending" | "active" | "released" | "expired";
+}
+
+/**
+ * Body of GET /api/allocations
+ */
+export interface AllocationListResponse {
+    allocations: QuotaAllocation[];
+    meta: {
+        count: number;
+        timestamp: string;
+    };
+}
+
+/**
+ * QuotaAllocation represents a specific allocation of resources
+ */
+export interface QuotaAllocation {
+    /** Unique identifier for this allocation */
+    id: string;
+    /** When the allocation was created */
+    timestamp: string;
+    /** Region where resources are allocated */
+    region: string;
+    /** SKU being allocated */
+    sku: string;
+    /** Role/workload type */
+    role: string;
+    /** Amount of quota allocated */
+    amount: number;
+    /** Application or service identifier */
+    applicationId: string;
+    /** Current status of allocation */
+    status: "pending" | "active" | "released" | "expired";
+    /** When a pending reservation lapses if not confirmed (reservations only) */
+    expiresAt?: string;
+    /** Batch transaction that created this allocation (batch allocations only) */
+    transactionId?: string;
+    /** Who requested the allocation */
+    requestedBy?: string;
+    /** Subscription the quota is drawn from (when quota spans several subscriptions) */
+    subscriptionId?: string;
+    /** When the allocation stopped holding quota (released and expired allocations) */
+    endedAt?: string;
+}
+
+/**
+ * Request body of POST /api/allocations
+ */
+export interface CreateAllocationRequest {
+    /** Region where resources should be allocated */
+    region: string;
+    /** SKU to allocate */
+    sku: string;
+    /** Role/workload type */
+    role: string;
+    /** Amount of quota to allocate */
+    amount: number;
+    /** Subscription to draw from (default: the one with the most available quota) */
+    subscriptionId?: string;
+    /** Identifier for the application using the allocation */
+    applicationId: string;
+    /** Create a pending reservation to confirm later instead of an active allocation */
+    reserve?: boolean;
+    /** Seconds before a reservation expires if not confirmed */
+    ttlSeconds?: number;
+}
+
+/**
+ * AllocationRequestLine describes one region/SKU entry of a batch allocation
+ */
+export interface AllocationRequestLine {
+    /** Region where resources should be allocated */
+    region: string;
+    /** SKU to allocate */
+    sku: string;
+    /** Role/workload type */
+    role: string;
+    /** Amount of quota to allocate */
+    amount: number;
+    /** Subscription to draw from (default: the one with the most available quota) */
+    subscriptionId?: string;
+}
+
+/**
+ * Body of the endpoints returning one allocation
+ */
+export interface AllocationResponse {
+    allocation: QuotaAllocation;
+}
+
+/**
+ * Query of DELETE /api/allocations/{id}
+ */
+export interface ReleaseAllocationQuery {
+    /** Why the allocation is released, for the audit trail */
+    reason?: string;
+}
+
+/**
+ * Request body of POST /api/allocations/batch
+ */
+export interface BatchAllocationRequest {
+    /** Identifier for the application using the allocations */
+    applicationId: string;
+    /** Lines to allocate together */
+    lines: AllocationRequestLine[];
+}
+
+/**
+ * Body of POST /api/allocations/batch
+ */
+export type BatchAllocationResponse = BatchAllocationResult;
+
+/**
+ * BatchAllocationResult reports the outcome of an all-or-nothing batch allocation
+ */
+export interface BatchAllocationResult {
+    /** Identifier shared by all allocations created in this batch */
+    transactionId: string;
+    /** Whether every line was allocated */
+    committed: boolean;
+    /** Per-line results in request order */
+    lines: BatchAllocationLineResult[];
+}
+
+/**
+ * BatchAllocationLineResult reports the outcome of a single batch line
+ */
+export interface BatchAllocationLineResult {
+    /** Position of the line in the request */
+    index: number;
+    /** The requested line */
+    line: AllocationRequestLine;
+    /** Whether the line passed validation */
+    valid: boolean;
+    /** Allocation ID if the batch was committed */
+    allocationId?: string;
+    /** Why the line was rejected */
+    reason?: string;
+    /** Error code of the rejection */
+    code?: AllocationErrorCode;
+}
+
+/**
+ * Body of a 409 from POST /api/allocations/batch: the rejected lines, or a store conflict
+ */
+export type BatchAllocationRejection = BatchAllocationResult | ApiError;
+
+/**
+ * Query of GET /api/rebalance/proposals
+ */
+export interface RebalanceProposalsQuery {
+    /** Targets proposed per allocation (default: 3) */
+    maxTargets?: number;
+}
+
+/**
+ * Body of GET /api/rebalance/proposals
+ */
+export interface RebalanceProposalsResponse {
+    proposals: RebalanceProposal[];
+    meta: {
+        count: number;
+        timestamp: string;
+    };
+}
+
+/**
+ * RebalanceProposal lists where an active allocation in a degraded region could move
+ */
+export interface RebalanceProposal {
+    /** The allocation to move */
+    allocation: QuotaAllocation;
+    /** Advisories of the degraded region */
+    advisories: string[];
+    /** Healthy regions/SKUs with enough quota for the allocation, best first */
+    targets: RecommendationDetails[];
+}
+
+/**
+ * Request body of POST /api/rebalance/apply
+ */
+export interface ApplyRebalancingRequest {
+    /** Allocations to move */
+    allocationIds: string[];
+    /** Region/SKU to move each allocation to, by allocation ID (default: the best target). A target in the allocation's own region, in a degraded region or without enough quota is rejected for that allocation. */
+    targets?: Record<string, RebalanceTarget>;
+}
+
+/**
+ * RebalanceTarget is the region/SKU (and subscription) an allocation moves to
+ */
+export interface RebalanceTarget {
+    region: string;
+    sku: string;
+    subscriptionId?: string;
+}
+
+/**
+ * Body of POST /api/rebalance/apply
+ */
+export interface ApplyRebalancingResponse {
+    results: RebalanceResult[];
+    meta: {
+        migrated: number;
+        timestamp: string;
+    };
+}
+
+/**
+ * RebalanceResult reports the outcome of moving one allocation
+ */
+export interface RebalanceResult {
+    /** Allocation that was to be moved */
+    allocationId: string;
+    /** Whether the new allocation was created and the old one released */
+    migrated: boolean;
+    /** Replacement allocation (migrated allocations, or a replacement left active because the original could not be released) */
+    newAllocationId?: string;
+    /** Region/SKU the allocation moved to (migrated allocations, or where a replacement was left active) */
+    target?: RebalanceTarget;
+    /** Why the allocation was not moved */
+    reason?: string;
+}
+
+/**
+ * Body of GET /api/allocations/{id}/history
+ */
+export interface AllocationHistoryResponse {
+    allocationId: string;
+    /** Current status, or null if the allocation is no longer stored */
+    status: "pending" | "active" | "released" | "expired" | null;
+    events: AuditEvent[];
+}
+
+/**
+ * AuditEvent is an immutable record of a single QuotaEngine action
+ */
+export interface AuditEvent {
+    /** Unique identifier for this event */
+    id: string;
+    /** When the action happened */
+    timestamp: string;
+    /** What was done */
+    action: AuditAction;
+    /** Whether the action succeeded */
+    outcome: "success" | "failure";
+    /** Who requested the action */
+    requestedBy: string;
+    /** Allocation affected by the action (if any) */
+    allocationId?: string;
+    /** Application the allocation belongs to (if any) */
+    applicationId?: string;
+    /** Region affected by the action (if any) */
+    region?: string;
+    /** SKU affected by the action (if any) */
+    sku?: string;
+    /** Role affected by the action (if any) */
+    role?: string;
+    /** Amount of quota involved (if any) */
+    amount?: number;
+    /** Why the action was rejected or failed */
+    reason?: string;
+    /** Additional action-specific details */
+    details?: Record<string, string>;
+}
+
+/**
+ * Kind of action recorded in the audit trail
+ */
+export type AuditAction = "allocate" | "reserve" | "confirm" | "release" | "expire" | "reject" | "refresh" | "add-sku";
+
+/**
+ * Body of GET /api/quotas/suggestions/{role}
+ */
+export interface RegionSuggestionResponse {
+    role: string;
+    suggestion: RegionSuggestion;
+}
+
+/**
+ * Region suggested for a deployment, with the reason for the choice
+ */
+export interface RegionSuggestion {
+    /** Suggested region, or null if no region fits */
+    region: string | null;
+    /** Why the region was suggested (or none was) */
+    reason: string;
+    /** Other regions that would also fit */
+    alternativeRegions?: string[];
+}
+
+/**
+ * Query of GET /api/quotas/summary/{role}
+ */
+export interface QuotaSummaryQuery {
+    /** Only count quota in this subscription */
+    subscription?: string;
+}
+
+/**
+ * Body of GET /api/quotas/summary/{role}
+ */
+export interface QuotaSummaryResponse {
+    role: string;
+    subscription?: string;
+    /** Quota figures by region */
+    summary: Record<string, QuotaUsageSummary>;
+}
+
+/**
+ * QuotaUsageSummary rolls up quota figures across regions or subscriptions
+ */
+export interface QuotaUsageSummary {
+    total: number;
+    used: number;
+    available: number;
+    usage_percent: string;
+}
+
+/**
+ * Query of GET /api/quotas/subscriptions
+ */
+export interface SubscriptionSummaryQuery {
+    role?: string;
+}
+
+/**
+ * Quota figures of one subscription and the regions it has quota in
+ */
+export interface SubscriptionUsageSummary {
+    total: number;
+    used: number;
+    available: number;
+    usage_percent: string;
+    regions: string[];
+}
+
+/**
+ * Body of GET /api/quotas/subscriptions
+ */
+export interface SubscriptionSummaryResponse {
+    role?: string;
+    /** Quota figures by subscription */
+    subscriptions: Record<string, SubscriptionUsageSummary>;
+}
+
+/**
+ * Query of GET /api/budgets
+ */
+export interface BudgetsQuery {
+    applicationId?: string;
+}
+
+/**
+ * Body of GET /api/budgets
+ */
+export interface BudgetsResponse {
+    budgets: BudgetStatus[];
+}
+
+/**
+ * How much of its budget an application is using
+ */
+export interface BudgetStatus {
+    applicationId: string;
+    /** Quota units currently held */
+    heldUnits: number;
+    /** Unit budget, or null if there is none */
+    maxUnits: number | null;
+    /** Estimated monthly cost of the held quota, or null if a price is missing */
+    estimatedMonthlyCost: number | null;
+    /** Cost budget, or null if there is none */
+    maxMonthlyCost: number | null;
+    /** Currency of the costs */
+    currency: string;
+}
+
+/**
+ * Query of GET /api/chargeback
+ */
+export interface ChargebackQuery {
+    /** Start of the period (default: `days` before `to`) */
+    from?: string;
+    /** End of the period (default: now) */
+    to?: string;
+    /** Length of the period in days when `from` is not set (default: 30) */
+    days?: number;
+    /** Report format (default: json) */
+    format?: "json" | "csv" | "markdown";
+}
+
+/**
+ * Body of GET /api/chargeback in JSON format
+ */
+export type ChargebackResponse = ChargebackReport;
+
+/**
+ * ChargebackReport attributes quota consumption over a period to applications
+ */
+export interface ChargebackReport {
+    from: string;
+    to: string;
+    currency: string;
+    /** Lines sorted by application, role and region */
+    lines: ChargebackLine[];
+    totalUnitHours: number;
+    /** Estimated total cost, or null if any line has no estimate */
+    totalEstimatedCost: number | null;
+}
+
+/**
+ * Quota consumed by one application, role and region over the report period
+ */
+export interface ChargebackLine {
+    applicationId: string;
+    role: string;
+    region: string;
+    /** Quota units multiplied by the hours they were held */
+    unitHours: number;
+    /** Estimated cost, or null if the price table has no price for a SKU used */
+    estimatedCost: number | null;
+}
+
+/**
+ * Query of GET /api/quotas/trends
+ */
+export interface QuotaTrendsQuery {
+    region?: string;
+    /** Days of history when `from` is not set */
+    days?: number;
+    from?: string;
+    to?: string;
+}
+
+/**
+ * Body of GET /api/quotas/trends
+ */
+export type QuotaTrendsResponse = QuotaTrends;
+
+/**
+ * Usage history per region and SKU, in the shape the front-end quota matrix reads
+ */
+export type QuotaTrends = Record<string, Record<string, {
+    history: {
+        date: string;
+        used: number;
+        total: number;
+    }[];
+}>>;
+
+/**
+ * Body of GET /api/quotas/snapshots
+ */
+export interface SnapshotListResponse {
+    snapshots: QuotaSnapshotInfo[];
+}
+
+/**
+ * Identifies a stored snapshot
+ */
+export interface QuotaSnapshotInfo {
+    /** Snapshot identifier, sortable by time */
+    id: string;
+    /** When the snapshot was taken */
+    timestamp: string;
+    /** What produced the snapshot */
+    source: QuotaSnapshotSource;
+}
+
+/**
+ * What produced a snapshot
+ */
+export type QuotaSnapshotSource = "refresh" | "generate-yaml";
+
+/**
+ * Query of GET /api/quotas/snapshots/diff
+ */
+export interface SnapshotDiffQuery {
+    /** ID of the snapshot to compare from (default: the second most recent) */
+    from?: string;
+    /** ID of the snapshot to compare to (default: the most recent) */
+    to?: string;
+}
+
+/**
+ * Body of GET /api/quotas/snapshots/diff
+ */
+export type SnapshotDiffResponse = QuotaSnapshotDiff;
+
+/**
+ * Differences between two snapshots. Region/SKUs that did not change are left out.
+ */
+export interface QuotaSnapshotDiff {
+    from: QuotaSnapshotInfo;
+    to: QuotaSnapshotInfo;
+    entries: QuotaSnapshotDiffEntry[];
+}
+
+/**
+ * Change of one region/SKU between two snapshots
+ */
+export interface QuotaSnapshotDiffEntry {
+    region: string;
+    sku: string;
+    change: "added" | "removed" | "changed";
+    /** Figures in the older snapshot (absent if the SKU was added) */
+    before?: QuotaFigures;
+    /** Figures in the newer snapshot (absent if the SKU was removed) */
+    after?: QuotaFigures;
+    /** After minus before, counting a missing side as zero */
+    delta: QuotaFigures;
+}
+
+/**
+ * Quota numbers compared by a snapshot diff
+ */
+export interface QuotaFigures {
+    total: number;
+    used: number;
+    available: number;
+}
+
+/**
+ * Query of GET /api/quotas/forecast
+ */
+export interface QuotaForecastQuery {
+    region?: string;
+    role?: string;
+    method?: ForecastMethod;
+    /** Days ahead of exhaustion to start warning */
+    warningDays?: number;
+}
+
+/**
+ * Trend model used to project quota consumption:
+ * - `linear`: least-squares line through all samples
+ * - `holt`: double exponential smoothing, which weights recent samples more
+ */
+export type ForecastMethod = "linear" | "holt";
+
+/**
+ * Body of GET /api/quotas/forecast
+ */
+export interface QuotaForecastResponse {
+    generatedAt: string;
+    forecasts: QuotaForecast[];
+}
+
+/**
+ * QuotaForecast is the projected consumption and exhaustion date of one region/SKU
+ */
+export interface QuotaForecast {
+    region: string;
+    sku: string;
+    /** Roles assigned to the SKU, all of which run out together */
+    roles: string[];
+    /** Trend model used */
+    method: ForecastMethod;
+    /** Number of recorded samples the trend was fitted to */
+    sampleCount: number;
+    /** Current quota limit */
+    total: number;
+    /** Current consumption (limit minus available) */
+    consumed: number;
+    /** Current available quota */
+    available: number;
+    /** Fitted consumption growth in quota units per day, or null without enough history */
+    dailyGrowth: number | null;
+    /** Projected consumption at the end of the horizon, capped at the limit */
+    predictedConsumption: number | null;
+    /** Predicted date the quota runs out, or null if it is not trending towards exhaustion */
+    exhaustionDate: string | null;
+    /** Days from now until the predicted exhaustion date */
+    daysUntilExhaustion: number | null;
+    /** How urgently more quota should be requested */
+    alertLevel: QuotaAlertLevel;
+}
+
+/**
+ * Alert level for quota thresholds
+ */
+export type QuotaAlertLevel = "none" | "warning" | "critical";
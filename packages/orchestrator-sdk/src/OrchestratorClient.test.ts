@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+import { OrchestratorClient, OrchestratorApiError } from "./OrchestratorClient";
+import { isRetryableError, RequestCancelledError } from "./RetryUtils";
+
+function jsonResponse(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// No backoff between attempts, so retries do not slow the tests down
+const NO_DELAY = { initialDelayMs: 0, useJitter: false };
+
+describe("OrchestratorClient", () => {
+    it("should send typed requests with the query and credentials", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {
+            role: "validator",
+            summary: { eastus: { total: 100, used: 20, available: 80, usage_percent: "20.00" } }
+        }));
+        const client = new OrchestratorClient({ baseUrl: "http://engine:3000/", apiKey: "key", fetch: fetchMock });
+
+        const result = await client.summarizeQuota("validator", { subscription: "sub-a" });
+
+        expect(result.summary.eastus.available).toBe(80);
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe("http://engine:3000/api/quotas/summary/validator?subscription=sub-a");
+        expect(init).toMatchObject({ method: "GET", headers: { "X-API-Key": "key" } });
+
+        fetchMock.mockResolvedValue(jsonResponse(200, { recommendations: [] }));
+        await client.getRecommendations({ role: "validator", minimumQuota: 2 });
+        expect(fetchMock.mock.calls[1][1]).toMatchObject({
+            method: "POST",
+            body: JSON.stringify({ role: "validator", minimumQuota: 2 }),
+            headers: { "Content-Type": "application/json" }
+        });
+    });
+
+    it("should send credentials set after construction, also in the event stream URL", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { status: "ok" }));
+        const client = new OrchestratorClient({ baseUrl: "http://engine:3000", fetch: fetchMock });
+
+        expect(client.getEventStreamUrl()).toBe("http://engine:3000/api/events");
+
+        client.setCredentials({ token: "a.b.c" });
+        await client.getHealth();
+
+        expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: "Bearer a.b.c" });
+        expect(client.getEventStreamUrl({ types: "quota.refreshed" })).toBe("http://engine:3000/api/events?types=quota.refreshed&access_token=a.b.c");
+    });
+
+    it("should retry network failures and retryable statuses, but not client errors", async () => {
+        const fetchMock = vi.fn()
+            .mockRejectedValueOnce(new TypeError("fetch failed"))
+            .mockResolvedValueOnce(jsonResponse(502, { error: "Bad gateway", message: "Upstream unavailable" }))
+            .mockResolvedValueOnce(jsonResponse(200, { status: "ok" }));
+        const client = new OrchestratorClient({ fetch: fetchMock, retry: NO_DELAY });
+
+        expect(await client.getHealth()).toEqual({ status: "ok" });
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+
+        fetchMock.mockReset().mockResolvedValue(jsonResponse(403, { error: "Forbidden", code: "FORBIDDEN", message: "Needs the admin role" }));
+        const error = await client.refreshQuotas().catch(e => e);
+        expect(error).toBeInstanceOf(OrchestratorApiError);
+        expect(error).toMatchObject({ status: 403, code: "FORBIDDEN", message: "Needs the admin role" });
+        expect(fetchMock).toHaveBeenCalledOnce();
+
+        // A documented 503 is a response, not an error
+        fetchMock.mockReset().mockResolvedValue(jsonResponse(503, { success: false, message: "Azure credentials may be missing." }));
+        expect(await client.refreshQuotas()).toEqual({ success: false, message: "Azure credentials may be missing." });
+    });
+
+    it("should classify API errors with the same rule as isRetryableError", () => {
+        const statuses = [400, 401, 403, 404, 408, 409, 429, 500, 501, 502, 503, 504];
+        const retryable = statuses.filter(status => new OrchestratorApiError(status).retryable);
+
+        expect(retryable).toEqual([408, 429, 500, 502, 503, 504]);
+        statuses.forEach(status => {
+            const apiError = new OrchestratorApiError(status);
+            const plainError = Object.assign(new Error(`status ${status}`), { status });
+            expect(isRetryableError(apiError)).toBe(apiError.retryable);
+            expect(isRetryableError(plainError)).toBe(apiError.retryable);
+        });
+        expect(isRetryableError(new OrchestratorApiError(409, { error: "Conflict", code: "STORE_CONFLICT", message: "changed" }))).toBe(true);
+    });
+
+    it("should give up after the configured retries", async () => {
+        const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(500, { error: "Internal server error", message: "boom" }));
+        const client = new OrchestratorClient({ fetch: fetchMock, retry: { ...NO_DELAY, maxRetries: 2 } });
+
+        await expect(client.getAzureStatus()).rejects.toMatchObject({ status: 500, message: "boom" });
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should wait as long as Retry-After asks before retrying", async () => {
+        vi.useFakeTimers();
+        try {
+            const fetchMock = vi.fn()
+                .mockResolvedValueOnce(new Response(JSON.stringify({ error: "Too many requests", code: "REFRESH_THROTTLED", message: "retry in 2s" }), {
+                    status: 429,
+                    headers: { "Retry-After": "2" }
+                }))
+                .mockResolvedValueOnce(jsonResponse(200, { success: true, message: "Quota data refreshed successfully", coalesced: false }));
+            const client = new OrchestratorClient({ fetch: fetchMock, retry: NO_DELAY });
+
+            const request = client.refreshQuotas();
+            await vi.advanceTimersByTimeAsync(1999);
+            expect(fetchMock).toHaveBeenCalledOnce();
+
+            await vi.advanceTimersByTimeAsync(1);
+            expect(await request).toMatchObject({ success: true });
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it("should cancel a request waiting to be retried", async () => {
+        const fetchMock = vi.fn().mockRejectedValue(new TypeError("fetch failed"));
+        const client = new OrchestratorClient({ fetch: fetchMock, retry: { initialDelayMs: 60000, useJitter: false } });
+        const controller = new AbortController();
+
+        const request = client.getQuotaMatrix({ role: "validator" }, { signal: controller.signal });
+        await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledOnce());
+        controller.abort();
+
+        await expect(request).rejects.toBeInstanceOf(RequestCancelledError);
+        expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+});
@@ -0,0 +1,267 @@
+import { executeWithRetry, getRetryAfterMs, isRetryableStatus, RetryOptions } from "./RetryUtils";
+import {
+    ApiError,
+    ApiErrorCode,
+    AzureStatusResponse,
+    BesuStatusResponse,
+    EventStreamQuery,
+    HealthResponse,
+    QuotaEligibilityQuery,
+    QuotaEligibilityResponse,
+    QuotaMatrixQuery,
+    QuotaMatrixResponse,
+    QuotaRefreshResponse,
+    QuotaSummaryQuery,
+    QuotaSummaryResponse,
+    RecommendationRequest,
+    RecommendationsResponse,
+    RegionSuggestionResponse,
+    SubscriptionSummaryQuery,
+    SubscriptionSummaryResponse
+} from "./ApiTypes";
+
+/**
+ * Credential an OrchestratorClient authenticates with
+ */
+export interface ClientCredentials {
+    /** API key sent in the X-API-Key header */
+    apiKey?: string;
+    /** JWT sent as a bearer token */
+    token?: string;
+}
+
+/**
+ * Options of an OrchestratorClient
+ */
+export interface OrchestratorClientOptions extends ClientCredentials {
+    /** URL of the orchestrator engine, e.g. http://localhost:3000 (default: same origin) */
+    baseUrl?: string;
+    /** Headers sent with every request */
+    headers?: Record<string, string>;
+    /** Retries of every request, unless the request sets its own */
+    retry?: RetryOptions;
+    /** fetch implementation (default: the global fetch) */
+    fetch?: typeof fetch;
+}
+
+/**
+ * Options of one request
+ */
+export interface RequestOptions {
+    /** Cancels the request, including pending retries */
+    signal?: AbortSignal;
+    /** Retries of this request (merged over the client's) */
+    retry?: RetryOptions;
+}
+
+/**
+ * Thrown when the orchestrator answers with an error status. Holds the ApiError body
+ * when the server sent one.
+ */
+export class OrchestratorApiError extends Error {
+    /**
+     * @param status HTTP status of the response
+     * @param body ApiError body of the response
+     * @param retryAfterMs How long the server asked clients to wait before retrying (Retry-After)
+     */
+    constructor(
+        public readonly status: number,
+        public readonly body?: ApiError,
+        public readonly retryAfterMs?: number
+    ) {
+        super(body?.message || `Request failed with status ${status}`);
+        this.name = "OrchestratorApiError";
+    }
+
+    /** Machine-readable error code, if the server sent one */
+    public get code(): ApiErrorCode | undefined {
+        return this.body?.code;
+    }
+
+    /**
+     * Whether repeating the request may succeed: the statuses isRetryableStatus accepts,
+     * and store conflicts, after which the server has reloaded
+     */
+    public get retryable(): boolean {
+        return isRetryableStatus(this.status) || this.code === "STORE_CONFLICT";
+    }
+}
+
+/**
+ * Builds a query string from the set parameters
+ */
+function toQueryString(query: object = {}): string {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null && value !== "") {
+            params.append(name, String(value));
+        }
+    }
+    const search = params.toString();
+    return search ? `?${search}` : "";
+}
+
+/**
+ * OrchestratorClient calls the orchestrator engine's REST API with the request and
+ * response types of its OpenAPI document. Requests that fail with a network error or a
+ * retryable status are retried with exponential backoff, and every method takes an
+ * abort signal to cancel the request.
+ */
+export class OrchestratorClient {
+    private readonly baseUrl: string;
+    private credentials: ClientCredentials;
+
+    constructor(private readonly options: OrchestratorClientOptions = {}) {
+        this.baseUrl = (options.baseUrl || "").replace(/\/+$/, "");
+        this.credentials = { apiKey: options.apiKey, token: options.token };
+    }
+
+    /**
+     * Replaces the credential sent with later requests, e.g. once a user has signed in
+     * @param credentials API key or bearer token; empty to send none
+     */
+    public setCredentials(credentials: ClientCredentials): void {
+        this.credentials = { apiKey: credentials.apiKey, token: credentials.token };
+    }
+
+    /**
+     * Builds the URL of the server-sent event stream, for an EventSource. EventSource
+     * cannot send headers, so the credential goes in the access_token query parameter,
+     * which the engine accepts on this route only.
+     * @param query Event types to stream, and the event to resume after
+     */
+    public getEventStreamUrl(query: Omit<EventStreamQuery, "access_token"> = {}): string {
+        const { apiKey, token } = this.credentials;
+        return `${this.baseUrl}/api/events${toQueryString({ ...query, access_token: token || apiKey })}`;
+    }
+
+    /**
+     * Sends a request, retrying it while it fails with a retryable error
+     * @param method HTTP method
+     * @param path Path and query string of the request
+     * @param body JSON request body
+     * @param options Cancellation and retries
+     * @param acceptedStatuses Error statuses whose body is a documented response rather than an ApiError
+     * @returns Parsed JSON response body
+     */
+    private async request<T>(
+        method: 'GET' | 'POST',
+        path: string,
+        body: unknown,
+        options: RequestOptions = {},
+        acceptedStatuses: number[] = []
+    ): Promise<T> {
+        const fetchImpl = this.options.fetch || fetch;
+        const headers: Record<string, string> = { Accept: "application/json", ...this.options.headers };
+        if (body !== undefined) {
+            headers["Content-Type"] = "application/json";
+        }
+        if (this.credentials.apiKey) {
+            headers["X-API-Key"] = this.credentials.apiKey;
+        }
+        if (this.credentials.token) {
+            headers.Authorization = `Bearer ${this.credentials.token}`;
+        }
+
+        return executeWithRetry(async () => {
+            const response = await fetchImpl(`${this.baseUrl}${path}`, {
+                method,
+                headers,
+                body: body !== undefined ? JSON.stringify(body) : undefined,
+                signal: options.signal
+            });
+
+            const text = await response.text();
+            let json: unknown;
+            try {
+                json = text ? JSON.parse(text) : undefined;
+            } catch {
+                json = undefined;
+            }
+
+            if (!response.ok && !acceptedStatuses.includes(response.status)) {
+                const error = json && typeof json === "object" && "message" in json ? json as ApiError : undefined;
+                throw new OrchestratorApiError(response.status, error, getRetryAfterMs({ response }));
+            }
+            return json as T;
+        }, {
+            ...this.options.retry,
+            ...options.retry,
+            operationName: `${method} ${path}`,
+            signal: options.signal
+        });
+    }
+
+    /**
+     * Checks that the server is up and which integrations are connected
+     */
+    public getHealth(options?: RequestOptions): Promise<HealthResponse> {
+        return this.request("GET", "/health", undefined, options);
+    }
+
+    /**
+     * Checks whether a region has quota for a role
+     */
+    public validateQuota(query: QuotaEligibilityQuery, options?: RequestOptions): Promise<QuotaEligibilityResponse> {
+        return this.request("GET", `/api/quotas${toQueryString(query)}`, undefined, options);
+    }
+
+    /**
+     * Gets the quota figures of every region and SKU
+     * @param query Only include a region, or the SKUs assigned to a role
+     */
+    public getQuotaMatrix(query: QuotaMatrixQuery = {}, options?: RequestOptions): Promise<QuotaMatrixResponse> {
+        return this.request("GET", `/api/quotas/matrix${toQueryString(query)}`, undefined, options);
+    }
+
+    /**
+     * Summarizes a role's quota by region
+     */
+    public summarizeQuota(role: string, query: QuotaSummaryQuery = {}, options?: RequestOptions): Promise<QuotaSummaryResponse> {
+        return this.request("GET", `/api/quotas/summary/${encodeURIComponent(role)}${toQueryString(query)}`, undefined, options);
+    }
+
+    /**
+     * Summarizes quota by subscription
+     */
+    public summarizeSubscriptions(query: SubscriptionSummaryQuery = {}, options?: RequestOptions): Promise<SubscriptionSummaryResponse> {
+        return this.request("GET", `/api/quotas/subscriptions${toQueryString(query)}`, undefined, options);
+    }
+
+    /**
+     * Suggests a region to deploy a role in
+     */
+    public suggestRegion(role: string, options?: RequestOptions): Promise<RegionSuggestionResponse> {
+        return this.request("GET", `/api/quotas/suggestions/${encodeURIComponent(role)}`, undefined, options);
+    }
+
+    /**
+     * Recommends regions and SKUs for a role, best first
+     */
+    public getRecommendations(request: RecommendationRequest, options?: RequestOptions): Promise<RecommendationsResponse> {
+        return this.request("POST", "/api/quotas/recommendations", request, options);
+    }
+
+    /**
+     * Refreshes quota data from the engine's provider. Resolves with success false when
+     * the provider could not be reached, e.g. for lack of Azure credentials.
+     */
+    public refreshQuotas(options?: RequestOptions): Promise<QuotaRefreshResponse> {
+        return this.request("POST", "/api/quotas/refresh", undefined, options, [503]);
+    }
+
+    /**
+     * Checks the Besu endpoint configuration. Resolves with available false when Besu is
+     * not configured.
+     */
+    public getBesuStatus(options?: RequestOptions): Promise<BesuStatusResponse> {
+        return this.request("GET", "/api/besu/status", undefined, options, [503]);
+    }
+
+    /**
+     * Checks Azure connectivity
+     */
+    public getAzureStatus(options?: RequestOptions): Promise<AzureStatusResponse> {
+        return this.request("GET", "/api/azure/status", undefined, options);
+    }
+}
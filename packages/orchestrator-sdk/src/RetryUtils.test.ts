@@ -0,0 +1,45 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { executeWithRetry, getRetryAfterMs, isRetryableError } from "./RetryUtils";
+
+/**
+ * An error as thrown by HTTP clients for a response
+ */
+function httpError(status: number, retryAfter?: string): Error {
+    const headers = new Headers(retryAfter ? { "Retry-After": retryAfter } : {});
+    return Object.assign(new Error(`Request failed with status ${status}`), { response: { status, headers } });
+}
+
+describe("executeWithRetry", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should not retry client errors other than 408 and 429 by default", async () => {
+        expect(isRetryableError(httpError(503))).toBe(true);
+        expect(isRetryableError(httpError(408))).toBe(true);
+        expect(isRetryableError(httpError(429))).toBe(true);
+        expect(isRetryableError(httpError(404))).toBe(false);
+        expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+
+        const operation = vi.fn().mockRejectedValue(httpError(403));
+        await expect(executeWithRetry(operation, { initialDelayMs: 0 })).rejects.toThrow("status 403");
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait at least as long as the Retry-After header asks", async () => {
+        expect(getRetryAfterMs(httpError(429, "3"))).toBe(3000);
+        expect(getRetryAfterMs(httpError(429))).toBeUndefined();
+
+        vi.useFakeTimers();
+        const operation = vi.fn()
+            .mockRejectedValueOnce(httpError(503, "2"))
+            .mockResolvedValueOnce("ok");
+        const result = executeWithRetry(operation, { initialDelayMs: 10, useJitter: false });
+
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(operation).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe("ok");
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Options for retry operations, with the same meaning and defaults as
+ * orchestrator-core's executeWithRetry
+ */
+export interface RetryOptions {
+    /** Maximum number of retry attempts */
+    maxRetries?: number;
+    /** Initial delay in milliseconds before first retry */
+    initialDelayMs?: number;
+    /** Maximum delay in milliseconds */
+    maxDelayMs?: number;
+    /** Whether to use full jitter to randomize delay */
+    useJitter?: boolean;
+    /** Operation name for error messages */
+    operationName?: string;
+    /** Whether an error is worth retrying (default: isRetryableError) */
+    shouldRetry?: (error: Error) => boolean;
+    /** Cancels the operation, including a pending retry delay */
+    signal?: AbortSignal;
+}
+
+/**
+ * Default retry options
+ */
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'signal'>> = {
+    maxRetries: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 30000,
+    useJitter: true,
+    operationName: 'Unknown Operation',
+    shouldRetry: isRetryableError
+};
+
+/**
+ * Thrown when an operation is cancelled through its abort signal
+ */
+export class RequestCancelledError extends Error {
+    constructor(operationName: string) {
+        super(`Operation '${operationName}' was cancelled`);
+        this.name = "RequestCancelledError";
+    }
+}
+
+/**
+ * HTTP status of an error, as set by OrchestratorApiError and most HTTP clients
+ */
+function getStatusCode(error: unknown): number | undefined {
+    const candidate = error as { statusCode?: unknown; status?: unknown; response?: { status?: unknown } };
+    const status = candidate?.statusCode ?? candidate?.status ?? candidate?.response?.status;
+    return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Whether a response status may go away on its own: timeouts (408), rate limits (429)
+ * and server errors other than 501, which no retry fixes
+ * @param status HTTP status of a response
+ */
+export function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || (status >= 500 && status !== 501);
+}
+
+/**
+ * Classifies an error as transient. Errors that say whether they are, such as
+ * OrchestratorApiError, are taken at their word; other errors with a status are retried
+ * when isRetryableStatus says so. Cancellations are not retried, and errors without a
+ * status, such as network errors, are.
+ * @param error The error an attempt failed with
+ */
+export function isRetryableError(error: Error): boolean {
+    if (error instanceof RequestCancelledError) {
+        return false;
+    }
+
+    const retryable = (error as { retryable?: unknown }).retryable;
+    if (typeof retryable === "boolean") {
+        return retryable;
+    }
+
+    const status = getStatusCode(error);
+    return status === undefined || isRetryableStatus(status);
+}
+
+/**
+ * Reads how long a failed call asked to be left alone: a retryAfterMs property, or a
+ * Retry-After header (seconds or an HTTP date) of the error's response
+ * @param error The error an attempt failed with
+ * @returns The delay in milliseconds, or undefined if the error carries none
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+    const retryAfterMs = (error as { retryAfterMs?: unknown })?.retryAfterMs;
+    if (typeof retryAfterMs === "number") {
+        return retryAfterMs;
+    }
+
+    const headers = (error as { response?: { headers?: unknown } })?.response?.headers as
+        { get?: (name: string) => string | null | undefined } & Record<string, unknown> | undefined;
+    const header = typeof headers?.get === "function" ? headers.get("retry-after") : headers?.["retry-after"];
+    if (typeof header !== "string" || header.trim() === "") {
+        return undefined;
+    }
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(seconds * 1000, 0);
+    }
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Waits before the next attempt, stopping early when the signal aborts
+ */
+function delay(ms: number, signal: AbortSignal | undefined, operationName: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            return reject(new RequestCancelledError(operationName));
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestCancelledError(operationName));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Executes an operation with retry logic using exponential backoff. Retries wait at
+ * least as long as a failed call asked to (see getRetryAfterMs).
+ * @param operation Function to execute with retry
+ * @param options Retry configuration options
+ * @returns Result of the operation or throws after max retries, when the error is not
+ * worth retrying, or with a RequestCancelledError once the signal aborts
+ */
+export async function executeWithRetry<T>(
+    operation: () => Promise<T>,
+    options?: RetryOptions
+): Promise<T> {
+    const config = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+        if (config.signal?.aborted) {
+            throw new RequestCancelledError(config.operationName);
+        }
+
+        try {
+            return await operation();
+        } catch (error) {
+            if (config.signal?.aborted) {
+                throw new RequestCancelledError(config.operationName);
+            }
+
+            const err = error instanceof Error ? error : new Error(String(error));
+            lastError = err;
+
+            if (attempt >= config.maxRetries || !config.shouldRetry(err)) {
+                throw err;
+            }
+
+            // Calculate exponential backoff with optional jitter
+            let delayMs = Math.min(
+                config.initialDelayMs * Math.pow(2, attempt),
+                config.maxDelayMs
+            );
+
+            if (config.useJitter) {
+                // Apply full jitter: random delay between 0 and calculated delay
+                delayMs = Math.floor(Math.random() * delayMs);
+            }
+
+            // Never retry sooner than the server asked, e.g. with a Retry-After header
+            const retryAfterMs = getRetryAfterMs(err);
+            if (retryAfterMs !== undefined && retryAfterMs > delayMs) {
+                delayMs = retryAfterMs;
+            }
+
+            await delay(delayMs, config.signal, config.operationName);
+        }
+    }
+
+    throw lastError || new Error(`Operation '${config.operationName}' failed after multiple retries`);
+}
@@ -0,0 +1,9 @@
+/**
+ * Typed client for the orchestrator engine's REST API, for the front-end and for
+ * scripts and pipelines running in Node.js
+ */
+export * from "./ApiTypes";
+export { OrchestratorClient, OrchestratorApiError } from "./OrchestratorClient";
+export type { ClientCredentials, OrchestratorClientOptions, RequestOptions } from "./OrchestratorClient";
+export { executeWithRetry, getRetryAfterMs, isRetryableError, isRetryableStatus, RequestCancelledError } from "./RetryUtils";
+export type { RetryOptions } from "./RetryUtils";